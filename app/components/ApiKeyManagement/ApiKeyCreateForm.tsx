@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'motion/react';
+import { PlusIcon, Spinner } from '../ui/icons';
+import { ApiKeyScope } from '../../types';
+import type { CreateApiKeyInput } from '../../hooks/useApiKeys';
+import { EXPIRY_OPTIONS, daysFromNow } from './options';
+import ScopeSelector from './ScopeSelector';
+
+interface ApiKeyCreateFormProps {
+  onSubmit: (input: CreateApiKeyInput) => Promise<boolean>;
+  isProcessing: boolean;
+}
+
+export default function ApiKeyCreateForm({ onSubmit, isProcessing }: ApiKeyCreateFormProps) {
+  const [label, setLabel] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['upload']);
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (scopes.length === 0 || isSubmitting) return;
+
+    setIsSubmitting(true);
+    const success = await onSubmit({
+      label: label.trim(),
+      scopes,
+      expiresAt: daysFromNow(expiryDays),
+    });
+    setIsSubmitting(false);
+
+    if (success) {
+      setLabel('');
+      setScopes(['upload']);
+      setExpiryDays(0);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md p-6 border border-gray-100 dark:border-gray-700">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+        创建新 API Key
+      </h3>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="备注，例如：博客上传脚本"
+          maxLength={100}
+          className="w-full px-4 py-2.5 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-slate-700 text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 transition-all"
+          disabled={isProcessing}
+        />
+
+        <ScopeSelector value={scopes} onChange={setScopes} />
+
+        <div className="flex space-x-3">
+          <select
+            value={expiryDays}
+            onChange={(e) => setExpiryDays(Number(e.target.value))}
+            className="flex-1 px-4 py-2.5 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400"
+            disabled={isProcessing}
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+
+          <motion.button
+            type="submit"
+            disabled={scopes.length === 0 || isProcessing || isSubmitting}
+            className="flex items-center space-x-2 px-5 py-2.5 bg-linear-to-r from-indigo-500 to-purple-600 text-white rounded-lg hover:from-indigo-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            {isSubmitting ? (
+              <>
+                <Spinner className="h-4 w-4" />
+                <span>创建中...</span>
+              </>
+            ) : (
+              <>
+                <PlusIcon className="h-4 w-4" />
+                <span>创建 Key</span>
+              </>
+            )}
+          </motion.button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ApiKeyInfo, ApiKeyScope } from '../../types';
+import type { UpdateApiKeyInput } from '../../hooks/useApiKeys';
+import { Cross1Icon, Spinner, CheckIcon } from '../ui/icons';
+import { Pencil } from 'lucide-react';
+import ScopeSelector from './ScopeSelector';
+import { EXPIRY_OPTIONS, daysFromNow } from './options';
+
+// -1 表示保持当前过期时间不变
+const KEEP_EXPIRY = -1;
+
+interface ApiKeyEditModalProps {
+  apiKey: ApiKeyInfo | null;
+  isOpen: boolean;
+  isProcessing: boolean;
+  onClose: () => void;
+  onSubmit: (input: UpdateApiKeyInput) => void;
+}
+
+function ApiKeyEditModalContent({
+  apiKey,
+  isProcessing,
+  onClose,
+  onSubmit,
+}: {
+  apiKey: ApiKeyInfo;
+  isProcessing: boolean;
+  onClose: () => void;
+  onSubmit: (input: UpdateApiKeyInput) => void;
+}) {
+  const [label, setLabel] = useState(apiKey.label ?? '');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(apiKey.scopes);
+  const [expiryDays, setExpiryDays] = useState(KEEP_EXPIRY);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (scopes.length === 0) return;
+    onSubmit({
+      id: apiKey.id,
+      label: label.trim(),
+      scopes,
+      ...(expiryDays === KEEP_EXPIRY ? {} : { expiresAt: daysFromNow(expiryDays) }),
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+        className="bg-white dark:bg-slate-800 rounded-xl p-6 max-w-md w-full shadow-2xl border border-gray-200 dark:border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* 标题 */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="bg-indigo-100 dark:bg-indigo-900/30 p-2.5 rounded-full">
+              <Pencil className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+            </div>
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              编辑 API Key
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <Cross1Icon className="h-5 w-5 text-gray-500" />
+          </button>
+        </div>
+
+        {/* 表单 */}
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              备注
+            </label>
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              maxLength={100}
+              className="w-full px-4 py-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400 transition-all"
+              disabled={isProcessing}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              权限范围
+            </label>
+            <ScopeSelector value={scopes} onChange={setScopes} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              过期时间
+            </label>
+            <select
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(Number(e.target.value))}
+              className="w-full px-4 py-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400"
+              disabled={isProcessing}
+            >
+              <option value={KEEP_EXPIRY}>保持不变</option>
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.value > 0 ? `从现在起 ${option.label}` : option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 按钮 */}
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2.5 rounded-lg border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              disabled={isProcessing}
+            >
+              取消
+            </button>
+            <motion.button
+              type="submit"
+              disabled={scopes.length === 0 || isProcessing}
+              className="flex items-center space-x-2 px-4 py-2.5 bg-linear-to-r from-indigo-500 to-purple-600 text-white rounded-lg hover:from-indigo-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              {isProcessing ? (
+                <>
+                  <Spinner className="h-4 w-4" />
+                  <span>保存中...</span>
+                </>
+              ) : (
+                <>
+                  <CheckIcon className="h-4 w-4" />
+                  <span>保存</span>
+                </>
+              )}
+            </motion.button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
+
+export default function ApiKeyEditModal({ apiKey, isOpen, isProcessing, onClose, onSubmit }: ApiKeyEditModalProps) {
+  return (
+    <AnimatePresence>
+      {isOpen && apiKey && (
+        <ApiKeyEditModalContent
+          key={apiKey.id}
+          apiKey={apiKey}
+          isProcessing={isProcessing}
+          onClose={onClose}
+          onSubmit={onSubmit}
+        />
+      )}
+    </AnimatePresence>
+  );
+}
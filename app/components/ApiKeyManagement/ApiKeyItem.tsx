@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { ApiKeyInfo } from '../../types';
+import { ReloadIcon, TrashIcon } from '../ui/icons';
+import { Pencil } from 'lucide-react';
+import { SCOPE_LABELS } from './options';
+
+interface ApiKeyItemProps {
+  apiKey: ApiKeyInfo;
+  isCurrent: boolean;
+  onEdit: () => void;
+  onRotate: () => void;
+  onRevoke: () => void;
+}
+
+function formatTime(value: string | null, fallback: string): string {
+  if (!value) return fallback;
+  return new Date(value).toLocaleString('zh-CN', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function ApiKeyItem({ apiKey, isCurrent, onEdit, onRotate, onRevoke }: ApiKeyItemProps) {
+  const [now] = useState(() => Date.now());
+  const isExpired = !!apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= now;
+
+  return (
+    <div className="flex items-start px-4 py-3 hover:bg-gray-50 dark:hover:bg-slate-700/30 transition-colors">
+      <div className="flex-1 min-w-0 space-y-1.5">
+        <div className="flex items-center flex-wrap gap-2">
+          <span className="font-medium text-gray-900 dark:text-white truncate">
+            {apiKey.label || '未命名'}
+          </span>
+          <code className="text-xs px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+            {apiKey.keyPreview}
+          </code>
+          {isCurrent && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">
+              当前使用
+            </span>
+          )}
+          {apiKey.replacedBy !== null && !isExpired && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+              已轮换，宽限期中
+            </span>
+          )}
+          {isExpired && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+              已过期
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-1.5">
+          {apiKey.scopes.map((scope) => (
+            <span
+              key={scope}
+              className="bg-linear-to-r from-indigo-500 to-purple-500 text-white px-2.5 py-0.5 rounded-full text-xs font-medium"
+            >
+              {SCOPE_LABELS[scope]}
+            </span>
+          ))}
+        </div>
+
+        <div className="text-xs text-gray-500 dark:text-gray-400 space-x-3">
+          <span>创建于 {formatTime(apiKey.createdAt, '-')}</span>
+          <span>最近使用 {formatTime(apiKey.lastUsedAt, '从未使用')}</span>
+          <span>过期 {formatTime(apiKey.expiresAt, '永不')}</span>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-1 ml-3">
+        <button
+          onClick={onEdit}
+          className="p-1.5 rounded-lg text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-colors"
+          title="编辑"
+        >
+          <Pencil className="h-4 w-4" />
+        </button>
+        <button
+          onClick={onRotate}
+          disabled={apiKey.replacedBy !== null || isExpired}
+          className="p-1.5 rounded-lg text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+          title="轮换"
+        >
+          <ReloadIcon className="h-4 w-4" />
+        </button>
+        <button
+          onClick={onRevoke}
+          disabled={isCurrent}
+          className="p-1.5 rounded-lg text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+          title={isCurrent ? '不能撤销当前使用的 Key' : '撤销'}
+        >
+          <TrashIcon className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { ApiKeyInfo } from '../../types';
+import { ReloadIcon, Spinner } from '../ui/icons';
+import { GRACE_OPTIONS } from './options';
+
+interface ApiKeyRotateConfirmProps {
+  apiKey: ApiKeyInfo | null;
+  // 当前使用的 Key 不能立即失效
+  isCurrent: boolean;
+  isProcessing: boolean;
+  onCancel: () => void;
+  onConfirm: (graceMinutes: number) => void;
+}
+
+export default function ApiKeyRotateConfirm({
+  apiKey,
+  isCurrent,
+  isProcessing,
+  onCancel,
+  onConfirm,
+}: ApiKeyRotateConfirmProps) {
+  const [graceMinutes, setGraceMinutes] = useState(GRACE_OPTIONS[1].value);
+
+  return (
+    <AnimatePresence>
+      {apiKey && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+          onClick={onCancel}
+        >
+          <motion.div
+            initial={{ scale: 0.9, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.9, y: 20 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+            className="bg-white dark:bg-slate-800 rounded-xl p-6 max-w-md w-full shadow-2xl border border-gray-200 dark:border-gray-700"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-center mb-4">
+              <div className="bg-indigo-100 dark:bg-indigo-900/30 p-4 rounded-full">
+                <ReloadIcon className="h-8 w-8 text-indigo-600 dark:text-indigo-400" />
+              </div>
+            </div>
+
+            <div className="text-center mb-6">
+              <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-2">
+                轮换 API Key
+              </h3>
+              <p className="text-gray-600 dark:text-gray-300">
+                将为 <span className="font-semibold">{apiKey.label || apiKey.keyPreview}</span> 生成一个权限相同的新 Key。
+                宽限期内新旧 Key 同时有效，之后旧 Key 自动失效。
+              </p>
+            </div>
+
+            <select
+              value={graceMinutes}
+              onChange={(e) => setGraceMinutes(Number(e.target.value))}
+              className="w-full mb-6 px-4 py-2.5 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-slate-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 dark:focus:ring-indigo-400"
+              disabled={isProcessing}
+            >
+              {GRACE_OPTIONS.filter((option) => !isCurrent || option.value > 0).map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.value > 0 ? `宽限期 ${option.label}` : option.label}
+                </option>
+              ))}
+            </select>
+
+            <div className="flex space-x-3">
+              <button
+                onClick={onCancel}
+                disabled={isProcessing}
+                className="flex-1 px-4 py-2.5 rounded-lg border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                onClick={() => onConfirm(graceMinutes)}
+                disabled={isProcessing}
+                className="flex-1 flex items-center justify-center space-x-2 px-4 py-2.5 bg-linear-to-r from-indigo-500 to-purple-600 text-white rounded-lg hover:from-indigo-600 hover:to-purple-700 disabled:opacity-50 transition-all"
+              >
+                {isProcessing ? <Spinner className="h-4 w-4" /> : <ReloadIcon className="h-4 w-4" />}
+                <span>轮换</span>
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import { ApiKeyScope } from '../../types';
+import { SCOPE_OPTIONS } from './options';
+
+interface ScopeSelectorProps {
+  value: ApiKeyScope[];
+  onChange: (scopes: ApiKeyScope[]) => void;
+}
+
+export default function ScopeSelector({ value, onChange }: ScopeSelectorProps) {
+  const toggleScope = (scope: ApiKeyScope) => {
+    onChange(value.includes(scope) ? value.filter((s) => s !== scope) : [...value, scope]);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {SCOPE_OPTIONS.map((option) => {
+        const isActive = value.includes(option.value);
+        return (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => toggleScope(option.value)}
+            title={option.description}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+              isActive
+                ? 'bg-indigo-500 border-indigo-500 text-white'
+                : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-indigo-400'
+            }`}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
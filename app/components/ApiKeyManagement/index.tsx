@@ -0,0 +1,230 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { useApiKeys, CreateApiKeyInput, UpdateApiKeyInput } from '../../hooks/useApiKeys';
+import ApiKeyCreateForm from './ApiKeyCreateForm';
+import ApiKeyItem from './ApiKeyItem';
+import ApiKeyEditModal from './ApiKeyEditModal';
+import ApiKeyRotateConfirm from './ApiKeyRotateConfirm';
+import { showToast } from '../ToastContainer';
+import { ApiKeyInfo } from '../../types';
+import { copyToClipboard } from '../../utils/clipboard';
+import { setApiKey } from '../../utils/auth';
+import { CopyIcon, ExclamationTriangleIcon, Spinner } from '../ui/icons';
+
+export default function ApiKeyManagement() {
+  const {
+    keys,
+    currentKeyId,
+    isLoading,
+    error,
+    refetch,
+    createKey,
+    updateKey,
+    rotateKey,
+    revokeKey,
+    isCreating,
+    isUpdating,
+    isRotating,
+    isRevoking,
+  } = useApiKeys();
+
+  // 新建 Key 的明文只在创建后显示一次
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [revokingKey, setRevokingKey] = useState<ApiKeyInfo | null>(null);
+  const [editingKey, setEditingKey] = useState<ApiKeyInfo | null>(null);
+  const [rotatingKey, setRotatingKey] = useState<ApiKeyInfo | null>(null);
+
+  const handleCreate = async (input: CreateApiKeyInput) => {
+    try {
+      const response = await createKey(input);
+      setCreatedSecret(response.key);
+      showToast('API Key 创建成功', 'success');
+      return true;
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'API Key 创建失败', 'error');
+      return false;
+    }
+  };
+
+  const handleUpdate = async (input: UpdateApiKeyInput) => {
+    try {
+      await updateKey(input);
+      showToast('API Key 已更新', 'success');
+      setEditingKey(null);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : '更新失败', 'error');
+    }
+  };
+
+  const handleRotate = async (graceMinutes: number) => {
+    if (!rotatingKey) return;
+    try {
+      const response = await rotateKey({ id: rotatingKey.id, graceMinutes });
+      setCreatedSecret(response.key);
+      // 轮换的是当前使用的 Key 时，本地自动切换到新 Key
+      if (rotatingKey.id === currentKeyId) {
+        setApiKey(response.key);
+        await refetch();
+      }
+      showToast('API Key 已轮换', 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : '轮换失败', 'error');
+    } finally {
+      setRotatingKey(null);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokingKey) return;
+    try {
+      await revokeKey(revokingKey.id);
+      showToast('API Key 已撤销', 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : '撤销失败', 'error');
+    } finally {
+      setRevokingKey(null);
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!createdSecret) return;
+    const success = await copyToClipboard(createdSecret);
+    showToast(success ? '已复制到剪贴板' : '复制失败', success ? 'success' : 'error');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Spinner className="h-12 w-12 text-indigo-500" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="p-4 rounded-xl bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border border-red-200 dark:border-red-800"
+      >
+        {error.toLowerCase().includes('forbidden') ? '当前 API Key 没有管理权限' : error}
+        <button
+          onClick={() => refetch()}
+          className="ml-2 underline hover:no-underline"
+        >
+          重试
+        </button>
+      </motion.div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <ApiKeyCreateForm onSubmit={handleCreate} isProcessing={isCreating} />
+
+      {/* 新建 Key 明文，仅显示一次 */}
+      <AnimatePresence>
+        {createdSecret && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="p-4 bg-amber-50 dark:bg-amber-900/20 rounded-xl border border-amber-200 dark:border-amber-800 space-y-3"
+          >
+            <div className="flex items-center text-sm text-amber-700 dark:text-amber-300">
+              <ExclamationTriangleIcon className="h-4 w-4 mr-2 shrink-0" />
+              请立即复制并妥善保存，关闭后将无法再次查看完整的 Key
+            </div>
+            <div className="flex items-center space-x-2">
+              <code className="flex-1 px-3 py-2 rounded-lg bg-white dark:bg-slate-700 text-sm text-gray-900 dark:text-white break-all">
+                {createdSecret}
+              </code>
+              <button
+                onClick={handleCopySecret}
+                className="p-2 rounded-lg text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+                title="复制"
+              >
+                <CopyIcon className="h-4 w-4" />
+              </button>
+            </div>
+            <button
+              onClick={() => setCreatedSecret(null)}
+              className="text-sm text-amber-700 dark:text-amber-300 underline hover:no-underline"
+            >
+              我已保存
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* 撤销确认 */}
+      <AnimatePresence>
+        {revokingKey && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="flex items-center justify-between p-4 bg-red-50 dark:bg-red-900/20 rounded-xl border border-red-200 dark:border-red-800"
+          >
+            <span className="text-red-700 dark:text-red-300 text-sm font-medium">
+              确定撤销 “{revokingKey.label || revokingKey.keyPreview}” 吗？使用该 Key 的客户端将立即失效
+            </span>
+            <div className="flex space-x-2 shrink-0 ml-3">
+              <button
+                onClick={() => setRevokingKey(null)}
+                disabled={isRevoking}
+                className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                取消
+              </button>
+              <button
+                onClick={handleRevoke}
+                disabled={isRevoking}
+                className="flex items-center px-3 py-1.5 text-sm bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors"
+              >
+                {isRevoking && <Spinner className="h-4 w-4 mr-1.5" />}
+                撤销
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Key 列表 */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md border border-gray-100 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+        {keys.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 dark:text-gray-400">暂无 API Key</div>
+        ) : (
+          keys.map((key) => (
+            <ApiKeyItem
+              key={key.id}
+              apiKey={key}
+              isCurrent={key.id === currentKeyId}
+              onEdit={() => setEditingKey(key)}
+              onRotate={() => setRotatingKey(key)}
+              onRevoke={() => setRevokingKey(key)}
+            />
+          ))
+        )}
+      </div>
+
+      <ApiKeyEditModal
+        apiKey={editingKey}
+        isOpen={!!editingKey}
+        isProcessing={isUpdating}
+        onClose={() => setEditingKey(null)}
+        onSubmit={handleUpdate}
+      />
+
+      <ApiKeyRotateConfirm
+        apiKey={rotatingKey}
+        isCurrent={rotatingKey?.id === currentKeyId}
+        isProcessing={isRotating}
+        onCancel={() => setRotatingKey(null)}
+        onConfirm={handleRotate}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { ApiKeyScope } from '../../types';
+
+export const SCOPE_OPTIONS: { value: ApiKeyScope; label: string; description: string }[] = [
+  { value: 'upload', label: '上传', description: '上传图片、编辑图片信息和标签' },
+  { value: 'read', label: '读取', description: '浏览图片列表、标签和配置' },
+  { value: 'delete', label: '删除', description: '删除图片和标签' },
+  { value: 'admin', label: '管理', description: '全部权限，包括管理 API Key' },
+];
+
+export const SCOPE_LABELS: Record<ApiKeyScope, string> = Object.fromEntries(
+  SCOPE_OPTIONS.map((option) => [option.value, option.label])
+) as Record<ApiKeyScope, string>;
+
+// 过期时间选项（天），0 表示永不过期
+export const EXPIRY_OPTIONS = [
+  { value: 0, label: '永不过期' },
+  { value: 7, label: '7 天' },
+  { value: 30, label: '30 天' },
+  { value: 90, label: '90 天' },
+  { value: 365, label: '1 年' },
+];
+
+// 轮换宽限期选项（分钟），宽限期内新旧 Key 同时有效
+export const GRACE_OPTIONS = [
+  { value: 0, label: '旧 Key 立即失效' },
+  { value: 60, label: '1 小时' },
+  { value: 24 * 60, label: '24 小时' },
+  { value: 7 * 24 * 60, label: '7 天' },
+];
+
+export function daysFromNow(days: number): string | null {
+  return days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null;
+}
@@ -4,7 +4,7 @@ import Link from 'next/link'
 import { useTheme } from '../hooks/useTheme'
 import { usePathname } from 'next/navigation'
 import { motion } from 'motion/react'
-import { ImageIcon, HamburgerMenuIcon, LockClosedIcon, SunIcon, MoonIcon, TagIcon, Link2Icon } from './ui/icons'
+import { ImageIcon, HamburgerMenuIcon, LockClosedIcon, SunIcon, MoonIcon, TagIcon, Link2Icon, ShieldIcon, LayersIcon, DownloadIcon } from './ui/icons'
 import { useQueryClient } from '@tanstack/react-query'
 import { queryKeys } from '../lib/queryKeys'
 import type { ImageListResponse } from '../types'
@@ -14,11 +14,13 @@ interface HeaderProps {
   onApiKeyClick: () => void
   onTagManageClick?: () => void
   onRandomApiClick?: () => void
+  onNearDuplicatesClick?: () => void
+  onExportClick?: () => void
   title?: string
   isKeyVerified?: boolean
 }
 
-export default function Header({ onApiKeyClick, onTagManageClick, onRandomApiClick, title, isKeyVerified = false }: HeaderProps) {
+export default function Header({ onApiKeyClick, onTagManageClick, onRandomApiClick, onNearDuplicatesClick, onExportClick, title, isKeyVerified = false }: HeaderProps) {
   const { isDarkMode, toggleTheme } = useTheme()
   const pathname = usePathname()
   const queryClient = useQueryClient()
@@ -26,6 +28,7 @@ export default function Header({ onApiKeyClick, onTagManageClick, onRandomApiCli
   const getTitle = () => {
     if (title) return title
     if (pathname === '/manage') return '图片管理'
+    if (pathname === '/manage/keys') return 'API Key 管理'
     return 'CattoPic'
   }
 
@@ -43,14 +46,14 @@ export default function Header({ onApiKeyClick, onTagManageClick, onRandomApiCli
       </div>
 
       <div className="flex items-center space-x-2">
-        {!pathname?.startsWith('/manage') && (
+        {pathname !== '/manage' && (
           <Link
             href="/manage"
             className="btn-icon"
             onClick={() => {
               // Warm up Manage page list without clearing existing cache (avoid loading spinner).
               void queryClient.prefetchInfiniteQuery({
-                queryKey: queryKeys.images.list({ tag: '', orientation: '', format: 'all', limit: 60 }),
+                queryKey: queryKeys.images.list({ tag: '', orientation: '', format: 'all', color: '', limit: 60 }),
                 initialPageParam: 1,
                 queryFn: async ({ pageParam = 1 }) => {
                   const params: Record<string, string> = {
@@ -83,6 +86,24 @@ export default function Header({ onApiKeyClick, onTagManageClick, onRandomApiCli
           </button>
         )}
 
+        {pathname === '/manage' && onNearDuplicatesClick && (
+          <button onClick={onNearDuplicatesClick} className="btn-icon" title="相似图片检查">
+            <LayersIcon className="h-6 w-6" />
+          </button>
+        )}
+
+        {pathname === '/manage' && onExportClick && (
+          <button onClick={onExportClick} className="btn-icon" title="导出图库">
+            <DownloadIcon className="h-6 w-6" />
+          </button>
+        )}
+
+        {pathname === '/manage' && (
+          <Link href="/manage/keys" className="btn-icon" title="API Key 管理">
+            <ShieldIcon className="h-6 w-6" />
+          </Link>
+        )}
+
         <button onClick={onApiKeyClick} className="btn-icon relative">
           <LockClosedIcon className="h-6 w-6" />
 
@@ -5,9 +5,9 @@ import React, { useState, useCallback, useRef, useMemo } from "react";
 import { motion } from 'motion/react';
 import { ImageFile } from "../types";
 import { getFullUrl } from "../utils/baseUrl";
-import { toCdnCgiImageUrl } from "../utils/cdnImage";
 import { LoadingSpinner } from "./LoadingSpinner";
-import { getFormatLabel, getOrientationLabel } from "../utils/imageUtils";
+import { getFormatLabel, getOrientationLabel, getThumbnailUrl } from "../utils/imageUtils";
+import { thumbHashToDataUrl } from "../utils/thumbHash";
 import ContextMenu, { ContextMenuGroup } from "./ContextMenu";
 import { showToast } from "./ToastContainer";
 import {
@@ -77,15 +77,21 @@ const ImageCard = React.memo(function ImageCard({
     return getFallbackAspectRatio(image.orientation);
   }, [image.width, image.height, image.orientation]);
 
-  const imageSrc = useMemo(() => {
-    const base = getFullUrl(image.urls?.webp || image.urls?.original || '');
-    if (!base || isGif) return base;
+  // Request a resized thumbnail for smoother scrolling (less decode + bandwidth).
+  const imageSrc = useMemo(
+    () => getThumbnailUrl({ format: image.format, urls: image.urls, variants: image.variants, visibility: image.visibility }, displayWidth),
+    [displayWidth, image.format, image.urls, image.variants, image.visibility]
+  );
 
-    // Request a resized thumbnail for smoother scrolling (less decode + bandwidth).
-    // Use 2x to keep it crisp on high-DPI displays.
-    const requestWidth = Math.max(1, Math.ceil(displayWidth * 2));
-    return toCdnCgiImageUrl(base, { width: requestWidth, quality: 75, format: 'auto', fit: 'scale-down' });
-  }, [displayWidth, image.urls, isGif]);
+  // 加载占位：优先 ThumbHash 模糊图，其次平均色
+  const placeholderStyle = useMemo<React.CSSProperties>(() => {
+    const thumbHashUrl = image.thumbHash ? thumbHashToDataUrl(image.thumbHash) : null;
+    return {
+      backgroundColor: image.averageColor,
+      ...(thumbHashUrl ? { backgroundImage: `url(${thumbHashUrl})`, backgroundSize: "cover", backgroundPosition: "center" } : {}),
+    };
+  }, [image.thumbHash, image.averageColor]);
+  const hasPlaceholder = !!(image.thumbHash || image.averageColor);
 
   const handleOpen = useCallback(() => {
     onClick(image);
@@ -260,8 +266,10 @@ const ImageCard = React.memo(function ImageCard({
         onContextMenu={handleContextMenu}
       >
         <div
-          className="relative overflow-hidden bg-gradient-to-br from-gray-100 to-gray-50 dark:from-gray-900 dark:to-gray-800 w-full"
-          style={{ aspectRatio }}
+          className={`relative overflow-hidden w-full ${
+            hasPlaceholder ? "" : "bg-gradient-to-br from-gray-100 to-gray-50 dark:from-gray-900 dark:to-gray-800"
+          }`}
+          style={{ aspectRatio, ...placeholderStyle }}
         >
           {isGif ? (
             // Use img tag for GIFs to ensure animation plays
@@ -290,7 +298,8 @@ const ImageCard = React.memo(function ImageCard({
             />
           )}
 
-          {isLoading && <LoadingSpinner />}
+          {/* 有占位图时不再叠加加载动画 */}
+          {isLoading && !image.thumbHash && <LoadingSpinner />}
 
           {/* Image info overlay */}
           <div
@@ -1,11 +1,65 @@
 'use client'
 
 import { ImageData } from '../../types/image'
+import { ImageExif } from '../../types'
+import { formatExposureTime, formatTakenAt } from '../../utils/imageUtils'
 
 interface ImageInfoProps {
   image: ImageData
 }
 
+// 拍摄信息：相机、镜头、曝光参数、拍摄时间和位置，没有记录的项不显示
+export function ExifDetails({ exif }: { exif?: ImageExif }) {
+  if (!exif) return null
+
+  // 型号通常已包含厂商名（如 "Canon EOS R5"），避免重复
+  const camera = exif.make && exif.model && !exif.model.startsWith(exif.make)
+    ? `${exif.make} ${exif.model}`
+    : exif.model || exif.make
+  const settings = [
+    exif.fNumber && `f/${Number(exif.fNumber.toFixed(1))}`,
+    exif.exposureTime && formatExposureTime(exif.exposureTime),
+    exif.iso && `ISO ${exif.iso}`,
+    exif.focalLength && `${Number(exif.focalLength.toFixed(1))}mm`,
+  ].filter(Boolean).join(' · ')
+  const hasLocation = exif.latitude !== undefined && exif.longitude !== undefined
+
+  const rows = [
+    camera && { label: '相机', value: camera },
+    exif.lens && { label: '镜头', value: exif.lens },
+    settings && { label: '参数', value: settings },
+    exif.takenAt && { label: '拍摄时间', value: formatTakenAt(exif.takenAt) },
+  ].filter(Boolean) as Array<{ label: string; value: string }>
+
+  if (rows.length === 0 && !hasLocation) return null
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-xs">
+      {rows.map(row => (
+        <div key={row.label} className="contents">
+          <dt className="text-gray-500 dark:text-gray-400">{row.label}</dt>
+          <dd className="text-gray-800 dark:text-gray-200 break-words">{row.value}</dd>
+        </div>
+      ))}
+      {hasLocation && (
+        <div className="contents">
+          <dt className="text-gray-500 dark:text-gray-400">位置</dt>
+          <dd>
+            <a
+              href={`https://www.openstreetmap.org/?mlat=${exif.latitude}&mlon=${exif.longitude}#map=15/${exif.latitude}/${exif.longitude}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {exif.latitude!.toFixed(5)}, {exif.longitude!.toFixed(5)}
+            </a>
+          </dd>
+        </div>
+      )}
+    </dl>
+  )
+}
+
 export function ImageInfo({ image }: ImageInfoProps) {
   return (
     <div className="mb-6">
@@ -33,6 +87,12 @@ export function ImageInfo({ image }: ImageInfoProps) {
           </div>
         )}
       </div>
+
+      {image.exif && (
+        <div className="mt-4">
+          <ExifDetails exif={image.exif} />
+        </div>
+      )}
     </div>
   )
 } 
\ No newline at end of file
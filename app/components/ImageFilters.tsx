@@ -2,12 +2,29 @@ import { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import { ImageFiltersProps } from "../types";
 import { motion, AnimatePresence } from 'motion/react';
 import { api } from "../utils/request";
-import { ChevronDownIcon, MagnifyingGlassIcon, MixerHorizontalIcon } from "./ui/icons";
+import { CheckIcon, ChevronDownIcon, MagnifyingGlassIcon, MixerHorizontalIcon } from "./ui/icons";
+
+// 颜色筛选的预设色板，匹配主色调与所选颜色相近的图片
+const COLOR_SWATCHES = [
+  { value: "#e53935", label: "红色" },
+  { value: "#fb8c00", label: "橙色" },
+  { value: "#fdd835", label: "黄色" },
+  { value: "#43a047", label: "绿色" },
+  { value: "#00acc1", label: "青色" },
+  { value: "#1e88e5", label: "蓝色" },
+  { value: "#8e24aa", label: "紫色" },
+  { value: "#ec407a", label: "粉色" },
+  { value: "#795548", label: "棕色" },
+  { value: "#9e9e9e", label: "灰色" },
+  { value: "#000000", label: "黑色" },
+  { value: "#ffffff", label: "白色" },
+];
 
 export default function ImageFilters({ onFilterChange }: ImageFiltersProps) {
   const [format, setFormat] = useState("all");
   const [orientation, setOrientation] = useState("all");
   const [tag, setTag] = useState("");
+  const [color, setColor] = useState("");
   const [availableTags, setAvailableTags] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
@@ -77,19 +94,23 @@ export default function ImageFilters({ onFilterChange }: ImageFiltersProps) {
     switch (type) {
       case "format":
         setFormat(value);
-        onFilterChange(value, orientation, tag);
+        onFilterChange(value, orientation, tag, color);
         break;
       case "orientation":
         setOrientation(value);
-        onFilterChange(format, value, tag);
+        onFilterChange(format, value, tag, color);
         break;
       case "tag":
         setTag(value);
-        onFilterChange(format, orientation, value);
+        onFilterChange(format, orientation, value, color);
+        break;
+      case "color":
+        setColor(value);
+        onFilterChange(format, orientation, tag, value);
         break;
     }
     setActiveDropdown(null);
-  }, [format, orientation, tag, onFilterChange]);
+  }, [format, orientation, tag, color, onFilterChange]);
 
   const filteredTags = useMemo(() => 
     searchQuery.trim() === ""
@@ -235,6 +256,39 @@ export default function ImageFilters({ onFilterChange }: ImageFiltersProps) {
               {renderFilterOption("format")}
               {renderFilterOption("orientation")}
               {renderFilterOption("tag")}
+
+              <div className="pt-1">
+                <div className="flex items-center justify-between mb-2 px-1">
+                  <span className="text-xs font-medium text-slate-500 dark:text-gray-400">主色调</span>
+                  {color && (
+                    <button
+                      onClick={() => handleFilterChange("color", "")}
+                      className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                    >
+                      清除
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-6 gap-2">
+                  {COLOR_SWATCHES.map(swatch => (
+                    <button
+                      key={swatch.value}
+                      onClick={() => handleFilterChange("color", color === swatch.value ? "" : swatch.value)}
+                      title={swatch.label}
+                      aria-label={swatch.label}
+                      aria-pressed={color === swatch.value}
+                      className={`h-8 rounded-lg flex items-center justify-center ring-1 ring-black/10 dark:ring-white/10 transition-transform hover:scale-110 ${
+                        color === swatch.value ? "ring-2 ring-indigo-500 dark:ring-indigo-400 ring-offset-2 ring-offset-white dark:ring-offset-gray-900" : ""
+                      }`}
+                      style={{ backgroundColor: swatch.value }}
+                    >
+                      {color === swatch.value && (
+                        <CheckIcon className={`h-4 w-4 ${swatch.value === "#ffffff" || swatch.value === "#fdd835" ? "text-gray-800" : "text-white"}`} />
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
           </motion.div>
         )}
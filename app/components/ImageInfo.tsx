@@ -1,6 +1,7 @@
 import { ImageFile } from "../types";
 import { ImageData } from "../types/image";
 import { getFormatLabel, getOrientationLabel, formatFileSize } from "../utils/imageUtils";
+import { ExifDetails } from "./ImageDetail/ImageInfo";
 
 type ImageType = ImageFile | (ImageData & { status: 'success' });
 
@@ -46,6 +47,18 @@ export const ImageInfo = ({ image }: ImageInfoProps) => {
       text: 'text-amber-700 dark:text-amber-300',
       border: 'border-amber-200 dark:border-amber-800'
     },
+    image.visibility === 'private' && {
+      label: '私有',
+      bg: 'bg-rose-100 dark:bg-rose-900/40',
+      text: 'text-rose-700 dark:text-rose-300',
+      border: 'border-rose-200 dark:border-rose-800'
+    },
+    image.metadataStripped && {
+      label: '已移除元数据',
+      bg: 'bg-slate-100 dark:bg-slate-800/60',
+      text: 'text-slate-700 dark:text-slate-300',
+      border: 'border-slate-200 dark:border-slate-700'
+    },
   ].filter(Boolean) as Array<{ label: string; bg: string; text: string; border: string }>;
 
   return (
@@ -88,6 +101,9 @@ export const ImageInfo = ({ image }: ImageInfoProps) => {
           </div>
         </div>
       )}
+
+      {/* 拍摄信息（EXIF/XMP） */}
+      <ExifDetails exif={image.exif} />
     </div>
   );
 };
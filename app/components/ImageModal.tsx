@@ -7,7 +7,10 @@ import { ImageData } from "../types/image";
 import { ImageInfo } from "./ImageInfo";
 import { ImageUrls } from "./ImageUrls";
 import { DeleteConfirm } from "./DeleteConfirm";
-import { Cross1Icon, TrashIcon } from "./ui/icons";
+import SimilarImages from "./SimilarImages";
+import { showToast } from "./ToastContainer";
+import { useUpdateImage } from "../hooks/useImages";
+import { Cross1Icon, TrashIcon, LockIcon, GlobeIcon, Spinner } from "./ui/icons";
 
 // 统一的图片类型，可以接受管理界面和上传界面的两种不同图片对象
 type ImageType = ImageFile | (ImageData & { status: 'success' });
@@ -17,11 +20,16 @@ interface ImageModalProps {
   isOpen: boolean;
   onClose: () => void;
   onDelete?: (id: string) => Promise<void>;
+  // 图片被修改（如切换可见性）后回传最新数据
+  onUpdate?: (image: ImageFile) => void;
+  // 提供时显示相似图片条，点击后切换到所选图片
+  onSelectImage?: (image: ImageFile) => void;
 }
 
-export default function ImageModal({ image, isOpen, onClose, onDelete }: ImageModalProps) {
+export default function ImageModal({ image, isOpen, onClose, onDelete, onUpdate, onSelectImage }: ImageModalProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const updateImageMutation = useUpdateImage();
 
   const handleClose = () => {
     setShowDeleteConfirm(false);
@@ -42,10 +50,24 @@ export default function ImageModal({ image, isOpen, onClose, onDelete }: ImageMo
     });
   };
 
+  const handleToggleVisibility = async () => {
+    if (!image || !image.id) return;
+    const visibility = image.visibility === 'private' ? 'public' : 'private';
+    try {
+      const updated = await updateImageMutation.mutateAsync({ id: image.id, data: { visibility } });
+      onUpdate?.(updated);
+      showToast(visibility === 'private' ? '已设为私有' : '已设为公开', 'success');
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : '修改可见性失败', 'error');
+    }
+  };
+
   if (!image) return null;
 
   // 判断是否有可删除的功能
   const canDelete = onDelete && image.id;
+  // 仅管理界面（可回传更新）支持切换可见性
+  const canToggleVisibility = !!onUpdate && !!image.id && !showDeleteConfirm;
 
   return (
     <AnimatePresence>
@@ -105,6 +127,17 @@ export default function ImageModal({ image, isOpen, onClose, onDelete }: ImageMo
                 </div>
                 <ImageUrls image={image} />
               </div>
+
+              {/* 相似图片 */}
+              {onSelectImage && image.id && (
+                <div className="px-6 pb-5">
+                  <div className="flex items-center gap-2 mb-3">
+                    <div className="w-1 h-5 rounded-full bg-gradient-to-b from-sky-500 to-indigo-500" />
+                    <h4 className="text-sm font-semibold text-gray-900 dark:text-white">相似图片</h4>
+                  </div>
+                  <SimilarImages imageId={image.id} onSelect={onSelectImage} />
+                </div>
+              )}
             </div>
 
             {/* 底部操作区域 */}
@@ -131,12 +164,32 @@ export default function ImageModal({ image, isOpen, onClose, onDelete }: ImageMo
 
               {(!canDelete || !showDeleteConfirm) && <div />}
 
-              <button
-                onClick={handleClose}
-                className="px-5 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
-              >
-                关闭
-              </button>
+              <div className="flex items-center gap-2">
+                {canToggleVisibility && (
+                  <button
+                    onClick={handleToggleVisibility}
+                    disabled={updateImageMutation.isPending}
+                    className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                    title={image.visibility === 'private' ? '移回公开目录，可通过原链接直接访问' : '移入私有目录，仅能通过签名链接访问'}
+                  >
+                    {updateImageMutation.isPending ? (
+                      <Spinner className="h-4 w-4" />
+                    ) : image.visibility === 'private' ? (
+                      <GlobeIcon className="h-4 w-4" />
+                    ) : (
+                      <LockIcon className="h-4 w-4" />
+                    )}
+                    {image.visibility === 'private' ? '设为公开' : '设为私有'}
+                  </button>
+                )}
+
+                <button
+                  onClick={handleClose}
+                  className="px-5 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                >
+                  关闭
+                </button>
+              </div>
             </div>
           </motion.div>
         </motion.div>
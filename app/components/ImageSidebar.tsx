@@ -163,9 +163,15 @@ const ImageSidebar = React.memo(function ImageSidebar({
               </div>
               <div className="absolute inset-0 bg-linear-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
               <div className="absolute top-1 right-1">
-                <span className="text-xs px-1.5 py-0.5 bg-green-500/80 text-white rounded-full">
-                  完成
-                </span>
+                {result.duplicate ? (
+                  <span className="text-xs px-1.5 py-0.5 bg-blue-500/80 text-white rounded-full" title="相同文件已上传过，已返回已有图片">
+                    已存在
+                  </span>
+                ) : (
+                  <span className="text-xs px-1.5 py-0.5 bg-green-500/80 text-white rounded-full">
+                    完成
+                  </span>
+                )}
               </div>
               <div className="absolute bottom-0 left-0 right-0 p-2 text-white transform translate-y-full group-hover:translate-y-0 transition-transform duration-300">
                 <p className="text-xs truncate" title={result.originalName}>
@@ -1,12 +1,15 @@
 "use client";
 
 import { useState } from "react";
-import { ImageFile } from "../types";
+import { ImageFile, ImageVariant } from "../types";
 import { ImageData } from "../types/image";
-import { buildMarkdownLink } from "../utils/imageUtils";
+import { buildMarkdownLink, buildImgSnippet, buildPictureSnippet } from "../utils/imageUtils";
 import { copyToClipboard } from "../utils/clipboard";
 import { getFullUrl } from "../utils/baseUrl";
-import { CheckIcon, CopyIcon, CameraIcon, SparklesIcon, ZapIcon, CodeIcon, ChevronDownIcon, ChevronUpIcon } from "./ui/icons";
+import { useShareImage } from "../hooks/useImages";
+import { useConfig } from "../hooks/useConfig";
+import { showToast } from "./ToastContainer";
+import { CheckIcon, CopyIcon, CameraIcon, SparklesIcon, ZapIcon, CodeIcon, ChevronDownIcon, ChevronUpIcon, Share1Icon, Spinner, Link2Icon } from "./ui/icons";
 
 type ImageType = ImageFile | (ImageData & { status: 'success' });
 
@@ -14,6 +17,14 @@ interface ImageUrlsProps {
   image: ImageType;
 }
 
+// 分享链接有效期（分钟）
+const SHARE_LIFETIME_OPTIONS = [
+  { value: 60, label: '1 小时' },
+  { value: 24 * 60, label: '1 天' },
+  { value: 7 * 24 * 60, label: '7 天' },
+  { value: 30 * 24 * 60, label: '30 天' },
+];
+
 // 主链接卡片组件 - 突出显示推荐链接
 const PrimaryUrlCard = ({
   icon: IconComponent,
@@ -150,9 +161,174 @@ const SecondaryUrlRow = ({
   );
 };
 
+// 私有图片分享卡片 - 生成带签名的限时链接
+const ShareLinkCard = ({
+  imageId,
+  variant,
+}: {
+  imageId: string;
+  variant: 'original' | 'webp' | 'avif';
+}) => {
+  const [lifetime, setLifetime] = useState(SHARE_LIFETIME_OPTIONS[1].value);
+  const [shareLink, setShareLink] = useState<{ url: string; expiresAt: string } | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+  const shareImage = useShareImage();
+
+  const handleGenerate = async () => {
+    try {
+      const link = await shareImage.mutateAsync({ id: imageId, expiresInMinutes: lifetime, variant });
+      setShareLink(link);
+      setIsCopied(false);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : '生成分享链接失败', 'error');
+    }
+  };
+
+  const handleCopy = () => {
+    if (!shareLink) return;
+    copyToClipboard(shareLink.url)
+      .then((success) => {
+        if (success) {
+          setIsCopied(true);
+          setTimeout(() => setIsCopied(false), 2000);
+        }
+      })
+      .catch(console.error);
+  };
+
+  return (
+    <div className="rounded-xl border border-amber-200/80 dark:border-amber-800/60 bg-gradient-to-br from-amber-50 to-orange-50 dark:from-amber-950/30 dark:to-orange-950/20 p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <Share1Icon className="w-4 h-4 text-amber-600 dark:text-amber-400" />
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white">限时分享链接</h4>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">私有图片只能通过带签名的链接访问，过期后自动失效</p>
+
+      <div className="flex gap-2">
+        <select
+          value={lifetime}
+          onChange={(e) => setLifetime(Number(e.target.value))}
+          disabled={shareImage.isPending}
+          className="flex-1 px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-slate-700 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-amber-500/40"
+        >
+          {SHARE_LIFETIME_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              有效期 {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleGenerate}
+          disabled={shareImage.isPending}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-amber-600 hover:bg-amber-700 text-white text-sm font-medium disabled:opacity-50 transition-colors"
+        >
+          {shareImage.isPending ? <Spinner className="w-4 h-4" /> : <Share1Icon className="w-4 h-4" />}
+          生成
+        </button>
+      </div>
+
+      {shareLink && (
+        <div className="group flex items-center gap-3 mt-3 p-3 rounded-lg bg-white/60 dark:bg-black/20 border border-gray-200/50 dark:border-gray-700/50">
+          <div className="flex-1 min-w-0">
+            <div className="text-[11px] text-gray-600 dark:text-gray-300 font-mono truncate">
+              {shareLink.url}
+            </div>
+            <div className="text-[11px] text-gray-400 dark:text-gray-500 mt-0.5">
+              {new Date(shareLink.expiresAt).toLocaleString('zh-CN')} 过期
+            </div>
+          </div>
+          <button
+            onClick={handleCopy}
+            className="flex-shrink-0 p-2 rounded-md transition-colors hover:bg-amber-100 dark:hover:bg-amber-900/30 text-amber-600 dark:text-amber-400"
+            title="复制链接"
+          >
+            {isCopied ? (
+              <CheckIcon className="w-4 h-4 text-green-500" />
+            ) : (
+              <CopyIcon className="w-4 h-4 opacity-60 group-hover:opacity-100" />
+            )}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 响应式嵌入代码卡片 - 基于上传时生成的宽度变体
+const ResponsiveSnippetCard = ({
+  variants,
+  src,
+  alt,
+}: {
+  variants: ImageVariant[];
+  src: string;
+  alt: string;
+}) => {
+  const [mode, setMode] = useState<'img' | 'picture'>('img');
+  const [isCopied, setIsCopied] = useState(false);
+  const snippet = mode === 'img'
+    ? buildImgSnippet(variants, src, alt)
+    : buildPictureSnippet(variants, src, alt);
+  const widths = Array.from(new Set(variants.map((v) => v.width))).sort((a, b) => a - b);
+
+  const handleCopy = () => {
+    copyToClipboard(snippet)
+      .then((success) => {
+        if (success) {
+          setIsCopied(true);
+          setTimeout(() => setIsCopied(false), 2000);
+        }
+      })
+      .catch(console.error);
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200/80 dark:border-gray-700/60 bg-gray-50/80 dark:bg-gray-800/50 p-4">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <div className="flex items-center gap-2">
+          <CodeIcon className="w-4 h-4 text-indigo-500" />
+          <h4 className="text-sm font-semibold text-gray-900 dark:text-white">响应式嵌入代码</h4>
+        </div>
+        <div className="flex rounded-lg bg-gray-200/70 dark:bg-gray-700/70 p-0.5 text-xs font-medium">
+          {(['img', 'picture'] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`px-2.5 py-1 rounded-md transition-colors ${mode === value ? 'bg-white dark:bg-slate-600 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-gray-400'}`}
+            >
+              {value === 'img' ? '<img srcset>' : '<picture>'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+        包含 {widths.join(' / ')}px 宽度，浏览器会按屏幕尺寸自动选择
+      </p>
+
+      <div className="group relative">
+        <pre className="text-[11px] leading-relaxed text-gray-600 dark:text-gray-300 font-mono bg-white/60 dark:bg-black/20 rounded-lg px-3 py-2 pr-10 border border-gray-200/50 dark:border-gray-700/50 overflow-x-auto whitespace-pre">
+          {snippet}
+        </pre>
+        <button
+          onClick={handleCopy}
+          className="absolute top-1.5 right-1.5 p-2 rounded-md transition-colors hover:bg-indigo-50 dark:hover:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400"
+          title="复制代码"
+        >
+          {isCopied ? (
+            <CheckIcon className="w-4 h-4 text-green-500" />
+          ) : (
+            <CopyIcon className="w-4 h-4 opacity-60 group-hover:opacity-100" />
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
+
 export const ImageUrls = ({ image }: ImageUrlsProps) => {
   const [copyStates, setCopyStates] = useState<Record<string, boolean>>({});
   const [showAllLinks, setShowAllLinks] = useState(false);
+  const { config } = useConfig();
 
   const handleCopy = (text: string, type: string) => {
     copyToClipboard(text)
@@ -180,15 +356,34 @@ export const ImageUrls = ({ image }: ImageUrlsProps) => {
   const markdownUrl = isGif ? originalUrl : (webpUrl || avifUrl || originalUrl);
   const markdownLink = buildMarkdownLink(markdownUrl!, image.originalName || '');
 
+  // Worker 永久链接：按 Accept 自动选择格式，不受存储路径和存储桶域名变化影响
+  const isPrivate = image.visibility === 'private' && !!image.id;
+  const permanentUrl = config.apiUrl && image.id && !isPrivate
+    ? new URL(`/i/${image.id}`, config.apiUrl).toString()
+    : '';
+
   // 构建次要链接列表
   const secondaryLinks = [
+    !!permanentUrl && { icon: Link2Icon, label: '永久链接 (自动选择格式)', url: permanentUrl, type: 'permanent', color: 'blue' },
     !isGif && { icon: CameraIcon, label: '原始格式', url: originalUrl!, type: 'original', color: 'blue' },
     !isGif && { icon: ZapIcon, label: 'AVIF格式 (更小体积)', url: avifUrl!, type: 'avif', color: 'green' },
     { icon: CodeIcon, label: 'Markdown', url: markdownLink, type: 'markdown', color: 'amber' },
   ].filter(Boolean) as Array<{ icon: React.ComponentType<{ className?: string }>; label: string; url: string; type: string; color: string }>;
 
+  // 私有图片的变体链接带有效期，不适合长期嵌入
+  const variants = (image.variants || []).filter((v) => v.kind === 'responsive' && !!v.url);
+  const showResponsiveSnippet = !isGif && !isPrivate && variants.length > 0;
+
   return (
     <div className="space-y-4">
+      {/* 私有图片：生成限时分享链接 */}
+      {isPrivate && (
+        <ShareLinkCard
+          imageId={image.id}
+          variant={recommendedType as 'original' | 'webp' | 'avif'}
+        />
+      )}
+
       {/* 推荐链接 - 主卡片 */}
       <PrimaryUrlCard
         icon={isGif ? CameraIcon : SparklesIcon}
@@ -200,6 +395,15 @@ export const ImageUrls = ({ image }: ImageUrlsProps) => {
         accentColor={isGif ? 'blue' : 'purple'}
       />
 
+      {/* 响应式嵌入代码 */}
+      {showResponsiveSnippet && (
+        <ResponsiveSnippetCard
+          variants={variants}
+          src={markdownUrl!}
+          alt={image.originalName || ''}
+        />
+      )}
+
       {/* 其他链接 - 可折叠区域 */}
       {secondaryLinks.length > 0 && (
         <div>
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { DownloadIcon, Cross1Icon, CheckIcon, Spinner } from './ui/icons';
+import { createLibraryExport, ExportContent, ExportFilter } from '../utils/libraryExport';
+import { getThumbnailUrl } from '../utils/imageUtils';
+import { showToast } from './ToastContainer';
+import type { ImageFile, ImageFilterState } from '../types';
+
+interface LibraryExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // 管理页当前的筛选条件和已加载的图片（用于手动选择）
+  filters: ImageFilterState;
+  images: ImageFile[];
+  totalImages: number;
+}
+
+type ExportScope = 'filter' | 'selection';
+
+const CONTENT_OPTIONS: { value: ExportContent; label: string; description: string }[] = [
+  { value: 'originals', label: '原图', description: '可通过 ZIP 导入恢复到图库' },
+  { value: 'variants', label: '衍生图', description: 'WebP、AVIF 和响应式尺寸' },
+  { value: 'both', label: '全部', description: '原图和衍生图' },
+];
+
+function describeFilters(filters: ImageFilterState): string {
+  const parts: string[] = [];
+  if (filters.tag) parts.push(`标签 ${filters.tag}`);
+  if (filters.orientation && filters.orientation !== 'all') {
+    parts.push(filters.orientation === 'landscape' ? '横图' : '竖图');
+  }
+  if (filters.format && filters.format !== 'all') parts.push(`格式 ${filters.format}`);
+  if (filters.color) parts.push(`颜色 ${filters.color}`);
+  return parts.length > 0 ? parts.join('，') : '全部图片';
+}
+
+function exportFilter(filters: ImageFilterState): ExportFilter {
+  return {
+    tag: filters.tag || undefined,
+    orientation: filters.orientation === 'all' ? undefined : filters.orientation || undefined,
+    format: filters.format || undefined,
+    color: filters.color || undefined,
+  };
+}
+
+export default function LibraryExportModal({ isOpen, onClose, filters, images, totalImages }: LibraryExportModalProps) {
+  const [scope, setScope] = useState<ExportScope>('filter');
+  const [content, setContent] = useState<ExportContent>('originals');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isCreating, setIsCreating] = useState(false);
+
+  const count = scope === 'filter' ? totalImages : selected.size;
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    if (count === 0) return;
+    setIsCreating(true);
+    try {
+      const job = await createLibraryExport(
+        scope === 'filter' ? { filter: exportFilter(filters) } : { ids: Array.from(selected) },
+        content
+      );
+      // 下载链接不需要 API Key，直接交给浏览器下载
+      window.location.href = job.downloadUrl;
+      showToast(`正在打包 ${job.count} 张图片，下载将自动开始`, 'success');
+      onClose();
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : '创建导出失败', 'error');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-xs flex items-center justify-center z-50 p-4"
+          onClick={(e) => {
+            if (e.target === e.currentTarget && !isCreating) onClose();
+          }}
+        >
+          <motion.div
+            initial={{ scale: 0.9, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.9, y: 20 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+            className="bg-white dark:bg-slate-800 rounded-xl max-w-3xl w-full mx-4 shadow-2xl overflow-hidden"
+          >
+            {/* 标题栏 */}
+            <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+              <div className="flex items-center">
+                <div className="bg-indigo-100 dark:bg-indigo-900/30 p-3 rounded-full mr-4">
+                  <DownloadIcon className="h-6 w-6 text-indigo-600 dark:text-indigo-400" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900 dark:text-white">导出图库</h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+                    打包为 ZIP，附带记录文件名、标签等信息的 manifest.json
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                disabled={isCreating}
+                className="p-2 rounded-lg text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                <Cross1Icon className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-5">
+              {/* 导出范围 */}
+              <div>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">导出范围</p>
+                <div className="flex gap-2">
+                  {([
+                    { value: 'filter', label: `当前筛选（${describeFilters(filters)}）` },
+                    { value: 'selection', label: '手动选择' },
+                  ] as { value: ExportScope; label: string }[]).map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setScope(option.value)}
+                      disabled={isCreating}
+                      className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors ${
+                        scope === option.value
+                          ? 'bg-indigo-500 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {scope === 'selection' && (
+                <div className="max-h-[40vh] overflow-y-auto grid grid-cols-4 sm:grid-cols-6 gap-2">
+                  {images.map((image) => {
+                    const isSelected = selected.has(image.id);
+                    return (
+                      <button
+                        key={image.id}
+                        onClick={() => toggle(image.id)}
+                        disabled={isCreating}
+                        title={image.originalName}
+                        className={`relative aspect-square rounded-lg overflow-hidden border-2 transition-colors ${
+                          isSelected ? 'border-indigo-500' : 'border-transparent hover:border-indigo-300'
+                        }`}
+                      >
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        <img
+                          src={getThumbnailUrl(image, 120)}
+                          alt={image.originalName}
+                          loading="lazy"
+                          className="w-full h-full object-cover bg-gray-100 dark:bg-gray-900"
+                        />
+                        <span
+                          className={`absolute top-1 right-1 w-5 h-5 rounded-sm flex items-center justify-center ${
+                            isSelected ? 'bg-indigo-500 text-white' : 'bg-white/80 dark:bg-gray-800/80 border border-gray-300 dark:border-gray-600'
+                          }`}
+                        >
+                          {isSelected && <CheckIcon className="h-3.5 w-3.5" />}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* 导出内容 */}
+              <div>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">导出内容</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {CONTENT_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setContent(option.value)}
+                      disabled={isCreating}
+                      className={`text-left p-3 rounded-lg border-2 transition-colors ${
+                        content === option.value
+                          ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20'
+                          : 'border-gray-200 dark:border-gray-700 hover:border-indigo-300'
+                      }`}
+                    >
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{option.label}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{option.description}</p>
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  每次导出默认最多 900 个文件（原图和每个衍生图各算一个），图片较多时请按标签或格式分批导出
+                </p>
+              </div>
+            </div>
+
+            {/* 底部操作 */}
+            <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50/80 dark:bg-slate-800/80">
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {scope === 'filter' ? `共 ${count} 张` : `已选择 ${count} 张`}
+              </span>
+              <button
+                onClick={handleExport}
+                disabled={count === 0 || isCreating}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-500 rounded-lg hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isCreating ? <Spinner className="h-4 w-4" /> : <DownloadIcon className="h-4 w-4" />}
+                导出 ZIP
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
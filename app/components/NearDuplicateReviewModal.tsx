@@ -0,0 +1,226 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { LayersIcon, Cross1Icon, TrashIcon, CheckIcon, Spinner } from './ui/icons';
+import { useDeleteImage, useNearDuplicates } from '../hooks/useImages';
+import { formatFileSize, getThumbnailUrl } from '../utils/imageUtils';
+import { showToast } from './ToastContainer';
+
+interface NearDuplicateReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// 汉明距离阈值（64 位感知哈希）
+const DISTANCE_OPTIONS = [
+  { value: 3, label: '严格' },
+  { value: 6, label: '默认' },
+  { value: 10, label: '宽松' },
+];
+
+export default function NearDuplicateReviewModal({ isOpen, onClose }: NearDuplicateReviewModalProps) {
+  const [distance, setDistance] = useState(6);
+  // 相对默认勾选（每组除第一张外全部勾选）被用户切换过的图片
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+  const [deleteProgress, setDeleteProgress] = useState<{ done: number; total: number } | null>(null);
+  const { data, isLoading, error } = useNearDuplicates(distance, isOpen);
+  const deleteImageMutation = useDeleteImage();
+
+  const groups = useMemo(() => data?.groups ?? [], [data]);
+  const selectedIds = useMemo(() => groups.flatMap((group) =>
+    group.images
+      .filter((image, index) => (index > 0) !== toggled.has(image.id))
+      .map((image) => image.id)
+  ), [groups, toggled]);
+
+  const toggle = (id: string) => {
+    setToggled((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDistanceChange = (value: number) => {
+    setDistance(value);
+    setToggled(new Set());
+  };
+
+  const handleDelete = async () => {
+    if (selectedIds.length === 0) return;
+    setDeleteProgress({ done: 0, total: selectedIds.length });
+    let failed = 0;
+    // 逐张删除，避免同时发出大量请求
+    for (const [index, id] of selectedIds.entries()) {
+      try {
+        await deleteImageMutation.mutateAsync(id);
+      } catch {
+        failed++;
+      }
+      setDeleteProgress({ done: index + 1, total: selectedIds.length });
+    }
+    setDeleteProgress(null);
+    setToggled(new Set());
+    showToast(
+      failed > 0 ? `已删除 ${selectedIds.length - failed} 张，${failed} 张删除失败` : `已删除 ${selectedIds.length} 张图片`,
+      failed > 0 ? 'error' : 'success'
+    );
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black/60 backdrop-blur-xs flex items-center justify-center z-50 p-4"
+          onClick={(e) => {
+            if (e.target === e.currentTarget && !deleteProgress) onClose();
+          }}
+        >
+          <motion.div
+            initial={{ scale: 0.9, y: 20 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.9, y: 20 }}
+            transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+            className="bg-white dark:bg-slate-800 rounded-xl max-w-4xl w-full mx-4 shadow-2xl overflow-hidden"
+          >
+            {/* 标题栏 */}
+            <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+              <div className="flex items-center">
+                <div className="bg-indigo-100 dark:bg-indigo-900/30 p-3 rounded-full mr-4">
+                  <LayersIcon className="h-6 w-6 text-indigo-600 dark:text-indigo-400" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900 dark:text-white">相似图片检查</h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+                    缩放或重新压缩过的同一张图片会被归为一组，每组第一张分辨率最高，默认保留
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={onClose}
+                disabled={!!deleteProgress}
+                className="p-2 rounded-lg text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                <Cross1Icon className="h-5 w-5" />
+              </button>
+            </div>
+
+            {/* 阈值 */}
+            <div className="flex items-center justify-between gap-4 px-6 py-3 border-b border-gray-100 dark:border-gray-700/60 bg-gray-50/60 dark:bg-slate-800/60">
+              <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                <span>匹配程度</span>
+                {DISTANCE_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => handleDistanceChange(option.value)}
+                    disabled={!!deleteProgress}
+                    className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                      distance === option.value
+                        ? 'bg-indigo-500 text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {data && (
+                <span className="text-xs text-gray-400 dark:text-gray-500">
+                  {data.totalGroups} 组 · 已分析 {data.hashedCount} 张
+                </span>
+              )}
+            </div>
+
+            {/* 内容区域 */}
+            <div className="p-6 max-h-[60vh] overflow-y-auto space-y-5">
+              {isLoading ? (
+                <div className="flex justify-center py-12">
+                  <Spinner className="h-8 w-8 text-indigo-500" />
+                </div>
+              ) : error ? (
+                <p className="text-center py-12 text-sm text-red-500">{error.message || '加载相似图片失败'}</p>
+              ) : groups.length === 0 ? (
+                <p className="text-center py-12 text-sm text-gray-500 dark:text-gray-400">没有发现相似图片</p>
+              ) : (
+                groups.map((group) => (
+                  <div key={group.images[0].id} className="flex gap-3 overflow-x-auto pb-2">
+                    {group.images.map((image, index) => {
+                      const selected = selectedIds.includes(image.id);
+                      return (
+                        <button
+                          key={image.id}
+                          onClick={() => toggle(image.id)}
+                          disabled={!!deleteProgress}
+                          className={`relative flex-shrink-0 w-36 text-left rounded-lg overflow-hidden border-2 transition-colors ${
+                            selected ? 'border-red-500' : 'border-transparent hover:border-indigo-300'
+                          }`}
+                        >
+                          <div className="h-28 bg-gray-100 dark:bg-gray-900">
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img
+                              src={getThumbnailUrl(image, 144)}
+                              alt={image.originalName}
+                              loading="lazy"
+                              className="w-full h-full object-cover"
+                            />
+                          </div>
+                          <div className="p-2 text-xs bg-white dark:bg-slate-800">
+                            <p className="truncate text-gray-800 dark:text-gray-200" title={image.originalName}>
+                              {image.originalName}
+                            </p>
+                            <p className="text-gray-400 dark:text-gray-500 mt-0.5">
+                              {image.width}×{image.height} · {formatFileSize(image.sizes.original)}
+                            </p>
+                          </div>
+                          {index === 0 && (
+                            <span className="absolute top-1 left-1 text-[10px] px-1.5 py-0.5 rounded-full bg-green-500/90 text-white">
+                              建议保留
+                            </span>
+                          )}
+                          {index > 0 && (
+                            <span className="absolute top-1 left-1 text-[10px] px-1.5 py-0.5 rounded-full bg-black/60 text-white">
+                              差异 {image.distance}
+                            </span>
+                          )}
+                          <span
+                            className={`absolute top-1 right-1 w-5 h-5 rounded-sm flex items-center justify-center ${
+                              selected ? 'bg-red-500 text-white' : 'bg-white/80 dark:bg-gray-800/80 border border-gray-300 dark:border-gray-600'
+                            }`}
+                          >
+                            {selected && <CheckIcon className="h-3.5 w-3.5" />}
+                          </span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                ))
+              )}
+            </div>
+
+            {/* 底部操作 */}
+            <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50/80 dark:bg-slate-800/80">
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {deleteProgress ? `正在删除 ${deleteProgress.done}/${deleteProgress.total}` : `已选择 ${selectedIds.length} 张`}
+              </span>
+              <button
+                onClick={handleDelete}
+                disabled={selectedIds.length === 0 || !!deleteProgress}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-red-500 rounded-lg hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {deleteProgress ? <Spinner className="h-4 w-4" /> : <TrashIcon className="h-4 w-4" />}
+                删除所选
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useSimilarImages } from "../hooks/useImages";
+import { getThumbnailUrl } from "../utils/imageUtils";
+import { ImageFile } from "../types";
+import { Spinner } from "./ui/icons";
+
+interface SimilarImagesProps {
+  imageId: string;
+  onSelect: (image: ImageFile) => void;
+}
+
+// 图片详情中的相似图片条：按感知哈希距离由近到远排列，点击切换到该图片
+export default function SimilarImages({ imageId, onSelect }: SimilarImagesProps) {
+  const { data: images, isLoading } = useSimilarImages(imageId);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Spinner className="h-5 w-5 text-indigo-500" />
+      </div>
+    );
+  }
+
+  if (!images || images.length === 0) {
+    return <p className="text-xs text-gray-400 dark:text-gray-500">没有找到相似图片</p>;
+  }
+
+  return (
+    <div className="flex gap-2 overflow-x-auto pb-1">
+      {images.map((similar) => (
+        <button
+          key={similar.id}
+          onClick={() => onSelect(similar)}
+          className="relative flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-800 ring-1 ring-black/[0.05] dark:ring-white/[0.08] hover:ring-2 hover:ring-indigo-500 transition-all"
+          title={`${similar.originalName}（差异 ${similar.distance}/64）`}
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={getThumbnailUrl(similar, 80)}
+            alt={similar.originalName}
+            loading="lazy"
+            className="w-full h-full object-cover"
+          />
+          <span className="absolute bottom-1 right-1 text-[10px] px-1 rounded-sm bg-black/60 text-white">
+            {similar.distance === 0 ? "相同" : `±${similar.distance}`}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -6,12 +6,15 @@ import ZipUploadDropzone from './upload/ZipUploadDropzone'
 import ZipPreview from './upload/ZipPreview'
 import ZipUploadProgress from './upload/ZipUploadProgress'
 import UploadModeToggle, { UploadMode } from './upload/UploadModeToggle'
+import UrlUploadForm from './upload/UrlUploadForm'
 import ExpirySelector from './ExpirySelector'
 import TagSelector from './upload/TagSelector'
 import { api } from '../utils/request'
 import { UploadIcon, ExclamationTriangleIcon, ImageIcon, Spinner } from '../components/ui/icons'
 import { formatFileSize } from '../utils/imageUtils'
 import { useZipUpload } from '../hooks/useZipUpload'
+import { FolderTagMap, FolderTagMode, buildFolderTagMap, zipFolders } from '../utils/zipFolderTags'
+import { clipboardImageFiles, fetchImageFile, transferUrls } from '../utils/dataTransfer'
 import type { UploadResult } from '../types'
 
 const MAX_FILE_SIZE = 70 * 1024 * 1024; // 70MB
@@ -34,6 +37,8 @@ interface UploadSectionProps {
   outputFormat: 'webp' | 'avif' | 'both'
   // ZIP上传完成回调
   onZipUploadComplete?: (results: UploadResult[]) => void
+  // 链接上传完成回调
+  onUrlUploadComplete?: (results: UploadResult[]) => void
 }
 
 export default function UploadSection({
@@ -52,7 +57,8 @@ export default function UploadSection({
   compressionMaxWidth,
   preserveAnimation,
   outputFormat,
-  onZipUploadComplete
+  onZipUploadComplete,
+  onUrlUploadComplete
 }: UploadSectionProps) {
   const [uploadMode, setUploadMode] = useState<UploadMode>('images')
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
@@ -62,6 +68,12 @@ export default function UploadSection({
   const [oversizedFiles, setOversizedFiles] = useState<string[]>([])
   const [selectedTags, setSelectedTags] = useState<string[]>([])
   const [availableTags, setAvailableTags] = useState<string[]>([])
+  const [isUrlUploading, setIsUrlUploading] = useState(false)
+  const [urlText, setUrlText] = useState('')
+  const [isPasteActive, setIsPasteActive] = useState(false)
+  const [zipServerImport, setZipServerImport] = useState(false)
+  const [zipFolderTagMode, setZipFolderTagMode] = useState<FolderTagMode>('none')
+  const [zipFolderTagEdits, setZipFolderTagEdits] = useState<FolderTagMap>({})
 
   // ZIP上传状态
   const zipUpload = useZipUpload()
@@ -192,6 +204,64 @@ export default function UploadSection({
     }
   }
 
+  // 链接交给链接上传模式，追加到输入框中由用户确认后上传
+  const addUrls = (urls: string[]) => {
+    setUploadMode('url')
+    setUrlText(prev => {
+      const existing = prev.split(/\s+/).filter(Boolean)
+      return [...existing, ...urls.filter(url => !existing.includes(url))].join('\n')
+    })
+  }
+
+  // 从其他网页拖入的图片：先尝试在浏览器中下载，跨域被拒时改由服务端按链接下载
+  const handleUrlsDropped = async (urls: string[]) => {
+    const files = await Promise.all(urls.map(fetchImageFile))
+    const fetched = files.filter((file): file is File => file !== null)
+    if (fetched.length > 0) {
+      handleFilesSelected(fetched)
+    }
+    const failed = urls.filter((_, index) => files[index] === null)
+    if (failed.length > 0) {
+      addUrls(failed)
+    }
+  }
+
+  // 全局粘贴：图片加入待上传列表，图片链接转到链接上传
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData || isUploading || isZipProcessing || isUrlUploading) return
+
+      const files = clipboardImageFiles(e.clipboardData)
+      if (files.length > 0) {
+        e.preventDefault()
+        setUploadMode('images')
+        handleFilesSelected(files)
+
+        // 显示粘贴成功的视觉反馈
+        setIsPasteActive(true)
+        setTimeout(() => setIsPasteActive(false), 500)
+        return
+      }
+
+      // 在输入框中粘贴文字时保持默认行为
+      const target = e.target instanceof Element ? e.target : null
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return
+
+      const urls = transferUrls(e.clipboardData)
+      if (urls.length > 0) {
+        e.preventDefault()
+        addUrls(urls)
+      }
+    }
+
+    // 添加全局粘贴监听
+    document.addEventListener('paste', handlePaste)
+
+    return () => {
+      document.removeEventListener('paste', handlePaste)
+    }
+  })
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (selectedFiles.length === 0) return
@@ -200,12 +270,27 @@ export default function UploadSection({
 
   // ZIP文件选择处理
   const handleZipFileSelected = (file: File) => {
+    setZipFolderTagEdits({})
     zipUpload.selectZipFile(file)
   }
 
+  // 切换文件夹标签方式时重新生成，丢弃逐个修改
+  const handleZipFolderTagModeChange = (mode: FolderTagMode) => {
+    setZipFolderTagMode(mode)
+    setZipFolderTagEdits({})
+  }
+
+  // 服务器解压不支持合并路径，改为每级文件夹一个标签
+  const handleZipServerImportChange = (serverImport: boolean) => {
+    setZipServerImport(serverImport)
+    if (serverImport && zipFolderTagMode === 'joined') {
+      handleZipFolderTagModeChange('levels')
+    }
+  }
+
   // 开始ZIP上传
   const handleZipUploadConfirm = () => {
-    zipUpload.startUpload({
+    const options = {
       tags: selectedTags,
       expiryMinutes,
       quality: compressionQuality,
@@ -213,12 +298,20 @@ export default function UploadSection({
       preserveAnimation,
       outputFormat,
       onCompleted: onZipUploadComplete,
-    })
+    }
+    // 未分析的大压缩包只能在服务器解压
+    const { analysis } = zipUpload
+    if (zipServerImport || !analysis) {
+      zipUpload.startServerImport({ ...options, folderTags: zipFolderTagMode !== 'none' })
+    } else {
+      const folderTagMap = buildFolderTagMap(zipFolders(analysis.images), zipFolderTagMode, zipFolderTagEdits)
+      zipUpload.startUpload({ ...options, folderTagMap })
+    }
   }
 
   // 切换模式时重置状态
   const handleModeChange = (mode: UploadMode) => {
-    if (isUploading || isZipProcessing) return
+    if (isUploading || isZipProcessing || isUrlUploading) return
     setUploadMode(mode)
     if (mode === 'zip') {
       zipUpload.reset()
@@ -227,7 +320,7 @@ export default function UploadSection({
 
   // 渲染ZIP上传内容
   const renderZipUploadContent = () => {
-    const { phase, zipFile, analysis, extractProgress, uploadProgress, error } = zipUpload
+    const { phase, zipFile, analysis, serverImport, extractProgress, uploadProgress, error } = zipUpload
 
     // 加载/分析中
     if (phase === 'loading' || phase === 'analyzing') {
@@ -242,12 +335,21 @@ export default function UploadSection({
     }
 
     // 预览模式
-    if (phase === 'preview' && analysis && zipFile) {
+    if (phase === 'preview' && zipFile) {
       return (
         <>
           <ZipPreview
             analysis={analysis}
             zipFileName={zipFile.name}
+            zipFileSize={zipFile.size}
+            serverImport={zipServerImport}
+            onServerImportChange={handleZipServerImportChange}
+            // 只能在服务器解压的大压缩包不支持合并路径
+            folderTagMode={!analysis && zipFolderTagMode === 'joined' ? 'levels' : zipFolderTagMode}
+            onFolderTagModeChange={handleZipFolderTagModeChange}
+            folderTagEdits={zipFolderTagEdits}
+            onFolderTagsChange={(folder, tags) => setZipFolderTagEdits((prev) => ({ ...prev, [folder]: tags }))}
+            baseTags={selectedTags}
             onConfirm={handleZipUploadConfirm}
             onCancel={zipUpload.reset}
           />
@@ -263,12 +365,14 @@ export default function UploadSection({
     }
 
     // 解压/上传中
-    if (phase === 'extracting' || phase === 'uploading' || phase === 'completed') {
+    if (phase === 'extracting' || phase === 'uploading' || phase === 'importing' || phase === 'completed') {
       return (
         <ZipUploadProgress
           phase={phase}
           extractProgress={extractProgress}
           uploadProgress={uploadProgress}
+          serverImport={serverImport}
+          error={error}
           onCancel={zipUpload.cancel}
         />
       )
@@ -302,7 +406,7 @@ export default function UploadSection({
         <UploadModeToggle
           mode={uploadMode}
           onChange={handleModeChange}
-          disabled={isUploading || isZipProcessing}
+          disabled={isUploading || isZipProcessing || isUrlUploading}
         />
 
         {uploadMode === 'images' ? (
@@ -310,7 +414,9 @@ export default function UploadSection({
           <form onSubmit={handleSubmit}>
             <UploadDropzone
               onFilesSelected={handleFilesSelected}
+              onUrlsDropped={handleUrlsDropped}
               maxUploadCount={maxUploadCount}
+              isPasteActive={isPasteActive}
             />
 
             <ExpirySelector onChange={setExpiryMinutes} />
@@ -377,6 +483,32 @@ export default function UploadSection({
               </div>
             )}
           </form>
+        ) : uploadMode === 'url' ? (
+          // 链接上传
+          <>
+            <UrlUploadForm
+              text={urlText}
+              onTextChange={setUrlText}
+              settings={{
+                tags: selectedTags,
+                expiryMinutes,
+                quality: compressionQuality,
+                maxWidth: compressionMaxWidth,
+                preserveAnimation,
+                outputFormat,
+              }}
+              maxUploadCount={maxUploadCount}
+              onBusyChange={setIsUrlUploading}
+              onCompleted={onUrlUploadComplete}
+            />
+            <ExpirySelector onChange={setExpiryMinutes} />
+            <TagSelector
+              selectedTags={selectedTags}
+              availableTags={availableTags}
+              onTagsChange={handleTagsChange}
+              onNewTagCreated={fetchTags}
+            />
+          </>
         ) : (
           // ZIP批量上传
           renderZipUploadContent()
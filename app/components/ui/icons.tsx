@@ -62,7 +62,9 @@ import {
   Hash as HashIcon,
   Code as CodeIcon,
   Archive as ArchiveIcon,
-  Package as PackageIcon
+  Package as PackageIcon,
+  Lock as LockIcon,
+  Globe as GlobeIcon
 } from 'lucide-react';
 
 export {
@@ -129,7 +131,9 @@ export {
   HashIcon, // 哈希图标 - 编码格式
   CodeIcon, // 代码图标 - Markdown格式
   ArchiveIcon, // 归档图标 - 压缩格式
-  PackageIcon // 包装图标 - 打包格式
+  PackageIcon, // 包装图标 - 打包格式
+  LockIcon, // 锁图标 - 私有图片
+  GlobeIcon // 地球图标 - 公开图片
 };
 
 // 状态图标 - 为不同类型的状态消息提供图标
@@ -1,58 +1,23 @@
 'use client'
 
-import { useRef, useEffect, useState } from 'react'
+import { useRef } from 'react'
 import { UploadIcon } from '../ui/icons'
+import { transferUrls } from '../../utils/dataTransfer'
+
+// 部分系统不为 HEIC/HEIF/JPEG XL 提供 image/* 类型，需要按扩展名放行
+const ACCEPTED_FILE_TYPES = 'image/*,.heic,.heif,.jxl'
 
 interface UploadDropzoneProps {
   onFilesSelected: (files: File[]) => void
+  // 从其他网页拖入、浏览器没有提供文件内容的图片链接
+  onUrlsDropped?: (urls: string[]) => void
   maxUploadCount: number
+  // 粘贴成功时的高亮反馈
+  isPasteActive?: boolean
 }
 
-export default function UploadDropzone({ onFilesSelected, maxUploadCount }: UploadDropzoneProps) {
+export default function UploadDropzone({ onFilesSelected, onUrlsDropped, maxUploadCount, isPasteActive = false }: UploadDropzoneProps) {
   const fileInputRef = useRef<HTMLInputElement>(null)
-  const [isPasteActive, setIsPasteActive] = useState(false)
-
-  // 监听粘贴事件
-  useEffect(() => {
-    const handlePaste = (e: ClipboardEvent) => {
-      const items = e.clipboardData?.items
-      if (!items) return
-
-      const imageFiles: File[] = []
-
-      for (let i = 0; i < items.length; i++) {
-        const item = items[i]
-        if (item.type.startsWith('image/')) {
-          const file = item.getAsFile()
-          if (file) {
-            // 为粘贴的图片生成一个有意义的文件名
-            const extension = file.type.split('/')[1] || 'png'
-            const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
-            const newFile = new File([file], `pasted-image-${timestamp}.${extension}`, {
-              type: file.type,
-            })
-            imageFiles.push(newFile)
-          }
-        }
-      }
-
-      if (imageFiles.length > 0) {
-        e.preventDefault()
-        onFilesSelected(imageFiles)
-
-        // 显示粘贴成功的视觉反馈
-        setIsPasteActive(true)
-        setTimeout(() => setIsPasteActive(false), 500)
-      }
-    }
-
-    // 添加全局粘贴监听
-    document.addEventListener('paste', handlePaste)
-
-    return () => {
-      document.removeEventListener('paste', handlePaste)
-    }
-  }, [onFilesSelected])
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
@@ -63,7 +28,16 @@ export default function UploadDropzone({ onFilesSelected, maxUploadCount }: Uplo
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
-    onFilesSelected(Array.from(e.dataTransfer.files))
+    e.currentTarget.classList.remove('active')
+    const files = Array.from(e.dataTransfer.files)
+    if (files.length > 0) {
+      onFilesSelected(files)
+      return
+    }
+    const urls = transferUrls(e.dataTransfer)
+    if (urls.length > 0) {
+      onUrlsDropped?.(urls)
+    }
   }
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -89,13 +63,13 @@ export default function UploadDropzone({ onFilesSelected, maxUploadCount }: Uplo
         <UploadIcon className="h-10 w-10 text-indigo-500" />
       </div>
       <p className="text-lg font-medium mb-2">拖放多张图片到这里</p>
-      <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary mb-2">点击选择文件或 Ctrl+V 粘贴图片</p>
+      <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary mb-2">点击选择文件，或 Ctrl+V 粘贴图片、图片链接，也可从其他网页拖入图片</p>
       <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary mb-4">最多可选择 {maxUploadCount} 张图片</p>
       <input
         type="file"
         ref={fileInputRef}
         className="hidden"
-        accept="image/*"
+        accept={ACCEPTED_FILE_TYPES}
         multiple
         onChange={handleFileSelect}
       />
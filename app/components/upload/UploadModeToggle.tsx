@@ -1,8 +1,8 @@
 'use client'
 
-import { ImageIcon, ArchiveIcon } from '../ui/icons'
+import { ImageIcon, ArchiveIcon, Link1Icon } from '../ui/icons'
 
-export type UploadMode = 'images' | 'zip'
+export type UploadMode = 'images' | 'zip' | 'url'
 
 interface UploadModeToggleProps {
   mode: UploadMode
@@ -41,6 +41,18 @@ export default function UploadModeToggle({
         <ArchiveIcon className="h-4 w-4" />
         <span>ZIP批量上传</span>
       </button>
+      <button
+        onClick={() => onChange('url')}
+        disabled={disabled}
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all ${
+          mode === 'url'
+            ? 'bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300'
+            : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
+        } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+      >
+        <Link1Icon className="h-4 w-4" />
+        <span>链接上传</span>
+      </button>
     </div>
   )
 }
@@ -0,0 +1,153 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { Link1Icon, CheckIcon, Cross1Icon, ExclamationTriangleIcon, Spinner } from '../ui/icons'
+import { urlUpload, parseUrlList } from '../../utils/urlUpload'
+import type { UploadSettings } from '../../utils/concurrentUpload'
+import type { FileUploadStatus } from '../../types/upload'
+import type { UploadResult } from '../../types'
+
+interface UrlUploadFormProps {
+  // 输入框内容由上层管理，粘贴或拖入的链接会追加进来
+  text: string
+  onTextChange: (text: string) => void
+  settings: UploadSettings
+  maxUploadCount: number
+  onBusyChange?: (busy: boolean) => void
+  onCompleted?: (results: UploadResult[]) => void
+}
+
+interface UrlItem {
+  url: string
+  status: FileUploadStatus
+  error?: string
+}
+
+export default function UrlUploadForm({
+  text,
+  onTextChange,
+  settings,
+  maxUploadCount,
+  onBusyChange,
+  onCompleted,
+}: UrlUploadFormProps) {
+  const [items, setItems] = useState<UrlItem[]>([])
+  const [invalid, setInvalid] = useState<string[]>([])
+  const [isUploading, setIsUploading] = useState(false)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const { urls } = parseUrlList(text)
+
+  const handleSubmit = async () => {
+    const parsed = parseUrlList(text)
+    setInvalid(parsed.invalid)
+    const selected = parsed.urls.slice(0, maxUploadCount)
+    if (selected.length === 0) return
+
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setItems(selected.map((url) => ({ url, status: 'pending' })))
+    setIsUploading(true)
+    onBusyChange?.(true)
+
+    try {
+      const results = await urlUpload({
+        ...settings,
+        urls: selected,
+        signal: controller.signal,
+        onUrlStatusChange: (url, status, result) => {
+          setItems((prev) => prev.map((item) =>
+            item.url === url ? { url, status, error: result?.error } : item
+          ))
+        },
+      })
+      if (!controller.signal.aborted) {
+        // 成功的链接从输入框移除，失败和超出数量限制的保留以便重试
+        const failed = results.filter((result) => result.status === 'error').map((result) => result.originalName)
+        onTextChange([...failed, ...parsed.urls.slice(maxUploadCount)].join('\n'))
+        onCompleted?.(results)
+      }
+    } finally {
+      controllerRef.current = null
+      setIsUploading(false)
+      onBusyChange?.(false)
+    }
+  }
+
+  const handleCancel = () => {
+    controllerRef.current?.abort()
+  }
+
+  return (
+    <div className="mb-6">
+      <div className="drop-zone mb-4 flex flex-col items-stretch cursor-default">
+        <div className="flex items-center gap-2 mb-3 text-light-text-secondary dark:text-dark-text-secondary">
+          <Link1Icon className="h-5 w-5 text-indigo-500" />
+          <span className="text-sm">每行粘贴一个图片链接，由服务器下载后按普通上传处理</span>
+        </div>
+        <textarea
+          value={text}
+          onChange={(e) => onTextChange(e.target.value)}
+          disabled={isUploading}
+          rows={5}
+          placeholder={'https://example.com/photo.jpg\nhttps://example.com/banner.png'}
+          className="w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-slate-800 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+        />
+        <div className="flex items-center justify-between mt-3">
+          <span className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+            {urls.length > maxUploadCount
+              ? `共 ${urls.length} 个链接，一次最多上传 ${maxUploadCount} 个`
+              : `共 ${urls.length} 个链接`}
+          </span>
+          {isUploading ? (
+            <button type="button" onClick={handleCancel} className="px-4 py-2 text-sm rounded-lg bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+              取消
+            </button>
+          ) : (
+            <button type="button" onClick={handleSubmit} disabled={urls.length === 0} className="btn-primary px-4 py-2 disabled:opacity-50 disabled:cursor-not-allowed">
+              上传链接
+            </button>
+          )}
+        </div>
+      </div>
+
+      {invalid.length > 0 && (
+        <div className="mb-4 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+          <div className="flex items-start">
+            <ExclamationTriangleIcon className="h-5 w-5 text-amber-500 mr-2 shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-amber-700 dark:text-amber-300 mb-1">以下内容不是有效的 http(s) 链接，已跳过：</p>
+              <ul className="text-sm text-amber-600 dark:text-amber-400 list-disc list-inside">
+                {invalid.map((entry, index) => (
+                  <li key={index} className="truncate">{entry}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <ul className="space-y-2">
+          {items.map((item) => (
+            <li key={item.url} className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800/60 text-sm">
+              {item.status === 'success' ? (
+                <CheckIcon className="h-4 w-4 text-green-500 shrink-0" />
+              ) : item.status === 'error' ? (
+                <Cross1Icon className="h-4 w-4 text-red-500 shrink-0" />
+              ) : item.status === 'pending' ? (
+                <span className="h-4 w-4 rounded-full border-2 border-gray-300 dark:border-gray-600 shrink-0" />
+              ) : (
+                <Spinner className="h-4 w-4 text-indigo-500 shrink-0" />
+              )}
+              <span className="truncate flex-1" title={item.url}>{item.url}</span>
+              {item.error && (
+                <span className="text-xs text-red-500 shrink-0 max-w-[40%] truncate" title={item.error}>{item.error}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import { useState } from 'react'
+import { FolderTagMap, FolderTagMode, ZipFolder, parseTagInput } from '../../utils/zipFolderTags'
+
+interface ZipFolderTagEditorProps {
+  // 压缩包中的文件夹；服务器解压且未在浏览器分析时为空，只能选择方式
+  folders: ZipFolder[]
+  mode: FolderTagMode
+  onModeChange: (mode: FolderTagMode) => void
+  tagMap: FolderTagMap
+  onFolderTagsChange: (folder: string, tags: string[]) => void
+  // 所有图片都会添加的标签（标签选择器中选中的），用于预览
+  baseTags: string[]
+  // 服务器解压只支持按方式自动生成（每级文件夹一个标签），不能逐个修改
+  serverImport: boolean
+  disabled?: boolean
+}
+
+const MODE_OPTIONS: { value: FolderTagMode; label: string }[] = [
+  { value: 'none', label: '不添加' },
+  { value: 'levels', label: '每级文件夹一个标签' },
+  { value: 'joined', label: '整条路径合并为一个标签' },
+]
+
+interface FolderRowProps {
+  folder: ZipFolder
+  tags: string[]
+  baseTags: string[]
+  editable: boolean
+  onChange: (tags: string[]) => void
+}
+
+// 输入时保留原文，失去焦点或回车时才解析，避免输入逗号时被立即吞掉
+function FolderRow({ folder, tags, baseTags, editable, onChange }: FolderRowProps) {
+  const [draft, setDraft] = useState(tags.join(', '))
+
+  const commit = () => {
+    const parsed = parseTagInput(draft)
+    setDraft(parsed.join(', '))
+    onChange(parsed)
+  }
+
+  const extraBaseTags = baseTags.filter((tag) => !tags.includes(tag))
+
+  return (
+    <tr className="border-t border-gray-100 dark:border-gray-800">
+      <td className="py-2 pr-3 align-top">
+        <span className="block truncate max-w-[14rem]" title={folder.path || '（根目录）'}>
+          {folder.path || '（根目录）'}
+        </span>
+        <span className="text-xs text-light-text-secondary dark:text-dark-text-secondary">
+          {folder.imageCount} 张
+        </span>
+      </td>
+      <td className="py-2 align-top">
+        {editable && (
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                commit()
+              }
+            }}
+            placeholder="无文件夹标签"
+            className="w-full px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-slate-800 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        )}
+        <div className="flex flex-wrap gap-1 mt-1">
+          {tags.map((tag) => (
+            <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300">
+              {tag}
+            </span>
+          ))}
+          {extraBaseTags.map((tag) => (
+            <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-800 text-light-text-secondary dark:text-dark-text-secondary">
+              {tag}
+            </span>
+          ))}
+        </div>
+      </td>
+    </tr>
+  )
+}
+
+export default function ZipFolderTagEditor({
+  folders,
+  mode,
+  onModeChange,
+  tagMap,
+  onFolderTagsChange,
+  baseTags,
+  serverImport,
+  disabled = false,
+}: ZipFolderTagEditorProps) {
+  const hasFolders = folders.some((folder) => folder.path)
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <span className="text-sm font-medium">按文件夹添加标签</span>
+        <select
+          value={mode}
+          onChange={(e) => onModeChange(e.target.value as FolderTagMode)}
+          disabled={disabled}
+          className="px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-slate-800 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {MODE_OPTIONS.map((option) => (
+            <option
+              key={option.value}
+              value={option.value}
+              disabled={serverImport && option.value === 'joined'}
+            >
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {serverImport && mode !== 'none' && (
+        <p className="text-xs text-light-text-secondary dark:text-dark-text-secondary mb-2">
+          服务器解压时按每级文件夹名自动添加标签，不能逐个修改
+        </p>
+      )}
+
+      {mode !== 'none' && folders.length > 0 && !hasFolders && (
+        <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+          压缩包中的图片都在根目录，没有可用的文件夹名
+        </p>
+      )}
+
+      {mode !== 'none' && hasFolders && (
+        <div className="max-h-64 overflow-y-auto rounded-lg border border-gray-100 dark:border-gray-800 px-3">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-light-text-secondary dark:text-dark-text-secondary">
+                <th className="py-2 pr-3 font-medium">文件夹</th>
+                <th className="py-2 font-medium">标签{!serverImport && '（逗号分隔，可修改）'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {folders.map((folder) => (
+                <FolderRow
+                  // 切换方式后重新生成草稿
+                  key={`${mode}:${folder.path}`}
+                  folder={folder}
+                  tags={tagMap[folder.path] ?? []}
+                  baseTags={baseTags}
+                  editable={!serverImport && !disabled}
+                  onChange={(tags) => onFolderTagsChange(folder.path, tags)}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
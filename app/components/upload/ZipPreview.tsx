@@ -1,24 +1,59 @@
 'use client'
 
-import { ZipAnalysisResult } from '../../utils/zipProcessor'
-import { ImageIcon, ExclamationTriangleIcon, CheckIcon } from '../ui/icons'
+import { useMemo } from 'react'
+import { ZipAnalysisResult, formatFileSize } from '../../utils/zipProcessor'
+import { FolderTagMap, FolderTagMode, buildFolderTagMap, zipFolders } from '../../utils/zipFolderTags'
+import { ImageIcon, ExclamationTriangleIcon, CheckIcon, ArchiveIcon } from '../ui/icons'
+import ZipFolderTagEditor from './ZipFolderTagEditor'
 
 interface ZipPreviewProps {
-  analysis: ZipAnalysisResult
+  // 压缩包过大时不在浏览器中分析，为 null，只能在服务器解压
+  analysis: ZipAnalysisResult | null
   zipFileName: string
+  zipFileSize: number
+  // 上传整个压缩包，由服务器解压导入
+  serverImport: boolean
+  onServerImportChange: (serverImport: boolean) => void
+  // 文件夹转标签的方式，以及浏览器解压时用户逐个修改过的文件夹
+  folderTagMode: FolderTagMode
+  onFolderTagModeChange: (mode: FolderTagMode) => void
+  folderTagEdits: FolderTagMap
+  onFolderTagsChange: (folder: string, tags: string[]) => void
+  // 所有图片都会添加的标签，用于预览
+  baseTags: string[]
   onConfirm: () => void
   onCancel: () => void
   isProcessing?: boolean
 }
 
+const SKIP_REASONS: Record<ZipAnalysisResult['skippedFiles'][number]['reason'], string> = {
+  not_image: '非图片',
+  too_large: '超过大小限制',
+  directory: '目录',
+  not_in_manifest: '不在导出清单中',
+}
+
 export default function ZipPreview({
   analysis,
   zipFileName,
+  zipFileSize,
+  serverImport,
+  onServerImportChange,
+  folderTagMode,
+  onFolderTagModeChange,
+  folderTagEdits,
+  onFolderTagsChange,
+  baseTags,
   onConfirm,
   onCancel,
   isProcessing = false,
 }: ZipPreviewProps) {
-  const hasSkippedFiles = analysis.skippedFiles.length > 0
+  const serverOnly = analysis === null
+  const useServer = serverOnly || serverImport
+  const hasSkippedFiles = !!analysis && analysis.skippedFiles.length > 0
+  const folders = useMemo(() => (analysis ? zipFolders(analysis.images) : []), [analysis])
+  // 服务器解压不使用逐个修改的标签
+  const folderTagMap = buildFolderTagMap(folders, folderTagMode, useServer ? {} : folderTagEdits)
 
   return (
     <div className="card p-6 mb-6">
@@ -27,45 +62,113 @@ export default function ZipPreview({
           <ImageIcon className="h-6 w-6 text-indigo-500" />
         </div>
         <div>
-          <h3 className="text-lg font-medium">ZIP 文件分析完成</h3>
+          <h3 className="text-lg font-medium">{serverOnly ? 'ZIP 文件已选择' : 'ZIP 文件分析完成'}</h3>
           <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
-            {zipFileName}
+            {zipFileName}（{formatFileSize(zipFileSize)}）
           </p>
         </div>
       </div>
 
-      <div className="grid grid-cols-2 gap-4 mb-4">
-        <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4">
-          <div className="flex items-center gap-2 mb-1">
-            <CheckIcon className="h-4 w-4 text-green-600 dark:text-green-400" />
-            <span className="text-sm font-medium text-green-700 dark:text-green-300">
-              可上传图片
-            </span>
-          </div>
-          <p className="text-2xl font-bold text-green-700 dark:text-green-300">
-            {analysis.totalImages.toLocaleString()} 张
-          </p>
-        </div>
-
-        {hasSkippedFiles && (
-          <div className="bg-amber-50 dark:bg-amber-900/20 rounded-lg p-4">
+      {analysis && (
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-4">
             <div className="flex items-center gap-2 mb-1">
-              <ExclamationTriangleIcon className="h-4 w-4 text-amber-600 dark:text-amber-400" />
-              <span className="text-sm font-medium text-amber-700 dark:text-amber-300">
-                跳过文件
+              <CheckIcon className="h-4 w-4 text-green-600 dark:text-green-400" />
+              <span className="text-sm font-medium text-green-700 dark:text-green-300">
+                可上传图片
               </span>
             </div>
-            <p className="text-2xl font-bold text-amber-700 dark:text-amber-300">
-              {analysis.skippedFiles.length.toLocaleString()}
-            </p>
-            <p className="text-sm text-amber-600 dark:text-amber-400">
-              非图片或超过大小限制
+            <p className="text-2xl font-bold text-green-700 dark:text-green-300">
+              {analysis.totalImages.toLocaleString()} 张
             </p>
           </div>
-        )}
+
+          {hasSkippedFiles && (
+            <div className="bg-amber-50 dark:bg-amber-900/20 rounded-lg p-4">
+              <div className="flex items-center gap-2 mb-1">
+                <ExclamationTriangleIcon className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+                <span className="text-sm font-medium text-amber-700 dark:text-amber-300">
+                  跳过文件
+                </span>
+              </div>
+              <p className="text-2xl font-bold text-amber-700 dark:text-amber-300">
+                {analysis.skippedFiles.length.toLocaleString()}
+              </p>
+              <p className="text-sm text-amber-600 dark:text-amber-400">
+                非图片或超过大小限制
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {serverOnly && (
+        <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 mb-4">
+          <p className="text-sm text-blue-700 dark:text-blue-300">
+            压缩包较大，不在浏览器中解压，将整体上传后由服务器解压导入。
+          </p>
+        </div>
+      )}
+
+      {/* 导入方式 */}
+      <div className="space-y-2 mb-4">
+        <label className={`flex items-start gap-2 text-sm ${serverOnly ? 'opacity-60' : 'cursor-pointer'}`}>
+          <input
+            type="checkbox"
+            checked={useServer}
+            disabled={serverOnly || isProcessing}
+            onChange={(e) => onServerImportChange(e.target.checked)}
+            className="mt-0.5"
+          />
+          <span>
+            <span className="flex items-center gap-1 font-medium">
+              <ArchiveIcon className="h-4 w-4 text-indigo-500" />
+              在服务器解压
+            </span>
+            <span className="text-light-text-secondary dark:text-dark-text-secondary">
+              只上传一次压缩包，关闭页面后导入仍会继续
+            </span>
+          </span>
+        </label>
       </div>
 
-      {analysis.totalImages > 100 && (
+      {/* 图库导出的压缩包按清单恢复标签，不按文件夹添加 */}
+      {analysis?.fromExport ? (
+        <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 mb-4">
+          <p className="text-sm text-blue-700 dark:text-blue-300">
+            这是图库导出的压缩包：只导入其中的原图，并恢复原文件名和标签{useServer && '、可见性'}。
+          </p>
+        </div>
+      ) : (
+        <ZipFolderTagEditor
+          folders={folders}
+          mode={folderTagMode}
+          onModeChange={onFolderTagModeChange}
+          tagMap={folderTagMap}
+          onFolderTagsChange={onFolderTagsChange}
+          baseTags={baseTags}
+          serverImport={useServer}
+          disabled={isProcessing}
+        />
+      )}
+
+      {hasSkippedFiles && (
+        <details className="mb-4 text-sm">
+          <summary className="cursor-pointer text-amber-700 dark:text-amber-300">
+            查看跳过的 {analysis.skippedFiles.length} 个文件
+          </summary>
+          <ul className="mt-2 max-h-48 overflow-y-auto space-y-1">
+            {analysis.skippedFiles.map((file) => (
+              <li key={file.path} className="flex gap-3 px-2 py-1 rounded bg-gray-50 dark:bg-gray-800/60">
+                <span className="truncate flex-1" title={file.path}>{file.path}</span>
+                <span className="text-amber-600 dark:text-amber-400 shrink-0">{SKIP_REASONS[file.reason]}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {!useServer && analysis && analysis.totalImages > 100 && (
         <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 mb-4">
           <p className="text-sm text-blue-700 dark:text-blue-300">
             <strong>提示：</strong>
@@ -78,10 +181,14 @@ export default function ZipPreview({
       <div className="flex gap-3">
         <button
           onClick={onConfirm}
-          disabled={isProcessing || analysis.totalImages === 0}
+          disabled={isProcessing || (!!analysis && analysis.totalImages === 0)}
           className="btn-primary flex-1 py-2"
         >
-          {isProcessing ? '处理中...' : `开始上传 ${analysis.totalImages} 张图片`}
+          {isProcessing
+            ? '处理中...'
+            : useServer || !analysis
+            ? '上传压缩包并导入'
+            : `开始上传 ${analysis.totalImages} 张图片`}
         </button>
         <button
           onClick={onCancel}
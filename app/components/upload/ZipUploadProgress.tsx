@@ -1,8 +1,8 @@
 'use client'
 
-import { ZipUploadPhase } from '../../hooks/useZipUpload'
+import { ZipUploadPhase, ZipServerImportState } from '../../hooks/useZipUpload'
 import { ExtractionProgress } from '../../utils/zipProcessor'
-import { Spinner, CheckIcon, Cross1Icon, ArchiveIcon, UploadIcon } from '../ui/icons'
+import { Spinner, CheckIcon, Cross1Icon, ArchiveIcon, UploadIcon, ExclamationTriangleIcon } from '../ui/icons'
 
 interface ZipUploadProgressProps {
   phase: ZipUploadPhase
@@ -12,21 +12,107 @@ interface ZipUploadProgressProps {
     failed: number
     total: number
   }
+  // 服务器端导入时的压缩包上传进度和导入任务
+  serverImport?: ZipServerImportState | null
+  error?: string | null
   onCancel: () => void
 }
 
+// 服务器导入的两个阶段：上传压缩包、服务器解压导入
+function ServerImportStages({ phase, serverImport }: { phase: ZipUploadPhase; serverImport: ZipServerImportState }) {
+  const { uploadedParts, partCount, job } = serverImport
+  const isUploading = phase === 'uploading'
+  const isImporting = phase === 'importing'
+  const isCompleted = phase === 'completed'
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {/* 压缩包上传进度 */}
+      <div
+        className={`p-3 rounded-lg ${
+          isUploading ? 'bg-indigo-50 dark:bg-indigo-900/20' : 'bg-green-50 dark:bg-green-900/20'
+        }`}
+      >
+        <div className="flex items-center gap-2 mb-2">
+          <UploadIcon className={`h-4 w-4 ${isUploading ? 'text-indigo-500' : 'text-green-500'}`} />
+          <span className="text-sm font-medium">上传压缩包</span>
+          {!isUploading && <CheckIcon className="h-4 w-4 text-green-500 ml-auto" />}
+        </div>
+        {partCount > 0 && (
+          <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+            分片 {uploadedParts} / {partCount}
+          </p>
+        )}
+      </div>
+
+      {/* 服务器导入进度 */}
+      <div
+        className={`p-3 rounded-lg ${
+          isImporting
+            ? 'bg-indigo-50 dark:bg-indigo-900/20'
+            : isCompleted
+            ? 'bg-green-50 dark:bg-green-900/20'
+            : 'bg-gray-50 dark:bg-gray-800'
+        }`}
+      >
+        <div className="flex items-center gap-2 mb-2">
+          <ArchiveIcon
+            className={`h-4 w-4 ${
+              isImporting ? 'text-indigo-500' : isCompleted ? 'text-green-500' : 'text-gray-400'
+            }`}
+          />
+          <span className="text-sm font-medium">服务器导入</span>
+          {isCompleted && <CheckIcon className="h-4 w-4 text-green-500 ml-auto" />}
+        </div>
+        {job && (
+          <div className="flex flex-wrap gap-x-2 text-sm">
+            {job.status === 'queued' ? (
+              <span className="text-light-text-secondary dark:text-dark-text-secondary">排队中</span>
+            ) : (
+              <>
+                <span className="text-light-text-secondary dark:text-dark-text-secondary">
+                  {job.processed} / {job.total}
+                </span>
+                <span className="text-green-600 dark:text-green-400">{job.succeeded} 成功</span>
+                {job.failed > 0 && (
+                  <span className="text-red-600 dark:text-red-400">{job.failed} 失败</span>
+                )}
+                {job.skipped > 0 && (
+                  <span className="text-amber-600 dark:text-amber-400">{job.skipped} 跳过</span>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
 export default function ZipUploadProgress({
   phase,
   extractProgress,
   uploadProgress,
+  serverImport,
+  error,
   onCancel,
 }: ZipUploadProgressProps) {
   const isExtracting = phase === 'extracting'
   const isUploading = phase === 'uploading'
+  const isImporting = phase === 'importing'
   const isCompleted = phase === 'completed'
+  const job = serverImport?.job
 
-  // 计算总进度
-  const totalProgress = isExtracting
+  // 计算总进度；服务器导入时前一半是压缩包上传，后一半是服务器处理
+  const totalProgress = serverImport
+    ? isCompleted
+      ? 100
+      : isImporting
+      ? 50 + (job && job.total > 0 ? Math.round((job.processed / job.total) * 50) : 0)
+      : serverImport.partCount > 0
+      ? Math.round((serverImport.uploadedParts / serverImport.partCount) * 50)
+      : 0
+    : isExtracting
     ? extractProgress
       ? Math.round((extractProgress.current / extractProgress.total) * 50)
       : 0
@@ -53,13 +139,17 @@ export default function ZipUploadProgress({
           <div>
             <h3 className="text-lg font-medium">
               {isExtracting && '正在解压...'}
-              {isUploading && '正在上传...'}
-              {isCompleted && '上传完成'}
+              {isUploading && (serverImport ? '正在上传压缩包...' : '正在上传...')}
+              {isImporting && '服务器正在解压导入...'}
+              {isCompleted && (job?.status === 'cancelled' ? '导入已取消' : '上传完成')}
             </h3>
             <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
               {extractProgress && isExtracting && extractProgress.currentFileName}
-              {isUploading &&
+              {isUploading && !serverImport &&
                 `${uploadProgress.completed + uploadProgress.failed} / ${uploadProgress.total}`}
+              {isUploading && serverImport && serverImport.partCount > 0 &&
+                `${serverImport.uploadedParts} / ${serverImport.partCount}`}
+              {isImporting && job && job.status !== 'queued' && `${job.processed} / ${job.total}`}
               {isCompleted &&
                 `成功 ${uploadProgress.completed}，失败 ${uploadProgress.failed}`}
             </p>
@@ -93,74 +183,105 @@ export default function ZipUploadProgress({
       </div>
 
       {/* 分阶段进度 */}
-      <div className="grid grid-cols-2 gap-4">
-        {/* 解压进度 */}
-        <div
-          className={`p-3 rounded-lg ${
-            isExtracting
-              ? 'bg-indigo-50 dark:bg-indigo-900/20'
-              : isUploading || isCompleted
-              ? 'bg-green-50 dark:bg-green-900/20'
-              : 'bg-gray-50 dark:bg-gray-800'
-          }`}
-        >
-          <div className="flex items-center gap-2 mb-2">
-            <ArchiveIcon
-              className={`h-4 w-4 ${
-                isExtracting
-                  ? 'text-indigo-500'
-                  : isUploading || isCompleted
-                  ? 'text-green-500'
-                  : 'text-gray-400'
-              }`}
-            />
-            <span className="text-sm font-medium">解压</span>
-            {(isUploading || isCompleted) && (
-              <CheckIcon className="h-4 w-4 text-green-500 ml-auto" />
+      {serverImport ? (
+        <ServerImportStages phase={phase} serverImport={serverImport} />
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          {/* 解压进度 */}
+          <div
+            className={`p-3 rounded-lg ${
+              isExtracting
+                ? 'bg-indigo-50 dark:bg-indigo-900/20'
+                : isUploading || isCompleted
+                ? 'bg-green-50 dark:bg-green-900/20'
+                : 'bg-gray-50 dark:bg-gray-800'
+            }`}
+          >
+            <div className="flex items-center gap-2 mb-2">
+              <ArchiveIcon
+                className={`h-4 w-4 ${
+                  isExtracting
+                    ? 'text-indigo-500'
+                    : isUploading || isCompleted
+                    ? 'text-green-500'
+                    : 'text-gray-400'
+                }`}
+              />
+              <span className="text-sm font-medium">解压</span>
+              {(isUploading || isCompleted) && (
+                <CheckIcon className="h-4 w-4 text-green-500 ml-auto" />
+              )}
+            </div>
+            {extractProgress && (
+              <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
+                {extractProgress.current} / {extractProgress.total}
+              </p>
             )}
           </div>
-          {extractProgress && (
-            <p className="text-sm text-light-text-secondary dark:text-dark-text-secondary">
-              {extractProgress.current} / {extractProgress.total}
-            </p>
-          )}
-        </div>
 
-        {/* 上传进度 */}
-        <div
-          className={`p-3 rounded-lg ${
-            isUploading
-              ? 'bg-indigo-50 dark:bg-indigo-900/20'
-              : isCompleted
-              ? 'bg-green-50 dark:bg-green-900/20'
-              : 'bg-gray-50 dark:bg-gray-800'
-          }`}
-        >
-          <div className="flex items-center gap-2 mb-2">
-            <UploadIcon
-              className={`h-4 w-4 ${
-                isUploading
-                  ? 'text-indigo-500'
-                  : isCompleted
-                  ? 'text-green-500'
-                  : 'text-gray-400'
-              }`}
-            />
-            <span className="text-sm font-medium">上传</span>
-            {isCompleted && <CheckIcon className="h-4 w-4 text-green-500 ml-auto" />}
-          </div>
-          <div className="flex gap-2 text-sm">
-            <span className="text-green-600 dark:text-green-400">
-              {uploadProgress.completed} 成功
-            </span>
-            {uploadProgress.failed > 0 && (
-              <span className="text-red-600 dark:text-red-400">
-                {uploadProgress.failed} 失败
+          {/* 上传进度 */}
+          <div
+            className={`p-3 rounded-lg ${
+              isUploading
+                ? 'bg-indigo-50 dark:bg-indigo-900/20'
+                : isCompleted
+                ? 'bg-green-50 dark:bg-green-900/20'
+                : 'bg-gray-50 dark:bg-gray-800'
+            }`}
+          >
+            <div className="flex items-center gap-2 mb-2">
+              <UploadIcon
+                className={`h-4 w-4 ${
+                  isUploading
+                    ? 'text-indigo-500'
+                    : isCompleted
+                    ? 'text-green-500'
+                    : 'text-gray-400'
+                }`}
+              />
+              <span className="text-sm font-medium">上传</span>
+              {isCompleted && <CheckIcon className="h-4 w-4 text-green-500 ml-auto" />}
+            </div>
+            <div className="flex gap-2 text-sm">
+              <span className="text-green-600 dark:text-green-400">
+                {uploadProgress.completed} 成功
               </span>
-            )}
+              {uploadProgress.failed > 0 && (
+                <span className="text-red-600 dark:text-red-400">
+                  {uploadProgress.failed} 失败
+                </span>
+              )}
+            </div>
           </div>
         </div>
-      </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 flex items-center gap-2">
+          <ExclamationTriangleIcon className="h-4 w-4 text-red-500 shrink-0" />
+          <p className="text-sm text-red-700 dark:text-red-300">{error}</p>
+        </div>
+      )}
+
+      {/* 服务器导入失败的条目 */}
+      {serverImport && serverImport.errors.length > 0 && (
+        <div className="mt-4">
+          <p className="text-sm font-medium mb-2">导入失败的文件</p>
+          <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+            {serverImport.errors.map((entry) => (
+              <li key={entry.path} className="flex gap-3 p-2 rounded bg-gray-50 dark:bg-gray-800/60">
+                <span className="truncate flex-1" title={entry.path}>{entry.path}</span>
+                <span className="text-red-500 shrink-0 max-w-[50%] truncate" title={entry.error}>{entry.error}</span>
+              </li>
+            ))}
+          </ul>
+          {job && job.failed > serverImport.errors.length && (
+            <p className="text-xs text-light-text-secondary dark:text-dark-text-secondary mt-1">
+              仅显示前 {serverImport.errors.length} 个，共 {job.failed} 个失败
+            </p>
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,126 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '../utils/request';
+import { ApiKeyInfo, ApiKeyScope } from '../types';
+import { queryKeys } from '../lib/queryKeys';
+
+interface ApiKeysResponse {
+  success: boolean;
+  keys: ApiKeyInfo[];
+  currentKeyId: number;
+}
+
+interface CreateApiKeyResponse {
+  success: boolean;
+  key: string;
+  info: ApiKeyInfo;
+}
+
+interface UpdateApiKeyResponse {
+  success: boolean;
+  info: ApiKeyInfo;
+}
+
+interface RotateApiKeyResponse {
+  success: boolean;
+  key: string;
+  info: ApiKeyInfo;
+  previous: ApiKeyInfo | null;
+}
+
+export interface CreateApiKeyInput {
+  label: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+}
+
+export interface UpdateApiKeyInput extends Partial<CreateApiKeyInput> {
+  id: number;
+}
+
+export function useApiKeys(enabled = true) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.apiKeys.list(),
+    queryFn: async () => {
+      const response = await api.get<ApiKeysResponse>('/api/keys');
+      if (!response.success) {
+        throw new Error('Failed to fetch API keys');
+      }
+      return response;
+    },
+    enabled,
+    staleTime: 0,
+    retry: false,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (input: CreateApiKeyInput) => {
+      const response = await api.post<CreateApiKeyResponse>('/api/keys', { ...input });
+      if (!response.success) {
+        throw new Error('Failed to create API key');
+      }
+      return response;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys.all });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...input }: UpdateApiKeyInput) => {
+      const response = await api.put<UpdateApiKeyResponse>(`/api/keys/${id}`, { ...input });
+      if (!response.success) {
+        throw new Error('Failed to update API key');
+      }
+      return response.info;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys.all });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async ({ id, graceMinutes }: { id: number; graceMinutes: number }) => {
+      const response = await api.post<RotateApiKeyResponse>(`/api/keys/${id}/rotate`, { graceMinutes });
+      if (!response.success) {
+        throw new Error('Failed to rotate API key');
+      }
+      return response;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys.all });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await api.delete<{ success: boolean }>(`/api/keys/${id}`);
+      if (!response.success) {
+        throw new Error('Failed to revoke API key');
+      }
+      return id;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys.all });
+    },
+  });
+
+  return {
+    keys: query.data?.keys ?? [],
+    currentKeyId: query.data?.currentKeyId ?? null,
+    isLoading: query.isLoading,
+    error: query.error instanceof Error ? query.error.message : null,
+    refetch: query.refetch,
+    createKey: createMutation.mutateAsync,
+    updateKey: updateMutation.mutateAsync,
+    rotateKey: rotateMutation.mutateAsync,
+    revokeKey: revokeMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    isUpdating: updateMutation.isPending,
+    isRotating: rotateMutation.isPending,
+    isRevoking: revokeMutation.isPending,
+  };
+}
@@ -9,7 +9,7 @@ import {
   InfiniteData,
 } from '@tanstack/react-query';
 import { api } from '../utils/request';
-import { ImageFile, ImageListResponse } from '../types';
+import { ImageFile, ImageListResponse, ImageVisibility, NearDuplicatesResponse, SimilarImagesResponse } from '../types';
 import { queryKeys } from '../lib/queryKeys';
 
 interface ImageDetailResponse {
@@ -27,15 +27,25 @@ interface UpdateResponse {
   image: ImageFile;
 }
 
+interface ShareResponse {
+  success: boolean;
+  url: string;
+  expiresAt: string;
+}
+
 interface UseImagesOptions {
   tag?: string;
   orientation?: string;
   format?: string;
+  // #rrggbb，按主色调筛选
+  color?: string;
   limit?: number;
   enabled?: boolean;
 }
 
-function matchesFilters(image: ImageFile, tag: string, orientation: string, format: string): boolean {
+function matchesFilters(image: ImageFile, tag: string, orientation: string, format: string, color: string): boolean {
+  // 颜色匹配只在服务端计算，刚上传的图片不参与合并
+  if (color) return false;
   const tagOk = !tag || image.tags.includes(tag);
   const orientationOk = !orientation || image.orientation === orientation;
   if (!tagOk || !orientationOk) return false;
@@ -82,11 +92,11 @@ function mergeFirstPageImages(
 
 // Hook for infinite scrolling image list
 export function useInfiniteImages(options: UseImagesOptions = {}) {
-  const { tag = '', orientation = '', format = 'all', limit = 24, enabled = true } = options;
+  const { tag = '', orientation = '', format = 'all', color = '', limit = 24, enabled = true } = options;
   const queryClient = useQueryClient();
 
   const recentUploads = queryClient.getQueryData<ImageFile[]>(queryKeys.images.recentUploads()) || [];
-  const recentMatches = recentUploads.filter((img) => matchesFilters(img, tag, orientation, format)).slice(0, limit);
+  const recentMatches = recentUploads.filter((img) => matchesFilters(img, tag, orientation, format, color)).slice(0, limit);
 
   const placeholder = recentMatches.length > 0 ? ({
     pageParams: [1],
@@ -101,7 +111,7 @@ export function useInfiniteImages(options: UseImagesOptions = {}) {
   } satisfies InfiniteData<ImageListResponse>) : null;
 
   const query = useInfiniteQuery({
-    queryKey: queryKeys.images.list({ tag, orientation, format, limit }),
+    queryKey: queryKeys.images.list({ tag, orientation, format, color, limit }),
     queryFn: async ({ pageParam = 1 }) => {
       const params: Record<string, string> = {
         page: String(pageParam),
@@ -110,6 +120,7 @@ export function useInfiniteImages(options: UseImagesOptions = {}) {
       if (tag) params.tag = tag;
       if (orientation) params.orientation = orientation;
       if (format && format !== 'all') params.format = format;
+      if (color) params.color = color;
 
       const response = await api.get<ImageListResponse>('/api/images', params);
       return response;
@@ -126,7 +137,7 @@ export function useInfiniteImages(options: UseImagesOptions = {}) {
     ...(placeholder ? { placeholderData: placeholder } : {}),
     select: (data) => {
       const latestRecent = queryClient.getQueryData<ImageFile[]>(queryKeys.images.recentUploads()) || [];
-      const candidates = latestRecent.filter((img) => matchesFilters(img, tag, orientation, format));
+      const candidates = latestRecent.filter((img) => matchesFilters(img, tag, orientation, format, color));
       if (candidates.length === 0 || data.pages.length === 0) return data;
 
       const pending = new Set<string>();
@@ -186,12 +197,12 @@ export function useInfiniteImages(options: UseImagesOptions = {}) {
 
 // Hook for paginated image list (non-infinite)
 export function useImages(options: UseImagesOptions & { page?: number } = {}) {
-  const { page = 1, tag = '', orientation = '', format = 'all', limit = 24, enabled = true } = options;
+  const { page = 1, tag = '', orientation = '', format = 'all', color = '', limit = 24, enabled = true } = options;
   const queryClient = useQueryClient();
 
   const recentUploads = queryClient.getQueryData<ImageFile[]>(queryKeys.images.recentUploads()) || [];
   const recentMatches = page === 1
-    ? recentUploads.filter((img) => matchesFilters(img, tag, orientation, format)).slice(0, limit)
+    ? recentUploads.filter((img) => matchesFilters(img, tag, orientation, format, color)).slice(0, limit)
     : [];
   const placeholder = recentMatches.length > 0 ? ({
     images: recentMatches,
@@ -201,7 +212,7 @@ export function useImages(options: UseImagesOptions & { page?: number } = {}) {
   } satisfies ImageListResponse) : null;
 
   const query = useQuery({
-    queryKey: queryKeys.images.list({ page, tag, orientation, format, limit }),
+    queryKey: queryKeys.images.list({ page, tag, orientation, format, color, limit }),
     queryFn: async () => {
       const params: Record<string, string> = {
         page: String(page),
@@ -210,6 +221,7 @@ export function useImages(options: UseImagesOptions & { page?: number } = {}) {
       if (tag) params.tag = tag;
       if (orientation) params.orientation = orientation;
       if (format && format !== 'all') params.format = format;
+      if (color) params.color = color;
 
       return api.get<ImageListResponse>('/api/images', params);
     },
@@ -219,7 +231,7 @@ export function useImages(options: UseImagesOptions & { page?: number } = {}) {
     select: (data) => {
       if (page !== 1) return data;
       const latestRecent = queryClient.getQueryData<ImageFile[]>(queryKeys.images.recentUploads()) || [];
-      const candidates = latestRecent.filter((img) => matchesFilters(img, tag, orientation, format));
+      const candidates = latestRecent.filter((img) => matchesFilters(img, tag, orientation, format, color));
       if (candidates.length === 0) return data;
 
       const existingIds = new Set(data.images.map((i) => i.id));
@@ -261,6 +273,29 @@ export function useImageDetail(id: string | null) {
   });
 }
 
+// Hook for images that look like the given one (perceptual hash within the server's default distance)
+export function useSimilarImages(id: string | null) {
+  return useQuery({
+    queryKey: queryKeys.images.similar(id!),
+    queryFn: async () => {
+      const response = await api.get<SimilarImagesResponse>(`/api/images/${id}/similar`);
+      return response.images;
+    },
+    enabled: !!id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Hook for groups of near-duplicate images across the library
+export function useNearDuplicates(distance: number, enabled: boolean = true) {
+  return useQuery({
+    queryKey: queryKeys.images.nearDuplicates(distance),
+    queryFn: () => api.get<NearDuplicatesResponse>('/api/images/near-duplicates', { distance: String(distance) }),
+    enabled,
+    staleTime: 60 * 1000,
+  });
+}
+
 // Hook for deleting an image with optimistic update
 export function useDeleteImage() {
   const queryClient = useQueryClient();
@@ -367,6 +402,9 @@ export function useDeleteImage() {
     onSuccess: ({ id }) => {
       queryClient.removeQueries({ queryKey: queryKeys.images.detail(id) });
       queryClient.invalidateQueries({ queryKey: queryKeys.tags.list() });
+      // The deleted image may appear in similar-image results
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.images.all, 'similar'] });
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.images.all, 'nearDuplicates'] });
     },
   });
 }
@@ -381,7 +419,7 @@ export function useUpdateImage() {
       data,
     }: {
       id: string;
-      data: { tags?: string[]; expiryMinutes?: number };
+      data: { tags?: string[]; expiryMinutes?: number; visibility?: ImageVisibility };
     }) => {
       const response = await api.put<UpdateResponse>(`/api/images/${id}`, data);
       if (!response.success) {
@@ -400,6 +438,30 @@ export function useUpdateImage() {
   });
 }
 
+// Hook for creating a signed, time-limited link to a private image
+export function useShareImage() {
+  return useMutation({
+    mutationFn: async ({
+      id,
+      expiresInMinutes,
+      variant = 'original',
+    }: {
+      id: string;
+      expiresInMinutes: number;
+      variant?: 'original' | 'webp' | 'avif';
+    }) => {
+      const response = await api.post<ShareResponse>(`/api/images/${id}/share`, {
+        expiresInMinutes,
+        variant,
+      });
+      if (!response.success) {
+        throw new Error('Failed to create share link');
+      }
+      return { url: response.url, expiresAt: response.expiresAt };
+    },
+  });
+}
+
 // Hook for invalidating image caches after upload
 export function useInvalidateImages() {
   const queryClient = useQueryClient();
@@ -8,6 +8,15 @@ import {
   extractImagesBatch,
 } from '../utils/zipProcessor'
 import { concurrentUpload } from '../utils/concurrentUpload'
+import {
+  ZipImportJob,
+  ZipImportEntryError,
+  startZipImport,
+  getZipImport,
+  cancelZipImport,
+  isZipImportFinished,
+} from '../utils/zipImport'
+import { FolderTagMap, folderOf } from '../utils/zipFolderTags'
 import { UploadResult } from '../types'
 import { FileUploadStatus } from '../types/upload'
 
@@ -19,13 +28,42 @@ export type ZipUploadPhase =
   | 'preview' // 预览模式，等待确认
   | 'extracting' // 正在解压
   | 'uploading' // 正在上传
+  | 'importing' // 压缩包已上传，服务器正在解压导入
   | 'completed' // 完成
 
+// 超过该大小的压缩包不在浏览器中分析，只能交给服务器解压
+export const SERVER_ONLY_ZIP_SIZE = 200 * 1024 * 1024
+
+// 服务器导入进度的轮询间隔
+const IMPORT_POLL_INTERVAL_MS = 2000
+
+// 服务器端导入：压缩包上传进度和导入任务状态
+export interface ZipServerImportState {
+  uploadedParts: number
+  partCount: number
+  job: ZipImportJob | null
+  errors: ZipImportEntryError[]
+}
+
+interface ZipUploadOptions {
+  tags: string[]
+  expiryMinutes: number
+  quality: number
+  maxWidth: number
+  preserveAnimation: boolean
+  outputFormat: 'webp' | 'avif' | 'both'
+  // 各文件夹中的图片额外添加的标签
+  folderTagMap?: FolderTagMap
+  onCompleted?: (results: UploadResult[]) => void
+}
+
 // ZIP上传状态
 export interface ZipUploadState {
   phase: ZipUploadPhase
   zipFile: File | null
+  // 过大的压缩包跳过分析，此时为 null
   analysis: ZipAnalysisResult | null
+  serverImport: ZipServerImportState | null
   extractProgress: ExtractionProgress | null
   uploadProgress: {
     completed: number
@@ -39,15 +77,8 @@ export interface ZipUploadState {
 // ZIP上传操作
 export interface ZipUploadActions {
   selectZipFile: (file: File) => Promise<void>
-  startUpload: (options: {
-    tags: string[]
-    expiryMinutes: number
-    quality: number
-    maxWidth: number
-    preserveAnimation: boolean
-    outputFormat: 'webp' | 'avif' | 'both'
-    onCompleted?: (results: UploadResult[]) => void
-  }) => Promise<void>
+  startUpload: (options: ZipUploadOptions) => Promise<void>
+  startServerImport: (options: Omit<ZipUploadOptions, 'folderTagMap'> & { folderTags: boolean }) => Promise<void>
   cancel: () => void
   reset: () => void
 }
@@ -56,6 +87,7 @@ const initialState: ZipUploadState = {
   phase: 'idle',
   zipFile: null,
   analysis: null,
+  serverImport: null,
   extractProgress: null,
   uploadProgress: {
     completed: 0,
@@ -66,10 +98,22 @@ const initialState: ZipUploadState = {
   results: [],
 }
 
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }, { once: true })
+  })
+}
+
 export function useZipUpload(): ZipUploadState & ZipUploadActions {
   const [state, setState] = useState<ZipUploadState>(initialState)
   const abortControllerRef = useRef<AbortController | null>(null)
   const isCancelledRef = useRef(false)
+  // 正在进行的服务器导入任务，取消时通知服务端停止
+  const importIdRef = useRef<string | null>(null)
 
   // 选择ZIP文件并分析
   const selectZipFile = useCallback(async (file: File) => {
@@ -86,9 +130,17 @@ export function useZipUpload(): ZipUploadState & ZipUploadActions {
       ...prev,
       phase: 'loading',
       zipFile: file,
+      analysis: null,
+      serverImport: null,
       error: null,
     }))
 
+    // 在浏览器中读取这么大的压缩包容易耗尽内存，直接进入预览，只提供服务器解压
+    if (file.size > SERVER_ONLY_ZIP_SIZE) {
+      setState((prev) => ({ ...prev, phase: 'preview' }))
+      return
+    }
+
     try {
       setState((prev) => ({ ...prev, phase: 'analyzing' }))
       const analysis = await analyzeZipFile(file)
@@ -118,15 +170,7 @@ export function useZipUpload(): ZipUploadState & ZipUploadActions {
 
   // 开始上传
   const startUpload = useCallback(
-    async (options: {
-      tags: string[]
-      expiryMinutes: number
-      quality: number
-      maxWidth: number
-      preserveAnimation: boolean
-      outputFormat: 'webp' | 'avif' | 'both'
-      onCompleted?: (results: UploadResult[]) => void
-    }) => {
+    async (options: ZipUploadOptions) => {
       const { zipFile, analysis } = state
       if (!zipFile || !analysis) return
 
@@ -141,6 +185,7 @@ export function useZipUpload(): ZipUploadState & ZipUploadActions {
           failed: 0,
           total: analysis.totalImages,
         },
+        serverImport: null,
         results: [],
       }))
 
@@ -171,7 +216,12 @@ export function useZipUpload(): ZipUploadState & ZipUploadActions {
 
           // 并发上传当前批次
           const results = await concurrentUpload({
-            files: batch.map((img) => ({ id: img.id, file: img.file })),
+            files: batch.map((img) => ({
+              id: img.id,
+              file: img.file,
+              // 图库导出的图片恢复原来的标签，不按文件夹添加
+              tags: img.tags ?? options.folderTagMap?.[folderOf(img.originalPath)],
+            })),
             concurrency: 5,
             tags: options.tags,
             expiryMinutes: options.expiryMinutes,
@@ -227,12 +277,88 @@ export function useZipUpload(): ZipUploadState & ZipUploadActions {
     [state]
   )
 
+  // 上传压缩包，由服务器解压导入，并轮询导入进度
+  const startServerImport = useCallback(
+    async ({ folderTags, onCompleted, ...settings }: Omit<ZipUploadOptions, 'folderTagMap'> & { folderTags: boolean }) => {
+      const { zipFile } = state
+      if (!zipFile) return
+
+      isCancelledRef.current = false
+      const controller = new AbortController()
+      abortControllerRef.current = controller
+
+      setState((prev) => ({
+        ...prev,
+        phase: 'uploading',
+        serverImport: { uploadedParts: 0, partCount: 0, job: null, errors: [] },
+        results: [],
+      }))
+
+      try {
+        let job = await startZipImport({
+          ...settings,
+          file: zipFile,
+          folderTags,
+          signal: controller.signal,
+          onProgress: (uploadedParts, partCount) => {
+            setState((prev) => ({
+              ...prev,
+              serverImport: prev.serverImport && { ...prev.serverImport, uploadedParts, partCount },
+            }))
+          },
+        })
+        importIdRef.current = job.id
+        setState((prev) => ({
+          ...prev,
+          phase: 'importing',
+          serverImport: prev.serverImport && { ...prev.serverImport, job },
+        }))
+
+        while (!isZipImportFinished(job)) {
+          await wait(IMPORT_POLL_INTERVAL_MS, controller.signal)
+          const status = await getZipImport(job.id, controller.signal)
+          job = status.job
+          setState((prev) => ({
+            ...prev,
+            serverImport: prev.serverImport && { ...prev.serverImport, job: status.job, errors: status.errors },
+          }))
+        }
+        importIdRef.current = null
+
+        setState((prev) => ({
+          ...prev,
+          phase: 'completed',
+          uploadProgress: { completed: job.succeeded, failed: job.failed, total: job.total },
+          error: job.status === 'failed' ? job.error || '服务器导入失败' : null,
+        }))
+        // 服务器导入不返回每张图片的结果，只通知刷新列表
+        onCompleted?.([])
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          return
+        }
+        setState((prev) => ({
+          ...prev,
+          phase: 'completed',
+          error: error instanceof Error ? error.message : '上传过程中出错',
+        }))
+      }
+    },
+    [state]
+  )
+
   // 取消上传
   const cancel = useCallback(() => {
     isCancelledRef.current = true
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
     }
+    if (importIdRef.current) {
+      cancelZipImport(importIdRef.current).catch((error) => {
+        console.error('取消服务器导入失败:', error)
+      })
+      importIdRef.current = null
+    }
     setState((prev) => ({
       ...prev,
       phase: 'idle',
@@ -253,6 +379,7 @@ export function useZipUpload(): ZipUploadState & ZipUploadActions {
     ...state,
     selectZipFile,
     startUpload,
+    startServerImport,
     cancel,
     reset,
   }
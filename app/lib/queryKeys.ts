@@ -3,11 +3,13 @@ export const queryKeys = {
   images: {
     all: ['images'] as const,
     lists: () => [...queryKeys.images.all, 'list'] as const,
-    list: (filters: { page?: number; limit?: number; tag?: string; orientation?: string; format?: string }) =>
+    list: (filters: { page?: number; limit?: number; tag?: string; orientation?: string; format?: string; color?: string }) =>
       [...queryKeys.images.lists(), filters] as const,
     recentUploads: () => [...queryKeys.images.all, 'recentUploads'] as const,
     details: () => [...queryKeys.images.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.images.details(), id] as const,
+    similar: (id: string) => [...queryKeys.images.all, 'similar', id] as const,
+    nearDuplicates: (distance: number) => [...queryKeys.images.all, 'nearDuplicates', distance] as const,
   },
 
   // Tag related keys
@@ -20,4 +22,10 @@ export const queryKeys = {
   config: {
     all: ['config'] as const,
   },
+
+  // API keys (admin)
+  apiKeys: {
+    all: ['apiKeys'] as const,
+    list: () => [...queryKeys.apiKeys.all, 'list'] as const,
+  },
 } as const;
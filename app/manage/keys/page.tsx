@@ -0,0 +1,51 @@
+"use client";
+
+import { useState } from "react";
+import ApiKeyModal from "../../components/ApiKeyModal";
+import ApiKeyManagement from "../../components/ApiKeyManagement";
+import Header from "../../components/Header";
+import ToastContainer from "../../components/ToastContainer";
+import { useApiKey } from "../../hooks/useApiKey";
+import { useTheme } from "../../hooks/useTheme";
+import { ShieldIcon, Spinner } from "../../components/ui/icons";
+
+export default function ManageKeys() {
+  useTheme();
+  const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const apiKey = useApiKey();
+  const hasApiKey = typeof apiKey === "string" && apiKey.length > 0;
+  const isApiKeyReady = apiKey !== undefined;
+
+  return (
+    <div className="max-w-4xl mx-auto px-6 py-8">
+      <Header
+        onApiKeyClick={() => setShowApiKeyModal(true)}
+        isKeyVerified={hasApiKey}
+      />
+
+      <ToastContainer />
+
+      {!isApiKeyReady ? (
+        <div className="flex justify-center items-center h-64">
+          <Spinner className="h-12 w-12 text-indigo-500" />
+        </div>
+      ) : !hasApiKey ? (
+        <div className="flex flex-col items-center justify-center h-64 bg-white dark:bg-slate-800 rounded-2xl shadow-[0_2px_12px_-3px_rgba(0,0,0,0.08),0_4px_24px_-8px_rgba(0,0,0,0.05)] dark:shadow-[0_2px_12px_-3px_rgba(0,0,0,0.3)] p-8 text-gray-500 dark:text-gray-400 border border-gray-200/80 dark:border-gray-700 ring-1 ring-black/[0.03] dark:ring-white/[0.05]">
+          <div className="p-4 rounded-2xl bg-gradient-to-br from-gray-100 to-gray-50 dark:from-gray-700 dark:to-gray-800 mb-4">
+            <ShieldIcon className="w-12 h-12 text-gray-400 dark:text-gray-500" />
+          </div>
+          <p className="text-lg font-semibold text-gray-600 dark:text-gray-300">需要 API Key</p>
+          <p className="mt-2 text-sm text-gray-400 dark:text-gray-500">请先验证具有管理权限的 API Key</p>
+        </div>
+      ) : (
+        <ApiKeyManagement />
+      )}
+
+      <ApiKeyModal
+        isOpen={showApiKeyModal || apiKey === null}
+        onClose={() => setShowApiKeyModal(false)}
+        onSuccess={() => setShowApiKeyModal(false)}
+      />
+    </div>
+  );
+}
@@ -18,6 +18,8 @@ import Header from "../components/Header";
 import ToastContainer from "../components/ToastContainer";
 import TagManagementModal from "../components/TagManagementModal";
 import RandomApiModal from "../components/RandomApiModal";
+import NearDuplicateReviewModal from "../components/NearDuplicateReviewModal";
+import LibraryExportModal from "../components/LibraryExportModal";
 import { ImageIcon, Spinner } from "../components/ui/icons";
 import { useInfiniteImages, useDeleteImage } from "../hooks/useImages";
 
@@ -26,12 +28,15 @@ export default function Manage() {
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
   const [showTagModal, setShowTagModal] = useState(false);
   const [showRandomApiModal, setShowRandomApiModal] = useState(false);
+  const [showNearDuplicatesModal, setShowNearDuplicatesModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
   const [selectedImage, setSelectedImage] = useState<ImageFile | null>(null);
   const [status, setStatus] = useState<StatusMessage | null>(null);
   const [filters, setFilters] = useState<ImageFilterState>({
     format: "all",
     orientation: "all",
     tag: "",
+    color: "",
   });
   const [isModalOpen, setIsModalOpen] = useState(false);
   const apiKey = useApiKey();
@@ -51,6 +56,7 @@ export default function Manage() {
     tag: filters.tag || undefined,
     orientation: filters.orientation === 'all' ? undefined : filters.orientation,
     format: filters.format,
+    color: filters.color || undefined,
     limit: 60,
     enabled: hasApiKey,
   });
@@ -94,9 +100,10 @@ export default function Manage() {
   const handleFilterChange = (
     format: string,
     orientation: string,
-    tag: string
+    tag: string,
+    color: string
   ) => {
-    setFilters({ format, orientation, tag });
+    setFilters({ format, orientation, tag, color });
   };
 
   return (
@@ -105,6 +112,8 @@ export default function Manage() {
         onApiKeyClick={() => setShowApiKeyModal(true)}
         onTagManageClick={() => setShowTagModal(true)}
         onRandomApiClick={() => setShowRandomApiModal(true)}
+        onNearDuplicatesClick={() => setShowNearDuplicatesModal(true)}
+        onExportClick={() => setShowExportModal(true)}
         title="CattoPic"
         isKeyVerified={isKeyVerified}
       />
@@ -193,6 +202,8 @@ export default function Manage() {
               setIsModalOpen(false);
             }}
             onDelete={handleDelete}
+            onUpdate={setSelectedImage}
+            onSelectImage={setSelectedImage}
           />
         </>
 
@@ -206,6 +217,19 @@ export default function Manage() {
         onClose={() => setShowRandomApiModal(false)}
       />
 
+      <NearDuplicateReviewModal
+        isOpen={showNearDuplicatesModal}
+        onClose={() => setShowNearDuplicatesModal(false)}
+      />
+
+      <LibraryExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        filters={filters}
+        images={images}
+        totalImages={totalImages}
+      />
+
 		      <ApiKeyModal
 		        isOpen={isApiKeyModalOpen}
 		        onClose={() => setShowApiKeyModal(false)}
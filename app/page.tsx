@@ -51,8 +51,9 @@ export default function Home() {
   const [outputFormat, setOutputFormat] = useState<'webp' | 'avif' | 'both'>('both')
 
   const primeImagesListCache = useCallback((results: UploadResult[]) => {
+    // 重复文件返回的是已有图片，已在列表中，不当作新上传插到最前
     const uploadedImages: ImageFile[] = results
-      .filter((r) => r.status === 'success' && !!r.urls?.original && !!r.orientation && !!r.format)
+      .filter((r) => r.status === 'success' && !r.duplicate && !!r.urls?.original && !!r.orientation && !!r.format)
       .map((r) => ({
         id: r.id,
         originalName: r.originalName || '',
@@ -63,6 +64,7 @@ export default function Home() {
         format: r.format || '',
         width: 0,
         height: 0,
+        visibility: r.visibility || 'public',
         paths: { original: '', webp: '', avif: '' },
         sizes: {
           original: r.sizes?.original || 0,
@@ -74,6 +76,7 @@ export default function Home() {
           webp: r.urls!.webp,
           avif: r.urls!.avif,
         },
+        variants: r.variants,
       }))
 
     if (uploadedImages.length === 0) return
@@ -483,6 +486,17 @@ export default function Home() {
             message: 'ZIP批量上传完成'
           })
         }}
+        onUrlUploadComplete={(results) => {
+          const successCount = results.filter(r => r.status === 'success').length
+          const failedCount = results.length - successCount
+          setUploadResults(results)
+          primeImagesListCache(results)
+          invalidateImages()
+          setStatus({
+            type: failedCount === 0 ? 'success' : 'warning',
+            message: `链接上传完成：共${results.length}个，${successCount}个成功，${failedCount}个失败`
+          })
+        }}
       />
 
       {/* 压缩设置 */}
@@ -1,3 +1,5 @@
+import type { ImageExif, ImageVariant } from './index'
+
 export interface ImageData {
   id: string
   status: 'success' | 'error'
@@ -6,6 +8,7 @@ export interface ImageData {
   orientation?: 'landscape' | 'portrait'
   expiryTime?: string
   tags?: string[]
+  visibility?: 'public' | 'private'
   urls?: {
     original: string
     webp: string
@@ -16,6 +19,10 @@ export interface ImageData {
     webp: number
     avif: number
   }
+  variants?: ImageVariant[]
+  exif?: ImageExif
+  metadataStripped?: boolean
+  duplicate?: boolean
   error?: string
 }
 
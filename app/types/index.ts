@@ -21,6 +21,36 @@ export interface Tag {
 }
 
 // 图片相关类型
+// 私有图片只能通过带签名的限时链接访问
+export type ImageVisibility = 'public' | 'private';
+
+// 图片变体：format 为其他格式的全尺寸副本，responsive 为宽度梯度副本，transform 为按需转换（无独立文件），preview 为 SVG 的栅格预览
+export type ImageVariantKind = 'format' | 'responsive' | 'transform' | 'preview';
+
+export interface ImageVariant {
+  kind: ImageVariantKind;
+  format: string;
+  width: number;
+  height: number;
+  path: string;
+  size: number;
+  url: string;
+}
+
+// 拍摄信息（来自 EXIF/XMP），字段缺失表示文件中没有记录
+export interface ImageExif {
+  make?: string;
+  model?: string;
+  lens?: string;
+  exposureTime?: number; // 秒
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number; // 毫米
+  takenAt?: string; // ISO 8601，相机记录了时区时带偏移
+  latitude?: number;
+  longitude?: number;
+}
+
 export interface ImageFile {
   id: string;
   originalName: string;
@@ -31,6 +61,7 @@ export interface ImageFile {
   format: string;
   width: number;
   height: number;
+  visibility: ImageVisibility;
   paths: {
     original: string;
     webp: string;
@@ -46,6 +77,47 @@ export interface ImageFile {
     webp: string;
     avif: string;
   };
+  variants?: ImageVariant[];
+  exif?: ImageExif;
+  // 原图在存储前已移除 EXIF/XMP/IPTC 元数据
+  metadataStripped?: boolean;
+  // 感知哈希（dHash），用于查找相似图片
+  perceptualHash?: string;
+  // 平均色（#rrggbb），用作加载占位背景
+  averageColor?: string;
+  // 主色调，按面积占比从高到低
+  palette?: ImageColor[];
+  // ThumbHash（base64），解码为加载时的模糊占位图
+  thumbHash?: string;
+}
+
+// 主色及其面积占比（0-1）
+export interface ImageColor {
+  color: string;
+  weight: number;
+}
+
+// 相似图片：distance 为与参照图片感知哈希的汉明距离（0-64，越小越相似）
+export interface SimilarImage extends ImageFile {
+  distance: number;
+}
+
+export interface SimilarImagesResponse {
+  images: SimilarImage[];
+  // 参照图片尚未计算感知哈希
+  hashed: boolean;
+}
+
+// 一组近似重复图片，按分辨率从大到小排列，第一张通常保留
+export interface NearDuplicateGroup {
+  images: SimilarImage[];
+}
+
+export interface NearDuplicatesResponse {
+  groups: NearDuplicateGroup[];
+  totalGroups: number;
+  hashedCount: number;
+  distance: number;
 }
 
 export interface ImageListResponse {
@@ -59,6 +131,8 @@ export interface ImageFilterState {
   format: string;
   orientation: string;
   tag: string;
+  // #rrggbb，空字符串表示不按颜色筛选
+  color: string;
 }
 
 // 组件 Props 类型
@@ -81,7 +155,7 @@ export interface ApiKeyModalProps {
 }
 
 export interface ImageFiltersProps {
-  onFilterChange: (format: string, orientation: string, tag: string) => void;
+  onFilterChange: (format: string, orientation: string, tag: string, color: string) => void;
 }
 
 // 上传结果类型定义
@@ -104,6 +178,11 @@ export interface UploadResult {
     avif: number;
   };
   expiryTime?: string;
+  visibility?: ImageVisibility;
+  variants?: ImageVariant[];
+  metadataStripped?: boolean;
+  // 文件已存在时返回已有图片（新标签会合并进去）
+  duplicate?: boolean;
   error?: string;
 }
 
@@ -117,6 +196,20 @@ export interface StatusMessage {
   message: string;
 }
 
+// API Key 类型
+export type ApiKeyScope = 'upload' | 'read' | 'delete' | 'admin';
+
+export interface ApiKeyInfo {
+  id: number;
+  label: string | null;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  keyPreview: string;
+  replacedBy: number | null;
+}
+
 // 配置类型
 export interface ConfigSettings {
   maxUploadCount: number;
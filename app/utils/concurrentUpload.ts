@@ -1,4 +1,5 @@
 import { request } from './request'
+import { resumableUpload, RESUMABLE_UPLOAD_THRESHOLD } from './resumableUpload'
 import { UploadResult } from '../types'
 import { FileUploadStatus } from '../types/upload'
 
@@ -9,7 +10,8 @@ interface SingleUploadResponse {
 }
 
 export interface ConcurrentUploadOptions {
-  files: { id: string; file: File }[]
+  // `tags` on a file are added to the shared tags for that file only
+  files: { id: string; file: File; tags?: string[] }[]
   concurrency?: number
   tags: string[]
   expiryMinutes: number
@@ -21,9 +23,33 @@ export interface ConcurrentUploadOptions {
   signal?: AbortSignal
 }
 
+export type UploadSettings = Pick<
+  ConcurrentUploadOptions,
+  'tags' | 'expiryMinutes' | 'quality' | 'maxWidth' | 'preserveAnimation' | 'outputFormat'
+>
+
+/**
+ * Upload form fields for the given settings
+ * Shared by the form upload, resumable sessions and URL uploads
+ */
+export function uploadFields(settings: UploadSettings): Record<string, string> {
+  const { tags, expiryMinutes, quality, maxWidth, preserveAnimation, outputFormat } = settings
+  return {
+    tags: tags.join(','),
+    expiryMinutes: expiryMinutes.toString(),
+    quality: quality.toString(),
+    maxWidth: maxWidth.toString(),
+    maxHeight: maxWidth.toString(),
+    preserveAnimation: preserveAnimation.toString(),
+    generateWebp: (outputFormat === 'webp' || outputFormat === 'both').toString(),
+    generateAvif: (outputFormat === 'avif' || outputFormat === 'both').toString(),
+  }
+}
+
 /**
  * Upload files concurrently with controlled parallelism
- * Each file is uploaded as a separate request for individual progress tracking
+ * Each file is uploaded as a separate request for individual progress tracking;
+ * files above RESUMABLE_UPLOAD_THRESHOLD use a resumable multipart session
  */
 export async function concurrentUpload(options: ConcurrentUploadOptions): Promise<UploadResult[]> {
   const {
@@ -43,7 +69,7 @@ export async function concurrentUpload(options: ConcurrentUploadOptions): Promis
   const queue = [...files]
   const active: Promise<void>[] = []
 
-  async function uploadOne(item: { id: string; file: File }): Promise<void> {
+  async function uploadOne(item: { id: string; file: File; tags?: string[] }): Promise<void> {
     // Check if cancelled
     if (signal?.aborted) {
       return
@@ -53,26 +79,36 @@ export async function concurrentUpload(options: ConcurrentUploadOptions): Promis
     onFileStatusChange(item.id, 'uploading')
 
     try {
-      // Build FormData for single file
-      const formData = new FormData()
-      formData.append('image', item.file)
-      formData.append('tags', tags.join(','))
-      formData.append('expiryMinutes', expiryMinutes.toString())
-      formData.append('quality', quality.toString())
-      formData.append('maxWidth', maxWidth.toString())
-      formData.append('maxHeight', maxWidth.toString())
-      formData.append('preserveAnimation', preserveAnimation.toString())
-      formData.append('generateWebp', (outputFormat === 'webp' || outputFormat === 'both').toString())
-      formData.append('generateAvif', (outputFormat === 'avif' || outputFormat === 'both').toString())
-
-      // Update to processing (after upload starts, before compression completes)
-      onFileStatusChange(item.id, 'processing')
-
-      const response = await request<SingleUploadResponse>('/api/upload/single', {
-        method: 'POST',
-        body: formData,
-        signal,
-      })
+      const fileTags = item.tags ? Array.from(new Set([...tags, ...item.tags])) : tags
+      const fields = uploadFields({ tags: fileTags, expiryMinutes, quality, maxWidth, preserveAnimation, outputFormat })
+
+      let response: SingleUploadResponse
+      if (item.file.size > RESUMABLE_UPLOAD_THRESHOLD) {
+        // Large files go up in parts, resuming where a failed or interrupted upload stopped
+        const result = await resumableUpload({
+          file: item.file,
+          fields,
+          signal,
+          onUploaded: () => onFileStatusChange(item.id, 'processing'),
+        })
+        response = { success: true, result }
+      } else {
+        // Build FormData for single file
+        const formData = new FormData()
+        formData.append('image', item.file)
+        for (const [name, value] of Object.entries(fields)) {
+          formData.append(name, value)
+        }
+
+        // Update to processing (after upload starts, before compression completes)
+        onFileStatusChange(item.id, 'processing')
+
+        response = await request<SingleUploadResponse>('/api/upload/single', {
+          method: 'POST',
+          body: formData,
+          signal,
+        })
+      }
 
       if (response.success && response.result) {
         const decoratedResult: UploadResult = {
@@ -0,0 +1,82 @@
+// 粘贴和拖放内容的解析：图片文件、图片链接（text/uri-list 或纯文本）
+
+import { parseUrlList } from './urlUpload'
+
+// 下载被拖入图片的超时时间；跨域被拒或超时则交给服务端按链接上传
+const FETCH_TIMEOUT_MS = 10000
+
+const EXTENSION_BY_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg',
+  'image/x-icon': 'ico',
+}
+
+function extensionFor(type: string): string {
+  return EXTENSION_BY_TYPE[type] ?? (type.split('/')[1] || 'png')
+}
+
+/**
+ * 为截图等没有真实文件名的图片生成名称（剪贴板中的文件通常都叫 image.png）
+ * 同一次粘贴多张时追加序号，避免重名
+ */
+export function generatedFileName(type: string, index = 0): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const suffix = index > 0 ? `-${index + 1}` : ''
+  return `pasted-image-${timestamp}${suffix}.${extensionFor(type)}`
+}
+
+// 剪贴板中的图片文件，统一重命名
+export function clipboardImageFiles(data: DataTransfer): File[] {
+  const files: File[] = []
+  for (const item of Array.from(data.items)) {
+    if (item.kind !== 'file' || !item.type.startsWith('image/')) continue
+    const file = item.getAsFile()
+    if (file) {
+      files.push(new File([file], generatedFileName(file.type, files.length), { type: file.type }))
+    }
+  }
+  return files
+}
+
+/**
+ * 拖放或粘贴内容中的链接：优先 text/uri-list（# 开头为注释行），其次纯文本
+ * 纯文本只有在全部由链接组成时才算数，普通文字不会被当作上传内容
+ */
+export function transferUrls(data: DataTransfer): string[] {
+  const uriList = data.getData('text/uri-list')
+  if (uriList) {
+    const lines = uriList.split(/\r?\n/).filter((line) => line && !line.startsWith('#'))
+    return parseUrlList(lines.join('\n')).urls
+  }
+  const { urls, invalid } = parseUrlList(data.getData('text/plain'))
+  return invalid.length === 0 ? urls : []
+}
+
+// 链接路径最后一段作为文件名，没有扩展名时按类型补上
+function fileNameFromUrl(url: string, type: string): string {
+  const segment = new URL(url).pathname.split('/').filter(Boolean).pop()
+  if (!segment) return generatedFileName(type)
+  let name = segment
+  try {
+    name = decodeURIComponent(segment)
+  } catch {
+    // 保留原始编码
+  }
+  return name.includes('.') ? name : `${name}.${extensionFor(type)}`
+}
+
+/**
+ * 尝试在浏览器中直接下载图片（需要对方允许跨域）
+ * 不是图片、被拒绝或超时时返回 null，由调用方改走服务端链接上传
+ */
+export async function fetchImageFile(url: string): Promise<File | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) })
+    if (!response.ok) return null
+    const blob = await response.blob()
+    if (!blob.type.startsWith('image/')) return null
+    return new File([blob], fileNameFromUrl(url, blob.type), { type: blob.type })
+  } catch {
+    return null
+  }
+}
@@ -1,3 +1,7 @@
+import type { ImageFile, ImageVariant } from "../types";
+import { getFullUrl } from "./baseUrl";
+import { toCdnCgiImageUrl } from "./cdnImage";
+
 // 格式化文件大小
 export const formatFileSize = (bytes: number): string => {
   if (bytes < 1024) return bytes + " B";
@@ -6,6 +10,31 @@ export const formatFileSize = (bytes: number): string => {
   else return (bytes / (1024 * 1024 * 1024)).toFixed(2) + " GB";
 };
 
+// 曝光时间：1 秒以下显示为分数
+export const formatExposureTime = (seconds: number): string =>
+  seconds >= 1 ? `${Number(seconds.toFixed(1))}s` : `1/${Math.round(1 / seconds)}s`;
+
+// 拍摄时间按相机记录的当地时间显示，不做时区换算
+export const formatTakenAt = (takenAt: string): string => takenAt.slice(0, 19).replace('T', ' ');
+
+// 缩略图地址：SVG 优先使用栅格预览；GIF 和私有图片（签名链接）不能套 /cdn-cgi/image 变换
+export const getThumbnailUrl = (
+  image: Pick<ImageFile, "format" | "urls" | "variants" | "visibility">,
+  displayWidth: number
+): string => {
+  if (image.format.toLowerCase() === "svg") {
+    const preview = image.variants?.find((v) => v.kind === "preview");
+    return getFullUrl(preview?.url || image.urls?.original || "");
+  }
+
+  const base = getFullUrl(image.urls?.webp || image.urls?.original || "");
+  if (!base || image.format.toLowerCase() === "gif" || image.visibility === "private") return base;
+
+  // 按 2 倍宽度请求，高分屏下保持清晰
+  const requestWidth = Math.max(1, Math.ceil(displayWidth * 2));
+  return toCdnCgiImageUrl(base, { width: requestWidth, quality: 75, format: "auto", fit: "scale-down" });
+};
+
 // 获取格式标签
 export const getFormatLabel = (format: string): string => {
   const formatMap: { [key: string]: string } = {
@@ -64,6 +93,60 @@ export const buildUrl = (path: string, format: string): string => {
   return `/images/${relativePath}`;
 };
 
+// 响应式片段默认的 sizes：窄屏占满宽度，宽屏最多 768px
+export const DEFAULT_RESPONSIVE_SIZES = "(max-width: 768px) 100vw, 768px";
+
+const escapeHtmlAttr = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+// 构建 srcset 属性值，例如 "a.webp 320w, b.webp 640w"
+export const buildSrcset = (variants: Array<{ url: string; width: number }>): string => {
+  return [...variants]
+    .sort((a, b) => a.width - b.width)
+    .map((variant) => `${variant.url} ${variant.width}w`)
+    .join(", ");
+};
+
+// 构建 <img srcset sizes> 片段，优先 WebP 变体
+export const buildImgSnippet = (
+  variants: ImageVariant[],
+  src: string,
+  alt: string,
+  sizes: string = DEFAULT_RESPONSIVE_SIZES
+): string => {
+  const webp = variants.filter((v) => v.format === "webp");
+  const candidates = webp.length > 0 ? webp : variants;
+  return [
+    "<img",
+    `  src="${escapeHtmlAttr(src)}"`,
+    `  srcset="${escapeHtmlAttr(buildSrcset(candidates))}"`,
+    `  sizes="${sizes}"`,
+    `  alt="${escapeHtmlAttr(alt)}"`,
+    `  loading="lazy" decoding="async">`,
+  ].join("\n");
+};
+
+// 构建 <picture> 片段：AVIF、WebP 依次作为 <source>，原图兜底
+export const buildPictureSnippet = (
+  variants: ImageVariant[],
+  src: string,
+  alt: string,
+  sizes: string = DEFAULT_RESPONSIVE_SIZES
+): string => {
+  const sources = (["avif", "webp"] as const)
+    .map((format) => ({ format, items: variants.filter((v) => v.format === format) }))
+    .filter(({ items }) => items.length > 0)
+    .map(({ format, items }) =>
+      `  <source type="image/${format}" srcset="${escapeHtmlAttr(buildSrcset(items))}" sizes="${sizes}">`
+    );
+  return [
+    "<picture>",
+    ...sources,
+    `  <img src="${escapeHtmlAttr(src)}" alt="${escapeHtmlAttr(alt)}" loading="lazy" decoding="async">`,
+    "</picture>",
+  ].join("\n");
+};
+
 // 构建Markdown链接格式
 export const buildMarkdownLink = (url: string, filename: string): string => {
   return `![${filename}](${url})`;
@@ -0,0 +1,38 @@
+import { api } from './request'
+
+// 导出原图、衍生图（WebP/AVIF/响应式尺寸）或两者
+export type ExportContent = 'originals' | 'variants' | 'both'
+
+export interface ExportFilter {
+  tag?: string
+  orientation?: string
+  format?: string
+  color?: string
+}
+
+export interface LibraryExport {
+  id: string
+  // 导出的图片数量
+  count: number
+  content: ExportContent
+  expiresAt: string
+  // 无需 API Key 的下载链接，过期前有效
+  downloadUrl: string
+}
+
+interface LibraryExportResponse {
+  success: boolean
+  export: LibraryExport
+}
+
+/**
+ * 创建导出任务：指定图片 ID，或导出符合筛选条件的所有图片
+ * 压缩包在打开下载链接时由服务端边打包边下载，包含 manifest.json 记录每张图片的完整信息
+ */
+export async function createLibraryExport(
+  target: { ids: string[] } | { filter: ExportFilter },
+  content: ExportContent
+): Promise<LibraryExport> {
+  const response = await api.post<LibraryExportResponse>('/api/exports', { ...target, content })
+  return response.export
+}
@@ -0,0 +1,146 @@
+import { request } from './request'
+import { UploadResult } from '../types'
+import { uploadFingerprint, uploadSessionStore, StoredUploadSession } from './uploadSessionStore'
+
+// 超过该大小的文件分片上传（与服务端分片大小一致），失败或刷新页面后只需补传缺失的分片
+export const RESUMABLE_UPLOAD_THRESHOLD = 8 * 1024 * 1024
+
+// 单个分片失败后的重试间隔（毫秒）
+const RETRY_DELAYS = [1000, 3000, 10000]
+
+interface UploadSessionInfo {
+  id: string
+  partSize: number
+  partCount: number
+  uploadedParts: number[]
+  expiresAt: string
+}
+
+interface UploadSessionResponse {
+  success: boolean
+  session: UploadSessionInfo
+}
+
+interface CompleteResponse {
+  success: boolean
+  result: UploadResult
+  error?: string
+}
+
+export interface ResumableUploadOptions {
+  file: File
+  // 与表单上传相同的字段（tags、quality 等）
+  fields: Record<string, string>
+  signal?: AbortSignal
+  // 所有分片上传完成、服务端开始处理时调用
+  onUploaded?: () => void
+  // 每收到一个分片调用一次（包括续传时服务端已有的分片）
+  onProgress?: (uploadedParts: number, partCount: number) => void
+}
+
+interface UploadSessionOptions extends ResumableUploadOptions {
+  // image：完成时按单张图片处理；zip：完成时由服务端排队解压导入
+  kind: 'image' | 'zip'
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }, { once: true })
+  })
+}
+
+async function uploadPart(sessionId: string, partNumber: number, data: Blob, signal?: AbortSignal): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await request(`/api/upload/sessions/${sessionId}/parts/${partNumber}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: data,
+        signal,
+      })
+      return
+    } catch (error) {
+      if ((error instanceof Error && error.name === 'AbortError') || attempt >= RETRY_DELAYS.length) {
+        throw error
+      }
+      await wait(RETRY_DELAYS[attempt], signal)
+    }
+  }
+}
+
+// 找回之前未完成的会话；服务端已不存在时返回 null
+async function resumeSession(stored: StoredUploadSession, signal?: AbortSignal): Promise<UploadSessionInfo | null> {
+  try {
+    const response = await request<UploadSessionResponse>(`/api/upload/sessions/${stored.sessionId}`, { signal })
+    return response.session
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') throw error
+    return null
+  }
+}
+
+/**
+ * 通过上传会话分片发送文件并完成会话，返回完成接口的响应
+ * 会话状态保存在 IndexedDB，网络错误时自动重试分片，
+ * 中断或刷新页面后再次上传同一文件（参数相同）会跳过服务端已收到的分片
+ */
+export async function uploadSession<T>({
+  file,
+  fields,
+  kind,
+  signal,
+  onUploaded,
+  onProgress,
+}: UploadSessionOptions): Promise<T> {
+  const fingerprint = uploadFingerprint(file, kind === 'image' ? fields : { ...fields, kind })
+  const stored = await uploadSessionStore.get(fingerprint)
+
+  let session = stored ? await resumeSession(stored, signal) : null
+  if (!session) {
+    const response = await request<UploadSessionResponse>('/api/upload/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName: file.name, fileSize: file.size, fields, kind }),
+      signal,
+    })
+    session = response.session
+  }
+
+  const state: StoredUploadSession = {
+    fingerprint,
+    sessionId: session.id,
+    partSize: session.partSize,
+    uploadedParts: [...session.uploadedParts],
+    expiresAt: session.expiresAt,
+  }
+  await uploadSessionStore.put(state)
+
+  const received = new Set(session.uploadedParts)
+  onProgress?.(state.uploadedParts.length, session.partCount)
+  for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+    if (received.has(partNumber)) continue
+    const start = (partNumber - 1) * session.partSize
+    await uploadPart(session.id, partNumber, file.slice(start, start + session.partSize), signal)
+    state.uploadedParts.push(partNumber)
+    await uploadSessionStore.put(state)
+    onProgress?.(state.uploadedParts.length, session.partCount)
+  }
+
+  onUploaded?.()
+  const response = await request<T>(`/api/upload/sessions/${session.id}/complete`, {
+    method: 'POST',
+    signal,
+  })
+  await uploadSessionStore.delete(fingerprint)
+  return response
+}
+
+// 分片上传单张图片，完成后与普通上传一样返回处理结果
+export async function resumableUpload(options: ResumableUploadOptions): Promise<UploadResult> {
+  const response = await uploadSession<CompleteResponse>({ ...options, kind: 'image' })
+  return response.result
+}
@@ -0,0 +1,137 @@
+// ThumbHash 解码：把上传时计算的约 25 字节摘要还原为模糊占位图（https://evanw.github.io/thumbhash/）
+
+interface DecodedThumbHash {
+  width: number;
+  height: number;
+  rgba: Uint8ClampedArray<ArrayBuffer>;
+}
+
+// 解码结果缓存，列表重新渲染时不必重复计算
+const dataUrlCache = new Map<string, string>();
+const MAX_CACHE_SIZE = 500;
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function decodeThumbHash(hash: Uint8Array): DecodedThumbHash {
+  const { PI, min, max, cos, round } = Math;
+
+  // 固定字段
+  const header24 = hash[0] | (hash[1] << 8) | (hash[2] << 16);
+  const header16 = hash[3] | (hash[4] << 8);
+  const lDc = (header24 & 63) / 63;
+  const pDc = ((header24 >> 6) & 63) / 31.5 - 1;
+  const qDc = ((header24 >> 12) & 63) / 31.5 - 1;
+  const lScale = ((header24 >> 18) & 31) / 31;
+  const hasAlpha = (header24 >> 23) === 1;
+  const pScale = ((header16 >> 3) & 63) / 63;
+  const qScale = ((header16 >> 9) & 63) / 63;
+  const isLandscape = (header16 >> 15) === 1;
+  const lx = max(3, isLandscape ? (hasAlpha ? 5 : 7) : header16 & 7);
+  const ly = max(3, isLandscape ? header16 & 7 : (hasAlpha ? 5 : 7));
+  const aDc = hasAlpha ? (hash[5] & 15) / 15 : 1;
+  const aScale = (hash[5] >> 4) / 15;
+
+  // AC 系数（色度放大 1.25 倍，补偿量化损失的饱和度）
+  const acStart = hasAlpha ? 6 : 5;
+  let acIndex = 0;
+  const decodeChannel = (nx: number, ny: number, scale: number): number[] => {
+    const ac: number[] = [];
+    for (let cy = 0; cy < ny; cy++) {
+      for (let cx = cy ? 0 : 1; cx * ny < nx * (ny - cy); cx++) {
+        ac.push((((hash[acStart + (acIndex >> 1)] >> ((acIndex & 1) << 2)) & 15) / 7.5 - 1) * scale);
+        acIndex++;
+      }
+    }
+    return ac;
+  };
+  const lAc = decodeChannel(lx, ly, lScale);
+  const pAc = decodeChannel(3, 3, pScale * 1.25);
+  const qAc = decodeChannel(3, 3, qScale * 1.25);
+  const aAc = hasAlpha ? decodeChannel(5, 5, aScale) : [];
+
+  // 按原图比例输出，长边 32 像素
+  const ratio = (isLandscape ? (hasAlpha ? 5 : 7) : header16 & 7) / (isLandscape ? header16 & 7 : (hasAlpha ? 5 : 7));
+  const width = round(ratio > 1 ? 32 : 32 * ratio);
+  const height = round(ratio > 1 ? 32 / ratio : 32);
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  const fx: number[] = [];
+  const fy: number[] = [];
+
+  for (let y = 0, i = 0; y < height; y++) {
+    for (let x = 0; x < width; x++, i += 4) {
+      let l = lDc;
+      let p = pDc;
+      let q = qDc;
+      let a = aDc;
+
+      for (let cx = 0, n = max(lx, hasAlpha ? 5 : 3); cx < n; cx++) fx[cx] = cos(PI / width * (x + 0.5) * cx);
+      for (let cy = 0, n = max(ly, hasAlpha ? 5 : 3); cy < n; cy++) fy[cy] = cos(PI / height * (y + 0.5) * cy);
+
+      for (let cy = 0, j = 0; cy < ly; cy++) {
+        for (let cx = cy ? 0 : 1, fy2 = fy[cy] * 2; cx * ly < lx * (ly - cy); cx++, j++) {
+          l += lAc[j] * fx[cx] * fy2;
+        }
+      }
+
+      for (let cy = 0, j = 0; cy < 3; cy++) {
+        for (let cx = cy ? 0 : 1, fy2 = fy[cy] * 2; cx < 3 - cy; cx++, j++) {
+          const f = fx[cx] * fy2;
+          p += pAc[j] * f;
+          q += qAc[j] * f;
+        }
+      }
+
+      if (hasAlpha) {
+        for (let cy = 0, j = 0; cy < 5; cy++) {
+          for (let cx = cy ? 0 : 1, fy2 = fy[cy] * 2; cx < 5 - cy; cx++, j++) {
+            a += aAc[j] * fx[cx] * fy2;
+          }
+        }
+      }
+
+      const b = l - 2 / 3 * p;
+      const r = (3 * l - b + q) / 2;
+      const g = r - q;
+      rgba[i] = max(0, 255 * min(1, r));
+      rgba[i + 1] = max(0, 255 * min(1, g));
+      rgba[i + 2] = max(0, 255 * min(1, b));
+      rgba[i + 3] = max(0, 255 * min(1, a));
+    }
+  }
+
+  return { width, height, rgba };
+}
+
+// base64 ThumbHash → 可直接用作背景的 PNG data URL；服务端渲染或数据损坏时返回 null
+export function thumbHashToDataUrl(thumbHash: string): string | null {
+  if (typeof document === "undefined") return null;
+  const cached = dataUrlCache.get(thumbHash);
+  if (cached) return cached;
+
+  try {
+    const bytes = base64ToBytes(thumbHash);
+    if (bytes.length < 5) return null;
+    const { width, height, rgba } = decodeThumbHash(bytes);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    context.putImageData(new ImageData(rgba, width, height), 0, 0);
+    const dataUrl = canvas.toDataURL();
+
+    if (dataUrlCache.size >= MAX_CACHE_SIZE) {
+      const oldest = dataUrlCache.keys().next().value;
+      if (oldest !== undefined) dataUrlCache.delete(oldest);
+    }
+    dataUrlCache.set(thumbHash, dataUrl);
+    return dataUrl;
+  } catch {
+    return null;
+  }
+}
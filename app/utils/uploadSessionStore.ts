@@ -0,0 +1,79 @@
+// 断点续传状态的 IndexedDB 持久化：刷新页面后重新选择同一文件即可从已上传的分片继续
+
+const DB_NAME = 'cattopic-uploads'
+const STORE_NAME = 'sessions'
+const DB_VERSION = 1
+
+export interface StoredUploadSession {
+  // 文件名、大小、修改时间和上传参数组成的指纹，参数不同视为不同的上传
+  fingerprint: string
+  sessionId: string
+  partSize: number
+  uploadedParts: number[]
+  expiresAt: string
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'fingerprint' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function uploadFingerprint(file: File, fields: Record<string, string>): string {
+  return JSON.stringify([file.name, file.size, file.lastModified, fields])
+}
+
+// IndexedDB 不可用（隐私模式等）时不影响上传，只是无法跨页面续传
+export const uploadSessionStore = {
+  async get(fingerprint: string): Promise<StoredUploadSession | null> {
+    try {
+      const session = await run<StoredUploadSession | undefined>('readonly', (store) => store.get(fingerprint))
+      if (!session) return null
+      if (new Date(session.expiresAt).getTime() <= Date.now()) {
+        await this.delete(fingerprint)
+        return null
+      }
+      return session
+    } catch {
+      return null
+    }
+  },
+
+  async put(session: StoredUploadSession): Promise<void> {
+    try {
+      await run('readwrite', (store) => store.put(session))
+    } catch (error) {
+      console.warn('保存上传进度失败:', error)
+    }
+  },
+
+  async delete(fingerprint: string): Promise<void> {
+    try {
+      await run('readwrite', (store) => store.delete(fingerprint))
+    } catch {
+      // 记录过期后服务端会自行清理
+    }
+  },
+}
@@ -0,0 +1,91 @@
+import { request } from './request'
+import { UploadResult } from '../types'
+import { FileUploadStatus } from '../types/upload'
+import { uploadFields, UploadSettings } from './concurrentUpload'
+
+interface UrlUploadResponse {
+  success: boolean
+  result: UploadResult
+  error?: string
+}
+
+export interface UrlUploadOptions extends UploadSettings {
+  urls: string[]
+  concurrency?: number
+  onUrlStatusChange: (url: string, status: FileUploadStatus, result?: UploadResult) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Split pasted text into http(s) URLs, one per line or separated by spaces
+ * Duplicates are dropped; anything that is not a URL is returned separately
+ */
+export function parseUrlList(text: string): { urls: string[]; invalid: string[] } {
+  const urls: string[] = []
+  const invalid: string[] = []
+  for (const entry of text.split(/\s+/).filter(Boolean)) {
+    let url: URL | null = null
+    try {
+      url = new URL(entry)
+    } catch {
+      // Not a URL
+    }
+    if (url && (url.protocol === 'http:' || url.protocol === 'https:')) {
+      if (!urls.includes(url.href)) urls.push(url.href)
+    } else {
+      invalid.push(entry)
+    }
+  }
+  return { urls, invalid }
+}
+
+/**
+ * Rehost remote images: the Worker fetches each URL and runs the normal upload pipeline
+ * URLs are sent one per request with controlled parallelism, like concurrentUpload
+ */
+export async function urlUpload(options: UrlUploadOptions): Promise<UploadResult[]> {
+  const { urls, concurrency = 3, onUrlStatusChange, signal } = options
+  const fields = uploadFields(options)
+  const results: UploadResult[] = []
+  const queue = [...urls]
+
+  async function uploadOne(url: string): Promise<void> {
+    onUrlStatusChange(url, 'processing')
+    try {
+      const response = await request<UrlUploadResponse>('/api/upload/url', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, fields }),
+        signal,
+      })
+      const result: UploadResult = response.success && response.result
+        ? { ...response.result, originalName: url, clientFileId: url }
+        : { id: '', status: 'error', error: response.error || 'Upload failed', originalName: url, clientFileId: url }
+      onUrlStatusChange(url, result.status === 'error' ? 'error' : 'success', result)
+      results.push(result)
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        return
+      }
+      const errorResult: UploadResult = {
+        id: '',
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Upload failed',
+        originalName: url,
+        clientFileId: url,
+      }
+      onUrlStatusChange(url, 'error', errorResult)
+      results.push(errorResult)
+    }
+  }
+
+  // Each worker takes the next URL until the queue is empty
+  const workers = Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+    while (queue.length > 0 && !signal?.aborted) {
+      await uploadOne(queue.shift()!)
+    }
+  })
+  await Promise.all(workers)
+
+  return results
+}
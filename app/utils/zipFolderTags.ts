@@ -0,0 +1,66 @@
+import { ZipImageEntry } from './zipProcessor'
+
+// 文件夹转标签的方式：不添加、每级文件夹一个标签、整条路径合并为一个标签
+export type FolderTagMode = 'none' | 'levels' | 'joined'
+
+// 文件夹路径（根目录为空字符串）到标签的映射
+export type FolderTagMap = Record<string, string[]>
+
+export interface ZipFolder {
+  path: string
+  imageCount: number
+}
+
+/**
+ * 与服务端 sanitizeTagName 规则一致：小写，只保留字母、数字、中文、- 和 _，最长 50 个字符
+ * 预览中显示的就是实际保存的标签名
+ */
+export function normalizeTagName(tag: string): string {
+  return tag
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\u4e00-\u9fa5_-]/g, '')
+    .substring(0, 50)
+}
+
+// 条目所在的文件夹路径，根目录下的文件为空字符串
+export function folderOf(path: string): string {
+  return path.split('/').slice(0, -1).join('/')
+}
+
+// 压缩包中含有图片的文件夹及图片数量，按路径排序
+export function zipFolders(images: ZipImageEntry[]): ZipFolder[] {
+  const counts = new Map<string, number>()
+  for (const image of images) {
+    const folder = folderOf(image.path)
+    counts.set(folder, (counts.get(folder) ?? 0) + 1)
+  }
+  return Array.from(counts, ([path, imageCount]) => ({ path, imageCount }))
+    .sort((a, b) => a.path.localeCompare(b.path))
+}
+
+// 按方式为一个文件夹生成标签
+export function folderTags(folder: string, mode: FolderTagMode): string[] {
+  if (mode === 'none' || !folder) return []
+  const segments = folder.split('/')
+  const tags = mode === 'levels'
+    ? segments.map(normalizeTagName)
+    : [normalizeTagName(segments.join('-'))]
+  return Array.from(new Set(tags.filter(Boolean)))
+}
+
+// 用户编辑的标签文本（逗号分隔）转为标签列表
+export function parseTagInput(text: string): string[] {
+  return Array.from(new Set(text.split(/[,，]/).map(normalizeTagName).filter(Boolean)))
+}
+
+/**
+ * 每个文件夹的最终标签：按方式生成，用户修改过的文件夹以修改为准
+ */
+export function buildFolderTagMap(folders: ZipFolder[], mode: FolderTagMode, edits: FolderTagMap): FolderTagMap {
+  const map: FolderTagMap = {}
+  for (const folder of folders) {
+    map[folder.path] = edits[folder.path] ?? folderTags(folder.path, mode)
+  }
+  return map
+}
@@ -0,0 +1,78 @@
+import { request } from './request'
+import { uploadSession } from './resumableUpload'
+import { uploadFields, UploadSettings } from './concurrentUpload'
+
+// 服务器端导入任务的状态
+export type ZipImportStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+export interface ZipImportJob {
+  id: string
+  fileName: string
+  status: ZipImportStatus
+  folderTags: boolean
+  // 压缩包中的图片数量（读取目录后才有）
+  total: number
+  processed: number
+  succeeded: number
+  failed: number
+  // 非图片等被跳过的文件
+  skipped: number
+  // 整个任务失败的原因（压缩包损坏等）
+  error?: string
+  createdAt: string
+  updatedAt: string
+  completedAt?: string
+}
+
+export interface ZipImportEntryError {
+  path: string
+  error: string
+}
+
+interface ZipImportStartResponse {
+  success: boolean
+  import: ZipImportJob
+}
+
+interface ZipImportStatusResponse {
+  success: boolean
+  import: ZipImportJob
+  errors: ZipImportEntryError[]
+}
+
+export interface ZipImportOptions extends UploadSettings {
+  file: File
+  // 按条目所在的文件夹名添加标签
+  folderTags: boolean
+  signal?: AbortSignal
+  onProgress?: (uploadedParts: number, partCount: number) => void
+}
+
+export function isZipImportFinished(job: ZipImportJob): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled'
+}
+
+/**
+ * 把压缩包分片上传到服务器，上传完成后由服务端队列解压并逐张导入
+ * 返回刚创建的导入任务，进度通过 getZipImport 轮询
+ */
+export async function startZipImport({ file, folderTags, signal, onProgress, ...settings }: ZipImportOptions): Promise<ZipImportJob> {
+  const response = await uploadSession<ZipImportStartResponse>({
+    file,
+    fields: { ...uploadFields(settings), folderTags: folderTags.toString() },
+    kind: 'zip',
+    signal,
+    onProgress,
+  })
+  return response.import
+}
+
+export async function getZipImport(id: string, signal?: AbortSignal): Promise<{ job: ZipImportJob; errors: ZipImportEntryError[] }> {
+  const response = await request<ZipImportStatusResponse>(`/api/imports/${id}`, { signal })
+  return { job: response.import, errors: response.errors }
+}
+
+// 停止导入；已导入的图片会保留
+export async function cancelZipImport(id: string): Promise<void> {
+  await request(`/api/imports/${id}`, { method: 'DELETE' })
+}
@@ -1,12 +1,19 @@
 import JSZip from 'jszip'
 
 // 支持的图片格式
-const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.avif']
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.avif', '.heic', '.heif', '.jxl', '.svg']
+
+// 图库导出的压缩包根目录中的清单，与服务端 libraryExport 一致
+const EXPORT_MANIFEST_NAME = 'manifest.json'
+const EXPORT_FORMAT = 'cattopic-export'
 
 export interface ZipImageEntry {
   path: string
+  // 上传时使用的文件名；图库导出的压缩包为导出前的原文件名
   name: string
   size: number
+  // 图库导出清单中记录的标签
+  tags?: string[]
 }
 
 export interface ZipAnalysisResult {
@@ -15,14 +22,17 @@ export interface ZipAnalysisResult {
   images: ZipImageEntry[]
   skippedFiles: {
     path: string
-    reason: 'not_image' | 'too_large' | 'directory'
+    reason: 'not_image' | 'too_large' | 'directory' | 'not_in_manifest'
   }[]
+  // 压缩包由图库导出生成：只导入清单中的原图
+  fromExport: boolean
 }
 
 export interface ExtractedImage {
   id: string
   file: File
   originalPath: string
+  tags?: string[]
 }
 
 export interface ExtractionProgress {
@@ -51,6 +61,10 @@ function getMimeType(filename: string): string {
     '.gif': 'image/gif',
     '.webp': 'image/webp',
     '.avif': 'image/avif',
+    '.heic': 'image/heic',
+    '.heif': 'image/heif',
+    '.jxl': 'image/jxl',
+    '.svg': 'image/svg+xml',
   }
   return mimeTypes[ext] || 'application/octet-stream'
 }
@@ -62,11 +76,44 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
 }
 
+interface ExportManifestImage {
+  file?: string
+  metadata?: { originalName?: unknown; tags?: unknown }
+}
+
+/**
+ * 读取图库导出的清单，返回原图路径到文件名和标签的映射
+ * 没有清单或不是导出生成的清单时返回 null，按普通压缩包处理
+ */
+async function readExportManifest(zip: JSZip): Promise<Map<string, { name?: string; tags: string[] }> | null> {
+  const file = zip.file(EXPORT_MANIFEST_NAME)
+  if (!file) return null
+
+  try {
+    const manifest = JSON.parse(await file.async('string')) as { format?: unknown; images?: unknown }
+    if (manifest.format !== EXPORT_FORMAT || !Array.isArray(manifest.images)) return null
+
+    const originals = new Map<string, { name?: string; tags: string[] }>()
+    for (const image of manifest.images as ExportManifestImage[]) {
+      if (!image.file || !image.metadata) continue
+      const { originalName, tags } = image.metadata
+      originals.set(image.file, {
+        name: typeof originalName === 'string' && originalName ? originalName : undefined,
+        tags: Array.isArray(tags) ? tags.filter((tag): tag is string => typeof tag === 'string') : [],
+      })
+    }
+    return originals
+  } catch {
+    return null
+  }
+}
+
 /**
  * 分析ZIP文件内容，返回图片列表和统计信息
  */
 export async function analyzeZipFile(zipFile: File): Promise<ZipAnalysisResult> {
   const zip = await JSZip.loadAsync(zipFile)
+  const manifest = await readExportManifest(zip)
 
   const images: ZipImageEntry[] = []
   const skippedFiles: ZipAnalysisResult['skippedFiles'] = []
@@ -91,6 +138,17 @@ export async function analyzeZipFile(zipFile: File): Promise<ZipAnalysisResult>
       continue
     }
 
+    // 图库导出的压缩包只导入原图，衍生图等其他文件跳过
+    if (manifest) {
+      const original = manifest.get(path)
+      if (!original) {
+        skippedFiles.push({ path, reason: 'not_in_manifest' })
+        continue
+      }
+      images.push({ path, name: original.name ?? name, size: 0, tags: original.tags })
+      continue
+    }
+
     images.push({ path, name, size: 0 })
   }
 
@@ -99,6 +157,7 @@ export async function analyzeZipFile(zipFile: File): Promise<ZipAnalysisResult>
     totalSize: 0, // 无法在分析阶段获取准确大小
     images,
     skippedFiles,
+    fromExport: manifest !== null,
   }
 }
 
@@ -135,15 +194,16 @@ export async function* extractImagesBatch(
         // 提取文件内容
         const blob = await zipEntry.async('blob')
 
-        // 创建File对象
+        // 创建File对象（原文件名可能没有扩展名，类型按条目路径判断）
         const file = new File([blob], entry.name, {
-          type: getMimeType(entry.name),
+          type: getMimeType(entry.path),
         })
 
         extractedBatch.push({
           id: generateId(),
           file,
           originalPath: entry.path,
+          tags: entry.tags,
         })
       } catch (error) {
         console.error(`Failed to extract ${entry.path}:`, error)
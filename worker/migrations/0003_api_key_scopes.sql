@@ -0,0 +1,6 @@
+-- API Key 权限范围、标签与过期时间
+-- scopes: 逗号分隔的权限列表 (upload, read, delete, admin)
+-- 已有的 Key 默认授予 admin，保持升级前的行为不变
+ALTER TABLE api_keys ADD COLUMN label TEXT;
+ALTER TABLE api_keys ADD COLUMN scopes TEXT NOT NULL DEFAULT 'admin';
+ALTER TABLE api_keys ADD COLUMN expires_at TEXT;
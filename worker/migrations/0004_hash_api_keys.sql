@@ -0,0 +1,35 @@
+-- API Key 改为加盐哈希存储
+-- key_prefix: Key 的可见前缀，用于识别和查找（新 Key 为 cp_ + 8 位十六进制）
+-- key_hash / key_salt: SHA-256(salt + key) 及随机盐
+-- legacy_key: 迁移前的明文 Key，D1 无法在 SQL 中计算 SHA-256，
+--             由 Worker 在首次使用或下一次定时任务时完成哈希并清空该列
+CREATE TABLE api_keys_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key_prefix TEXT NOT NULL DEFAULT '',
+    key_hash TEXT,
+    key_salt TEXT,
+    legacy_key TEXT,
+    label TEXT,
+    scopes TEXT NOT NULL DEFAULT 'admin',
+    expires_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    last_used_at TEXT
+);
+
+-- 旧 Key 长度不足时不保留前缀，避免泄露过多明文
+INSERT INTO api_keys_new (id, key_prefix, legacy_key, label, scopes, expires_at, created_at, last_used_at)
+SELECT
+    id,
+    CASE WHEN length(key) >= 16 THEN substr(key, 1, 4) ELSE '' END,
+    key,
+    label,
+    scopes,
+    expires_at,
+    created_at,
+    last_used_at
+FROM api_keys;
+
+DROP TABLE api_keys;
+ALTER TABLE api_keys_new RENAME TO api_keys;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_prefix ON api_keys(key_prefix);
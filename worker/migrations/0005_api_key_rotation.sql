@@ -0,0 +1,3 @@
+-- API Key 轮换
+-- replaced_by: 轮换后新 Key 的 ID；旧 Key 在宽限期（expires_at）内与新 Key 同时有效
+ALTER TABLE api_keys ADD COLUMN replaced_by INTEGER;
@@ -0,0 +1,3 @@
+-- 图片可见性
+-- visibility: public 直接通过 R2 公开域名访问；private 对象移到 private/<随机目录>/ 下，只能通过 Worker 签名链接访问
+ALTER TABLE images ADD COLUMN visibility TEXT NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'private'));
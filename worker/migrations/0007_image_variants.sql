@@ -0,0 +1,12 @@
+-- 响应式尺寸变体
+-- 上传时按宽度梯度（RESPONSIVE_WIDTHS）生成的缩小版 WebP/AVIF，每个变体对应一个独立的 R2 对象
+CREATE TABLE IF NOT EXISTS image_variants (
+    image_id TEXT NOT NULL,
+    format TEXT NOT NULL CHECK (format IN ('webp', 'avif')),
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    size INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (image_id, format, width),
+    FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE
+);
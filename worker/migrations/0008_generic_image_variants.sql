@@ -0,0 +1,53 @@
+-- 通用变体表，取代 images 表中固定的 path_webp/path_avif/size_webp/size_avif 列
+-- kind: format 为其他格式的全尺寸副本；responsive 为宽度梯度副本；transform 不存储文件，按需从原图转换
+CREATE TABLE image_variants_new (
+    image_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    format TEXT NOT NULL,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    path TEXT NOT NULL DEFAULT '',
+    size INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (image_id, kind, format, width),
+    FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE
+);
+
+-- 0007 中的响应式变体
+INSERT INTO image_variants_new (image_id, kind, format, width, height, path, size)
+SELECT image_id, 'responsive', format, width, height, path, size FROM image_variants;
+
+-- 已存储的 WebP 副本
+INSERT INTO image_variants_new (image_id, kind, format, width, height, path, size)
+SELECT id, 'format', 'webp', width, height, path_webp, COALESCE(size_webp, 0)
+FROM images
+WHERE path_webp IS NOT NULL AND path_webp != '' AND path_webp != path_original;
+
+-- 已存储的 AVIF 副本（上传时限制在 1600px 以内，按该上限估算尺寸）
+INSERT INTO image_variants_new (image_id, kind, format, width, height, path, size)
+SELECT id, 'format', 'avif',
+    CASE WHEN width <= 1600 AND height <= 1600 THEN width
+        ELSE CAST(ROUND(width * MIN(1600.0 / width, 1600.0 / height)) AS INTEGER) END,
+    CASE WHEN width <= 1600 AND height <= 1600 THEN height
+        ELSE CAST(ROUND(height * MIN(1600.0 / width, 1600.0 / height)) AS INTEGER) END,
+    path_avif, COALESCE(size_avif, 0)
+FROM images
+WHERE path_avif IS NOT NULL AND path_avif != '' AND path_avif != path_original;
+
+-- 旧的标记路径（path_webp/path_avif 等于原图路径）改为 transform 变体
+INSERT INTO image_variants_new (image_id, kind, format, width, height, path, size)
+SELECT id, 'transform', 'webp', width, height, '', 0
+FROM images
+WHERE path_webp = path_original AND format != 'webp';
+
+INSERT INTO image_variants_new (image_id, kind, format, width, height, path, size)
+SELECT id, 'transform', 'avif', width, height, '', 0
+FROM images
+WHERE path_avif = path_original AND format != 'avif';
+
+DROP TABLE image_variants;
+ALTER TABLE image_variants_new RENAME TO image_variants;
+
+ALTER TABLE images DROP COLUMN path_webp;
+ALTER TABLE images DROP COLUMN path_avif;
+ALTER TABLE images DROP COLUMN size_webp;
+ALTER TABLE images DROP COLUMN size_avif;
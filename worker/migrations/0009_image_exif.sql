@@ -0,0 +1,19 @@
+-- 拍摄信息（EXIF/XMP）
+-- 上传时从 JPEG APP1、PNG eXIf、WebP EXIF 块和 AVIF/HEIF Exif 条目中解析；没有元数据的图片不写入
+-- taken_at 为 ISO 8601 格式的拍摄时间（带时区偏移时保留偏移），用于按拍摄时间排序
+CREATE TABLE IF NOT EXISTS image_exif (
+    image_id TEXT PRIMARY KEY,
+    make TEXT,
+    model TEXT,
+    lens TEXT,
+    exposure_time REAL,
+    f_number REAL,
+    iso INTEGER,
+    focal_length REAL,
+    taken_at TEXT,
+    latitude REAL,
+    longitude REAL,
+    FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_exif_taken_at ON image_exif(taken_at DESC);
@@ -0,0 +1,3 @@
+-- 隐私模式
+-- metadata_stripped: 1 表示原图在存储前已移除 EXIF/XMP/IPTC 元数据（可选保留方向信息）
+ALTER TABLE images ADD COLUMN metadata_stripped INTEGER NOT NULL DEFAULT 0;
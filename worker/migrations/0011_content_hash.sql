@@ -0,0 +1,5 @@
+-- 内容去重
+-- content_hash: 上传文件原始字节的 SHA-256（十六进制）；旧图片在运行重复检查前为 NULL
+-- 唯一索引保证同一文件只存储一份（SQLite 中多个 NULL 互不冲突）
+ALTER TABLE images ADD COLUMN content_hash TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_images_content_hash ON images(content_hash);
@@ -0,0 +1,4 @@
+-- 相似图片
+-- phash: 缩放为 9x8 灰度图后计算的 64 位差值哈希（dHash，16 位十六进制）；汉明距离越小越相似
+-- 未配置 Images 绑定或无法渲染的图片为 NULL，旧图片可通过 POST /api/reindex 补算
+ALTER TABLE images ADD COLUMN phash TEXT;
@@ -0,0 +1,18 @@
+-- 主色调
+-- average_color: 所有不透明像素的平均色（#rrggbb），前端用作图片加载时的占位背景
+-- image_colors: 缩放为 32x32 后统计出的最多 5 个主色，rank 0 占比最高；weight 为面积占比（0-1）
+-- r/g/b 单独存储，用于按颜色筛选时在 SQL 中计算 RGB 距离
+-- 未配置 Images 绑定或无法渲染的图片没有颜色信息，旧图片可通过 POST /api/reindex 补算
+ALTER TABLE images ADD COLUMN average_color TEXT;
+
+CREATE TABLE IF NOT EXISTS image_colors (
+    image_id TEXT NOT NULL,
+    rank INTEGER NOT NULL,
+    color TEXT NOT NULL,
+    r INTEGER NOT NULL,
+    g INTEGER NOT NULL,
+    b INTEGER NOT NULL,
+    weight REAL NOT NULL,
+    PRIMARY KEY (image_id, rank),
+    FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE
+);
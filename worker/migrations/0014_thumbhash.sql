@@ -0,0 +1,5 @@
+-- 加载占位图
+-- thumbhash: 按原图比例缩放到 100x100 以内后计算的 ThumbHash（base64，约 25-35 字节），前端解码为模糊占位图
+-- 同时通过 /i/:id 和 /private/:id 响应的 X-ThumbHash 头提供给第三方嵌入使用
+-- 未配置 Images 绑定或无法渲染的图片为 NULL，旧图片可通过 POST /api/reindex 补算
+ALTER TABLE images ADD COLUMN thumbhash TEXT;
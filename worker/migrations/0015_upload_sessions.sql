@@ -0,0 +1,27 @@
+-- 断点续传上传会话
+-- 大文件分片写入 R2 分片上传（multipart upload），上传完成后合并到 r2_key 暂存对象并按普通上传处理
+-- upload_id: R2 分片上传 ID；fields: 创建会话时提交的上传参数（与表单上传字段相同，JSON）
+-- 已上传的分片记录在 upload_session_parts，客户端中断或刷新页面后据此只补传缺失的分片
+-- 超过 expires_at 未完成的会话由定时任务中止并删除
+CREATE TABLE IF NOT EXISTS upload_sessions (
+    id TEXT PRIMARY KEY,
+    r2_key TEXT NOT NULL,
+    upload_id TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    part_size INTEGER NOT NULL,
+    fields TEXT NOT NULL DEFAULT '{}',
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires_at ON upload_sessions(expires_at);
+
+CREATE TABLE IF NOT EXISTS upload_session_parts (
+    session_id TEXT NOT NULL,
+    part_number INTEGER NOT NULL,
+    etag TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    PRIMARY KEY (session_id, part_number),
+    FOREIGN KEY (session_id) REFERENCES upload_sessions(id) ON DELETE CASCADE
+);
@@ -0,0 +1,46 @@
+-- 服务器端 ZIP 导入
+-- 压缩包通过断点续传会话上传到 R2（kind = 'zip'），完成后创建导入任务并发送到 IMPORT_QUEUE
+-- 队列消费者从 R2 按范围读取中央目录和各个条目，逐个按普通上传处理，每次处理一部分后重新入队
+-- status: queued | processing | completed | failed | cancelled；folder_tags = 1 时条目所在的文件夹名作为标签
+-- origin: 创建任务的请求来源，用于生成图片链接；压缩包在任务结束后删除
+ALTER TABLE upload_sessions ADD COLUMN kind TEXT NOT NULL DEFAULT 'image';
+
+CREATE TABLE IF NOT EXISTS zip_imports (
+    id TEXT PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    r2_key TEXT NOT NULL,
+    origin TEXT NOT NULL,
+    fields TEXT NOT NULL DEFAULT '{}',
+    folder_tags INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'queued',
+    total INTEGER NOT NULL DEFAULT 0,
+    processed INTEGER NOT NULL DEFAULT 0,
+    succeeded INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    skipped INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_zip_imports_completed_at ON zip_imports(completed_at);
+
+-- 压缩包中的图片条目（非图片、目录和隐藏文件只计入 skipped）
+-- status: pending | success | error
+CREATE TABLE IF NOT EXISTS zip_import_entries (
+    import_id TEXT NOT NULL,
+    entry_index INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    method INTEGER NOT NULL,
+    compressed_size INTEGER NOT NULL,
+    size INTEGER NOT NULL,
+    local_header_offset INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    image_id TEXT,
+    error TEXT,
+    PRIMARY KEY (import_id, entry_index),
+    FOREIGN KEY (import_id) REFERENCES zip_imports(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_zip_import_entries_status ON zip_import_entries(import_id, status);
@@ -0,0 +1,7 @@
+-- 导入图库导出的压缩包
+-- 压缩包根目录有导出生成的 manifest.json 时，只导入清单中的原图，并恢复原文件名、标签和可见性
+-- name: 原文件名；tags: 标签（JSON 数组）；visibility: public | private
+-- 普通压缩包的条目这三列为空，文件名取条目路径中的文件名
+ALTER TABLE zip_import_entries ADD COLUMN name TEXT;
+ALTER TABLE zip_import_entries ADD COLUMN tags TEXT;
+ALTER TABLE zip_import_entries ADD COLUMN visibility TEXT;
@@ -10,15 +10,18 @@ CREATE TABLE IF NOT EXISTS images (
     width INTEGER NOT NULL,
     height INTEGER NOT NULL,
     path_original TEXT NOT NULL,
-    path_webp TEXT,
-    path_avif TEXT,
     size_original INTEGER NOT NULL,
-    size_webp INTEGER DEFAULT 0,
-    size_avif INTEGER DEFAULT 0
+    visibility TEXT NOT NULL DEFAULT 'public' CHECK (visibility IN ('public', 'private')),
+    metadata_stripped INTEGER NOT NULL DEFAULT 0,
+    content_hash TEXT,
+    phash TEXT,
+    average_color TEXT,
+    thumbhash TEXT
 );
 
 CREATE INDEX IF NOT EXISTS idx_images_orientation ON images(orientation);
 CREATE INDEX IF NOT EXISTS idx_images_upload_time ON images(upload_time DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_images_content_hash ON images(content_hash);
 
 CREATE TABLE IF NOT EXISTS tags (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -33,14 +36,129 @@ CREATE TABLE IF NOT EXISTS image_tags (
     FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
 );
 
+CREATE TABLE IF NOT EXISTS image_variants (
+    image_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    format TEXT NOT NULL,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    path TEXT NOT NULL DEFAULT '',
+    size INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (image_id, kind, format, width),
+    FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS image_exif (
+    image_id TEXT PRIMARY KEY,
+    make TEXT,
+    model TEXT,
+    lens TEXT,
+    exposure_time REAL,
+    f_number REAL,
+    iso INTEGER,
+    focal_length REAL,
+    taken_at TEXT,
+    latitude REAL,
+    longitude REAL,
+    FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_image_exif_taken_at ON image_exif(taken_at DESC);
+
+CREATE TABLE IF NOT EXISTS image_colors (
+    image_id TEXT NOT NULL,
+    rank INTEGER NOT NULL,
+    color TEXT NOT NULL,
+    r INTEGER NOT NULL,
+    g INTEGER NOT NULL,
+    b INTEGER NOT NULL,
+    weight REAL NOT NULL,
+    PRIMARY KEY (image_id, rank),
+    FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE
+);
+
 CREATE TABLE IF NOT EXISTS api_keys (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
-    key TEXT NOT NULL UNIQUE,
+    key_prefix TEXT NOT NULL DEFAULT '',
+    key_hash TEXT,
+    key_salt TEXT,
+    legacy_key TEXT,
+    label TEXT,
+    scopes TEXT NOT NULL DEFAULT 'admin',
+    expires_at TEXT,
+    replaced_by INTEGER,
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     last_used_at TEXT
 );
 
+CREATE INDEX IF NOT EXISTS idx_api_keys_prefix ON api_keys(key_prefix);
+
 CREATE TABLE IF NOT EXISTS config (
     key TEXT PRIMARY KEY,
     value TEXT NOT NULL
 );
+
+CREATE TABLE IF NOT EXISTS upload_sessions (
+    id TEXT PRIMARY KEY,
+    r2_key TEXT NOT NULL,
+    upload_id TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    part_size INTEGER NOT NULL,
+    fields TEXT NOT NULL DEFAULT '{}',
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    kind TEXT NOT NULL DEFAULT 'image'
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires_at ON upload_sessions(expires_at);
+
+CREATE TABLE IF NOT EXISTS upload_session_parts (
+    session_id TEXT NOT NULL,
+    part_number INTEGER NOT NULL,
+    etag TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    PRIMARY KEY (session_id, part_number),
+    FOREIGN KEY (session_id) REFERENCES upload_sessions(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS zip_imports (
+    id TEXT PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    r2_key TEXT NOT NULL,
+    origin TEXT NOT NULL,
+    fields TEXT NOT NULL DEFAULT '{}',
+    folder_tags INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'queued',
+    total INTEGER NOT NULL DEFAULT 0,
+    processed INTEGER NOT NULL DEFAULT 0,
+    succeeded INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    skipped INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_zip_imports_completed_at ON zip_imports(completed_at);
+
+CREATE TABLE IF NOT EXISTS zip_import_entries (
+    import_id TEXT NOT NULL,
+    entry_index INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    method INTEGER NOT NULL,
+    compressed_size INTEGER NOT NULL,
+    size INTEGER NOT NULL,
+    local_header_offset INTEGER NOT NULL,
+    name TEXT,
+    tags TEXT,
+    visibility TEXT,
+    status TEXT NOT NULL DEFAULT 'pending',
+    image_id TEXT,
+    error TEXT,
+    PRIMARY KEY (import_id, entry_index),
+    FOREIGN KEY (import_id) REFERENCES zip_imports(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_zip_import_entries_status ON zip_import_entries(import_id, status);
@@ -0,0 +1,66 @@
+import type { Context } from 'hono';
+import type { Env } from '../types';
+import { BackupService, BackupFormatError, RESTORE_MAX_LIMIT, isBackupName } from '../services/backup';
+import { successResponse, errorResponse, notFoundResponse } from '../utils/response';
+
+// GET /api/backups - Metadata snapshots stored in R2, newest first
+export async function listBackupsHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const backups = await new BackupService(c.env).list();
+    return successResponse({ backups });
+  } catch (err) {
+    console.error('List backups error:', err);
+    return errorResponse('Failed to list backups', 500);
+  }
+}
+
+// POST /api/backups - Take a snapshot now instead of waiting for the cron
+export async function createBackupHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const backup = await new BackupService(c.env).create();
+    return successResponse({ backup });
+  } catch (err) {
+    console.error('Create backup error:', err);
+    return errorResponse('Failed to create backup', 500);
+  }
+}
+
+/**
+ * POST /api/backups/:name/restore - Rebuild D1 from a snapshot; `dryRun` only reports what would change.
+ * Restores `limit` images per call starting at `cursor`; call again with `nextCursor` until it is null.
+ */
+export async function restoreBackupHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const name = c.req.param('name') ?? '';
+    if (!isBackupName(name)) {
+      return notFoundResponse('Backup not found');
+    }
+
+    const body: { dryRun?: unknown; cursor?: unknown; limit?: unknown } = await c.req.json().catch(() => ({}));
+    if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+      return errorResponse('dryRun must be a boolean');
+    }
+    if (body.cursor !== undefined && !(Number.isInteger(body.cursor) && (body.cursor as number) >= 0)) {
+      return errorResponse('cursor must be a non-negative integer');
+    }
+    if (body.limit !== undefined && !(Number.isInteger(body.limit) && (body.limit as number) >= 1 && (body.limit as number) <= RESTORE_MAX_LIMIT)) {
+      return errorResponse(`limit must be an integer from 1 to ${RESTORE_MAX_LIMIT}`);
+    }
+
+    const report = await new BackupService(c.env).restore(name, {
+      dryRun: body.dryRun === true,
+      cursor: body.cursor as number | undefined,
+      limit: body.limit as number | undefined,
+    });
+    if (!report) {
+      return notFoundResponse('Backup not found');
+    }
+    return successResponse({ restore: report });
+  } catch (err) {
+    if (err instanceof BackupFormatError) {
+      return errorResponse(err.message);
+    }
+    console.error('Restore backup error:', err);
+    return errorResponse('Failed to restore backup', 500);
+  }
+}
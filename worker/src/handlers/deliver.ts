@@ -0,0 +1,222 @@
+import type { Context } from 'hono';
+import type { Env, ImageMetadata, ImageOutputOptions, ImageTransformOptions } from '../types';
+import { MetadataService } from '../services/metadata';
+import { StorageService } from '../services/storage';
+import { ImageProcessor } from '../services/imageProcessor';
+import { SVG_RESPONSE_HEADERS } from '../services/svgSanitizer';
+import { thumbHashHeaders } from '../services/thumbHash';
+import { SigningService, isSignedVariant } from '../services/signing';
+import { errorResponse, forbiddenResponse, notFoundResponse } from '../utils/response';
+import { isValidUUID, validateFormat } from '../utils/validation';
+import { sha256Hex } from '../utils/crypto';
+import { storedFormatKey } from '../utils/variants';
+
+// Browsers and CDNs revalidate public images daily; the ETag makes that a cheap 304
+const DELIVERY_MAX_AGE = 86400;
+const MAX_DIMENSION = 4096;
+const FIT_VALUES: ReadonlyArray<NonNullable<ImageTransformOptions['fit']>> = ['scale-down', 'contain', 'cover', 'crop', 'pad'];
+// Always served as stored: GIF keeps its animation, SVG stays vector
+const PASSTHROUGH_FORMATS = ['gif', 'svg'];
+
+type DeliveryFormat = 'original' | 'webp' | 'avif';
+
+interface TransformParams {
+  width?: number;
+  height?: number;
+  fit?: ImageTransformOptions['fit'];
+  quality?: number;
+}
+
+function parseBoundedInt(value: string | undefined, max: number): number | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  const num = Number(value);
+  return Number.isInteger(num) && num >= 1 && num <= max ? num : null;
+}
+
+// Returns null when any parameter is present but invalid
+function parseTransformParams(c: Context<{ Bindings: Env }>): TransformParams | null {
+  const width = parseBoundedInt(c.req.query('w'), MAX_DIMENSION);
+  const height = parseBoundedInt(c.req.query('h'), MAX_DIMENSION);
+  const quality = parseBoundedInt(c.req.query('q'), 100);
+  const fitParam = c.req.query('fit');
+  const fit = fitParam ? FIT_VALUES.find(value => value === fitParam) : undefined;
+
+  if (width === null || height === null || quality === null || (fitParam && !fit)) {
+    return null;
+  }
+  return { width, height, fit, quality };
+}
+
+// Stored object that already holds the format, or null when it has to be converted
+function storedKeyFor(image: ImageMetadata, format: DeliveryFormat): string | null {
+  if (format === 'original') return image.paths.original;
+  // An SVG's only raster is its preview
+  if (image.format === 'svg') {
+    return image.variants.find(v => v.kind === 'preview' && v.format === format)?.path ?? null;
+  }
+  return storedFormatKey(image, format);
+}
+
+// Responsive variant for a plain ?w= request: the exact width, or without the Images binding the next wider one
+function storedVariantFor(
+  image: ImageMetadata,
+  format: DeliveryFormat,
+  transform: TransformParams,
+  canConvert: boolean
+): string | null {
+  if (format === 'original' || transform.width === undefined
+    || transform.height !== undefined || transform.fit !== undefined || transform.quality !== undefined) {
+    return null;
+  }
+  const width = transform.width;
+  const candidates = image.variants.filter(v => v.kind === 'responsive' && v.format === format
+    && (canConvert ? v.width === width : v.width >= width));
+  return candidates.sort((a, b) => a.width - b.width)[0]?.path ?? null;
+}
+
+// Explicit ?format= wins, otherwise follow Accept; skip formats that cannot be produced
+function negotiateFormat(
+  image: ImageMetadata,
+  requested: DeliveryFormat | undefined,
+  acceptHeader: string | undefined,
+  canConvert: boolean
+): DeliveryFormat {
+  if (PASSTHROUGH_FORMATS.includes(image.format)) {
+    return requested && storedKeyFor(image, requested) !== null ? requested : 'original';
+  }
+
+  const accept = acceptHeader || '';
+  const preferred: DeliveryFormat[] = requested
+    ? [requested]
+    : [
+        ...(accept.includes('image/avif') ? ['avif' as const] : []),
+        ...(accept.includes('image/webp') ? ['webp' as const] : []),
+      ];
+
+  // HEIC/HEIF/JPEG XL originals are not displayable, so fall back to their stored copy
+  const fallback: DeliveryFormat = ImageProcessor.needsBrowserCopy(image.format)
+    ? (storedKeyFor(image, 'webp') !== null ? 'webp' : 'avif')
+    : 'original';
+  return preferred.find(format => canConvert || storedKeyFor(image, format) !== null) ?? fallback;
+}
+
+function outputFormatFor(image: ImageMetadata, format: DeliveryFormat): ImageOutputOptions['format'] {
+  if (format !== 'original') return `image/${format}`;
+  switch (image.format) {
+    case 'png':
+    case 'webp':
+    case 'avif':
+      return `image/${image.format}`;
+    default:
+      return 'image/jpeg';
+  }
+}
+
+function matchesIfNoneMatch(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  return header.split(',').some(value => {
+    const candidate = value.trim().replace(/^W\//, '');
+    return candidate === '*' || candidate === etag;
+  });
+}
+
+// GET /i/:id - Permanent image URL with content negotiation (PUBLIC; private images need a signature)
+export async function deliverImageHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const id = c.req.param('id') ?? '';
+    if (!isValidUUID(id)) {
+      return errorResponse('Invalid image ID');
+    }
+
+    const rawFormat = c.req.query('format');
+    const requestedFormat = rawFormat ? validateFormat(rawFormat) : undefined;
+    const transform = parseTransformParams(c);
+    if ((rawFormat && !requestedFormat) || !transform) {
+      return errorResponse('Invalid delivery parameters');
+    }
+
+    const metadata = new MetadataService(c.env.DB);
+    const image = await metadata.getImage(id);
+    if (!image || (image.expiryTime && new Date(image.expiryTime).getTime() <= Date.now())) {
+      return notFoundResponse('Image not found');
+    }
+
+    // Private images accept the same signed query string as /private/:id
+    let cacheControl = `public, max-age=${DELIVERY_MAX_AGE}`;
+    if (image.visibility === 'private') {
+      const signing = SigningService.fromEnv(c.env);
+      const variant = c.req.query('v') || 'original';
+      const expires = Number(c.req.query('exp'));
+      if (!signing || !isSignedVariant(variant)
+        || !(await signing.verify(id, variant, expires, c.req.query('sig') || ''))) {
+        return forbiddenResponse('Invalid or expired signature');
+      }
+      const remaining = expires - Math.floor(Date.now() / 1000);
+      cacheControl = `private, max-age=${Math.min(DELIVERY_MAX_AGE, remaining)}`;
+    }
+
+    const hasTransform = transform.width !== undefined
+      || transform.height !== undefined
+      || transform.quality !== undefined
+      || transform.fit !== undefined;
+    const canConvert = !!c.env.IMAGES && !PASSTHROUGH_FORMATS.includes(image.format);
+    const format = negotiateFormat(image, requestedFormat, c.req.header('Accept'), canConvert);
+    const storedKey = storedKeyFor(image, format);
+    const variantKey = storedVariantFor(image, format, transform, canConvert);
+    // Without the Images binding, transform parameters are ignored and the stored file is served
+    const useImages = !variantKey && canConvert && (hasTransform || storedKey === null);
+    const sourceKey = variantKey ?? (useImages ? image.paths.original : (storedKey ?? image.paths.original));
+
+    // Objects are never rewritten in place, so key + output parameters identify the bytes
+    const etagSource = useImages
+      ? `${sourceKey}|${format}|${transform.width ?? ''}|${transform.height ?? ''}|${transform.fit ?? ''}|${transform.quality ?? ''}`
+      : sourceKey;
+    const etag = `"${(await sha256Hex(etagSource)).slice(0, 32)}"`;
+
+    const headers: Record<string, string> = {
+      'Cache-Control': cacheControl,
+      ETag: etag,
+      'Access-Control-Allow-Origin': '*',
+      ...thumbHashHeaders(image.thumbHash),
+    };
+    if (!requestedFormat && !PASSTHROUGH_FORMATS.includes(image.format)) {
+      headers.Vary = 'Accept';
+    }
+
+    if (matchesIfNoneMatch(c.req.header('If-None-Match'), etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    const storage = new StorageService(c.env.R2_BUCKET);
+    const object = await storage.get(sourceKey);
+    if (!object) {
+      return notFoundResponse('Image file not found');
+    }
+
+    if (useImages && c.env.IMAGES) {
+      const transformOptions: ImageTransformOptions = {
+        width: transform.width,
+        height: transform.height,
+        fit: transform.fit ?? (transform.width || transform.height ? 'scale-down' : undefined),
+      };
+      const output = await c.env.IMAGES.input(object.body)
+        .transform(transformOptions)
+        .output({ format: outputFormatFor(image, format), quality: transform.quality });
+      return new Response(output.image(), {
+        headers: { ...headers, 'Content-Type': output.contentType() },
+      });
+    }
+
+    return new Response(object.body, {
+      headers: {
+        ...headers,
+        'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream',
+        ...(image.format === 'svg' && format === 'original' ? SVG_RESPONSE_HEADERS : {}),
+      },
+    });
+
+  } catch (err) {
+    console.error('Deliver image handler error:', err);
+    return errorResponse('Failed to deliver image', 500);
+  }
+}
@@ -0,0 +1,123 @@
+import type { Context } from 'hono';
+import type { Env } from '../types';
+import { LibraryExportService, type ExportContent, type ExportJob } from '../services/libraryExport';
+import { successResponse, errorResponse, notFoundResponse } from '../utils/response';
+import { isValidUUID, sanitizeTagName, validateHexColor, validateImageListFormat, validateOrientation } from '../utils/validation';
+
+// Same colour matching as GET /api/images
+const DEFAULT_COLOR_TOLERANCE = 60;
+const MAX_COLOR_TOLERANCE = 160;
+
+interface ExportBody {
+  ids?: unknown;
+  filter?: {
+    tag?: unknown;
+    orientation?: unknown;
+    format?: unknown;
+    color?: unknown;
+    tolerance?: unknown;
+  };
+  content?: unknown;
+}
+
+function validateExportContent(value: unknown): ExportContent | undefined {
+  if (value === 'originals' || value === 'variants' || value === 'both') {
+    return value;
+  }
+  return undefined;
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+function exportInfo(job: ExportJob, origin: string) {
+  return {
+    id: job.id,
+    count: job.imageIds.length,
+    content: job.content,
+    expiresAt: job.expiresAt,
+    downloadUrl: `${origin}/api/exports/${job.id}/download`,
+  };
+}
+
+// POST /api/exports - Prepare a ZIP export of selected images or of everything matching a filter
+export async function createExportHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const body = await c.req.json<ExportBody>().catch((): ExportBody => ({}));
+    const content = body.content === undefined ? 'originals' : validateExportContent(body.content);
+    if (!content) {
+      return errorResponse('content must be originals, variants or both');
+    }
+
+    const exports = new LibraryExportService(c.env);
+    let imageIds: string[];
+    try {
+      if (body.ids !== undefined) {
+        if (!Array.isArray(body.ids) || !body.ids.every(id => typeof id === 'string')) {
+          return errorResponse('ids must be an array of image IDs');
+        }
+        // Unknown ids are dropped rather than failing the whole export
+        imageIds = await exports.resolveIds(Array.from(new Set(body.ids as string[])), content);
+      } else {
+        const filter = body.filter ?? {};
+        const rawTag = optionalString(filter.tag);
+        const tolerance = typeof filter.tolerance === 'number' && Number.isFinite(filter.tolerance)
+          ? Math.max(0, Math.min(MAX_COLOR_TOLERANCE, Math.trunc(filter.tolerance)))
+          : DEFAULT_COLOR_TOLERANCE;
+        imageIds = await exports.resolveFilter({
+          tag: rawTag ? sanitizeTagName(rawTag) || undefined : undefined,
+          orientation: validateOrientation(optionalString(filter.orientation)),
+          format: validateImageListFormat(optionalString(filter.format)) || 'all',
+          color: validateHexColor(optionalString(filter.color)),
+          tolerance,
+        }, content);
+      }
+    } catch (err) {
+      // Over the file budget of one download
+      if (err instanceof RangeError) {
+        return errorResponse(err.message);
+      }
+      throw err;
+    }
+
+    if (imageIds.length === 0) {
+      return errorResponse('No images to export');
+    }
+
+    const job = await exports.create(imageIds, content);
+    return successResponse({ export: exportInfo(job, new URL(c.req.url).origin) });
+  } catch (err) {
+    console.error('Create export error:', err);
+    return errorResponse('Failed to create export', 500);
+  }
+}
+
+// GET /api/exports/:id/download - Stream the ZIP; the unguessable export id is the credential
+export async function downloadExportHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const id = c.req.param('id') ?? '';
+    const exports = new LibraryExportService(c.env);
+    const job = isValidUUID(id) ? await exports.get(id) : null;
+    if (!job) {
+      return notFoundResponse('Export not found or expired');
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    c.executionCtx.waitUntil(exports.write(job, writable).catch(err => {
+      console.error('Export stream error:', err);
+    }));
+
+    const date = job.createdAt.slice(0, 10);
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="cattopic-export-${date}.zip"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err) {
+    console.error('Download export error:', err);
+    return errorResponse('Failed to download export', 500);
+  }
+}
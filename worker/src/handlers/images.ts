@@ -1,13 +1,32 @@
 import type { Context } from 'hono';
-import type { Env } from '../types';
+import type { Env, ImageMetadata } from '../types';
 import { MetadataService } from '../services/metadata';
 import { StorageService } from '../services/storage';
 import { CacheService, CacheKeys, CACHE_TTL } from '../services/cache';
+import { PerceptualHash } from '../services/perceptualHash';
+import { SigningService, resolveImageUrls, resolveVariantUrls, isSignedVariant } from '../services/signing';
 import { successResponse, errorResponse, notFoundResponse } from '../utils/response';
-import { parseNumber, validateOrientation, validateImageListFormat, parseTags, sanitizeTagName, isValidUUID } from '../utils/validation';
-import { buildImageUrls } from '../utils/imageTransform';
+import { parseNumber, validateOrientation, validateImageListFormat, validateImageSort, validateHexColor, validateVisibility, parseTags, sanitizeTagName, isValidUUID } from '../utils/validation';
+import { randomHex, sha256Hex } from '../utils/crypto';
+import { imageFileKeys } from '../utils/variants';
 
 const MAX_IMAGES_PAGE_SIZE = 100;
+const DEFAULT_SHARE_MINUTES = 60;
+const MAX_SHARE_MINUTES = 30 * 24 * 60; // 30 days
+// Images per duplicates call; each unhashed one reads its original from R2
+const DUPLICATES_DEFAULT_LIMIT = 25;
+const DUPLICATES_MAX_LIMIT = 100;
+// Hamming distance between perceptual hashes (out of 64 bits) still treated as the same picture
+const DEFAULT_SIMILAR_DISTANCE = 10;
+const MAX_SIMILAR_DISTANCE = 24;
+const DEFAULT_SIMILAR_LIMIT = 12;
+const MAX_SIMILAR_LIMIT = 50;
+const DEFAULT_NEAR_DUPLICATE_DISTANCE = 6;
+const DEFAULT_NEAR_DUPLICATE_GROUPS = 20;
+const MAX_NEAR_DUPLICATE_GROUPS = 100;
+// RGB distance between the requested colour and a dominant colour that still counts as a match
+const DEFAULT_COLOR_TOLERANCE = 60;
+const MAX_COLOR_TOLERANCE = 160;
 
 function clampInt(value: number, min: number, max: number): number {
   if (!Number.isFinite(value)) return min;
@@ -24,9 +43,12 @@ export async function imagesHandler(c: Context<{ Bindings: Env }>): Promise<Resp
     const tag = rawTag ? sanitizeTagName(rawTag) || undefined : undefined;
     const orientation = validateOrientation(url.searchParams.get('orientation'));
     const format = validateImageListFormat(url.searchParams.get('format')) || 'all';
+    const sort = validateImageSort(url.searchParams.get('sort')) || 'uploaded';
+    const color = validateHexColor(url.searchParams.get('color'));
+    const tolerance = clampInt(parseNumber(url.searchParams.get('tolerance'), DEFAULT_COLOR_TOLERANCE), 0, MAX_COLOR_TOLERANCE);
 
     const cache = new CacheService(c.env.CACHE_KV);
-    const cacheKey = CacheKeys.imagesList(page, limit, tag, orientation, format);
+    const cacheKey = CacheKeys.imagesList(page, limit, tag, orientation, format, sort, color, tolerance);
 
     // Try to get from cache - cache stores the response data object, not the Response
     interface ImagesListCache {
@@ -42,24 +64,14 @@ export async function imagesHandler(c: Context<{ Bindings: Env }>): Promise<Resp
     }
 
     const metadata = new MetadataService(c.env.DB);
-    const { images, total } = await metadata.getImages({ page, limit, tag, orientation, format });
-
-    const baseUrl = c.env.R2_PUBLIC_URL;
+    const { images, total } = await metadata.getImages({ page, limit, tag, orientation, format, sort, color, tolerance });
 
     // Add full URLs to images
-    const imagesWithUrls = images.map(img => ({
+    const imagesWithUrls = await Promise.all(images.map(async img => ({
       ...img,
-      urls: {
-        ...buildImageUrls({
-          baseUrl,
-          image: img,
-          options: {
-            generateWebp: !!img.paths.webp,
-            generateAvif: !!img.paths.avif,
-          },
-        }),
-      }
-    }));
+      urls: await resolveImageUrls(c.env, url.origin, img),
+      variants: await resolveVariantUrls(c.env, url.origin, img),
+    })));
 
     const responseData = {
       images: imagesWithUrls,
@@ -80,6 +92,166 @@ export async function imagesHandler(c: Context<{ Bindings: Env }>): Promise<Resp
   }
 }
 
+/**
+ * GET /api/images/duplicates?cursor=&limit= - Find copies of the same file in an existing library
+ * Walks the library in id order; images uploaded before deduplication get their hash recorded here.
+ * The first image seen with a hash keeps it, later copies are reported against it and stay unhashed,
+ * so a later run reports them again until they are deleted. Call again with `nextCursor` until it is null.
+ */
+export async function duplicatesHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const cursor = c.req.query('cursor') || null;
+    const limit = clampInt(parseNumber(c.req.query('limit') ?? null, DUPLICATES_DEFAULT_LIMIT), 1, DUPLICATES_MAX_LIMIT);
+
+    const metadata = new MetadataService(c.env.DB);
+    const storage = new StorageService(c.env.R2_BUCKET);
+    const images = await metadata.getImagesAfter(cursor, limit);
+
+    const groups = new Map<string, { contentHash: string; keepId: string; duplicateIds: string[] }>();
+    const hashedIds: string[] = [];
+    let failedCount = 0;
+
+    for (const image of images) {
+      if (image.contentHash) continue;
+      try {
+        const object = await storage.get(image.paths.original);
+        if (!object) {
+          failedCount++;
+          continue;
+        }
+        const contentHash = await sha256Hex(await object.arrayBuffer());
+        const holderId = await metadata.claimContentHash(image.id, contentHash);
+        if (!holderId) {
+          hashedIds.push(image.id);
+          continue;
+        }
+
+        const group = groups.get(contentHash) ?? { contentHash, keepId: holderId, duplicateIds: [] };
+        group.duplicateIds.push(image.id);
+        groups.set(contentHash, group);
+      } catch (err) {
+        console.error('Failed to hash image:', image.id, err);
+        failedCount++;
+      }
+    }
+
+    // Cached metadata does not carry the newly recorded hashes yet
+    if (hashedIds.length > 0) {
+      const cache = new CacheService(c.env.CACHE_KV);
+      c.executionCtx.waitUntil(Promise.all([
+        cache.invalidateImagesList(),
+        ...hashedIds.map(id => cache.invalidateImageDetail(id)),
+      ]));
+    }
+
+    return successResponse({
+      scannedCount: images.length,
+      hashedCount: hashedIds.length,
+      failedCount,
+      groups: [...groups.values()],
+      nextCursor: images.length === limit ? images[images.length - 1].id : null,
+    });
+
+  } catch (err) {
+    console.error('Duplicates handler error:', err);
+    return errorResponse('查找重复图片失败', 500);
+  }
+}
+
+// Adds URLs and the distance to the reference hash, keeping the order of `images`
+async function withDistances(
+  c: Context<{ Bindings: Env }>,
+  images: ImageMetadata[],
+  distances: Map<string, number>
+): Promise<Array<Record<string, unknown>>> {
+  const origin = new URL(c.req.url).origin;
+  return Promise.all(images.map(async image => ({
+    ...image,
+    urls: await resolveImageUrls(c.env, origin, image),
+    variants: await resolveVariantUrls(c.env, origin, image),
+    distance: distances.get(image.id) ?? 0,
+  })));
+}
+
+// GET /api/images/:id/similar?distance=&limit= - Images whose perceptual hash is within `distance` bits
+export async function similarImagesHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const id = c.req.param('id') ?? '';
+    if (!isValidUUID(id)) {
+      return errorResponse('无效的图片ID');
+    }
+
+    const maxDistance = clampInt(parseNumber(c.req.query('distance') ?? null, DEFAULT_SIMILAR_DISTANCE), 0, MAX_SIMILAR_DISTANCE);
+    const limit = clampInt(parseNumber(c.req.query('limit') ?? null, DEFAULT_SIMILAR_LIMIT), 1, MAX_SIMILAR_LIMIT);
+
+    const metadata = new MetadataService(c.env.DB);
+    const image = await metadata.getImage(id);
+    if (!image) {
+      return notFoundResponse('图片不存在');
+    }
+    // Not hashed yet (no Images binding at upload, or uploaded before POST /api/reindex ran)
+    if (!image.perceptualHash) {
+      return successResponse({ images: [], hashed: false });
+    }
+
+    const candidates = (await metadata.getPerceptualHashes()).filter(candidate => candidate.id !== id);
+    const matches = PerceptualHash.findSimilar(image.perceptualHash, candidates, maxDistance).slice(0, limit);
+    const images = await metadata.getImagesByIds(matches.map(match => match.id));
+
+    return successResponse({
+      images: await withDistances(c, images, new Map(matches.map(match => [match.id, match.distance]))),
+      hashed: true,
+    });
+
+  } catch (err) {
+    console.error('Similar images handler error:', err);
+    return errorResponse('获取相似图片失败');
+  }
+}
+
+/**
+ * GET /api/images/near-duplicates?distance=&limit= - Groups of images that look the same
+ * (resized or recompressed copies). Each group is ordered largest first, the usual copy to keep;
+ * `distance` of a member is measured against that first image.
+ */
+export async function nearDuplicatesHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const maxDistance = clampInt(parseNumber(c.req.query('distance') ?? null, DEFAULT_NEAR_DUPLICATE_DISTANCE), 0, MAX_SIMILAR_DISTANCE);
+    const limit = clampInt(parseNumber(c.req.query('limit') ?? null, DEFAULT_NEAR_DUPLICATE_GROUPS), 1, MAX_NEAR_DUPLICATE_GROUPS);
+
+    const metadata = new MetadataService(c.env.DB);
+    const hashes = await metadata.getPerceptualHashes();
+    const hashById = new Map(hashes.map(entry => [entry.id, entry.hash]));
+    const clusters = PerceptualHash.group(hashes, maxDistance);
+
+    const selected = clusters.slice(0, limit);
+    const imagesById = new Map((await metadata.getImagesByIds(selected.flat())).map(image => [image.id, image]));
+
+    const groups: Array<{ images: Array<Record<string, unknown>> }> = [];
+    for (const cluster of selected) {
+      const images = cluster
+        .map(id => imagesById.get(id))
+        .filter((image): image is ImageMetadata => image !== undefined)
+        .sort((a, b) => b.width * b.height - a.width * a.height || b.sizes.original - a.sizes.original);
+      if (images.length < 2) continue;
+      const reference = hashById.get(images[0].id)!;
+      const distances = new Map(images.map(image => [image.id, PerceptualHash.distance(reference, hashById.get(image.id)!)]));
+      groups.push({ images: await withDistances(c, images, distances) });
+    }
+
+    return successResponse({
+      groups,
+      totalGroups: clusters.length,
+      hashedCount: hashes.length,
+      distance: maxDistance,
+    });
+
+  } catch (err) {
+    console.error('Near-duplicates handler error:', err);
+    return errorResponse('查找相似图片失败');
+  }
+}
+
 // GET /api/images/:id - Get single image details
 export async function imageDetailHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
   try {
@@ -108,21 +280,11 @@ export async function imageDetailHandler(c: Context<{ Bindings: Env }>): Promise
       return notFoundResponse('图片不存在');
     }
 
-    const baseUrl = c.env.R2_PUBLIC_URL;
-
     const responseData = {
       image: {
         ...image,
-        urls: {
-          ...buildImageUrls({
-            baseUrl,
-            image,
-            options: {
-              generateWebp: !!image.paths.webp,
-              generateAvif: !!image.paths.avif,
-            },
-          }),
-        }
+        urls: await resolveImageUrls(c.env, new URL(c.req.url).origin, image),
+        variants: await resolveVariantUrls(c.env, new URL(c.req.url).origin, image),
       }
     };
 
@@ -140,7 +302,7 @@ export async function imageDetailHandler(c: Context<{ Bindings: Env }>): Promise
 // PUT /api/images/:id - Update image metadata
 export async function updateImageHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
   try {
-    const id = c.req.param('id');
+    const id = c.req.param('id') ?? '';
 
     if (!isValidUUID(id)) {
       return errorResponse('无效的图片ID');
@@ -150,7 +312,7 @@ export async function updateImageHandler(c: Context<{ Bindings: Env }>): Promise
     const metadata = new MetadataService(c.env.DB);
 
     // Build updates object
-    const updates: Record<string, string[] | string | undefined> = {};
+    const updates: Partial<ImageMetadata> = {};
 
     if (body.tags !== undefined) {
       if (body.tags === null) {
@@ -176,7 +338,57 @@ export async function updateImageHandler(c: Context<{ Bindings: Env }>): Promise
       }
     }
 
-    const updated = await metadata.updateImage(id, updates);
+    // Changing visibility moves the files in or out of the private prefix before the row is updated
+    let movedFrom: ImageMetadata | null = null;
+    if (body.visibility !== undefined) {
+      const visibility = validateVisibility(body.visibility);
+      if (!visibility) {
+        return errorResponse('visibility must be public or private');
+      }
+      if (visibility === 'private' && !c.env.SIGNING_SECRET) {
+        return errorResponse('未配置 SIGNING_SECRET，无法设为私有', 500);
+      }
+
+      const current = await metadata.getImage(id);
+      if (!current) {
+        return notFoundResponse('图片不存在');
+      }
+
+      if (current.visibility !== visibility) {
+        const token = randomHex(8);
+        const storage = new StorageService(c.env.R2_BUCKET);
+        // SVG originals stay under a private key either way (see ImageIngestService)
+        const mapKey = (key: string) => visibility === 'private' || (current.format === 'svg' && key === current.paths.original)
+          ? StorageService.toPrivateKey(StorageService.toPublicKey(key), token)
+          : StorageService.toPublicKey(key);
+        const moved = await storage.moveImageFiles(current, mapKey);
+        updates.visibility = visibility;
+        updates.paths = moved.paths;
+        updates.variants = moved.variants;
+        movedFrom = current;
+      }
+    }
+
+    let updated: ImageMetadata | null;
+    try {
+      updated = await metadata.updateImage(id, updates);
+    } catch (err) {
+      if (movedFrom && updates.paths && updates.variants) {
+        // Put the files back so the unchanged row still points at them
+        const from = imageFileKeys(movedFrom);
+        const to = imageFileKeys({ paths: updates.paths, variants: updates.variants });
+        const previous = new Map([
+          [to.original, from.original],
+          ...(to.variants ?? []).map((key, i): [string, string] => [key, from.variants?.[i] ?? key]),
+        ]);
+        const storage = new StorageService(c.env.R2_BUCKET);
+        await storage.moveImageFiles({ ...movedFrom, paths: updates.paths, variants: updates.variants }, key => previous.get(key) ?? key)
+          .catch(moveErr => {
+            console.error('Failed to restore image files:', id, moveErr);
+          });
+      }
+      throw err;
+    }
 
     if (!updated) {
       return notFoundResponse('图片不存在');
@@ -191,21 +403,11 @@ export async function updateImageHandler(c: Context<{ Bindings: Env }>): Promise
       await cache.invalidateTagsList();
     }
 
-    const baseUrl = c.env.R2_PUBLIC_URL;
-
     return successResponse({
       image: {
         ...updated,
-        urls: {
-          ...buildImageUrls({
-            baseUrl,
-            image: updated,
-            options: {
-              generateWebp: !!updated.paths.webp,
-              generateAvif: !!updated.paths.avif,
-            },
-          }),
-        }
+        urls: await resolveImageUrls(c.env, new URL(c.req.url).origin, updated),
+        variants: await resolveVariantUrls(c.env, new URL(c.req.url).origin, updated),
       }
     });
 
@@ -215,6 +417,58 @@ export async function updateImageHandler(c: Context<{ Bindings: Env }>): Promise
   }
 }
 
+// POST /api/images/:id/share - Create a time-limited signed link to a private image
+export async function shareImageHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const id = c.req.param('id') ?? '';
+
+    if (!isValidUUID(id)) {
+      return errorResponse('无效的图片ID');
+    }
+
+    const body: { expiresInMinutes?: unknown; variant?: unknown } = await c.req.json().catch(() => ({}));
+    const variant = body.variant ?? 'original';
+    const minutes = body.expiresInMinutes !== undefined ? Number(body.expiresInMinutes) : DEFAULT_SHARE_MINUTES;
+
+    if (!isSignedVariant(variant)) {
+      return errorResponse('variant must be original, webp or avif');
+    }
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_SHARE_MINUTES) {
+      return errorResponse(`有效期必须在 1 到 ${MAX_SHARE_MINUTES} 分钟之间`);
+    }
+
+    const signing = SigningService.fromEnv(c.env);
+    if (!signing) {
+      return errorResponse('未配置 SIGNING_SECRET，无法生成分享链接', 500);
+    }
+
+    const metadata = new MetadataService(c.env.DB);
+    const image = await metadata.getImage(id);
+
+    if (!image) {
+      return notFoundResponse('图片不存在');
+    }
+    if (image.visibility !== 'private') {
+      return errorResponse('公开图片可直接使用原链接分享');
+    }
+    if (variant !== 'original' && (!image.paths[variant] || image.format === 'gif')) {
+      return errorResponse('该图片没有此格式');
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + minutes * 60;
+    const url = await signing.buildUrl(new URL(c.req.url).origin, id, variant, expires);
+
+    return successResponse({
+      url,
+      expiresAt: new Date(expires * 1000).toISOString(),
+    });
+
+  } catch (err) {
+    console.error('Share image handler error:', err);
+    return errorResponse('生成分享链接失败');
+  }
+}
+
 // DELETE /api/images/:id - Delete image
 // D1 删除和缓存失效是同步的，R2 文件删除根据 USE_QUEUE 配置走 Queue 异步或同步处理
 export async function deleteImageHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
@@ -243,11 +497,7 @@ export async function deleteImageHandler(c: Context<{ Bindings: Env }>): Promise
     ]);
 
     // 3. 删除 R2 文件
-    const imagePaths = {
-      original: image.paths.original,
-      webp: image.paths.webp || undefined,
-      avif: image.paths.avif || undefined,
-    };
+    const imagePaths = imageFileKeys(image);
 
     if (c.env.USE_QUEUE === 'true' && c.env.DELETE_QUEUE) {
       await c.env.DELETE_QUEUE.send({
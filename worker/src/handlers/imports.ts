@@ -0,0 +1,44 @@
+import type { Context } from 'hono';
+import type { Env } from '../types';
+import { ZipImportService } from '../services/zipImports';
+import { ZipImporter, importInfo } from '../services/zipImporter';
+import { successResponse, errorResponse, notFoundResponse } from '../utils/response';
+import { isValidUUID } from '../utils/validation';
+
+// GET /api/imports/:id - Progress of a server-side ZIP import, with the entries that failed
+export async function getImportHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const id = c.req.param('id') ?? '';
+    const job = isValidUUID(id) ? await new ZipImportService(c.env.DB).get(id) : null;
+    if (!job) {
+      return notFoundResponse('Import not found');
+    }
+
+    const errors = await new ZipImporter(c.env).getErrors(id);
+    return successResponse({ import: importInfo(job), errors });
+  } catch (err) {
+    console.error('Get import error:', err);
+    return errorResponse('Failed to load import', 500);
+  }
+}
+
+// DELETE /api/imports/:id - Stop an import; images already imported are kept
+export async function cancelImportHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const id = c.req.param('id') ?? '';
+    const imports = new ZipImportService(c.env.DB);
+    const job = isValidUUID(id) ? await imports.get(id) : null;
+    if (!job) {
+      return notFoundResponse('Import not found');
+    }
+
+    // The queue consumer deletes the archive when it next sees the job
+    if (!await imports.finish(id, 'cancelled')) {
+      return errorResponse(`Import already ${job.status}`, 409);
+    }
+    return successResponse({ message: '导入已取消' });
+  } catch (err) {
+    console.error('Cancel import error:', err);
+    return errorResponse('Failed to cancel import', 500);
+  }
+}
@@ -0,0 +1,206 @@
+import type { Context } from 'hono';
+import type { AppEnv } from '../types';
+import { AuthService, KeyRotationError } from '../services/auth';
+import { successResponse, errorResponse, notFoundResponse } from '../utils/response';
+import { parseScopes } from '../utils/validation';
+
+const MAX_LABEL_LENGTH = 100;
+const DEFAULT_GRACE_MINUTES = 60;
+const MAX_GRACE_MINUTES = 30 * 24 * 60; // 30 days
+
+interface KeyBody {
+  label?: unknown;
+  scopes?: unknown;
+  expiresAt?: unknown;
+  graceMinutes?: unknown;
+}
+
+function parseKeyId(raw: string | undefined): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function parseLabel(value: unknown): string | null {
+  return typeof value === 'string'
+    ? value.trim().substring(0, MAX_LABEL_LENGTH) || null
+    : null;
+}
+
+// null/'' clears the expiry; returns an error message for invalid or past times
+function parseExpiresAt(value: unknown): { expiresAt: string | null } | { error: string } {
+  if (value === null || value === '') {
+    return { expiresAt: null };
+  }
+  const expiry = new Date(String(value));
+  if (isNaN(expiry.getTime())) {
+    return { error: '无效的过期时间' };
+  }
+  if (expiry.getTime() <= Date.now()) {
+    return { error: '过期时间必须晚于当前时间' };
+  }
+  return { expiresAt: expiry.toISOString() };
+}
+
+// GET /api/keys - List API keys (admin)
+export async function listKeysHandler(c: Context<AppEnv>): Promise<Response> {
+  try {
+    const auth = new AuthService(c.env.DB);
+    const keys = await auth.listApiKeys();
+    return successResponse({ keys, currentKeyId: c.get('apiKey').id });
+  } catch (err) {
+    console.error('List keys handler error:', err);
+    return errorResponse('获取 API Key 列表失败');
+  }
+}
+
+// POST /api/keys - Create API key (admin)
+export async function createKeyHandler(c: Context<AppEnv>): Promise<Response> {
+  try {
+    const body = await c.req.json<KeyBody>();
+
+    const scopes = parseScopes(body.scopes);
+    if (scopes.length === 0) {
+      return errorResponse('至少需要一个有效的权限范围 (upload, read, delete, admin)');
+    }
+
+    let expiresAt: string | null = null;
+    if (body.expiresAt !== undefined) {
+      const parsed = parseExpiresAt(body.expiresAt);
+      if ('error' in parsed) {
+        return errorResponse(parsed.error);
+      }
+      expiresAt = parsed.expiresAt;
+    }
+
+    const auth = new AuthService(c.env.DB);
+    const { key, info } = await auth.createApiKey({
+      label: parseLabel(body.label),
+      scopes,
+      expiresAt,
+    });
+
+    // The full key is only returned once, at creation time
+    return successResponse({ key, info });
+
+  } catch (err) {
+    console.error('Create key handler error:', err);
+    return errorResponse('创建 API Key 失败');
+  }
+}
+
+// PUT /api/keys/:id - Update label, scopes or expiry (admin)
+export async function updateKeyHandler(c: Context<AppEnv>): Promise<Response> {
+  try {
+    const id = parseKeyId(c.req.param('id'));
+    if (!id) {
+      return errorResponse('无效的 API Key ID');
+    }
+
+    const body = await c.req.json<KeyBody>();
+    const isCurrentKey = id === c.get('apiKey').id;
+
+    let scopes;
+    if (body.scopes !== undefined) {
+      scopes = parseScopes(body.scopes);
+      if (scopes.length === 0) {
+        return errorResponse('至少需要一个有效的权限范围 (upload, read, delete, admin)');
+      }
+      // Prevent locking yourself out of key management
+      if (isCurrentKey && !scopes.includes('admin')) {
+        return errorResponse('不能移除当前正在使用的 API Key 的 admin 权限');
+      }
+    }
+
+    let expiresAt;
+    if (body.expiresAt !== undefined) {
+      const parsed = parseExpiresAt(body.expiresAt);
+      if ('error' in parsed) {
+        return errorResponse(parsed.error);
+      }
+      expiresAt = parsed.expiresAt;
+    }
+
+    const auth = new AuthService(c.env.DB);
+    const info = await auth.updateApiKey(id, {
+      label: body.label !== undefined ? parseLabel(body.label) : undefined,
+      scopes,
+      expiresAt,
+    });
+
+    if (!info) {
+      return notFoundResponse('API Key 不存在');
+    }
+
+    return successResponse({ info });
+
+  } catch (err) {
+    console.error('Update key handler error:', err);
+    return errorResponse('更新 API Key 失败');
+  }
+}
+
+// POST /api/keys/:id/rotate - Issue a replacement key; the old one keeps working during the grace period (admin)
+export async function rotateKeyHandler(c: Context<AppEnv>): Promise<Response> {
+  try {
+    const id = parseKeyId(c.req.param('id'));
+    if (!id) {
+      return errorResponse('无效的 API Key ID');
+    }
+
+    const body = await c.req.json<KeyBody>().catch((): KeyBody => ({}));
+    const graceMinutes = body.graceMinutes === undefined
+      ? DEFAULT_GRACE_MINUTES
+      : Number(body.graceMinutes);
+
+    if (!Number.isFinite(graceMinutes) || graceMinutes < 0 || graceMinutes > MAX_GRACE_MINUTES) {
+      return errorResponse(`宽限期必须在 0 到 ${MAX_GRACE_MINUTES} 分钟之间`);
+    }
+
+    // Revoking the key making this request would log out the client that asked for the rotation
+    if (graceMinutes === 0 && id === c.get('apiKey').id) {
+      return errorResponse('轮换当前正在使用的 API Key 时宽限期必须大于 0');
+    }
+
+    const auth = new AuthService(c.env.DB);
+    const rotated = await auth.rotateApiKey(id, Math.floor(graceMinutes * 60));
+    if (!rotated) {
+      return notFoundResponse('API Key 不存在');
+    }
+
+    // The new key is only returned once
+    return successResponse(rotated);
+
+  } catch (err) {
+    if (err instanceof KeyRotationError) {
+      return errorResponse(err.message, 409);
+    }
+    console.error('Rotate key handler error:', err);
+    return errorResponse('轮换 API Key 失败');
+  }
+}
+
+// DELETE /api/keys/:id - Revoke API key (admin)
+export async function deleteKeyHandler(c: Context<AppEnv>): Promise<Response> {
+  try {
+    const id = parseKeyId(c.req.param('id'));
+    if (!id) {
+      return errorResponse('无效的 API Key ID');
+    }
+
+    if (id === c.get('apiKey').id) {
+      return errorResponse('不能撤销当前正在使用的 API Key');
+    }
+
+    const auth = new AuthService(c.env.DB);
+    const removed = await auth.removeApiKey(id);
+    if (!removed) {
+      return notFoundResponse('API Key 不存在');
+    }
+
+    return successResponse({ message: 'API Key 已撤销' });
+
+  } catch (err) {
+    console.error('Delete key handler error:', err);
+    return errorResponse('撤销 API Key 失败');
+  }
+}
@@ -0,0 +1,81 @@
+import type { Context } from 'hono';
+import type { Env } from '../types';
+import { MetadataService } from '../services/metadata';
+import { StorageService } from '../services/storage';
+import { SigningService, isSignedVariant } from '../services/signing';
+import { SVG_RESPONSE_HEADERS } from '../services/svgSanitizer';
+import { errorResponse, forbiddenResponse, notFoundResponse } from '../utils/response';
+import { isValidUUID } from '../utils/validation';
+import { thumbHashHeaders } from '../services/thumbHash';
+import { findFormatVariant, storedFormatKey } from '../utils/variants';
+
+// GET /private/:id?v=&exp=&sig= - Stream a private image (PUBLIC, signature required)
+export async function privateImageHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const id = c.req.param('id') ?? '';
+    const variant = c.req.query('v') || 'original';
+    const expires = Number(c.req.query('exp'));
+    const signature = c.req.query('sig') || '';
+
+    const signing = SigningService.fromEnv(c.env);
+    if (!signing) {
+      return errorResponse('Signed URLs are not configured', 503);
+    }
+
+    if (!isValidUUID(id) || !isSignedVariant(variant)) {
+      return errorResponse('Invalid image link');
+    }
+
+    if (!(await signing.verify(id, variant, expires, signature))) {
+      return forbiddenResponse('Invalid or expired signature');
+    }
+
+    const metadata = new MetadataService(c.env.DB);
+    const image = await metadata.getImage(id);
+    if (!image || image.visibility !== 'private') {
+      return notFoundResponse('Image not found');
+    }
+
+    // Transform variants have no object of their own: read the original and convert it below
+    const storedKey = variant === 'original' ? image.paths.original : storedFormatKey(image, variant);
+    const convert = variant !== 'original' && !storedKey && findFormatVariant(image.variants, variant)?.kind === 'transform';
+    const key = storedKey ?? (convert ? image.paths.original : null);
+    if (!key) {
+      return notFoundResponse('Image variant not found');
+    }
+
+    const storage = new StorageService(c.env.R2_BUCKET);
+    const object = await storage.get(key);
+    if (!object) {
+      return notFoundResponse('Image file not found');
+    }
+
+    // Browsers may cache until the link expires, shared caches never
+    const maxAge = Math.max(0, expires - Math.floor(Date.now() / 1000));
+    const headers = {
+      'Cache-Control': `private, max-age=${maxAge}`,
+      'Access-Control-Allow-Origin': '*',
+      ...thumbHashHeaders(image.thumbHash),
+    };
+
+    if (convert && c.env.IMAGES) {
+      const output = await c.env.IMAGES.input(object.body).output({ format: `image/${variant}` });
+      return new Response(output.image(), {
+        headers: { ...headers, 'Content-Type': output.contentType() },
+      });
+    }
+
+    return new Response(object.body, {
+      headers: {
+        ...headers,
+        'Content-Type': object.httpMetadata?.contentType || 'application/octet-stream',
+        ETag: object.httpEtag,
+        ...(image.format === 'svg' && variant === 'original' ? SVG_RESPONSE_HEADERS : {}),
+      },
+    });
+
+  } catch (err) {
+    console.error('Private image handler error:', err);
+    return errorResponse('Failed to load image', 500);
+  }
+}
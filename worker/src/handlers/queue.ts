@@ -1,11 +1,28 @@
-// Queue Consumer Handler - 处理异步 R2 文件删除
+// Queue Consumer Handler - 处理异步 R2 文件删除和服务器端 ZIP 导入
 import { StorageService } from '../services/storage';
+import { ZipImportService } from '../services/zipImports';
+import { ZipImporter } from '../services/zipImporter';
 import type { Env } from '../types';
 import type { QueueMessage } from '../types/queue';
 
+// 与 wrangler.toml 中 IMPORT_QUEUE 消费者的 max_retries 保持一致
+const ZIP_IMPORT_MAX_ATTEMPTS = 3;
+
+async function failZipImport(env: Env, importId: string, error: unknown): Promise<void> {
+  try {
+    const job = await new ZipImportService(env.DB).get(importId);
+    if (job) {
+      await new ZipImporter(env).fail(job, error instanceof Error ? error.message : 'Import failed');
+    }
+  } catch (err) {
+    console.error('Failed to mark ZIP import as failed:', importId, err);
+  }
+}
+
 export async function handleQueueBatch(
   batch: MessageBatch<QueueMessage>,
-  env: Env
+  env: Env,
+  ctx: ExecutionContext
 ): Promise<void> {
   const storage = new StorageService(env.R2_BUCKET);
 
@@ -23,11 +40,21 @@ export async function handleQueueBatch(
             message.body.imagePaths.map(img => storage.deleteImageFiles(img.paths))
           );
           break;
+
+        case 'zip_import':
+          await new ZipImporter(env, promise => ctx.waitUntil(promise)).process(message.body.importId);
+          break;
       }
       message.ack();
     } catch (error) {
       console.error('Queue message failed:', error);
-      message.retry();
+      // 导入重试耗尽后标记失败，否则前端会一直显示处理中
+      if (message.body.type === 'zip_import' && message.attempts >= ZIP_IMPORT_MAX_ATTEMPTS) {
+        await failZipImport(env, message.body.importId, error);
+        message.ack();
+      } else {
+        message.retry();
+      }
     }
   }
 }
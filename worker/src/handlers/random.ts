@@ -1,6 +1,7 @@
 import type { Context } from 'hono';
 import type { Env } from '../types';
 import { MetadataService } from '../services/metadata';
+import { ImageProcessor } from '../services/imageProcessor';
 import { errorResponse } from '../utils/response';
 import { parseTags, isMobileDevice, getBestFormat } from '../utils/validation';
 import { buildImageUrls } from '../utils/imageTransform';
@@ -51,19 +52,27 @@ export async function randomHandler(c: Context<{ Bindings: Env }>): Promise<Resp
       },
     });
 
+    // HEIC/HEIF/JPEG XL originals are not displayable; /i/:id picks a browser-safe copy instead
+    const fallbackUrl = ImageProcessor.needsBrowserCopy(image.format)
+      ? new URL(`/i/${image.id}`, url.origin).toString()
+      : urls.original;
+
     let targetUrl: string;
 
     if (image.format === 'gif') {
       // Always serve original for GIF
       targetUrl = urls.original;
+    } else if (image.format === 'svg') {
+      // SVG is sent through /i/:id so it carries the CSP headers
+      targetUrl = new URL(`/i/${image.id}`, url.origin).toString();
     } else {
       // Determine best format based on Accept header or explicit format param
       if (formatParam === 'original') {
         targetUrl = urls.original;
       } else if (formatParam === 'webp') {
-        targetUrl = urls.webp || urls.original;
+        targetUrl = urls.webp || fallbackUrl;
       } else if (formatParam === 'avif') {
-        targetUrl = urls.avif || urls.original;
+        targetUrl = urls.avif || fallbackUrl;
       } else {
         const acceptHeader = c.req.header('Accept');
         const best = getBestFormat(acceptHeader);
@@ -72,7 +81,7 @@ export async function randomHandler(c: Context<{ Bindings: Env }>): Promise<Resp
         } else if (best === 'webp' && urls.webp) {
           targetUrl = urls.webp;
         } else {
-          targetUrl = urls.original;
+          targetUrl = fallbackUrl;
         }
       }
     }
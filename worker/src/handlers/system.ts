@@ -1,23 +1,46 @@
 import type { Context } from 'hono';
-import type { Env, Config } from '../types';
+import type { AppEnv, Env, Config } from '../types';
 import { StorageService } from '../services/storage';
 import { MetadataService } from '../services/metadata';
 import { CacheService, CacheKeys, CACHE_TTL } from '../services/cache';
+import { ImageProcessor } from '../services/imageProcessor';
+import { CompressionService } from '../services/compression';
+import { PerceptualHash } from '../services/perceptualHash';
+import { ColorPalette } from '../services/colorPalette';
+import { ThumbHash } from '../services/thumbHash';
 import { successResponse, errorResponse } from '../utils/response';
+import { parseBoolean, parseNumber } from '../utils/validation';
+import { imageFileKeys } from '../utils/variants';
 
 // Default configuration
 const DEFAULT_CONFIG: Config = {
   maxUploadCount: 50,
   maxFileSize: 70 * 1024 * 1024, // 70MB
-  supportedFormats: ['jpeg', 'jpg', 'png', 'gif', 'webp', 'avif'],
+  supportedFormats: ['jpeg', 'jpg', 'png', 'gif', 'webp', 'avif', 'heic', 'heif', 'jxl', 'svg'],
   imageQuality: 80
 };
 
+// Images per reclassify call; each one reads its original from R2
+const RECLASSIFY_DEFAULT_LIMIT = 25;
+const RECLASSIFY_MAX_LIMIT = 100;
+// Formats whose displayed size can differ from the stored pixel size (EXIF orientation, irot)
+const ORIENTABLE_FORMATS = ['jpeg', 'png', 'webp', 'avif', 'heic', 'heif'];
+// Images per reindex call; each one still missing data is read from R2 and rendered by the Images binding
+const REINDEX_DEFAULT_LIMIT = 25;
+const REINDEX_MAX_LIMIT = 100;
+// Cloudflare Images transformation limit
+const REINDEX_MAX_BYTES = 10 * 1024 * 1024;
+
 // POST /api/validate-api-key - Validate API key
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function validateApiKeyHandler(_c: Context<{ Bindings: Env }>): Promise<Response> {
+export async function validateApiKeyHandler(c: Context<AppEnv>): Promise<Response> {
   // If we reach here, the API key is already validated by middleware
-  return successResponse({ valid: true });
+  const apiKey = c.get('apiKey');
+  return successResponse({
+    valid: true,
+    scopes: apiKey.scopes,
+    label: apiKey.label,
+    expiresAt: apiKey.expiresAt,
+  });
 }
 
 // GET /api/config - Get configuration
@@ -78,11 +101,7 @@ export async function cleanupHandler(c: Context<{ Bindings: Env }>): Promise<Res
     for (const image of expiredImages) {
       try {
         // Delete files from R2
-        const keysToDelete = [image.paths.original];
-        if (image.paths.webp) keysToDelete.push(image.paths.webp);
-        if (image.paths.avif) keysToDelete.push(image.paths.avif);
-
-        await storage.deleteMany(keysToDelete);
+        await storage.deleteImageFiles(imageFileKeys(image));
 
         // Delete metadata
         await metadata.deleteImage(image.id);
@@ -100,3 +119,145 @@ export async function cleanupHandler(c: Context<{ Bindings: Env }>): Promise<Res
     return errorResponse('Cleanup failed');
   }
 }
+
+/**
+ * POST /api/reclassify?cursor=&limit=&dryRun= - Recompute width/height/orientation of existing images
+ * from their originals, honouring EXIF orientation. Walks the library in id order; call again with
+ * `nextCursor` until it is null. Object keys are left unchanged so existing links keep working.
+ */
+export async function reclassifyHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const cursor = c.req.query('cursor') || null;
+    const limit = Math.min(Math.max(parseNumber(c.req.query('limit') ?? null, RECLASSIFY_DEFAULT_LIMIT), 1), RECLASSIFY_MAX_LIMIT);
+    const dryRun = parseBoolean(c.req.query('dryRun') ?? null);
+
+    const metadata = new MetadataService(c.env.DB);
+    const storage = new StorageService(c.env.R2_BUCKET);
+    const images = await metadata.getImagesAfter(cursor, limit);
+
+    const changes: Array<{ id: string; from: string; to: string }> = [];
+    let failedCount = 0;
+
+    for (const image of images) {
+      if (!ORIENTABLE_FORMATS.includes(image.format)) continue;
+      try {
+        const object = await storage.get(image.paths.original);
+        if (!object) {
+          failedCount++;
+          continue;
+        }
+        const info = await ImageProcessor.getImageInfo(await object.arrayBuffer());
+        if (info.width === image.width && info.height === image.height && info.orientation === image.orientation) {
+          continue;
+        }
+
+        changes.push({
+          id: image.id,
+          from: `${image.width}x${image.height} ${image.orientation}`,
+          to: `${info.width}x${info.height} ${info.orientation}`,
+        });
+        if (!dryRun) {
+          await metadata.updateDimensions(image.id, info.width, info.height, info.orientation);
+        }
+      } catch (err) {
+        console.error('Failed to reclassify image:', image.id, err);
+        failedCount++;
+      }
+    }
+
+    if (!dryRun && changes.length > 0) {
+      const cache = new CacheService(c.env.CACHE_KV);
+      c.executionCtx.waitUntil(Promise.all([
+        cache.invalidateImagesList(),
+        ...changes.map(change => cache.invalidateImageDetail(change.id)),
+      ]));
+    }
+
+    return successResponse({
+      scannedCount: images.length,
+      updatedCount: changes.length,
+      failedCount,
+      changes,
+      dryRun,
+      nextCursor: images.length === limit ? images[images.length - 1].id : null,
+    });
+
+  } catch (err) {
+    console.error('Reclassify handler error:', err);
+    return errorResponse('Reclassify failed', 500);
+  }
+}
+
+/**
+ * POST /api/reindex?cursor=&limit= - Compute the perceptual hash, dominant colours and ThumbHash of images missing them
+ * (uploaded before those features or without the Images binding). Needs the Images binding.
+ */
+export async function reindexHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    if (!c.env.IMAGES) {
+      return errorResponse('Reindex requires the Images binding', 503);
+    }
+
+    const cursor = c.req.query('cursor') || null;
+    const limit = Math.min(Math.max(parseNumber(c.req.query('limit') ?? null, REINDEX_DEFAULT_LIMIT), 1), REINDEX_MAX_LIMIT);
+
+    const metadata = new MetadataService(c.env.DB);
+    const storage = new StorageService(c.env.R2_BUCKET);
+    const compression = new CompressionService(c.env.IMAGES);
+    const images = await metadata.getImagesAfter(cursor, limit);
+
+    const updatedIds: string[] = [];
+    let skippedCount = 0;
+    let failedCount = 0;
+
+    for (const image of images) {
+      if (image.perceptualHash && image.averageColor && image.thumbHash) continue;
+      if (image.sizes.original > REINDEX_MAX_BYTES) {
+        skippedCount++;
+        continue;
+      }
+      try {
+        const object = await storage.get(image.paths.original);
+        const data = object ? await object.arrayBuffer() : null;
+        const [hash, colors, thumbHash] = data
+          ? await Promise.all([
+            image.perceptualHash ? null : PerceptualHash.compute(compression, data),
+            image.averageColor ? null : ColorPalette.compute(compression, data),
+            image.thumbHash ? null : ThumbHash.compute(compression, data, image.width, image.height),
+          ])
+          : [null, null, null];
+        if (!hash && !colors && !thumbHash) {
+          failedCount++;
+          continue;
+        }
+        if (hash) await metadata.updatePerceptualHash(image.id, hash);
+        if (colors) await metadata.updateColors(image.id, colors);
+        if (thumbHash) await metadata.updateThumbHash(image.id, thumbHash);
+        updatedIds.push(image.id);
+      } catch (err) {
+        console.error('Failed to reindex image:', image.id, err);
+        failedCount++;
+      }
+    }
+
+    if (updatedIds.length > 0) {
+      const cache = new CacheService(c.env.CACHE_KV);
+      c.executionCtx.waitUntil(Promise.all([
+        cache.invalidateImagesList(),
+        ...updatedIds.map(id => cache.invalidateImageDetail(id)),
+      ]));
+    }
+
+    return successResponse({
+      scannedCount: images.length,
+      updatedCount: updatedIds.length,
+      skippedCount,
+      failedCount,
+      nextCursor: images.length === limit ? images[images.length - 1].id : null,
+    });
+
+  } catch (err) {
+    console.error('Reindex handler error:', err);
+    return errorResponse('Reindex failed', 500);
+  }
+}
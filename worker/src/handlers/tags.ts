@@ -133,14 +133,7 @@ export async function deleteTagHandler(c: Context<{ Bindings: Env }>): Promise<R
       console.error(`[deleteTag] getImagePathsByTag failed: name=${name}`, err);
       throw err;
     }
-    const imagePaths = images.map(img => ({
-      id: img.id,
-      paths: {
-        original: img.paths.original,
-        webp: img.paths.webp || undefined,
-        avif: img.paths.avif || undefined,
-      },
-    }));
+    const imagePaths = images.map(img => ({ id: img.id, paths: img.paths }));
     console.log(`[deleteTag] images matched: name=${name} count=${imagePaths.length}`);
 
     // 2. 同步删除 D1 中的标签和图片元数据
@@ -1,18 +1,96 @@
 import type { Context } from 'hono';
-import type { Env, ImageMetadata, UploadResult } from '../types';
-import { StorageService } from '../services/storage';
-import { MetadataService } from '../services/metadata';
-import { CacheService } from '../services/cache';
-import { ImageProcessor } from '../services/imageProcessor';
-import { CompressionService, parseCompressionOptions } from '../services/compression';
-import { successResponse, errorResponse } from '../utils/response';
-import { generateImageId, parseTags, parseNumber } from '../utils/validation';
-import { buildImageUrls } from '../utils/imageTransform';
-
-// Maximum file size: 70MB (Cloudflare Images Binding limit)
-const MAX_FILE_SIZE = 70 * 1024 * 1024;
-// Cloudflare Images transformation limit: 10MB (fallback to Transform-URL for larger images)
-const CLOUDFLARE_IMAGES_MAX_BYTES = 10 * 1024 * 1024;
+import type { Env, UploadResult, UploadSession, UploadedPart, ZipImport } from '../types';
+import { StorageService, STAGING_PREFIX } from '../services/storage';
+import { UploadSessionService } from '../services/uploadSessions';
+import { ImageIngestService, MAX_FILE_SIZE, UploadRejectedError, parseUploadOptions, rejectionOf, type UploadOptions } from '../services/ingest';
+import { ZipImporter, importInfo } from '../services/zipImporter';
+import { RemoteImageFetcher } from '../services/remoteImage';
+import { successResponse, errorResponse, notFoundResponse } from '../utils/response';
+import { isValidUUID } from '../utils/validation';
+import { mapConcurrent } from '../utils/concurrency';
+
+// Parts of a resumable upload; R2 needs every part but the last to be the same size, at least 5MB
+const UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+// Unfinished sessions are aborted by the cron job after this long
+const UPLOAD_SESSION_TTL_HOURS = 24;
+const MAX_FILE_NAME_LENGTH = 255;
+// ZIP archives for a server-side import are never loaded whole, so they may be much larger than one image
+const MAX_ZIP_SIZE = 4 * 1024 * 1024 * 1024;
+// Files per batch request, and how many of them are processed at the same time (each is held in memory)
+const MAX_BATCH_FILES = 50;
+const BATCH_CONCURRENCY = 3;
+// A multipart batch is parsed whole before any file is processed, so its body has to leave room in the
+// Worker's 128MB for the files being processed; larger batches go through staged keys
+const MAX_BATCH_BODY_SIZE = 32 * 1024 * 1024;
+
+// One file of a batch upload; `stagedKey` is set for files read from R2
+interface BatchItem {
+  name: string;
+  stagedKey?: string;
+  load: () => Promise<ArrayBuffer | null>;
+}
+
+function ingestService(c: Context<{ Bindings: Env }>): ImageIngestService {
+  return new ImageIngestService(c.env, new URL(c.req.url).origin, promise => c.executionCtx.waitUntil(promise));
+}
+
+// Refused uploads become 4xx answers; anything else is left to the handler's generic error
+function rejectionResponse(err: unknown): Response | null {
+  const rejection = rejectionOf(err);
+  return rejection ? errorResponse(rejection.message, rejection.status) : null;
+}
+
+// Upload form fields sent as a JSON object; numbers and booleans are accepted for convenience
+function formFields(value: unknown): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (value === undefined) return fields;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new UploadRejectedError('fields must be an object');
+  }
+  for (const [name, field] of Object.entries(value)) {
+    if (typeof field !== 'string' && typeof field !== 'number' && typeof field !== 'boolean') {
+      throw new UploadRejectedError(`fields.${name} must be a string, number or boolean`);
+    }
+    fields[name] = String(field);
+  }
+  return fields;
+}
+
+function toFormData(fields: Record<string, string>): FormData {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+  return formData;
+}
+
+function sessionInfo(session: UploadSession, parts: UploadedPart[]) {
+  return {
+    id: session.id,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    partSize: session.partSize,
+    partCount: session.partCount,
+    kind: session.kind,
+    uploadedParts: parts.map(part => part.partNumber),
+    expiresAt: session.expiresAt,
+  };
+}
+
+// Size the part must have: the full part size, except for the remainder at the end
+function expectedPartSize(session: UploadSession, partNumber: number): number {
+  return partNumber < session.partCount
+    ? session.partSize
+    : session.fileSize - (session.partCount - 1) * session.partSize;
+}
+
+async function loadSession(c: Context<{ Bindings: Env }>): Promise<UploadSession | null> {
+  const id = c.req.param('id') ?? '';
+  if (!isValidUUID(id)) return null;
+  const session = await new UploadSessionService(c.env.DB).get(id);
+  if (!session || new Date(session.expiresAt).getTime() <= Date.now()) return null;
+  return session;
+}
 
 /**
  * Single file upload handler - processes one image with full parallelization
@@ -39,13 +117,10 @@ export async function uploadSingleHandler(c: Context<{ Bindings: Env }>): Promis
     }
 
     const file = (formData.get('image') ?? formData.get('file')) as File | null;
-    const tagsString = formData.get('tags') as string | null;
-    const expiryMinutes = parseNumber(formData.get('expiryMinutes') as string | null, 0);
-    const compressionOptions = parseCompressionOptions(formData);
-
     if (!file || typeof file === 'string') {
       return errorResponse('No file provided');
     }
+    const options = parseUploadOptions(formData, c.env);
 
     // Double-check file size
     if (file.size > MAX_FILE_SIZE) {
@@ -55,158 +130,395 @@ export async function uploadSingleHandler(c: Context<{ Bindings: Env }>): Promis
 
     console.log(`Processing upload: ${file.name}, size: ${file.size} bytes`);
 
-    const tags = parseTags(tagsString);
-    const storage = new StorageService(c.env.R2_BUCKET);
-    const metadata = new MetadataService(c.env.DB);
-    const compression = c.env.IMAGES ? new CompressionService(c.env.IMAGES) : null;
-
-    // Read file data
-    const arrayBuffer = await file.arrayBuffer();
-
-    // Get image info
-    const imageInfo = await ImageProcessor.getImageInfo(arrayBuffer);
+    const result = await ingestService(c).ingest(file.name, await file.arrayBuffer(), options);
+    return successResponse({ result });
+  } catch (err) {
+    const rejection = rejectionResponse(err);
+    if (rejection) return rejection;
+    console.error('Single upload error:', err);
+    return errorResponse('Upload failed');
+  }
+}
 
-    if (!ImageProcessor.isSupportedFormat(imageInfo.format)) {
-      return errorResponse(`Unsupported format: ${imageInfo.format}`);
+// Processes one file of a batch; failures become an error result instead of failing the batch
+async function ingestBatchItem(
+  ingest: ImageIngestService,
+  storage: StorageService,
+  item: BatchItem,
+  options: UploadOptions
+): Promise<UploadResult> {
+  try {
+    const data = await item.load();
+    if (!data) {
+      throw new UploadRejectedError('Staged object not found', 404);
+    }
+    if (data.byteLength > MAX_FILE_SIZE) {
+      throw new UploadRejectedError(`File too large. Maximum size is ${MAX_FILE_SIZE / 1024 / 1024}MB`, 413);
     }
 
-    // Generate unique ID and paths
-    const id = generateImageId();
-    const generatedPaths = StorageService.generatePaths(id, imageInfo.orientation, imageInfo.format);
-    const paths = { ...generatedPaths, webp: '', avif: '' };
-    const contentType = ImageProcessor.getContentType(imageInfo.format);
-
-    const isGif = imageInfo.format === 'gif';
-    const isWebp = imageInfo.format === 'webp';
-    const isAvif = imageInfo.format === 'avif';
-    const shouldSkipProcessing = isGif || isWebp || isAvif;
-    let webpSize = 0;
-    let avifSize = 0;
+    const result = await ingest.ingest(item.name, data, options);
+    // The staged copy is only needed until the image is stored; failed ones stay for a retry
+    if (item.stagedKey) {
+      await storage.delete(item.stagedKey);
+    }
+    return { ...result, originalName: item.stagedKey ?? item.name };
+  } catch (err) {
+    const rejection = rejectionOf(err);
+    if (!rejection) {
+      console.error('Batch upload error:', item.stagedKey ?? item.name, err);
+    }
+    return {
+      id: '',
+      status: 'error',
+      originalName: item.stagedKey ?? item.name,
+      error: rejection?.message ?? 'Upload failed',
+    };
+  }
+}
 
-    // Always upload original (GIF only stores original)
-    const originalUploadPromise = storage.upload(paths.original, arrayBuffer, contentType);
+/**
+ * POST /api/upload/batch - Process several files in one request, with the same options for all of them.
+ * Either multipart form data (files under `images`, plus the upload form fields; at most
+ * MAX_BATCH_BODY_SIZE in total) or JSON { keys, fields? } naming objects already put into R2 under
+ * `private/staging/`, which is the way to send larger batches.
+ * Answers with one result per file, in input order; a failed file does not fail the batch.
+ */
+export async function uploadBatchHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const storage = new StorageService(c.env.R2_BUCKET);
+    let items: BatchItem[];
+    let options: UploadOptions;
 
-    // Advanced formats: do not recompress; treat upload as best format
-    if (shouldSkipProcessing) {
-      await originalUploadPromise;
+    if ((c.req.header('Content-Type') ?? '').includes('application/json')) {
+      let body: { keys?: unknown; fields?: unknown };
+      try {
+        body = await c.req.json();
+      } catch {
+        return errorResponse('Invalid JSON body');
+      }
 
-      if (isWebp) {
-        paths.webp = paths.original;
-        webpSize = file.size;
+      const keys = body.keys;
+      if (!Array.isArray(keys) || keys.length === 0 || !keys.every(key => typeof key === 'string')) {
+        return errorResponse('keys must be a non-empty array of strings');
       }
-      if (isAvif) {
-        paths.avif = paths.original;
-        avifSize = file.size;
+      if (keys.length > MAX_BATCH_FILES) {
+        return errorResponse(`At most ${MAX_BATCH_FILES} files per batch`);
       }
-    } else if (compression && file.size <= CLOUDFLARE_IMAGES_MAX_BYTES) {
-      const compressionPromise = compression.compress(arrayBuffer, imageInfo.format, compressionOptions);
-      const wantsWebp = compressionOptions.generateWebp !== false;
-      const wantsAvif = compressionOptions.generateAvif !== false;
-
-      // Ensure original is uploaded while compression runs
-      await originalUploadPromise;
-
-      const compressionResult = await compressionPromise;
-      const uploadPromises: Promise<void>[] = [];
-
-      if (wantsWebp && compressionResult.webp) {
-        paths.webp = generatedPaths.webp;
-        uploadPromises.push(
-          storage.upload(paths.webp, compressionResult.webp.data, 'image/webp')
-            .then(() => { webpSize = compressionResult.webp!.size; })
-        );
+      const invalidKey = keys.find(key => !StorageService.isStagingKey(key));
+      if (invalidKey !== undefined) {
+        return errorResponse(`Staged keys must start with ${STAGING_PREFIX}: ${invalidKey}`);
+      }
+      if (new Set(keys).size !== keys.length) {
+        return errorResponse('keys must not repeat');
       }
+      options = parseUploadOptions(toFormData(formFields(body.fields)), c.env);
 
-      if (wantsAvif && compressionResult.avif) {
-        paths.avif = generatedPaths.avif;
-        uploadPromises.push(
-          storage.upload(paths.avif, compressionResult.avif.data, 'image/avif')
-            .then(() => { avifSize = compressionResult.avif!.size; })
+      items = keys.map(key => ({
+        name: key.slice(key.lastIndexOf('/') + 1),
+        stagedKey: key,
+        load: async () => {
+          const object = await storage.get(key);
+          return object ? object.arrayBuffer() : null;
+        },
+      }));
+    } else {
+      const contentLength = parseInt(c.req.header('Content-Length') ?? '', 10);
+      if (!Number.isFinite(contentLength)) {
+        return errorResponse('Content-Length is required for multipart batch uploads', 411);
+      }
+      if (contentLength > MAX_BATCH_BODY_SIZE) {
+        return errorResponse(
+          `Batch too large. Multipart batches may be at most ${MAX_BATCH_BODY_SIZE / 1024 / 1024}MB; stage larger batches in R2 and send their keys as JSON`,
+          413
         );
       }
 
-      if (uploadPromises.length > 0) {
-        await Promise.all(uploadPromises);
+      let formData: FormData;
+      try {
+        formData = await c.req.formData();
+      } catch (formError) {
+        console.error('Failed to parse form data:', formError);
+        return errorResponse('Failed to parse form data. Files may be too large or corrupted.', 400);
       }
 
-      // If compression failed for some formats, fall back to Transform-URL via marker paths.
-      if (wantsWebp && !paths.webp) {
-        paths.webp = paths.original;
+      // getAll is typed as string[] but returns File entries for file fields
+      const files = ['images', 'image', 'file']
+        .flatMap(field => formData.getAll(field) as unknown as (File | string)[])
+        .filter((value): value is File => typeof value !== 'string');
+      if (files.length === 0) {
+        return errorResponse('No file provided');
       }
-      if (wantsAvif && !paths.avif) {
-        paths.avif = paths.original;
+      if (files.length > MAX_BATCH_FILES) {
+        return errorResponse(`At most ${MAX_BATCH_FILES} files per batch`);
       }
-    } else {
-      // Skip compression (too large or no Images binding): store original + use Transform-URL via marker paths
-      await originalUploadPromise;
-      const wantsWebp = compressionOptions.generateWebp !== false;
-      const wantsAvif = compressionOptions.generateAvif !== false;
-      if (wantsWebp) paths.webp = paths.original;
-      if (wantsAvif) paths.avif = paths.original;
+      options = parseUploadOptions(formData, c.env);
+
+      items = files.map(file => ({ name: file.name, load: () => file.arrayBuffer() }));
+    }
+
+    console.log(`Processing batch upload: ${items.length} files`);
+
+    const ingest = ingestService(c);
+    const results = await mapConcurrent(items, BATCH_CONCURRENCY, item => ingestBatchItem(ingest, storage, item, options));
+    const succeeded = results.filter(result => result.status === 'success').length;
+
+    return successResponse({
+      results,
+      summary: { total: results.length, succeeded, failed: results.length - succeeded },
+    });
+  } catch (err) {
+    const rejection = rejectionResponse(err);
+    if (rejection) return rejection;
+    console.error('Batch upload error:', err);
+    return errorResponse('Upload failed');
+  }
+}
+
+/**
+ * POST /api/upload/url - Fetch an image from a remote URL and process it like a single upload.
+ * Body: { url, fields? } with the same `fields` as a resumable upload session.
+ */
+export async function uploadUrlHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    let body: { url?: unknown; fields?: unknown };
+    try {
+      body = await c.req.json();
+    } catch {
+      return errorResponse('Invalid JSON body');
+    }
+
+    const url = typeof body.url === 'string' ? body.url.trim() : '';
+    if (!url) {
+      return errorResponse('url is required');
+    }
+    // Settings are checked before anything is downloaded
+    const options = parseUploadOptions(toFormData(formFields(body.fields)), c.env);
+
+    const remote = await RemoteImageFetcher.fetch(url);
+    console.log(`Processing URL upload: ${url}, size: ${remote.data.byteLength} bytes`);
+
+    const result = await ingestService(c).ingest(remote.name, remote.data, options);
+    return successResponse({ result });
+  } catch (err) {
+    const rejection = rejectionResponse(err);
+    if (rejection) return rejection;
+    console.error('URL upload error:', err);
+    return errorResponse('Upload failed');
+  }
+}
+
+/**
+ * POST /api/upload/sessions - Start a resumable upload.
+ * Body: { fileName, fileSize, fields?, kind? } where `fields` holds the same settings as the upload form (tags, quality, ...).
+ * `kind: "zip"` uploads a ZIP archive that is imported on the server when the session completes
+ * (`fields.folderTags = "true"` adds each entry's folder names as tags).
+ */
+export async function createUploadSessionHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    let body: { fileName?: unknown; fileSize?: unknown; fields?: unknown; kind?: unknown };
+    try {
+      body = await c.req.json();
+    } catch {
+      return errorResponse('Invalid JSON body');
     }
 
-    // Calculate expiry time
-    let expiryTime: string | undefined;
-    if (expiryMinutes > 0) {
-      const expiry = new Date(Date.now() + expiryMinutes * 60 * 1000);
-      expiryTime = expiry.toISOString();
+    const kind = body.kind ?? 'image';
+    if (kind !== 'image' && kind !== 'zip') {
+      return errorResponse('kind must be image or zip');
+    }
+    if (kind === 'zip' && !c.env.IMPORT_QUEUE) {
+      return errorResponse('ZIP import requires the IMPORT_QUEUE binding', 501);
+    }
+
+    const fileName = typeof body.fileName === 'string' ? body.fileName.trim() : '';
+    if (!fileName || fileName.length > MAX_FILE_NAME_LENGTH) {
+      return errorResponse(`fileName must be 1-${MAX_FILE_NAME_LENGTH} characters`);
+    }
+    const fileSize = body.fileSize;
+    if (typeof fileSize !== 'number' || !Number.isInteger(fileSize) || fileSize < 1) {
+      return errorResponse('fileSize must be a positive integer');
+    }
+    const maxSize = kind === 'zip' ? MAX_ZIP_SIZE : MAX_FILE_SIZE;
+    if (fileSize > maxSize) {
+      return errorResponse(`File too large. Maximum size is ${maxSize / 1024 / 1024}MB`, 413);
     }
 
-    // Create and save metadata
-    const imageMetadata: ImageMetadata = {
+    const fields = formFields(body.fields);
+    // Refuse bad settings now rather than after the whole file was sent
+    parseUploadOptions(toFormData(fields), c.env);
+
+    const id = crypto.randomUUID();
+    const r2Key = StorageService.generateUploadSessionKey(id);
+    const storage = new StorageService(c.env.R2_BUCKET);
+    const now = new Date();
+    const session: UploadSession = {
       id,
-      originalName: file.name,
-      uploadTime: new Date().toISOString(),
-      expiryTime,
-      orientation: imageInfo.orientation,
-      tags,
-      format: imageInfo.format,
-      width: imageInfo.width,
-      height: imageInfo.height,
-      paths,
-      sizes: {
-        original: file.size,
-        webp: webpSize,
-        avif: avifSize,
-      },
+      r2Key,
+      uploadId: await storage.createMultipartUpload(r2Key),
+      fileName,
+      fileSize,
+      partSize: UPLOAD_PART_SIZE,
+      partCount: Math.ceil(fileSize / UPLOAD_PART_SIZE),
+      fields,
+      kind,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000).toISOString(),
     };
+    await new UploadSessionService(c.env.DB).create(session);
+
+    return successResponse({ session: sessionInfo(session, []) });
+  } catch (err) {
+    const rejection = rejectionResponse(err);
+    if (rejection) return rejection;
+    console.error('Create upload session error:', err);
+    return errorResponse('Failed to create upload session', 500);
+  }
+}
+
+// GET /api/upload/sessions/:id - Session state, including the parts already received (for resuming)
+export async function getUploadSessionHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const session = await loadSession(c);
+    if (!session) {
+      return notFoundResponse('Upload session not found');
+    }
+
+    const parts = await new UploadSessionService(c.env.DB).getParts(session.id);
+    return successResponse({ session: sessionInfo(session, parts) });
+  } catch (err) {
+    console.error('Get upload session error:', err);
+    return errorResponse('Failed to load upload session', 500);
+  }
+}
 
-    await metadata.saveImage(imageMetadata);
+// PUT /api/upload/sessions/:id/parts/:partNumber - Store one part (raw bytes in the body); may be repeated
+export async function uploadPartHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const session = await loadSession(c);
+    if (!session) {
+      return notFoundResponse('Upload session not found');
+    }
 
-    // Build result
-    const baseUrl = c.env.R2_PUBLIC_URL;
-    const urls = buildImageUrls({
-      baseUrl,
-      image: imageMetadata,
-      options: compressionOptions,
+    const partNumber = Number(c.req.param('partNumber'));
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > session.partCount) {
+      return errorResponse(`partNumber must be between 1 and ${session.partCount}`);
+    }
+
+    const expectedSize = expectedPartSize(session, partNumber);
+    const contentLength = c.req.header('Content-Length');
+    if (contentLength && parseInt(contentLength, 10) !== expectedSize) {
+      return errorResponse(`Part ${partNumber} must be ${expectedSize} bytes`);
+    }
+    const data = await c.req.arrayBuffer();
+    if (data.byteLength !== expectedSize) {
+      return errorResponse(`Part ${partNumber} must be ${expectedSize} bytes`);
+    }
+
+    const storage = new StorageService(c.env.R2_BUCKET);
+    const uploaded = await storage.uploadPart(session.r2Key, session.uploadId, partNumber, data);
+    await new UploadSessionService(c.env.DB).recordPart(session.id, {
+      partNumber,
+      etag: uploaded.etag,
+      size: data.byteLength,
     });
-    const result: UploadResult = {
-      id,
-      status: 'success',
-      urls: {
-        original: urls.original,
-        webp: urls.webp,
-        avif: urls.avif,
-      },
-      orientation: imageInfo.orientation,
-      tags,
-      sizes: imageMetadata.sizes,
-      expiryTime,
-      format: imageInfo.format,
-    };
 
-    // Invalidate caches (non-blocking)
-    const cache = new CacheService(c.env.CACHE_KV);
-    c.executionCtx.waitUntil(
-      Promise.all([
-        cache.invalidateImagesList(),
-        cache.invalidateTagsList(),
-      ])
+    return successResponse({ partNumber, size: data.byteLength });
+  } catch (err) {
+    console.error('Upload part error:', err);
+    return errorResponse('Failed to store upload part', 500);
+  }
+}
+
+/**
+ * POST /api/upload/sessions/:id/complete - Assemble the parts and process the file like a single upload.
+ * The session is gone afterwards, whether the image was accepted or not.
+ * ZIP sessions answer with the queued import instead; its progress is at GET /api/imports/:id.
+ */
+export async function completeUploadSessionHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const session = await loadSession(c);
+    if (!session) {
+      return notFoundResponse('Upload session not found');
+    }
+
+    const sessions = new UploadSessionService(c.env.DB);
+    const parts = await sessions.getParts(session.id);
+    const received = new Set(parts.map(part => part.partNumber));
+    const missing = Array.from({ length: session.partCount }, (_, index) => index + 1)
+      .filter(partNumber => !received.has(partNumber));
+    if (missing.length > 0) {
+      return errorResponse(`Missing parts: ${missing.join(', ')}`, 409);
+    }
+
+    const storage = new StorageService(c.env.R2_BUCKET);
+    await storage.completeMultipartUpload(
+      session.r2Key,
+      session.uploadId,
+      parts.map(part => ({ partNumber: part.partNumber, etag: part.etag }))
     );
 
+    if (session.kind === 'zip') {
+      // The archive stays in R2 until the import is done with it; the session goes once the job is queued.
+      // The multipart upload is already completed, so a failed start cannot be retried and the archive is removed.
+      let job: ZipImport;
+      try {
+        job = await new ZipImporter(c.env).start(session, new URL(c.req.url).origin);
+      } catch (err) {
+        await Promise.all([storage.delete(session.r2Key), sessions.delete(session.id)]);
+        throw err;
+      }
+      await sessions.delete(session.id);
+      return successResponse({ import: importInfo(job) });
+    }
+
+    let data: ArrayBuffer | null;
+    try {
+      const object = await storage.get(session.r2Key);
+      data = object ? await object.arrayBuffer() : null;
+    } finally {
+      await Promise.all([storage.delete(session.r2Key), sessions.delete(session.id)]);
+    }
+    if (!data) {
+      return errorResponse('Assembled upload not found', 500);
+    }
+
+    console.log(`Processing resumable upload: ${session.fileName}, size: ${data.byteLength} bytes`);
+
+    const options = parseUploadOptions(toFormData(session.fields), c.env);
+    const result = await ingestService(c).ingest(session.fileName, data, options);
     return successResponse({ result });
   } catch (err) {
-    console.error('Single upload error:', err);
+    const rejection = rejectionResponse(err);
+    if (rejection) return rejection;
+    console.error('Complete upload session error:', err);
     return errorResponse('Upload failed');
   }
 }
+
+// DELETE /api/upload/sessions/:id - Abandon a resumable upload and discard its parts
+export async function abortUploadSessionHandler(c: Context<{ Bindings: Env }>): Promise<Response> {
+  try {
+    const session = await loadSession(c);
+    if (!session) {
+      return notFoundResponse('Upload session not found');
+    }
+
+    await abortUploadSession(c.env, session);
+    return successResponse({ message: '上传已取消' });
+  } catch (err) {
+    console.error('Abort upload session error:', err);
+    return errorResponse('Failed to abort upload session', 500);
+  }
+}
+
+// Also used by the cron job for expired sessions
+export async function abortUploadSession(env: Env, session: UploadSession): Promise<void> {
+  const storage = new StorageService(env.R2_BUCKET);
+  try {
+    await storage.abortMultipartUpload(session.r2Key, session.uploadId);
+  } catch (err) {
+    // Already completed or expired on the R2 side; the D1 record still has to go
+    console.warn('Failed to abort multipart upload:', session.id, err);
+  }
+  await new UploadSessionService(env.DB).delete(session.id);
+}
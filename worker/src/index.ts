@@ -1,22 +1,32 @@
 import { Hono, type Context } from 'hono';
 import { cors } from 'hono/cors';
-import type { Env } from './types';
+import type { AppEnv, ApiKeyScope, Env } from './types';
 import { AuthService } from './services/auth';
-import { corsResponse, unauthorizedResponse } from './utils/response';
+import { corsResponse, forbiddenResponse, unauthorizedResponse } from './utils/response';
+import { imageFileKeys } from './utils/variants';
 import { MetadataService } from './services/metadata';
 import { StorageService } from './services/storage';
+import { UploadSessionService } from './services/uploadSessions';
+import { ZipImportService } from './services/zipImports';
+import { BackupService } from './services/backup';
 
 // Import handlers
-import { uploadSingleHandler } from './handlers/upload';
-import { imagesHandler, imageDetailHandler, updateImageHandler, deleteImageHandler } from './handlers/images';
+import { uploadSingleHandler, uploadBatchHandler, uploadUrlHandler, createUploadSessionHandler, getUploadSessionHandler, uploadPartHandler, completeUploadSessionHandler, abortUploadSessionHandler, abortUploadSession } from './handlers/upload';
+import { imagesHandler, duplicatesHandler, nearDuplicatesHandler, similarImagesHandler, imageDetailHandler, updateImageHandler, deleteImageHandler, shareImageHandler } from './handlers/images';
+import { privateImageHandler } from './handlers/private';
+import { deliverImageHandler } from './handlers/deliver';
 import { randomHandler } from './handlers/random';
 import { faviconHandler } from './handlers/favicon';
 import { tagsHandler, createTagHandler, renameTagHandler, deleteTagHandler, batchTagsHandler } from './handlers/tags';
-import { validateApiKeyHandler, configHandler, cleanupHandler } from './handlers/system';
+import { validateApiKeyHandler, configHandler, cleanupHandler, reclassifyHandler, reindexHandler } from './handlers/system';
+import { listKeysHandler, createKeyHandler, updateKeyHandler, rotateKeyHandler, deleteKeyHandler } from './handlers/keys';
+import { getImportHandler, cancelImportHandler } from './handlers/imports';
+import { createExportHandler, downloadExportHandler } from './handlers/export';
+import { listBackupsHandler, createBackupHandler, restoreBackupHandler } from './handlers/backup';
 import { handleQueueBatch } from './handlers/queue';
 import type { QueueMessage } from './types/queue';
 
-const app = new Hono<{ Bindings: Env }>();
+const app = new Hono<AppEnv>();
 
 // CORS middleware
 app.use('*', cors({
@@ -30,7 +40,8 @@ app.use('*', cors({
 app.options('*', () => corsResponse());
 
 // Auth middleware for protected routes
-const authMiddleware = async (c: Context<{ Bindings: Env }>, next: () => Promise<void>) => {
+// Without a scope any valid key passes; otherwise the key needs that scope (or admin)
+const requireScope = (scope?: ApiKeyScope) => async (c: Context<AppEnv>, next: () => Promise<void>) => {
   const authHeader = c.req.header('Authorization');
   const apiKey = AuthService.extractApiKey(authHeader ?? null);
 
@@ -39,15 +50,22 @@ const authMiddleware = async (c: Context<{ Bindings: Env }>, next: () => Promise
   }
 
   const authService = new AuthService(c.env.DB);
-  const isValid = await authService.validateApiKey(apiKey);
+  const keyInfo = await authService.validateApiKey(apiKey);
 
-  if (!isValid) {
+  if (!keyInfo) {
     return unauthorizedResponse();
   }
 
+  if (scope && !AuthService.hasScope(keyInfo, scope)) {
+    return forbiddenResponse(`Forbidden: API key lacks the '${scope}' scope`);
+  }
+
+  c.set('apiKey', keyInfo);
   await next();
 };
 
+const authMiddleware = requireScope();
+
 // === Public Routes ===
 
 // Favicon for browser requests hitting API endpoints directly
@@ -57,30 +75,70 @@ app.get('/favicon.svg', faviconHandler);
 // Random image (public, no auth required)
 app.get('/api/random', randomHandler);
 
+// Permanent image URL with content negotiation (public; private images need a signature)
+app.get('/i/:id', deliverImageHandler);
+
+// Private image delivery (public, requires a valid signature)
+app.get('/private/:id', privateImageHandler);
+
+// Library export download (public; the short-lived export id acts as the credential)
+app.get('/api/exports/:id/download', downloadExportHandler);
+
 // === Protected Routes ===
 
 // Auth
 app.post('/api/validate-api-key', authMiddleware, validateApiKeyHandler);
 
 // Upload (single file per request - Cloudflare Worker best practice)
-app.post('/api/upload/single', authMiddleware, uploadSingleHandler);
+app.post('/api/upload/single', requireScope('upload'), uploadSingleHandler);
+app.post('/api/upload/batch', requireScope('upload'), uploadBatchHandler);
+app.post('/api/upload/url', requireScope('upload'), uploadUrlHandler);
+app.post('/api/upload/sessions', requireScope('upload'), createUploadSessionHandler);
+app.get('/api/upload/sessions/:id', requireScope('upload'), getUploadSessionHandler);
+app.put('/api/upload/sessions/:id/parts/:partNumber', requireScope('upload'), uploadPartHandler);
+app.post('/api/upload/sessions/:id/complete', requireScope('upload'), completeUploadSessionHandler);
+app.delete('/api/upload/sessions/:id', requireScope('upload'), abortUploadSessionHandler);
+app.get('/api/imports/:id', requireScope('upload'), getImportHandler);
+app.delete('/api/imports/:id', requireScope('upload'), cancelImportHandler);
 
 // Images CRUD
-app.get('/api/images', authMiddleware, imagesHandler);
-app.get('/api/images/:id', authMiddleware, imageDetailHandler);
-app.put('/api/images/:id', authMiddleware, updateImageHandler);
-app.delete('/api/images/:id', authMiddleware, deleteImageHandler);
+app.get('/api/images', requireScope('read'), imagesHandler);
+// Registered before /api/images/:id so these paths are not taken for an id
+app.get('/api/images/duplicates', requireScope('admin'), duplicatesHandler);
+app.get('/api/images/near-duplicates', requireScope('admin'), nearDuplicatesHandler);
+app.get('/api/images/:id', requireScope('read'), imageDetailHandler);
+app.put('/api/images/:id', requireScope('upload'), updateImageHandler);
+app.delete('/api/images/:id', requireScope('delete'), deleteImageHandler);
+app.post('/api/images/:id/share', requireScope('read'), shareImageHandler);
+app.get('/api/images/:id/similar', requireScope('read'), similarImagesHandler);
+
+// Library export
+app.post('/api/exports', requireScope('read'), createExportHandler);
 
 // Tags CRUD
-app.get('/api/tags', authMiddleware, tagsHandler);
-app.post('/api/tags', authMiddleware, createTagHandler);
-app.put('/api/tags/:name', authMiddleware, renameTagHandler);
-app.delete('/api/tags/:name', authMiddleware, deleteTagHandler);
-app.post('/api/tags/batch', authMiddleware, batchTagsHandler);
+app.get('/api/tags', requireScope('read'), tagsHandler);
+app.post('/api/tags', requireScope('upload'), createTagHandler);
+app.put('/api/tags/:name', requireScope('upload'), renameTagHandler);
+app.delete('/api/tags/:name', requireScope('delete'), deleteTagHandler);
+app.post('/api/tags/batch', requireScope('upload'), batchTagsHandler);
 
 // System
-app.get('/api/config', authMiddleware, configHandler);
-app.post('/api/cleanup', authMiddleware, cleanupHandler);
+app.get('/api/config', requireScope('read'), configHandler);
+app.post('/api/cleanup', requireScope('admin'), cleanupHandler);
+app.post('/api/reclassify', requireScope('admin'), reclassifyHandler);
+app.post('/api/reindex', requireScope('admin'), reindexHandler);
+
+// Metadata backups
+app.get('/api/backups', requireScope('admin'), listBackupsHandler);
+app.post('/api/backups', requireScope('admin'), createBackupHandler);
+app.post('/api/backups/:name/restore', requireScope('admin'), restoreBackupHandler);
+
+// API key management
+app.get('/api/keys', requireScope('admin'), listKeysHandler);
+app.post('/api/keys', requireScope('admin'), createKeyHandler);
+app.put('/api/keys/:id', requireScope('admin'), updateKeyHandler);
+app.post('/api/keys/:id/rotate', requireScope('admin'), rotateKeyHandler);
+app.delete('/api/keys/:id', requireScope('admin'), deleteKeyHandler);
 
 // 404 handler - ensure CORS headers are included
 app.notFound(() => {
@@ -115,6 +173,16 @@ app.onError((err) => {
   );
 });
 
+const ZIP_IMPORT_RETENTION_DAYS = 7;
+const DEFAULT_BACKUP_INTERVAL_HOURS = 24;
+
+// Hours between scheduled metadata backups; 0 turns them off
+function backupIntervalHours(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') return DEFAULT_BACKUP_INTERVAL_HOURS;
+  const hours = Number(value);
+  return Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_BACKUP_INTERVAL_HOURS;
+}
+
 // Scheduled handler for cron jobs - cleanup expired images
 async function scheduledHandler(
   _event: ScheduledEvent,
@@ -136,11 +204,7 @@ async function scheduledHandler(
     for (const image of expiredImages) {
       try {
         // Delete files from R2
-        await storage.deleteImageFiles({
-          original: image.paths.original,
-          webp: image.paths.webp || undefined,
-          avif: image.paths.avif || undefined,
-        });
+        await storage.deleteImageFiles(imageFileKeys(image));
 
         // Delete metadata from D1
         await metadata.deleteImage(image.id);
@@ -155,14 +219,62 @@ async function scheduledHandler(
   } catch (err) {
     console.error('Cron job failed:', err);
   }
+
+  // Abandoned resumable uploads: abort the R2 multipart upload and drop the session
+  try {
+    const expiredSessions = await new UploadSessionService(env.DB).getExpired();
+    for (const session of expiredSessions) {
+      await abortUploadSession(env, session);
+    }
+    if (expiredSessions.length > 0) {
+      console.log(`Aborted ${expiredSessions.length} expired upload sessions`);
+    }
+  } catch (err) {
+    console.error('Failed to clean up upload sessions:', err);
+  }
+
+  // Finished ZIP imports are kept for a week so their results can still be looked up
+  try {
+    const cutoff = new Date(Date.now() - ZIP_IMPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const removed = await new ZipImportService(env.DB).deleteFinishedBefore(cutoff);
+    if (removed > 0) {
+      console.log(`Removed ${removed} finished ZIP imports`);
+    }
+  } catch (err) {
+    console.error('Failed to clean up ZIP imports:', err);
+  }
+
+  // Snapshot of the metadata in R2, so the database can be rebuilt if D1 is lost
+  const intervalHours = backupIntervalHours(env.BACKUP_INTERVAL_HOURS);
+  if (intervalHours > 0) {
+    try {
+      const backup = await new BackupService(env).runScheduled(intervalHours);
+      if (backup) {
+        console.log(`Wrote metadata backup ${backup.name} (${backup.counts?.images ?? 0} images)`);
+      }
+    } catch (err) {
+      console.error('Failed to back up metadata:', err);
+    }
+  }
+
+  // Finish hashing API keys migrated from plaintext storage
+  try {
+    const hashedCount = await new AuthService(env.DB).hashLegacyKeys();
+    if (hashedCount > 0) {
+      console.log(`Hashed ${hashedCount} legacy API keys`);
+    }
+  } catch (err) {
+    console.error('Failed to hash legacy API keys:', err);
+  }
 }
 
-// Queue handler for async R2 deletion
+// Queue handler for async R2 deletion and ZIP imports
 async function queueHandler(
   batch: MessageBatch<QueueMessage>,
-  env: Env
+  env: Env,
+  ctx: ExecutionContext
 ): Promise<void> {
-  await handleQueueBatch(batch, env);
+  await handleQueueBatch(batch, env, ctx);
 }
 
 const handlers = {
@@ -1,36 +1,194 @@
+import type { ApiKeyInfo, ApiKeyRow, ApiKeyScope } from '../types';
+import { generateApiKey, parseScopes } from '../utils/validation';
+import { randomHex, sha256Hex, timingSafeEqual } from '../utils/crypto';
+
+export interface CreateApiKeyOptions {
+  label?: string | null;
+  scopes: ApiKeyScope[];
+  expiresAt?: string | null;
+}
+
+export interface UpdateApiKeyOptions {
+  label?: string | null;
+  scopes?: ApiKeyScope[];
+  expiresAt?: string | null;
+}
+
+export interface RotatedApiKey {
+  key: string;
+  info: ApiKeyInfo;
+  // The old key during its grace period, or null when it was revoked immediately
+  previous: ApiKeyInfo | null;
+}
+
+// A key that cannot be rotated: it has expired or already has a replacement
+export class KeyRotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyRotationError';
+  }
+}
+
+// Visible prefix stored alongside the hash: "cp_" + 8 hex chars for generated keys
+const KEY_PREFIX_LENGTH = 11;
+// Prefix kept for externally supplied keys; short keys get none so the prefix never reveals most of the secret
+const IMPORTED_KEY_PREFIX_LENGTH = 4;
+const MIN_KEY_LENGTH_FOR_PREFIX = 16;
+
 // D1 Authentication Service
+// Keys are stored as SHA-256(salt + key); only the short prefix is kept in clear for lookup/identification
 export class AuthService {
   constructor(private db: D1Database) {}
 
-  async validateApiKey(key: string): Promise<boolean> {
-    if (!key) return false;
+  // Returns the key's info when it exists and has not expired, otherwise null
+  async validateApiKey(key: string): Promise<ApiKeyInfo | null> {
+    if (!key) return null;
 
-    // Single query: UPDATE with RETURNING to combine SELECT + UPDATE
-    const result = await this.db.prepare(`
-      UPDATE api_keys SET last_used_at = ? WHERE key = ?
-      RETURNING id
-    `).bind(new Date().toISOString(), key).first<{ id: number }>();
+    const now = new Date().toISOString();
+
+    // Narrow candidates by stored prefix, then verify the hash of each
+    const candidates = await this.db.prepare(`
+      SELECT * FROM api_keys
+      WHERE key_prefix = substr(?, 1, length(key_prefix))
+        AND (expires_at IS NULL OR expires_at > ?)
+    `).bind(key, now).all<ApiKeyRow>();
+
+    let matched: ApiKeyRow | null = null;
+    for (const row of candidates.results || []) {
+      if (await AuthService.matches(row, key)) {
+        matched = row;
+        break;
+      }
+    }
+
+    if (!matched) return null;
+
+    // Rows carried over from plaintext storage are hashed on first successful use
+    if (matched.legacy_key !== null) {
+      await this.hashLegacyKey(matched.id, matched.legacy_key);
+    }
 
-    return result !== null;
+    const row = await this.db.prepare(`
+      UPDATE api_keys SET last_used_at = ? WHERE id = ?
+      RETURNING *
+    `).bind(now, matched.id).first<ApiKeyRow>();
+
+    return row ? this.rowToInfo(row) : null;
+  }
+
+  // Creates a new key and returns the full secret; it is not retrievable afterwards
+  async createApiKey(options: CreateApiKeyOptions): Promise<{ key: string; info: ApiKeyInfo }> {
+    const key = generateApiKey();
+    const info = await this.insertKey(key, key.slice(0, KEY_PREFIX_LENGTH), options);
+    return { key, info };
   }
 
+  // Stores an externally chosen key (hashed) with full access
   async addApiKey(key: string): Promise<void> {
-    await this.db.prepare(`
-      INSERT OR IGNORE INTO api_keys (key, created_at) VALUES (?, ?)
-    `).bind(key, new Date().toISOString()).run();
+    await this.insertKey(key, AuthService.importedPrefix(key), { scopes: ['admin'] });
   }
 
-  async removeApiKey(key: string): Promise<void> {
-    await this.db.prepare(`
-      DELETE FROM api_keys WHERE key = ?
-    `).bind(key).run();
+  async getApiKey(id: number): Promise<ApiKeyInfo | null> {
+    const row = await this.getRow(id);
+    return row ? this.rowToInfo(row) : null;
+  }
+
+  // Updates label, scopes and/or expiry; undefined fields are left untouched
+  async updateApiKey(id: number, options: UpdateApiKeyOptions): Promise<ApiKeyInfo | null> {
+    const sets: string[] = [];
+    const params: (string | null)[] = [];
+
+    if (options.label !== undefined) {
+      sets.push('label = ?');
+      params.push(options.label || null);
+    }
+    if (options.scopes !== undefined) {
+      sets.push('scopes = ?');
+      params.push(options.scopes.join(','));
+    }
+    if (options.expiresAt !== undefined) {
+      sets.push('expires_at = ?');
+      params.push(options.expiresAt);
+    }
+
+    if (sets.length === 0) {
+      return this.getApiKey(id);
+    }
+
+    const row = await this.db.prepare(`
+      UPDATE api_keys SET ${sets.join(', ')} WHERE id = ?
+      RETURNING *
+    `).bind(...params, id).first<ApiKeyRow>();
+
+    return row ? this.rowToInfo(row) : null;
+  }
+
+  // Issues a replacement key with the same label, scopes and expiry.
+  // The old key keeps working for graceSeconds (never past its own expiry); 0 revokes it immediately.
+  // Throws KeyRotationError for an expired key, whose replacement would start out expired, or one already replaced.
+  async rotateApiKey(id: number, graceSeconds: number): Promise<RotatedApiKey | null> {
+    const old = await this.getRow(id);
+    if (!old) return null;
+    if (old.expires_at && old.expires_at <= new Date().toISOString()) {
+      throw new KeyRotationError('已过期的 API Key 不能轮换');
+    }
+    if (old.replaced_by !== null) {
+      throw new KeyRotationError('该 API Key 已经轮换过');
+    }
+
+    const { key, info } = await this.createApiKey({
+      label: old.label,
+      scopes: parseScopes(old.scopes),
+      expiresAt: old.expires_at,
+    });
+
+    if (graceSeconds <= 0) {
+      await this.removeApiKey(id);
+      return { key, info, previous: null };
+    }
+
+    const graceEnd = new Date(Date.now() + graceSeconds * 1000).toISOString();
+    const expiresAt = old.expires_at && old.expires_at < graceEnd ? old.expires_at : graceEnd;
+
+    const previous = await this.db.prepare(`
+      UPDATE api_keys SET expires_at = ?, replaced_by = ? WHERE id = ?
+      RETURNING *
+    `).bind(expiresAt, info.id, id).first<ApiKeyRow>();
+
+    return { key, info, previous: previous ? this.rowToInfo(previous) : null };
+  }
+
+  // Revokes a key by deleting it; returns false when no such key exists
+  async removeApiKey(id: number): Promise<boolean> {
+    const result = await this.db.prepare(`
+      DELETE FROM api_keys WHERE id = ?
+    `).bind(id).run();
+    return (result.meta?.changes ?? 0) > 0;
+  }
+
+  async listApiKeys(): Promise<ApiKeyInfo[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM api_keys ORDER BY created_at DESC
+    `).all<ApiKeyRow>();
+    return result.results?.map(row => this.rowToInfo(row)) || [];
   }
 
-  async listApiKeys(): Promise<string[]> {
+  // Hashes any rows still holding a plaintext key (left by the 0004 migration or manual inserts)
+  async hashLegacyKeys(): Promise<number> {
     const result = await this.db.prepare(`
-      SELECT key FROM api_keys ORDER BY created_at DESC
-    `).all<{ key: string }>();
-    return result.results?.map(r => r.key) || [];
+      SELECT id, legacy_key FROM api_keys WHERE legacy_key IS NOT NULL
+    `).all<{ id: number; legacy_key: string }>();
+
+    const rows = result.results || [];
+    for (const row of rows) {
+      await this.hashLegacyKey(row.id, row.legacy_key);
+    }
+    return rows.length;
+  }
+
+  // admin implies every other scope
+  static hasScope(info: ApiKeyInfo, scope: ApiKeyScope): boolean {
+    return info.scopes.includes('admin') || info.scopes.includes(scope);
   }
 
   // Extract API key from Authorization header
@@ -40,4 +198,77 @@ export class AuthService {
     const match = authHeader.match(/^Bearer\s+(.+)$/i);
     return match ? match[1] : null;
   }
+
+  private getRow(id: number): Promise<ApiKeyRow | null> {
+    return this.db.prepare(`
+      SELECT * FROM api_keys WHERE id = ?
+    `).bind(id).first<ApiKeyRow>();
+  }
+
+  private async insertKey(key: string, prefix: string, options: CreateApiKeyOptions): Promise<ApiKeyInfo> {
+    const salt = randomHex(16);
+    const hash = await AuthService.hashKey(key, salt);
+
+    const row = await this.db.prepare(`
+      INSERT INTO api_keys (key_prefix, key_hash, key_salt, label, scopes, expires_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      RETURNING *
+    `).bind(
+      prefix,
+      hash,
+      salt,
+      options.label || null,
+      options.scopes.join(','),
+      options.expiresAt || null,
+      new Date().toISOString()
+    ).first<ApiKeyRow>();
+
+    if (!row) {
+      throw new Error('Failed to create API key');
+    }
+
+    return this.rowToInfo(row);
+  }
+
+  private async hashLegacyKey(id: number, key: string): Promise<void> {
+    const salt = randomHex(16);
+    const hash = await AuthService.hashKey(key, salt);
+
+    await this.db.prepare(`
+      UPDATE api_keys
+      SET key_hash = ?, key_salt = ?, key_prefix = ?, legacy_key = NULL
+      WHERE id = ?
+    `).bind(hash, salt, AuthService.importedPrefix(key), id).run();
+  }
+
+  private static async matches(row: ApiKeyRow, key: string): Promise<boolean> {
+    if (row.key_hash && row.key_salt) {
+      return timingSafeEqual(await AuthService.hashKey(key, row.key_salt), row.key_hash);
+    }
+    return row.legacy_key !== null && timingSafeEqual(row.legacy_key, key);
+  }
+
+  private static hashKey(key: string, salt: string): Promise<string> {
+    return sha256Hex(`${salt}${key}`);
+  }
+
+  private static importedPrefix(key: string): string {
+    if (key.startsWith('cp_') && key.length > KEY_PREFIX_LENGTH) {
+      return key.slice(0, KEY_PREFIX_LENGTH);
+    }
+    return key.length >= MIN_KEY_LENGTH_FOR_PREFIX ? key.slice(0, IMPORTED_KEY_PREFIX_LENGTH) : '';
+  }
+
+  private rowToInfo(row: ApiKeyRow): ApiKeyInfo {
+    return {
+      id: row.id,
+      label: row.label,
+      scopes: parseScopes(row.scopes),
+      expiresAt: row.expires_at,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+      keyPreview: `${row.key_prefix}…`,
+      replacedBy: row.replaced_by,
+    };
+  }
 }
@@ -0,0 +1,526 @@
+// Metadata backups: the D1 tables needed to rebuild the library are written to R2 as NDJSON snapshots
+// (a header line, one line per row, then the row counts) and can be restored from them
+import type { Env } from '../types';
+import { CacheService, CacheKeys } from './cache';
+import { StorageService, BACKUP_PREFIX } from './storage';
+import { randomHex } from '../utils/crypto';
+import { mapConcurrent } from '../utils/concurrency';
+
+const BACKUP_FORMAT = 'cattopic-backup';
+const BACKUP_VERSION = 1;
+
+// Snapshots kept in R2; older ones are deleted after each scheduled backup
+const BACKUP_RETENTION_COUNT = 14;
+// A scheduled backup may start this much early so an hourly cron does not drift past the interval
+const SCHEDULE_SLACK_MS = 10 * 60 * 1000;
+const READ_PAGE_SIZE = 1000;
+const WRITE_BATCH_SIZE = 50;
+// D1 bound-variable limit (two lists per query when looking up existing images)
+const LOOKUP_CHUNK_SIZE = 45;
+const MAX_REPORTED_SKIPS = 100;
+// Snapshots are streamed to R2 in parts of this size; every part but the last must be the same size, at least 5MB
+const BACKUP_PART_SIZE = 8 * 1024 * 1024;
+// HEAD requests in flight while checking a snapshot's files (a Worker keeps at most six connections open)
+const HEAD_CONCURRENCY = 6;
+// Images restored per call; restore pages through a snapshot so each call stays within the subrequest limit
+export const RESTORE_DEFAULT_LIMIT = 50;
+export const RESTORE_MAX_LIMIT = 100;
+// Files checked per call; a page is cut short when its images' originals and variants would exceed this
+const RESTORE_MAX_FILES = 400;
+
+// Tables in restore order (parents first) with the columns a snapshot carries
+const BACKUP_TABLES = {
+  config: ['key', 'value'],
+  tags: ['id', 'name'],
+  images: [
+    'id', 'original_name', 'upload_time', 'expiry_time', 'orientation', 'format', 'width', 'height',
+    'path_original', 'size_original', 'visibility', 'metadata_stripped', 'content_hash', 'phash',
+    'average_color', 'thumbhash',
+  ],
+  image_tags: ['image_id', 'tag_id'],
+  image_variants: ['image_id', 'kind', 'format', 'width', 'height', 'path', 'size'],
+  image_exif: [
+    'image_id', 'make', 'model', 'lens', 'exposure_time', 'f_number', 'iso', 'focal_length', 'taken_at',
+    'latitude', 'longitude',
+  ],
+  image_colors: ['image_id', 'rank', 'color', 'r', 'g', 'b', 'weight'],
+} as const;
+
+export type BackupTable = keyof typeof BACKUP_TABLES;
+const TABLE_NAMES = Object.keys(BACKUP_TABLES) as BackupTable[];
+
+type BackupValue = string | number | null;
+type BackupRow = Record<string, BackupValue>;
+type TableCounts = Record<BackupTable, number>;
+
+export interface BackupInfo {
+  name: string;
+  createdAt: string;
+  size: number;
+  // Rows per table; only known for a snapshot that was just written
+  counts?: TableCounts;
+}
+
+export interface RestoreOptions {
+  dryRun?: boolean;
+  // Index of the first snapshot image to restore; config and tags are restored with the first page
+  cursor?: number;
+  limit?: number;
+}
+
+export interface RestoreReport {
+  backup: string;
+  createdAt: string;
+  dryRun: boolean;
+  cursor: number;
+  // Cursor for the next call, or null once every image in the snapshot has been handled
+  nextCursor: number | null;
+  totalImages: number;
+  // Rows written (or, for a dry run, that would be written) per table by this call
+  restored: TableCounts;
+  skipped: {
+    // Images whose original is not in the bucket; their tags, variants and details are skipped too
+    missingOriginals: number;
+    missingVariants: number;
+    // Same file already stored under another id (content_hash is unique)
+    duplicates: number;
+    // Rows lacking required values; lines that are not valid rows are counted on the first page only
+    invalid: number;
+  };
+  missing: { imageId: string; key: string }[];
+  duplicates: { imageId: string; existingId: string }[];
+}
+
+// The object is not a snapshot this version can read
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+// File names sort by creation time; the random suffix keeps them unguessable, since R2 prefixes are not access
+// controlled, e.g. `2024-12-15T10-30-00-000Z-<32 hex digits>.ndjson`
+function backupName(createdAt: string): string {
+  return `${createdAt.replace(/[:.]/g, '-')}-${randomHex(16)}.ndjson`;
+}
+
+export function isBackupName(name: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z-[0-9a-f]{32}\.ndjson$/.test(name);
+}
+
+function emptyCounts(): TableCounts {
+  return Object.fromEntries(TABLE_NAMES.map(table => [table, 0])) as TableCounts;
+}
+
+function isBackupValue(value: unknown): value is BackupValue {
+  return value === null || typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+// Keeps only known columns with plain values, so snapshot contents never reach SQL as identifiers
+function sanitizeRow(table: BackupTable, row: unknown): BackupRow | null {
+  if (!row || typeof row !== 'object') return null;
+  const clean: BackupRow = {};
+  for (const column of BACKUP_TABLES[table]) {
+    const value = (row as Record<string, unknown>)[column];
+    if (value === undefined) continue;
+    if (!isBackupValue(value)) return null;
+    clean[column] = value;
+  }
+  return clean;
+}
+
+// Lines of a UTF-8 stream, holding no more than one chunk and one line at a time
+async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let pending = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += value;
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    yield* lines;
+  }
+  if (pending) yield pending;
+}
+
+interface SnapshotPage {
+  createdAt: string;
+  // Config and tags in full; images from `start` up to `limit` of them, and only the other rows of those images
+  rows: Record<BackupTable, BackupRow[]>;
+  totalImages: number;
+  invalid: number;
+}
+
+/**
+ * Reads one page of a snapshot from its stream. Snapshots list tables in restore order, so an image's
+ * tags, variants and details come after it and rows of images outside the page are never kept.
+ */
+async function readSnapshotPage(stream: ReadableStream<Uint8Array>, start: number, limit: number): Promise<SnapshotPage> {
+  const lines = readLines(stream);
+  let first = await lines.next();
+  while (!first.done && first.value.trim().length === 0) first = await lines.next();
+  let header: { format?: unknown; version?: unknown; createdAt?: unknown };
+  try {
+    header = JSON.parse(first.done ? '' : first.value);
+  } catch {
+    throw new BackupFormatError('Snapshot header is not valid JSON');
+  }
+  if (header.format !== BACKUP_FORMAT) {
+    throw new BackupFormatError('Not a CattoPic backup');
+  }
+  if (typeof header.version !== 'number' || header.version > BACKUP_VERSION) {
+    throw new BackupFormatError(`Unsupported backup version ${String(header.version)}`);
+  }
+
+  const rows = Object.fromEntries(TABLE_NAMES.map(table => [table, [] as BackupRow[]])) as Record<BackupTable, BackupRow[]>;
+  const pageIds = new Set<string>();
+  let totalImages = 0;
+  let invalid = 0;
+  for await (const line of lines) {
+    if (line.trim().length === 0) continue;
+    let entry: { table?: unknown; row?: unknown };
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      invalid++;
+      continue;
+    }
+    // Tables added by later versions, and the closing counts line, are ignored
+    if (typeof entry.table !== 'string' || !(entry.table in BACKUP_TABLES)) continue;
+    const table = entry.table as BackupTable;
+    const row = sanitizeRow(table, entry.row);
+    if (!row) {
+      invalid++;
+    } else if (table === 'config' || table === 'tags') {
+      rows[table].push(row);
+    } else if (table === 'images') {
+      if (totalImages >= start && totalImages < start + limit) {
+        rows.images.push(row);
+        if (typeof row.id === 'string') pageIds.add(row.id);
+      }
+      totalImages++;
+    } else if (typeof row.image_id === 'string' && pageIds.has(row.image_id)) {
+      rows[table].push(row);
+    }
+  }
+  return { createdAt: typeof header.createdAt === 'string' ? header.createdAt : '', rows, totalImages, invalid };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Writes NDJSON lines to a multipart upload, so a snapshot never has to fit in memory
+class SnapshotWriter {
+  private encoder = new TextEncoder();
+  private buffer = new Uint8Array(BACKUP_PART_SIZE);
+  private filled = 0;
+  private parts: R2UploadedPart[] = [];
+  size = 0;
+
+  constructor(private upload: R2MultipartUpload) {}
+
+  async writeLine(line: string): Promise<void> {
+    let bytes = this.encoder.encode(`${line}\n`);
+    this.size += bytes.byteLength;
+    while (bytes.byteLength > 0) {
+      const length = Math.min(bytes.byteLength, BACKUP_PART_SIZE - this.filled);
+      this.buffer.set(bytes.subarray(0, length), this.filled);
+      this.filled += length;
+      bytes = bytes.subarray(length);
+      if (this.filled === BACKUP_PART_SIZE) await this.flush();
+    }
+  }
+
+  async complete(): Promise<void> {
+    if (this.filled > 0 || this.parts.length === 0) await this.flush();
+    await this.upload.complete(this.parts);
+  }
+
+  private async flush(): Promise<void> {
+    this.parts.push(await this.upload.uploadPart(this.parts.length + 1, this.buffer.slice(0, this.filled)));
+    this.filled = 0;
+  }
+}
+
+export class BackupService {
+  constructor(private env: Env) {}
+
+  // Streams a snapshot of every backed-up table to R2, one page of rows at a time
+  async create(): Promise<BackupInfo> {
+    const createdAt = new Date().toISOString();
+    const name = backupName(createdAt);
+    const counts = emptyCounts();
+    const upload = await this.env.R2_BUCKET.createMultipartUpload(StorageService.generateBackupKey(name), {
+      httpMetadata: { contentType: 'application/x-ndjson' },
+    });
+    const writer = new SnapshotWriter(upload);
+
+    try {
+      await writer.writeLine(JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt }));
+      for (const table of TABLE_NAMES) {
+        const columns = BACKUP_TABLES[table].join(', ');
+        for (let offset = 0; ; offset += READ_PAGE_SIZE) {
+          const result = await this.env.DB.prepare(`
+            SELECT ${columns} FROM ${table} ORDER BY rowid LIMIT ? OFFSET ?
+          `).bind(READ_PAGE_SIZE, offset).all<BackupRow>();
+          const rows = result.results || [];
+          for (const row of rows) {
+            await writer.writeLine(JSON.stringify({ table, row }));
+          }
+          counts[table] += rows.length;
+          if (rows.length < READ_PAGE_SIZE) break;
+        }
+      }
+      // Only known once every table has been read
+      await writer.writeLine(JSON.stringify({ counts }));
+      await writer.complete();
+    } catch (err) {
+      await upload.abort().catch(abortErr => {
+        console.error('Failed to abort backup upload:', name, abortErr);
+      });
+      throw err;
+    }
+    return { name, createdAt, size: writer.size, counts };
+  }
+
+  // Snapshots in R2, newest first
+  async list(): Promise<BackupInfo[]> {
+    const backups: BackupInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.env.R2_BUCKET.list({ prefix: BACKUP_PREFIX, cursor });
+      for (const object of page.objects) {
+        const name = object.key.slice(BACKUP_PREFIX.length);
+        if (!isBackupName(name)) continue;
+        backups.push({ name, createdAt: object.uploaded.toISOString(), size: object.size });
+      }
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+    return backups.sort((a, b) => b.name.localeCompare(a.name));
+  }
+
+  /**
+   * Cron entry point: takes a snapshot when the newest one is at least `intervalHours` old, then
+   * deletes all but the newest BACKUP_RETENTION_COUNT. Returns the new snapshot, if any.
+   */
+  async runScheduled(intervalHours: number): Promise<BackupInfo | null> {
+    const backups = await this.list();
+    const latest = backups[0];
+    if (latest && Date.now() - Date.parse(latest.createdAt) < intervalHours * 60 * 60 * 1000 - SCHEDULE_SLACK_MS) {
+      return null;
+    }
+
+    const backup = await this.create();
+    const expired = [backup, ...backups].slice(BACKUP_RETENTION_COUNT);
+    if (expired.length > 0) {
+      await this.env.R2_BUCKET.delete(expired.map(old => StorageService.generateBackupKey(old.name)));
+    }
+    return backup;
+  }
+
+  /**
+   * Restores one page of a snapshot into D1: config and tags with the first page, then up to `limit`
+   * images with their tags, variants and details. Call again with `nextCursor` until it is null. Rows are
+   * upserted, so running it again changes nothing and images added since the snapshot are kept. Images
+   * whose original is missing from the bucket, and variants whose file is missing, are skipped and
+   * reported. Returns null when the snapshot does not exist.
+   */
+  async restore(name: string, options: RestoreOptions = {}): Promise<RestoreReport | null> {
+    const dryRun = options.dryRun ?? false;
+    const cursor = options.cursor ?? 0;
+    const object = await this.env.R2_BUCKET.get(StorageService.generateBackupKey(name));
+    if (!object) return null;
+    const snapshot = await readSnapshotPage(object.body, cursor, options.limit ?? RESTORE_DEFAULT_LIMIT);
+    const { rows } = snapshot;
+    const firstPage = cursor === 0;
+
+    // Files each image refers to: its original and its stored variants
+    const variantPaths = new Map<string, string[]>();
+    for (const variant of rows.image_variants) {
+      if (typeof variant.image_id !== 'string' || typeof variant.path !== 'string' || !variant.path) continue;
+      variantPaths.set(variant.image_id, [...(variantPaths.get(variant.image_id) ?? []), variant.path]);
+    }
+    const imageFiles = (image: BackupRow) =>
+      typeof image.id === 'string' && typeof image.path_original === 'string'
+        ? [image.path_original, ...(variantPaths.get(image.id) ?? [])]
+        : [];
+
+    // Cut the page short once its files would exceed the per-call budget, keeping at least one image
+    let fileCount = 0;
+    let pageSize = 0;
+    for (const image of rows.images) {
+      fileCount += imageFiles(image).length;
+      if (pageSize > 0 && fileCount > RESTORE_MAX_FILES) break;
+      pageSize++;
+    }
+    const pageImages = rows.images.slice(0, pageSize);
+    const nextCursor = cursor + pageSize < snapshot.totalImages ? cursor + pageSize : null;
+
+    const report: RestoreReport = {
+      backup: name,
+      createdAt: snapshot.createdAt,
+      dryRun,
+      cursor,
+      nextCursor,
+      totalImages: snapshot.totalImages,
+      restored: emptyCounts(),
+      skipped: { missingOriginals: 0, missingVariants: 0, duplicates: 0, invalid: firstPage ? snapshot.invalid : 0 },
+      missing: [],
+      duplicates: [],
+    };
+    const reportMissing = (imageId: string, key: string) => {
+      if (report.missing.length < MAX_REPORTED_SKIPS) report.missing.push({ imageId, key });
+    };
+
+    const missingKeys = await this.findMissingKeys(pageImages.flatMap(imageFiles));
+    const existing = await this.findExistingImages(pageImages);
+
+    // Images to restore: valid, original present in the bucket, and not a duplicate of another image
+    const images: BackupRow[] = [];
+    for (const image of pageImages) {
+      const id = image.id;
+      const original = image.path_original;
+      if (typeof id !== 'string' || typeof original !== 'string') {
+        report.skipped.invalid++;
+        continue;
+      }
+      if (missingKeys.has(original)) {
+        report.skipped.missingOriginals++;
+        reportMissing(id, original);
+        continue;
+      }
+      const existingId = typeof image.content_hash === 'string' ? existing.byHash.get(image.content_hash) : undefined;
+      if (existingId && existingId !== id) {
+        report.skipped.duplicates++;
+        if (report.duplicates.length < MAX_REPORTED_SKIPS) report.duplicates.push({ imageId: id, existingId });
+        continue;
+      }
+      images.push(image);
+    }
+    const imageIds = new Set(images.map(image => image.id as string));
+    const belongsToRestored = (row: BackupRow) => typeof row.image_id === 'string' && imageIds.has(row.image_id);
+
+    const variants = rows.image_variants.filter(belongsToRestored).filter(variant => {
+      // Variants without a path predate stored variant files
+      if (typeof variant.path !== 'string' || !variant.path || !missingKeys.has(variant.path)) return true;
+      report.skipped.missingVariants++;
+      reportMissing(variant.image_id as string, variant.path);
+      return false;
+    });
+    const exif = rows.image_exif.filter(belongsToRestored);
+    const colors = rows.image_colors.filter(belongsToRestored);
+    const config = firstPage ? rows.config.filter(row => typeof row.key === 'string' && typeof row.value === 'string') : [];
+    const allTags = rows.tags.filter(tag => typeof tag.id === 'number' && typeof tag.name === 'string');
+    const tags = firstPage ? allTags : [];
+    // Tags are matched by name: ids in the snapshot may already be taken in a rebuilt database
+    const tagNames = new Map(allTags.map(tag => [tag.id as number, tag.name as string]));
+    const imageTags = rows.image_tags.filter(row => belongsToRestored(row) && tagNames.has(row.tag_id as number));
+
+    report.restored = {
+      config: config.length,
+      tags: tags.length,
+      images: images.length,
+      image_tags: imageTags.length,
+      image_variants: variants.length,
+      image_exif: exif.length,
+      image_colors: colors.length,
+    };
+    if (dryRun) return report;
+
+    const db = this.env.DB;
+    await this.runBatches(config.map(row => this.insertStatement('config', row, 'key')));
+    await this.runBatches(tags.map(tag => db.prepare(`
+      INSERT INTO tags (name) VALUES (?) ON CONFLICT(name) DO NOTHING
+    `).bind(tag.name)));
+    const tagIds = await this.findTagIds(Array.from(new Set(imageTags.map(row => tagNames.get(row.tag_id as number) as string))));
+
+    // Upserts rather than INSERT OR REPLACE: replacing an image row would cascade-delete its tags and variants
+    await this.runBatches(images.map(image => this.insertStatement('images', image, 'id')));
+    await this.runBatches(imageTags.flatMap(row => {
+      const tagId = tagIds.get(tagNames.get(row.tag_id as number) as string);
+      return tagId === undefined ? [] : [db.prepare(`
+        INSERT OR IGNORE INTO image_tags (image_id, tag_id) VALUES (?, ?)
+      `).bind(row.image_id, tagId)];
+    }));
+    await this.runBatches(variants.map(row => this.insertStatement('image_variants', row)));
+    await this.runBatches(exif.map(row => this.insertStatement('image_exif', row)));
+    await this.runBatches(colors.map(row => this.insertStatement('image_colors', row)));
+
+    const cache = new CacheService(this.env.CACHE_KV);
+    await Promise.all([
+      cache.invalidateImagesList(),
+      cache.invalidateTagsList(),
+      cache.delete(CacheKeys.config()),
+      // Only images that were already in the database can have a stale detail cached
+      ...images.filter(image => existing.ids.has(image.id as string)).map(image => cache.invalidateImageDetail(image.id as string)),
+    ]);
+    return report;
+  }
+
+  // Keys with no object in the bucket; only the page's own files are checked, never the whole bucket
+  private async findMissingKeys(keys: string[]): Promise<Set<string>> {
+    const unique = Array.from(new Set(keys));
+    const found = await mapConcurrent(unique, HEAD_CONCURRENCY, async key => (await this.env.R2_BUCKET.head(key)) !== null);
+    return new Set(unique.filter((_, index) => !found[index]));
+  }
+
+  // Images already in D1 with the same id or the same content hash as a snapshot image
+  private async findExistingImages(images: BackupRow[]): Promise<{ ids: Set<string>; byHash: Map<string, string> }> {
+    const ids = new Set<string>();
+    const byHash = new Map<string, string>();
+    for (const batch of chunk(images, LOOKUP_CHUNK_SIZE)) {
+      const batchIds = batch.map(image => image.id).filter((id): id is string => typeof id === 'string');
+      const hashes = batch.map(image => image.content_hash).filter((hash): hash is string => typeof hash === 'string');
+      if (batchIds.length === 0 && hashes.length === 0) continue;
+      const result = await this.env.DB.prepare(`
+        SELECT id, content_hash FROM images
+        WHERE id IN (${batchIds.map(() => '?').join(', ') || 'NULL'}) OR content_hash IN (${hashes.map(() => '?').join(', ') || 'NULL'})
+      `).bind(...batchIds, ...hashes).all<{ id: string; content_hash: string | null }>();
+      for (const row of result.results || []) {
+        ids.add(row.id);
+        if (row.content_hash) byHash.set(row.content_hash, row.id);
+      }
+    }
+    return { ids, byHash };
+  }
+
+  private async findTagIds(names: string[]): Promise<Map<string, number>> {
+    const ids = new Map<string, number>();
+    for (const batch of chunk(names, LOOKUP_CHUNK_SIZE * 2)) {
+      const result = await this.env.DB.prepare(`
+        SELECT id, name FROM tags WHERE name IN (${batch.map(() => '?').join(', ')})
+      `).bind(...batch).all<{ id: number; name: string }>();
+      for (const row of result.results || []) {
+        ids.set(row.name, row.id);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Insert for a sanitized row. With `conflictColumn` an existing row is updated in place; otherwise it
+   * is replaced, which is only used for tables nothing references.
+   */
+  private insertStatement(table: BackupTable, row: BackupRow, conflictColumn?: string): D1PreparedStatement {
+    const columns = Object.keys(row);
+    const placeholders = columns.map(() => '?').join(', ');
+    const sql = conflictColumn
+      ? `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})
+         ON CONFLICT(${conflictColumn}) DO UPDATE SET ${columns.filter(column => column !== conflictColumn).map(column => `${column} = excluded.${column}`).join(', ')}`
+      : `INSERT OR REPLACE INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`;
+    return this.env.DB.prepare(sql).bind(...columns.map(column => row[column]));
+  }
+
+  private async runBatches(statements: D1PreparedStatement[]): Promise<void> {
+    for (const batch of chunk(statements, WRITE_BATCH_SIZE)) {
+      await this.env.DB.batch(batch);
+    }
+  }
+}
@@ -9,8 +9,8 @@ export const CACHE_TTL = {
 // Cache key generators
 export const CacheKeys = {
   // Use empty string instead of 'all' to avoid collision with actual 'all' tag/orientation
-  imagesList: (page: number, limit: number, tag?: string, orientation?: string, format?: string) =>
-    `images:list:${page}:${limit}:${tag ?? ''}:${orientation ?? ''}:${format ?? ''}`,
+  imagesList: (page: number, limit: number, tag?: string, orientation?: string, format?: string, sort?: string, color?: string, tolerance?: number) =>
+    `images:list:${page}:${limit}:${tag ?? ''}:${orientation ?? ''}:${format ?? ''}:${sort ?? ''}:${color ?? ''}:${color ? tolerance : ''}`,
 
   imageDetail: (id: string) => `images:detail:${id}`,
 
@@ -0,0 +1,102 @@
+// Dominant colours of an image, used for colour search and as a loading placeholder
+import type { CompressionService } from './compression';
+import type { DecodedImage } from './pngDecoder';
+import type { ImageColor, ImageColors } from '../types';
+
+// 32x32 keeps enough detail for small accents while staying cheap to render and scan
+const SAMPLE_SIZE = 32;
+export const PALETTE_SIZE = 5;
+// Pixels are bucketed at 4 bits per channel, then buckets closer than this (RGB distance) are merged
+const MERGE_DISTANCE = 48;
+// Mostly transparent pixels are background, not colour
+const MIN_ALPHA = 128;
+
+interface Cluster {
+  r: number;
+  g: number;
+  b: number;
+  count: number;
+}
+
+export function rgbToHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, '0')).join('');
+}
+
+// Expects the normalised `#rrggbb` form (see validateHexColor)
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xFF, (value >> 8) & 0xFF, value & 0xFF];
+}
+
+function distanceSquared(a: Cluster, b: Cluster): number {
+  return (a.r - b.r) ** 2 + (a.g - b.g) ** 2 + (a.b - b.b) ** 2;
+}
+
+export class ColorPalette {
+  /**
+   * Average colour and up to five dominant colours, or null when the Images binding cannot render the image.
+   * The picture is squeezed to 32x32; squeezing scales both axes, so each colour keeps its share of the area.
+   */
+  static async compute(compression: CompressionService, data: ArrayBuffer): Promise<ImageColors | null> {
+    const thumbnail = await compression.downscale(data, SAMPLE_SIZE, SAMPLE_SIZE);
+    return thumbnail ? this.fromPixels(thumbnail) : null;
+  }
+
+  static fromPixels(image: DecodedImage): ImageColors {
+    const buckets = new Map<number, Cluster>();
+    let sumR = 0;
+    let sumG = 0;
+    let sumB = 0;
+    let total = 0;
+
+    for (let i = 0; i < image.width * image.height; i++) {
+      const [r, g, b, a] = image.pixels.subarray(i * 4, i * 4 + 4);
+      if (a < MIN_ALPHA) continue;
+      sumR += r;
+      sumG += g;
+      sumB += b;
+      total++;
+
+      const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+      const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+      bucket.r += r;
+      bucket.g += g;
+      bucket.b += b;
+      bucket.count++;
+      buckets.set(key, bucket);
+    }
+
+    // Fully transparent images: report white, like they are usually shown, and no palette
+    if (total === 0) {
+      return { averageColor: '#ffffff', palette: [] };
+    }
+
+    // Most common buckets first, each folded into the first earlier cluster that is close enough
+    const clusters: Cluster[] = [];
+    const sorted = [...buckets.values()]
+      .map(bucket => ({ r: bucket.r / bucket.count, g: bucket.g / bucket.count, b: bucket.b / bucket.count, count: bucket.count }))
+      .sort((a, b) => b.count - a.count);
+    for (const bucket of sorted) {
+      const match = clusters.find(cluster => distanceSquared(cluster, bucket) <= MERGE_DISTANCE ** 2);
+      if (!match) {
+        clusters.push(bucket);
+        continue;
+      }
+      const count = match.count + bucket.count;
+      match.r = (match.r * match.count + bucket.r * bucket.count) / count;
+      match.g = (match.g * match.count + bucket.g * bucket.count) / count;
+      match.b = (match.b * match.count + bucket.b * bucket.count) / count;
+      match.count = count;
+    }
+
+    const palette: ImageColor[] = clusters
+      .sort((a, b) => b.count - a.count)
+      .slice(0, PALETTE_SIZE)
+      .map(cluster => ({
+        color: rgbToHex(cluster.r, cluster.g, cluster.b),
+        weight: Math.round((cluster.count / total) * 1000) / 1000,
+      }));
+
+    return { averageColor: rgbToHex(sumR / total, sumG / total, sumB / total), palette };
+  }
+}
@@ -4,8 +4,11 @@ import type {
   CompressionOptions,
   CompressedImage,
   CompressionResult,
+  Env,
+  PrivacyOptions,
 } from '../types';
 import { ImageProcessor } from './imageProcessor';
+import { PngDecoder, type DecodedImage } from './pngDecoder';
 
 const DEFAULT_OPTIONS: Required<CompressionOptions> = {
   quality: 90,
@@ -123,12 +126,116 @@ export class CompressionService {
         })
       : null;
 
-    if (webpResult) result.webp = webpResult;
-    if (avifResult) result.avif = avifResult;
+    if (webpResult) result.webp = { ...webpResult, ...(targetDims ?? { width, height }) };
+    if (avifResult) result.avif = { ...avifResult, ...avifDims };
 
     return result;
   }
 
+  /**
+   * Resize to each ladder width narrower than the source, in every requested format.
+   * Runs sequentially and skips failed sizes so one bad variant never fails the upload.
+   */
+  async generateVariants(
+    data: ArrayBuffer,
+    source: { width: number; height: number },
+    widths: number[],
+    formats: Array<'webp' | 'avif'>,
+    quality: number = DEFAULT_OPTIONS.quality
+  ): Promise<Array<{ format: 'webp' | 'avif'; width: number; height: number; image: CompressedImage }>> {
+    const variants: Array<{ format: 'webp' | 'avif'; width: number; height: number; image: CompressedImage }> = [];
+
+    for (const width of widths) {
+      if (width >= source.width) continue;
+      const height = Math.max(1, Math.round(source.height * width / source.width));
+
+      for (const format of formats) {
+        try {
+          const image = await this.withRetry(
+            `${format.toUpperCase()} ${width}w variant`,
+            () => this.compressToFormat(data, `image/${format}`, quality, { width, height }),
+            { attempts: 2 }
+          );
+          variants.push({ format, width, height, image });
+        } catch (e) {
+          console.error(`${format.toUpperCase()} ${width}w variant failed:`, e);
+        }
+      }
+    }
+
+    return variants;
+  }
+
+  /**
+   * Rasterise a vector image to WebP, scaled so its longer side is `size` pixels.
+   * Returns null when the binding cannot render it; the preview is optional.
+   */
+  async rasterize(
+    data: ArrayBuffer,
+    source: { width: number; height: number },
+    size: number,
+    quality: number = DEFAULT_OPTIONS.quality
+  ): Promise<{ width: number; height: number; image: CompressedImage } | null> {
+    const scale = size / Math.max(source.width, source.height);
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+
+    try {
+      const output = await this.images.input(data)
+        .transform({ width, height, fit: 'contain' })
+        .output({ format: 'image/webp', quality });
+      // SVG may be passed through unrendered; only accept a real raster
+      if (output.contentType() !== 'image/webp') return null;
+      const rendered = await output.response().arrayBuffer();
+      return { width, height, image: { data: rendered, contentType: 'image/webp', size: rendered.byteLength } };
+    } catch (e) {
+      console.error('Raster preview failed:', e);
+      return null;
+    }
+  }
+
+  /**
+   * Re-encode an original in its own format with the pixels turned upright.
+   * Returns null when the binding fails or answers with another format.
+   */
+  async rotate(
+    data: ArrayBuffer,
+    format: 'jpeg' | 'png' | 'webp',
+    rotate: 90 | 180 | 270,
+    quality: number = DEFAULT_OPTIONS.quality
+  ): Promise<CompressedImage | null> {
+    const contentType = `image/${format}` as const;
+    try {
+      const output = await this.withRetry('Auto-rotate', () => this.images.input(data)
+        .transform({ rotate })
+        .output({ format: contentType, quality }));
+      if (output.contentType() !== contentType) return null;
+      const rotated = await output.response().arrayBuffer();
+      return { data: rotated, contentType, size: rotated.byteLength };
+    } catch (e) {
+      console.error('Auto-rotate failed:', e);
+      return null;
+    }
+  }
+
+  /**
+   * Renders the image at exactly width x height (aspect ratio ignored) and returns its RGBA pixels,
+   * for analysis such as perceptual hashing. Null when the binding cannot render the image.
+   */
+  async downscale(data: ArrayBuffer, width: number, height: number): Promise<DecodedImage | null> {
+    try {
+      const output = await this.withRetry('Downscale', () => this.images.input(data)
+        .transform({ width, height, fit: 'squeeze' })
+        .output({ format: 'image/png' }));
+      if (output.contentType() !== 'image/png') return null;
+      const decoded = await PngDecoder.decode(await output.response().arrayBuffer());
+      return decoded && decoded.width === width && decoded.height === height ? decoded : null;
+    } catch (e) {
+      console.error('Downscale failed:', e);
+      return null;
+    }
+  }
+
   /**
    * Compress image to specific format
    */
@@ -234,3 +341,17 @@ export function parseCompressionOptions(formData: FormData): CompressionOptions
       : formData.get('generateAvif') !== 'false',
   };
 }
+
+/**
+ * Parse privacy options from FormData; fields that are absent fall back to
+ * the STRIP_METADATA / KEEP_ORIENTATION variables
+ */
+export function parsePrivacyOptions(formData: FormData, env: Env): PrivacyOptions {
+  const parseFlag = (value: File | string | null, defaultValue: string | undefined): boolean =>
+    typeof value === 'string' ? value !== 'false' : defaultValue === 'true';
+
+  return {
+    stripMetadata: parseFlag(formData.get('stripMetadata'), env.STRIP_METADATA),
+    keepOrientation: parseFlag(formData.get('keepOrientation'), env.KEEP_ORIENTATION),
+  };
+}
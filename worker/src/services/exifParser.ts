@@ -0,0 +1,544 @@
+// EXIF/XMP extraction for capture metadata (camera, exposure, date, GPS)
+import type { ImageExif } from '../types';
+
+// TIFF field types and their byte sizes (index = type id)
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+const TYPE_SRATIONAL = 10;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_MAKE = 0x010F;
+const TAG_MODEL = 0x0110;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_EXPOSURE_TIME = 0x829A;
+const TAG_F_NUMBER = 0x829D;
+const TAG_ISO = 0x8827;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_FOCAL_LENGTH = 0x920A;
+const TAG_LENS_MAKE = 0xA433;
+const TAG_LENS_MODEL = 0xA434;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+interface MetadataBlocks {
+  tiff?: Uint8Array;
+  xmp?: string;
+}
+
+// Byte range of an Exif or XMP item inside an AVIF/HEIF file
+export interface MetadataItem {
+  type: 'exif' | 'xmp';
+  offset: number;
+  length: number;
+}
+
+interface TiffEntry {
+  type: number;
+  count: number;
+  valueOffset: number;
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  let text = '';
+  for (let i = start; i < start + length && i < bytes.length; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+function readU32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function readU32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function readUint(bytes: Uint8Array, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+}
+
+// "2024:05:01 13:45:10" (+ "+09:00") -> "2024-05-01T13:45:10+09:00"
+function toIsoDate(value: string | undefined, offset?: string): string | undefined {
+  const match = value?.trim().match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return undefined;
+  const zone = offset?.trim().match(/^[+-]\d{2}:\d{2}$/) ? offset.trim() : '';
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${zone}`;
+}
+
+function cleanText(value: string | undefined): string | undefined {
+  const text = value?.replace(/\0+$/, '').trim();
+  return text ? text : undefined;
+}
+
+function positive(value: number | undefined): number | undefined {
+  return value !== undefined && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Minimal TIFF reader over an EXIF block. Every read is bounds-checked;
+ * entries pointing outside the block simply read as missing.
+ */
+class TiffReader {
+  private littleEndian: boolean;
+
+  constructor(private bytes: Uint8Array) {
+    this.littleEndian = bytes[0] === 0x49 && bytes[1] === 0x49;
+  }
+
+  static isValid(bytes: Uint8Array): boolean {
+    if (bytes.length < 8) return false;
+    const order = ascii(bytes, 0, 2);
+    if (order !== 'II' && order !== 'MM') return false;
+    return new TiffReader(bytes).u16(2) === 42;
+  }
+
+  u16(offset: number): number | undefined {
+    if (offset < 0 || offset + 2 > this.bytes.length) return undefined;
+    return this.littleEndian
+      ? this.bytes[offset] | (this.bytes[offset + 1] << 8)
+      : (this.bytes[offset] << 8) | this.bytes[offset + 1];
+  }
+
+  u32(offset: number): number | undefined {
+    if (offset < 0 || offset + 4 > this.bytes.length) return undefined;
+    const b = this.bytes;
+    return (this.littleEndian
+      ? b[offset] | (b[offset + 1] << 8) | (b[offset + 2] << 16) | (b[offset + 3] << 24)
+      : (b[offset] << 24) | (b[offset + 1] << 16) | (b[offset + 2] << 8) | b[offset + 3]) >>> 0;
+  }
+
+  firstIfd(): number | undefined {
+    return this.u32(4);
+  }
+
+  readIfd(offset: number): Map<number, TiffEntry> {
+    const entries = new Map<number, TiffEntry>();
+    const count = this.u16(offset);
+    if (count === undefined) return entries;
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const tag = this.u16(entry);
+      const type = this.u16(entry + 2);
+      const valueCount = this.u32(entry + 4);
+      if (tag === undefined || type === undefined || valueCount === undefined) break;
+      const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+      if (size === 0) continue;
+      // Values of up to 4 bytes are stored inline in the entry
+      const valueOffset = size <= 4 ? entry + 8 : this.u32(entry + 8);
+      if (valueOffset === undefined || valueOffset + size > this.bytes.length) continue;
+      entries.set(tag, { type, count: valueCount, valueOffset });
+    }
+    return entries;
+  }
+
+  string(entry: TiffEntry | undefined): string | undefined {
+    if (!entry || entry.type !== TYPE_ASCII) return undefined;
+    return cleanText(ascii(this.bytes, entry.valueOffset, entry.count));
+  }
+
+  numbers(entry: TiffEntry | undefined): number[] {
+    if (!entry) return [];
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const value = this.number(entry, i);
+      if (value === undefined) break;
+      values.push(value);
+    }
+    return values;
+  }
+
+  number(entry: TiffEntry | undefined, index = 0): number | undefined {
+    if (!entry || index >= entry.count) return undefined;
+    const at = entry.valueOffset + index * TYPE_SIZES[entry.type];
+    switch (entry.type) {
+      case TYPE_SHORT:
+        return this.u16(at);
+      case TYPE_LONG:
+        return this.u32(at);
+      case TYPE_RATIONAL:
+      case TYPE_SRATIONAL: {
+        const numerator = this.u32(at);
+        const denominator = this.u32(at + 4);
+        if (numerator === undefined || !denominator) return undefined;
+        return entry.type === TYPE_SRATIONAL
+          ? (numerator | 0) / (denominator | 0)
+          : numerator / denominator;
+      }
+      default:
+        return undefined;
+    }
+  }
+}
+
+export class ExifParser {
+  /**
+   * Capture metadata for an uploaded image, or null when it carries none.
+   * EXIF wins over XMP; XMP only fills fields EXIF did not provide.
+   */
+  static extract(data: ArrayBuffer, format: string): ImageExif | null {
+    const bytes = new Uint8Array(data);
+    const blocks = this.findBlocks(bytes, format);
+    const fromTiff = blocks.tiff && TiffReader.isValid(blocks.tiff) ? this.parseTiff(blocks.tiff) : {};
+    const fromXmp = blocks.xmp ? this.parseXmp(blocks.xmp) : {};
+
+    const exif = Object.fromEntries(
+      Object.keys({ ...fromXmp, ...fromTiff })
+        .map(key => [key, fromTiff[key as keyof ImageExif] ?? fromXmp[key as keyof ImageExif]])
+        .filter(([, value]) => value !== undefined)
+    ) as ImageExif;
+    return Object.keys(exif).length > 0 ? exif : null;
+  }
+
+  // EXIF orientation (1-8), or undefined when the file does not record one
+  static orientation(data: ArrayBuffer, format: string): number | undefined {
+    const tiff = this.findBlocks(new Uint8Array(data), format).tiff;
+    if (!tiff || !TiffReader.isValid(tiff)) return undefined;
+    const reader = new TiffReader(tiff);
+    const ifd0Offset = reader.firstIfd();
+    const value = ifd0Offset !== undefined ? reader.number(reader.readIfd(ifd0Offset).get(TAG_ORIENTATION)) : undefined;
+    return value !== undefined && value >= 1 && value <= 8 ? value : undefined;
+  }
+
+  private static findBlocks(bytes: Uint8Array, format: string): MetadataBlocks {
+    switch (format) {
+      case 'jpeg':
+        return this.findJpegBlocks(bytes);
+      case 'png':
+        return this.findPngBlocks(bytes);
+      case 'webp':
+        return this.findWebpBlocks(bytes);
+      case 'avif':
+      case 'heic':
+      case 'heif':
+        return this.findIsobmffBlocks(bytes);
+      default:
+        return {};
+    }
+  }
+
+  // APP1 segments carry either "Exif\0\0" + TIFF or the XMP namespace + packet
+  private static findJpegBlocks(bytes: Uint8Array): MetadataBlocks {
+    const blocks: MetadataBlocks = {};
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+      const marker = bytes[offset + 1];
+      // Start of scan: no metadata segments follow
+      if (marker === 0xDA || marker === 0xD9) break;
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      if (length < 2) break;
+      const start = offset + 4;
+      const end = Math.min(bytes.length, offset + 2 + length);
+
+      if (marker === 0xE1) {
+        if (!blocks.tiff && ascii(bytes, start, EXIF_HEADER.length) === EXIF_HEADER) {
+          blocks.tiff = bytes.subarray(start + EXIF_HEADER.length, end);
+        } else if (!blocks.xmp && ascii(bytes, start, XMP_HEADER.length) === XMP_HEADER) {
+          blocks.xmp = new TextDecoder().decode(bytes.subarray(start + XMP_HEADER.length, end));
+        }
+      }
+      offset += 2 + length;
+    }
+    return blocks;
+  }
+
+  // eXIf holds a bare TIFF block; XMP lives in an iTXt chunk keyed "XML:com.adobe.xmp"
+  private static findPngBlocks(bytes: Uint8Array): MetadataBlocks {
+    const blocks: MetadataBlocks = {};
+    let offset = 8;
+    while (offset + 8 <= bytes.length) {
+      const length = readU32BE(bytes, offset);
+      const type = ascii(bytes, offset + 4, 4);
+      const start = offset + 8;
+      const end = start + length;
+      if (end > bytes.length || type === 'IEND') break;
+
+      if (type === 'eXIf') {
+        blocks.tiff = bytes.subarray(start, end);
+      } else if (type === 'iTXt' && ascii(bytes, start, 18) === 'XML:com.adobe.xmp\0') {
+        // keyword\0 compression-flag compression-method language\0 translated-keyword\0 text
+        let text = start + 18;
+        if (bytes[text] === 0) {
+          text += 2;
+          for (let nulls = 0; text < end && nulls < 2; text++) {
+            if (bytes[text] === 0) nulls++;
+          }
+          blocks.xmp = new TextDecoder().decode(bytes.subarray(text, end));
+        }
+      }
+      offset = end + 4;
+    }
+    return blocks;
+  }
+
+  // RIFF chunks "EXIF" and "XMP "; some writers keep the JPEG "Exif\0\0" prefix
+  private static findWebpBlocks(bytes: Uint8Array): MetadataBlocks {
+    const blocks: MetadataBlocks = {};
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+      const type = ascii(bytes, offset, 4);
+      const length = readU32LE(bytes, offset + 4);
+      const start = offset + 8;
+      const end = start + length;
+      if (end > bytes.length) break;
+
+      if (type === 'EXIF') {
+        const prefixed = ascii(bytes, start, EXIF_HEADER.length) === EXIF_HEADER;
+        blocks.tiff = bytes.subarray(prefixed ? start + EXIF_HEADER.length : start, end);
+      } else if (type === 'XMP ') {
+        blocks.xmp = new TextDecoder().decode(bytes.subarray(start, end));
+      }
+      offset = end + (length & 1);
+    }
+    return blocks;
+  }
+
+  private static findIsobmffBlocks(bytes: Uint8Array): MetadataBlocks {
+    const blocks: MetadataBlocks = {};
+    for (const item of this.findIsobmffItems(bytes)) {
+      const payload = bytes.subarray(item.offset, item.offset + item.length);
+      if (item.type === 'exif' && !blocks.tiff && payload.length > 4) {
+        // Payload starts with the offset of the TIFF header past this 4-byte field
+        const tiffStart = 4 + readU32BE(payload, 0);
+        if (tiffStart < payload.length) blocks.tiff = payload.subarray(tiffStart);
+      } else if (item.type === 'xmp' && !blocks.xmp) {
+        blocks.xmp = new TextDecoder().decode(payload);
+      }
+    }
+    return blocks;
+  }
+
+  /**
+   * AVIF/HEIF store metadata as items: `iinf` names them (type "Exif", or "mime" with an
+   * RDF content type for XMP) and `iloc` gives their byte ranges in the file.
+   */
+  static findIsobmffItems(bytes: Uint8Array): MetadataItem[] {
+    const meta = this.findBox(bytes, 0, bytes.length, 'meta');
+    if (!meta) return [];
+    // meta is a FullBox: skip version/flags
+    const childrenStart = meta.start + 4;
+    const iinf = this.findBox(bytes, childrenStart, meta.end, 'iinf');
+    const iloc = this.findBox(bytes, childrenStart, meta.end, 'iloc');
+    if (!iinf || !iloc) return [];
+
+    const locations = this.readItemLocations(bytes, iloc.start, iloc.end);
+    const items: MetadataItem[] = [];
+    for (const item of this.readItemInfos(bytes, iinf.start, iinf.end)) {
+      const location = locations.get(item.id);
+      if (!location || location.offset + location.length > bytes.length) continue;
+      if (item.type === 'Exif') {
+        items.push({ type: 'exif', ...location });
+      } else if (item.type === 'mime' && item.contentType === 'application/rdf+xml') {
+        items.push({ type: 'xmp', ...location });
+      }
+    }
+    return items;
+  }
+
+  private static findBox(bytes: Uint8Array, from: number, to: number, type: string): { start: number; end: number } | null {
+    let offset = from;
+    while (offset + 8 <= to) {
+      const size = readU32BE(bytes, offset);
+      const boxType = ascii(bytes, offset + 4, 4);
+      const end = size === 0 ? to : offset + size;
+      if (size !== 0 && size < 8) return null;
+      if (boxType === type) return { start: offset + 8, end: Math.min(end, to) };
+      offset = end;
+    }
+    return null;
+  }
+
+  private static readItemInfos(bytes: Uint8Array, start: number, end: number): Array<{ id: number; type: string; contentType?: string }> {
+    const version = bytes[start];
+    let offset = start + 4 + (version === 0 ? 2 : 4);
+    const items: Array<{ id: number; type: string; contentType?: string }> = [];
+
+    while (offset + 8 <= end) {
+      const size = readU32BE(bytes, offset);
+      if (size < 8 || offset + size > end) break;
+      if (ascii(bytes, offset + 4, 4) === 'infe') {
+        const infeVersion = bytes[offset + 8];
+        if (infeVersion >= 2) {
+          let at = offset + 12;
+          const id = infeVersion === 2 ? readUint(bytes, at, 2) : readU32BE(bytes, at);
+          at += (infeVersion === 2 ? 2 : 4) + 2;
+          const type = ascii(bytes, at, 4);
+          at += 4;
+          let contentType: string | undefined;
+          if (type === 'mime') {
+            // item_name\0 then content_type\0
+            const nameEnd = bytes.indexOf(0, at);
+            const typeEnd = nameEnd === -1 ? -1 : bytes.indexOf(0, nameEnd + 1);
+            if (typeEnd !== -1 && typeEnd < offset + size) {
+              contentType = ascii(bytes, nameEnd + 1, typeEnd - nameEnd - 1);
+            }
+          }
+          items.push({ id, type, contentType });
+        }
+      }
+      offset += size;
+    }
+    return items;
+  }
+
+  // Only construction method 0 (file offsets) is used for Exif/XMP items; extents are assumed contiguous
+  private static readItemLocations(bytes: Uint8Array, start: number, end: number): Map<number, { offset: number; length: number }> {
+    const locations = new Map<number, { offset: number; length: number }>();
+    const version = bytes[start];
+    const offsetSize = bytes[start + 4] >> 4;
+    const lengthSize = bytes[start + 4] & 0x0F;
+    const baseOffsetSize = bytes[start + 5] >> 4;
+    const indexSize = version === 1 || version === 2 ? bytes[start + 5] & 0x0F : 0;
+    let at = start + 6;
+    const itemCount = version < 2 ? readUint(bytes, at, 2) : readU32BE(bytes, at);
+    at += version < 2 ? 2 : 4;
+
+    for (let i = 0; i < itemCount && at < end; i++) {
+      const id = version < 2 ? readUint(bytes, at, 2) : readU32BE(bytes, at);
+      at += version < 2 ? 2 : 4;
+      let constructionMethod = 0;
+      if (version === 1 || version === 2) {
+        constructionMethod = readUint(bytes, at, 2) & 0x0F;
+        at += 2;
+      }
+      at += 2; // data_reference_index
+      const baseOffset = readUint(bytes, at, baseOffsetSize);
+      at += baseOffsetSize;
+      const extentCount = readUint(bytes, at, 2);
+      at += 2;
+
+      let first: { offset: number; length: number } | undefined;
+      let total = 0;
+      for (let e = 0; e < extentCount; e++) {
+        at += indexSize;
+        const extentOffset = readUint(bytes, at, offsetSize);
+        at += offsetSize;
+        const extentLength = readUint(bytes, at, lengthSize);
+        at += lengthSize;
+        first ??= { offset: baseOffset + extentOffset, length: 0 };
+        total += extentLength;
+      }
+      if (at > end) break;
+      if (first && constructionMethod === 0) {
+        locations.set(id, { offset: first.offset, length: total });
+      }
+    }
+    return locations;
+  }
+
+  private static parseTiff(tiff: Uint8Array): ImageExif {
+    const reader = new TiffReader(tiff);
+    const ifd0Offset = reader.firstIfd();
+    if (ifd0Offset === undefined) return {};
+    const ifd0 = reader.readIfd(ifd0Offset);
+
+    const exifOffset = reader.number(ifd0.get(TAG_EXIF_IFD));
+    const exifIfd = exifOffset !== undefined ? reader.readIfd(exifOffset) : new Map<number, TiffEntry>();
+    const gpsOffset = reader.number(ifd0.get(TAG_GPS_IFD));
+    const gpsIfd = gpsOffset !== undefined ? reader.readIfd(gpsOffset) : new Map<number, TiffEntry>();
+
+    const lensMake = reader.string(exifIfd.get(TAG_LENS_MAKE));
+    const lensModel = reader.string(exifIfd.get(TAG_LENS_MODEL));
+    const takenAt = toIsoDate(
+      reader.string(exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ?? reader.string(ifd0.get(TAG_DATE_TIME)),
+      reader.string(exifIfd.get(TAG_OFFSET_TIME_ORIGINAL))
+    );
+
+    return {
+      make: reader.string(ifd0.get(TAG_MAKE)),
+      model: reader.string(ifd0.get(TAG_MODEL)),
+      lens: lensModel && lensMake && !lensModel.startsWith(lensMake) ? `${lensMake} ${lensModel}` : lensModel,
+      exposureTime: positive(reader.number(exifIfd.get(TAG_EXPOSURE_TIME))),
+      fNumber: positive(reader.number(exifIfd.get(TAG_F_NUMBER))),
+      iso: positive(reader.number(exifIfd.get(TAG_ISO))),
+      focalLength: positive(reader.number(exifIfd.get(TAG_FOCAL_LENGTH))),
+      takenAt,
+      ...this.gpsCoordinates(
+        reader.numbers(gpsIfd.get(TAG_GPS_LATITUDE)),
+        reader.string(gpsIfd.get(TAG_GPS_LATITUDE_REF)),
+        reader.numbers(gpsIfd.get(TAG_GPS_LONGITUDE)),
+        reader.string(gpsIfd.get(TAG_GPS_LONGITUDE_REF))
+      ),
+    };
+  }
+
+  private static gpsCoordinates(
+    latitude: number[],
+    latitudeRef: string | undefined,
+    longitude: number[],
+    longitudeRef: string | undefined
+  ): Pick<ImageExif, 'latitude' | 'longitude'> {
+    if (latitude.length !== 3 || longitude.length !== 3) return {};
+    const toDecimal = ([deg, min, sec]: number[], negative: boolean): number =>
+      (negative ? -1 : 1) * (deg + min / 60 + sec / 3600);
+    const lat = toDecimal(latitude, latitudeRef === 'S');
+    const lng = toDecimal(longitude, longitudeRef === 'W');
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return {};
+    return { latitude: Number(lat.toFixed(6)), longitude: Number(lng.toFixed(6)) };
+  }
+
+  private static parseXmp(xmp: string): ImageExif {
+    const value = (...names: string[]): string | undefined => {
+      for (const name of names) {
+        // Attribute form: exif:FNumber="28/10"
+        const attribute = new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`).exec(xmp);
+        if (attribute) return cleanText(attribute[1]);
+        // Element form, possibly wrapping an rdf:Seq/rdf:Alt list: take the first entry
+        const element = new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`).exec(xmp);
+        if (element) return cleanText(element[1].replace(/<[^>]+>/g, ' ').trim().split(/\s+/)[0]);
+      }
+      return undefined;
+    };
+    const rational = (text: string | undefined): number | undefined => {
+      const match = text?.match(/^(-?[\d.]+)(?:\/([\d.]+))?$/);
+      if (!match) return undefined;
+      return positive(match[2] ? Number(match[1]) / Number(match[2]) : Number(match[1]));
+    };
+    // "35,40.5N" or "35,40,30N"
+    const coordinate = (text: string | undefined, max: number): number | undefined => {
+      const match = text?.match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+      if (!match) return undefined;
+      const decimal = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] ?? 0) / 3600;
+      const signed = /[SW]/i.test(match[4]) ? -decimal : decimal;
+      return Math.abs(signed) <= max ? Number(signed.toFixed(6)) : undefined;
+    };
+    const iso = Number(value('exif:ISOSpeedRatings', 'exifEX:PhotographicSensitivity'));
+
+    return {
+      make: value('tiff:Make'),
+      model: value('tiff:Model'),
+      lens: value('exifEX:LensModel', 'aux:Lens'),
+      exposureTime: rational(value('exif:ExposureTime')),
+      fNumber: rational(value('exif:FNumber')),
+      iso: Number.isInteger(iso) && iso > 0 ? iso : undefined,
+      focalLength: rational(value('exif:FocalLength')),
+      takenAt: this.xmpDate(value('exif:DateTimeOriginal', 'photoshop:DateCreated', 'xmp:CreateDate')),
+      latitude: coordinate(value('exif:GPSLatitude'), 90),
+      longitude: coordinate(value('exif:GPSLongitude'), 180),
+    };
+  }
+
+  // XMP dates are ISO 8601 already, possibly without seconds or with fractional seconds
+  private static xmpDate(value: string | undefined): string | undefined {
+    const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:\d{2})?$/);
+    if (!match) return undefined;
+    const zone = match[7] === 'Z' ? '+00:00' : (match[7] ?? '');
+    return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6] ?? '00'}${zone}`;
+  }
+}
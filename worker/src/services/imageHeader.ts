@@ -0,0 +1,531 @@
+// Bounds-checked image header parsing: every format either yields real dimensions or throws ImageParseError
+
+export type ImageParseErrorCode = 'truncated' | 'malformed' | 'unsupported';
+
+export class ImageParseError extends Error {
+  constructor(
+    readonly code: ImageParseErrorCode,
+    readonly format: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ImageParseError';
+  }
+}
+
+export interface ImageHeader {
+  // Stored size: coded pixels, after an AVIF/HEIF `clap` crop but before any rotation
+  width: number;
+  height: number;
+  // AVIF/HEIF `irot`: anti-clockwise quarter turns applied on display (0-3)
+  rotation: number;
+  // Animated WebP frame count (ANMF chunks)
+  frames?: number;
+}
+
+interface Box {
+  type: string;
+  start: number;
+  end: number;
+}
+
+// SOFn markers carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) share the range but do not
+const JPEG_SOF_MARKERS = new Set([0xC0, 0xC1, 0xC2, 0xC3, 0xC5, 0xC6, 0xC7, 0xC9, 0xCA, 0xCB, 0xCD, 0xCE, 0xCF]);
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+// Allowed IHDR bit depths per colour type
+const PNG_BIT_DEPTHS: Record<number, number[]> = {
+  0: [1, 2, 4, 8, 16],
+  2: [8, 16],
+  3: [1, 2, 4, 8],
+  4: [8, 16],
+  6: [8, 16],
+};
+const WEBP_FLAG_ANIMATION = 0x02;
+// JPEG XL SizeHeader aspect ratios (ratio field 1-7)
+const JXL_RATIOS: Array<[number, number]> = [[1, 1], [12, 10], [4, 3], [3, 2], [16, 9], [5, 4], [2, 1]];
+const MAX_DIMENSION = 0x7FFFFFFF;
+
+/**
+ * Reads from a byte array, throwing a `truncated` ImageParseError instead of
+ * returning undefined when a read runs past the end
+ */
+class ByteReader {
+  constructor(readonly bytes: Uint8Array, readonly format: string) {}
+
+  get length(): number {
+    return this.bytes.length;
+  }
+
+  require(offset: number, length: number, what: string): void {
+    if (offset < 0 || length < 0 || offset + length > this.bytes.length) {
+      throw new ImageParseError('truncated', this.format, `File ends inside the ${what}`);
+    }
+  }
+
+  u8(offset: number, what = 'header'): number {
+    this.require(offset, 1, what);
+    return this.bytes[offset];
+  }
+
+  u16be(offset: number, what = 'header'): number {
+    this.require(offset, 2, what);
+    return (this.bytes[offset] << 8) | this.bytes[offset + 1];
+  }
+
+  u16le(offset: number, what = 'header'): number {
+    this.require(offset, 2, what);
+    return this.bytes[offset] | (this.bytes[offset + 1] << 8);
+  }
+
+  u24le(offset: number, what = 'header'): number {
+    this.require(offset, 3, what);
+    return this.bytes[offset] | (this.bytes[offset + 1] << 8) | (this.bytes[offset + 2] << 16);
+  }
+
+  u32be(offset: number, what = 'header'): number {
+    this.require(offset, 4, what);
+    const b = this.bytes;
+    return ((b[offset] << 24) | (b[offset + 1] << 16) | (b[offset + 2] << 8) | b[offset + 3]) >>> 0;
+  }
+
+  u32le(offset: number, what = 'header'): number {
+    this.require(offset, 4, what);
+    const b = this.bytes;
+    return (b[offset] | (b[offset + 1] << 8) | (b[offset + 2] << 16) | (b[offset + 3] << 24)) >>> 0;
+  }
+
+  // 64-bit box sizes; anything beyond 2^53 cannot be a real offset in memory
+  u64be(offset: number, what = 'header'): number {
+    const high = this.u32be(offset, what);
+    const low = this.u32be(offset + 4, what);
+    const value = high * 2 ** 32 + low;
+    if (!Number.isSafeInteger(value)) this.fail(`Box size ${value} is out of range`);
+    return value;
+  }
+
+  ascii(offset: number, length: number, what = 'header'): string {
+    this.require(offset, length, what);
+    return String.fromCharCode(...this.bytes.subarray(offset, offset + length));
+  }
+
+  fail(message: string): never {
+    throw new ImageParseError('malformed', this.format, message);
+  }
+}
+
+function checkDimensions(reader: ByteReader, width: number, height: number): void {
+  if (width < 1 || height < 1 || width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    reader.fail(`Invalid dimensions ${width}x${height}`);
+  }
+}
+
+export class ImageHeaderParser {
+  /**
+   * Dimensions from the header of an image in `format` (as returned by ImageProcessor.detectFormat).
+   * Throws ImageParseError when the header is missing, truncated or inconsistent.
+   */
+  static parse(bytes: Uint8Array, format: string): ImageHeader {
+    const reader = new ByteReader(bytes, format);
+    let header: ImageHeader;
+
+    switch (format) {
+      case 'jpeg':
+        header = this.parseJpeg(reader);
+        break;
+      case 'png':
+        header = this.parsePng(reader);
+        break;
+      case 'gif':
+        header = this.parseGif(reader);
+        break;
+      case 'webp':
+        header = this.parseWebp(reader);
+        break;
+      case 'avif':
+      case 'heic':
+      case 'heif':
+        header = this.parseIsobmff(reader);
+        break;
+      case 'jxl':
+        header = this.parseJxl(reader);
+        break;
+      default:
+        throw new ImageParseError('unsupported', format, `Unsupported format: ${format}`);
+    }
+
+    checkDimensions(reader, header.width, header.height);
+    return header;
+  }
+
+  /**
+   * Walks marker segments up to the first SOFn (baseline, extended, progressive, lossless,
+   * arithmetic). Fill bytes and standalone markers are skipped; reaching SOS or EOI first is an error.
+   */
+  private static parseJpeg(reader: ByteReader): ImageHeader {
+    if (reader.u8(0) !== 0xFF || reader.u8(1) !== 0xD8) {
+      reader.fail('Missing JPEG start-of-image marker');
+    }
+
+    let offset = 2;
+    for (;;) {
+      if (reader.u8(offset, 'marker segments') !== 0xFF) {
+        reader.fail(`Expected a JPEG marker at byte ${offset}`);
+      }
+      while (reader.u8(offset, 'marker segments') === 0xFF) offset++;
+      const marker = reader.u8(offset, 'marker segments');
+      offset++;
+
+      // RSTn and TEM have no length field
+      if ((marker >= 0xD0 && marker <= 0xD7) || marker === 0x01) continue;
+      if (marker === 0xDA || marker === 0xD9) {
+        reader.fail('JPEG has no frame header before its image data');
+      }
+
+      const length = reader.u16be(offset, 'marker segments');
+      if (length < 2) reader.fail(`Invalid JPEG segment length ${length}`);
+
+      if (JPEG_SOF_MARKERS.has(marker)) {
+        reader.require(offset, length, 'frame header');
+        if (length < 8) reader.fail('JPEG frame header is too short');
+        const height = reader.u16be(offset + 3);
+        const width = reader.u16be(offset + 5);
+        // A zero height is defined later by a DNL marker, which browsers do not support either
+        if (height === 0) reader.fail('JPEG frame height is deferred to a DNL marker');
+        return { width, height, rotation: 0 };
+      }
+      offset += length;
+    }
+  }
+
+  // Signature plus IHDR, which must be the first chunk; any valid bit depth (including 16) is accepted
+  private static parsePng(reader: ByteReader): ImageHeader {
+    PNG_SIGNATURE.forEach((byte, i) => {
+      if (reader.u8(i, 'signature') !== byte) reader.fail('Invalid PNG signature');
+    });
+    if (reader.u32be(8, 'IHDR chunk') !== 13 || reader.ascii(12, 4, 'IHDR chunk') !== 'IHDR') {
+      reader.fail('PNG does not start with an IHDR chunk');
+    }
+    reader.require(16, 17, 'IHDR chunk');
+
+    const width = reader.u32be(16);
+    const height = reader.u32be(20);
+    const bitDepth = reader.u8(24);
+    const colourType = reader.u8(25);
+    if (!PNG_BIT_DEPTHS[colourType]?.includes(bitDepth)) {
+      reader.fail(`Invalid PNG bit depth ${bitDepth} for colour type ${colourType}`);
+    }
+    return { width, height, rotation: 0 };
+  }
+
+  private static parseGif(reader: ByteReader): ImageHeader {
+    const signature = reader.ascii(0, 6, 'signature');
+    if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+      reader.fail('Invalid GIF signature');
+    }
+    return { width: reader.u16le(6), height: reader.u16le(8), rotation: 0 };
+  }
+
+  /**
+   * Simple files hold one VP8/VP8L chunk; extended files start with VP8X, whose canvas size
+   * wins. Animated files must contain ANMF frames that fit inside the canvas.
+   */
+  private static parseWebp(reader: ByteReader): ImageHeader {
+    if (reader.ascii(0, 4, 'RIFF header') !== 'RIFF' || reader.ascii(8, 4, 'RIFF header') !== 'WEBP') {
+      reader.fail('Invalid WebP RIFF header');
+    }
+
+    const type = reader.ascii(12, 4, 'first chunk');
+    const size = reader.u32le(16, 'first chunk');
+    const data = 20;
+
+    switch (type) {
+      case 'VP8 ': {
+        if (size < 10) reader.fail('VP8 chunk is too short');
+        reader.require(data, 10, 'VP8 frame header');
+        // Bit 0 of the frame tag is 0 for key frames, which carry the start code and size
+        if (reader.u8(data) & 0x01) reader.fail('VP8 chunk does not start with a key frame');
+        if (reader.u8(data + 3) !== 0x9D || reader.u8(data + 4) !== 0x01 || reader.u8(data + 5) !== 0x2A) {
+          reader.fail('Invalid VP8 start code');
+        }
+        return {
+          width: reader.u16le(data + 6) & 0x3FFF,
+          height: reader.u16le(data + 8) & 0x3FFF,
+          rotation: 0,
+        };
+      }
+      case 'VP8L': {
+        if (size < 5) reader.fail('VP8L chunk is too short');
+        if (reader.u8(data, 'VP8L header') !== 0x2F) reader.fail('Invalid VP8L signature');
+        const bits = reader.u32le(data + 1, 'VP8L header');
+        return { width: (bits & 0x3FFF) + 1, height: ((bits >>> 14) & 0x3FFF) + 1, rotation: 0 };
+      }
+      case 'VP8X': {
+        if (size < 10) reader.fail('VP8X chunk is too short');
+        const flags = reader.u8(data, 'VP8X chunk');
+        const width = reader.u24le(data + 4, 'VP8X chunk') + 1;
+        const height = reader.u24le(data + 7, 'VP8X chunk') + 1;
+        if (!(flags & WEBP_FLAG_ANIMATION)) {
+          return { width, height, rotation: 0 };
+        }
+        const frames = this.countWebpFrames(reader, data + size + (size & 1), width, height);
+        return { width, height, rotation: 0, frames };
+      }
+      default:
+        return reader.fail(`Unexpected first WebP chunk "${type}"`);
+    }
+  }
+
+  private static countWebpFrames(reader: ByteReader, from: number, canvasWidth: number, canvasHeight: number): number {
+    let frames = 0;
+    let offset = from;
+
+    while (offset + 8 <= reader.length) {
+      const type = reader.ascii(offset, 4);
+      const size = reader.u32le(offset + 4);
+      if (type === 'ANMF') {
+        if (size < 16) reader.fail('ANMF chunk is too short');
+        reader.require(offset + 8, 16, 'ANMF frame header');
+        // Offsets are stored divided by two; sizes minus one
+        const x = reader.u24le(offset + 8) * 2;
+        const y = reader.u24le(offset + 11) * 2;
+        const width = reader.u24le(offset + 14) + 1;
+        const height = reader.u24le(offset + 17) + 1;
+        if (x + width > canvasWidth || y + height > canvasHeight) {
+          reader.fail(`Animation frame ${frames + 1} lies outside the ${canvasWidth}x${canvasHeight} canvas`);
+        }
+        frames++;
+      }
+      offset += 8 + size + (size & 1);
+    }
+
+    if (frames === 0) {
+      throw new ImageParseError(offset > reader.length ? 'truncated' : 'malformed', reader.format, 'Animated WebP has no frames');
+    }
+    return frames;
+  }
+
+  /**
+   * AVIF/HEIF: `pitm` names the primary item, `ipma` links it to properties in `ipco`.
+   * Its `ispe` gives the coded size, `clap` an optional crop and `irot` the display rotation.
+   * Files without `pitm` fall back to the largest `ispe`.
+   */
+  private static parseIsobmff(reader: ByteReader): ImageHeader {
+    const meta = this.findBox(reader, 0, reader.length, 'meta');
+    if (!meta) reader.fail('No meta box');
+    // meta is a FullBox: skip version/flags
+    const metaChildren = this.childBoxes(reader, meta.start + 4, meta.end);
+    const iprp = metaChildren.find(box => box.type === 'iprp');
+    if (!iprp) reader.fail('No item properties (iprp) box');
+
+    const iprpChildren = this.childBoxes(reader, iprp.start, iprp.end);
+    const ipco = iprpChildren.find(box => box.type === 'ipco');
+    if (!ipco) reader.fail('No property container (ipco) box');
+    const properties = this.childBoxes(reader, ipco.start, ipco.end);
+
+    const pitm = metaChildren.find(box => box.type === 'pitm');
+    if (!pitm) {
+      const sizes = properties.filter(box => box.type === 'ispe').map(box => this.readIspe(reader, box));
+      if (sizes.length === 0) reader.fail('No image spatial extents (ispe) property');
+      const largest = sizes.reduce((best, size) => size.width * size.height > best.width * best.height ? size : best);
+      return { ...largest, rotation: 0 };
+    }
+
+    const primaryId = reader.u8(pitm.start, 'pitm box') === 0
+      ? reader.u16be(pitm.start + 4, 'pitm box')
+      : reader.u32be(pitm.start + 4, 'pitm box');
+
+    const iloc = metaChildren.find(box => box.type === 'iloc');
+    if (iloc && !this.readIlocItemIds(reader, iloc).includes(primaryId)) {
+      reader.fail(`Primary item ${primaryId} has no location (iloc) entry`);
+    }
+
+    const indices = iprpChildren
+      .filter(box => box.type === 'ipma')
+      .flatMap(box => this.readIpma(reader, box).get(primaryId) ?? []);
+    // Property indices are 1-based; 0 means "no property"
+    const linked = indices.filter(index => index > 0).map(index => {
+      const box = properties[index - 1];
+      if (!box) reader.fail(`Property index ${index} is out of range`);
+      return box;
+    });
+
+    const ispe = linked.find(box => box.type === 'ispe');
+    if (!ispe) reader.fail(`Primary item ${primaryId} has no ispe property`);
+    let { width, height } = this.readIspe(reader, ispe);
+
+    const clap = linked.find(box => box.type === 'clap');
+    if (clap) {
+      ({ width, height } = this.applyClap(reader, clap, width, height));
+    }
+
+    const irot = linked.find(box => box.type === 'irot');
+    const rotation = irot ? reader.u8(irot.start, 'irot box') & 0x03 : 0;
+    return { width, height, rotation };
+  }
+
+  private static readIspe(reader: ByteReader, box: Box): { width: number; height: number } {
+    reader.require(box.start, 12, 'ispe box');
+    return { width: reader.u32be(box.start + 4), height: reader.u32be(box.start + 8) };
+  }
+
+  // Clean aperture: width/height are fractions N/D that must lie within the coded size
+  private static applyClap(reader: ByteReader, box: Box, width: number, height: number): { width: number; height: number } {
+    reader.require(box.start, 32, 'clap box');
+    const widthN = reader.u32be(box.start);
+    const widthD = reader.u32be(box.start + 4);
+    const heightN = reader.u32be(box.start + 8);
+    const heightD = reader.u32be(box.start + 12);
+    if (!widthD || !heightD) reader.fail('clap box has a zero denominator');
+
+    const cropWidth = Math.floor(widthN / widthD);
+    const cropHeight = Math.floor(heightN / heightD);
+    if (cropWidth < 1 || cropHeight < 1 || cropWidth > width || cropHeight > height) {
+      reader.fail(`clap crop ${cropWidth}x${cropHeight} does not fit the ${width}x${height} image`);
+    }
+    return { width: cropWidth, height: cropHeight };
+  }
+
+  // item_ID -> property indices, for both the 7-bit and 15-bit (flags & 1) index forms
+  private static readIpma(reader: ByteReader, box: Box): Map<number, number[]> {
+    const version = reader.u8(box.start, 'ipma box');
+    const wideIndices = (reader.u8(box.start + 3, 'ipma box') & 0x01) === 1;
+    const entryCount = reader.u32be(box.start + 4, 'ipma box');
+    const associations = new Map<number, number[]>();
+    let offset = box.start + 8;
+
+    for (let i = 0; i < entryCount; i++) {
+      const itemId = version < 1 ? reader.u16be(offset, 'ipma box') : reader.u32be(offset, 'ipma box');
+      offset += version < 1 ? 2 : 4;
+      const count = reader.u8(offset, 'ipma box');
+      offset++;
+      const indices: number[] = [];
+      for (let j = 0; j < count; j++) {
+        // The top bit marks the property as essential
+        indices.push(wideIndices ? reader.u16be(offset, 'ipma box') & 0x7FFF : reader.u8(offset, 'ipma box') & 0x7F);
+        offset += wideIndices ? 2 : 1;
+      }
+      if (offset > box.end) reader.fail('ipma entries run past the end of the box');
+      associations.set(itemId, indices);
+    }
+    return associations;
+  }
+
+  private static readIlocItemIds(reader: ByteReader, box: Box): number[] {
+    const version = reader.u8(box.start, 'iloc box');
+    const offsetSize = reader.u8(box.start + 4, 'iloc box') >> 4;
+    const lengthSize = reader.u8(box.start + 4, 'iloc box') & 0x0F;
+    const baseOffsetSize = reader.u8(box.start + 5, 'iloc box') >> 4;
+    const indexSize = version === 1 || version === 2 ? reader.u8(box.start + 5, 'iloc box') & 0x0F : 0;
+    let offset = box.start + 6;
+    const itemCount = version < 2 ? reader.u16be(offset, 'iloc box') : reader.u32be(offset, 'iloc box');
+    offset += version < 2 ? 2 : 4;
+
+    const ids: number[] = [];
+    for (let i = 0; i < itemCount; i++) {
+      ids.push(version < 2 ? reader.u16be(offset, 'iloc box') : reader.u32be(offset, 'iloc box'));
+      offset += version < 2 ? 2 : 4;
+      // construction_method (versions 1 and 2) and data_reference_index
+      offset += (version === 1 || version === 2 ? 2 : 0) + 2 + baseOffsetSize;
+      const extentCount = reader.u16be(offset, 'iloc box');
+      offset += 2 + extentCount * (indexSize + offsetSize + lengthSize);
+      if (offset > box.end) reader.fail('iloc entries run past the end of the box');
+    }
+    return ids;
+  }
+
+  // First box of `type` among the siblings in [from, to); boxes after it are not inspected
+  private static findBox(reader: ByteReader, from: number, to: number, type: string): Box | null {
+    let offset = from;
+    while (offset + 8 <= to) {
+      const box = this.readBox(reader, offset, to);
+      if (box.type === type) return box;
+      offset = box.end;
+    }
+    return null;
+  }
+
+  private static childBoxes(reader: ByteReader, from: number, to: number): Box[] {
+    const boxes: Box[] = [];
+    let offset = from;
+    while (offset + 8 <= to) {
+      const box = this.readBox(reader, offset, to);
+      boxes.push(box);
+      offset = box.end;
+    }
+    return boxes;
+  }
+
+  // Size 1 means a 64-bit size follows the type; size 0 extends to the end of the parent
+  private static readBox(reader: ByteReader, offset: number, parentEnd: number): Box {
+    let size = reader.u32be(offset, 'box header');
+    const type = reader.ascii(offset + 4, 4, 'box header');
+    let headerSize = 8;
+    if (size === 1) {
+      size = reader.u64be(offset + 8, 'box header');
+      headerSize = 16;
+    } else if (size === 0) {
+      size = parentEnd - offset;
+    }
+
+    if (size < headerSize) reader.fail(`Invalid size ${size} for box "${type}"`);
+    if (offset + size > parentEnd) {
+      if (parentEnd === reader.length) {
+        throw new ImageParseError('truncated', reader.format, `File ends inside the "${type}" box`);
+      }
+      reader.fail(`Box "${type}" overruns its parent`);
+    }
+    return { type, start: offset + headerSize, end: offset + size };
+  }
+
+  // SizeHeader right after the FF 0A codestream signature (bare or inside a jxlc/jxlp box)
+  private static parseJxl(reader: ByteReader): ImageHeader {
+    const codestream = this.findJxlCodestream(reader);
+
+    // Fields are packed LSB-first
+    let bitPos = (codestream + 2) * 8;
+    const read = (count: number): number => {
+      let value = 0;
+      for (let i = 0; i < count; i++) {
+        const byte = reader.u8(bitPos >> 3, 'JPEG XL size header');
+        value += ((byte >> (bitPos & 7)) & 1) * 2 ** i;
+        bitPos++;
+      }
+      return value;
+    };
+    // U32(1 + u(9), 1 + u(13), 1 + u(18), 1 + u(30))
+    const readDimension = (): number => 1 + read([9, 13, 18, 30][read(2)]);
+
+    const small = read(1) === 1;
+    const height = small ? (read(5) + 1) * 8 : readDimension();
+    const ratio = read(3);
+    let width: number;
+    if (ratio === 0) {
+      width = small ? (read(5) + 1) * 8 : readDimension();
+    } else {
+      const [num, den] = JXL_RATIOS[ratio - 1];
+      width = Math.floor(height * num / den);
+    }
+    return { width, height, rotation: 0 };
+  }
+
+  private static findJxlCodestream(reader: ByteReader): number {
+    if (reader.u8(0) === 0xFF && reader.u8(1) === 0x0A) return 0;
+
+    let offset = 0;
+    while (offset + 8 <= reader.length) {
+      const box = this.readBox(reader, offset, reader.length);
+      if (box.type === 'jxlc') return this.checkJxlSignature(reader, box.start);
+      // jxlp starts with a 4-byte sequence index
+      if (box.type === 'jxlp') return this.checkJxlSignature(reader, box.start + 4);
+      offset = box.end;
+    }
+    return reader.fail('No JPEG XL codestream box');
+  }
+
+  private static checkJxlSignature(reader: ByteReader, offset: number): number {
+    if (reader.u8(offset, 'codestream') !== 0xFF || reader.u8(offset + 1, 'codestream') !== 0x0A) {
+      reader.fail('Invalid JPEG XL codestream signature');
+    }
+    return offset;
+  }
+}
@@ -1,18 +1,43 @@
 // Image Processor Service
 // Note: Full WebP/AVIF conversion requires photon-rs WASM or Cloudflare Image Resizing
 // This is a basic implementation that handles format detection and orientation
+import type { ImageExif } from '../types';
+import { ExifParser } from './exifParser';
+import { ImageHeaderParser } from './imageHeader';
+
+// HEIF brands (ftyp major/compatible) that identify HEVC-coded images
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+const HEIF_BRANDS = ['mif1', 'msf1', 'heif'];
+
+// Browsers cannot display these, so uploads always get WebP/AVIF copies
+const NON_BROWSER_FORMATS = ['heic', 'heif', 'jxl'];
+
+// SVG root after an optional XML declaration, comments and DOCTYPE
+const SVG_PROLOG = /^\uFEFF?\s*(?:<\?xml[\s\S]*?\?>\s*)?(?:<!--[\s\S]*?-->\s*|<!DOCTYPE[^[>]*(?:\[[\s\S]*?\])?\s*>\s*)*<(?:[\w.-]+:)?svg[\s/>]/i;
+const SVG_HEADER_BYTES = 4096;
+// CSS absolute units in px; percentages and font-relative units fall back to the viewBox
+const SVG_UNITS: Record<string, number> = { '': 1, px: 1, pt: 4 / 3, pc: 16, in: 96, cm: 96 / 2.54, mm: 96 / 25.4 };
+// Browser default size of a replaced element without intrinsic dimensions
+const SVG_DEFAULT_SIZE = { width: 300, height: 150 };
+// Formats whose display orientation comes from the EXIF Orientation tag
+const EXIF_ORIENTED_FORMATS = ['jpeg', 'png', 'webp'];
+// Clockwise rotation that turns the stored pixels upright, for the EXIF orientations without a mirror
+const ORIENTATION_ROTATION: Record<number, 90 | 180 | 270> = { 3: 180, 6: 90, 8: 270 };
 
 export interface ImageInfo {
   width: number;
   height: number;
   format: string;
   orientation: 'landscape' | 'portrait';
+  exif: ImageExif | null;
+  // EXIF Orientation (1-8) of JPEG/PNG/WebP files; width/height above already have it applied
+  exifOrientation?: number;
 }
 
 export class ImageProcessor {
   // Detect image format from magic bytes
   static detectFormat(data: ArrayBuffer): string {
-    const bytes = new Uint8Array(data.slice(0, 12));
+    const bytes = new Uint8Array(data.slice(0, 64));
 
     // JPEG: FF D8 FF
     if (bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) {
@@ -35,153 +60,99 @@ export class ImageProcessor {
       return 'webp';
     }
 
-    // AVIF: Check for ftyp box with avif brand
+    // ISOBMFF (AVIF/HEIC/HEIF): ftyp box, decided by major + compatible brands
     if (bytes[4] === 0x66 && bytes[5] === 0x74 && bytes[6] === 0x79 && bytes[7] === 0x70) {
-      const brand = String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11]);
-      if (brand === 'avif' || brand === 'avis') {
+      const brands = this.getFtypBrands(bytes);
+      if (brands.includes('avif') || brands.includes('avis')) {
         return 'avif';
       }
+      if (brands.some(brand => HEIC_BRANDS.includes(brand))) {
+        return 'heic';
+      }
+      if (brands.some(brand => HEIF_BRANDS.includes(brand))) {
+        return 'heif';
+      }
     }
 
-    return 'unknown';
-  }
-
-  // Get image dimensions (basic implementation for JPEG and PNG)
-  static async getImageDimensions(data: ArrayBuffer): Promise<{ width: number; height: number }> {
-    const bytes = new Uint8Array(data);
-    const format = this.detectFormat(data);
+    // JPEG XL: bare codestream FF 0A, or container signature box "JXL "
+    if (bytes[0] === 0xFF && bytes[1] === 0x0A) {
+      return 'jxl';
+    }
+    if (bytes[0] === 0x00 && bytes[1] === 0x00 && bytes[2] === 0x00 && bytes[3] === 0x0C &&
+        bytes[4] === 0x4A && bytes[5] === 0x58 && bytes[6] === 0x4C && bytes[7] === 0x20) {
+      return 'jxl';
+    }
 
-    switch (format) {
-      case 'png':
-        return this.getPngDimensions(bytes);
-      case 'jpeg':
-        return this.getJpegDimensions(bytes);
-      case 'gif':
-        return this.getGifDimensions(bytes);
-      case 'webp':
-        return this.getWebpDimensions(bytes);
-      case 'avif':
-        return this.getAvifDimensions(bytes);
-      default:
-        // Default fallback for unknown formats
-        return { width: 1920, height: 1080 };
+    // SVG is text: look for the root element in the first few KB
+    if (SVG_PROLOG.test(new TextDecoder().decode(data.slice(0, SVG_HEADER_BYTES)))) {
+      return 'svg';
     }
-  }
 
-  private static getPngDimensions(bytes: Uint8Array): { width: number; height: number } {
-    // PNG stores dimensions at byte 16-23 in big-endian
-    const width = (bytes[16] << 24) | (bytes[17] << 16) | (bytes[18] << 8) | bytes[19];
-    const height = (bytes[20] << 24) | (bytes[21] << 16) | (bytes[22] << 8) | bytes[23];
-    return { width, height };
+    return 'unknown';
   }
 
-  private static getJpegDimensions(bytes: Uint8Array): { width: number; height: number } {
-    // JPEG dimensions are in SOF markers
-    let i = 2;
-    while (i < bytes.length) {
-      if (bytes[i] !== 0xFF) {
-        i++;
-        continue;
-      }
-
-      const marker = bytes[i + 1];
-
-      // SOF markers (Start of Frame)
-      if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
-        const height = (bytes[i + 5] << 8) | bytes[i + 6];
-        const width = (bytes[i + 7] << 8) | bytes[i + 8];
-        return { width, height };
-      }
-
-      // Skip to next marker
-      const length = (bytes[i + 2] << 8) | bytes[i + 3];
-      i += 2 + length;
+  // Major brand followed by the compatible brands of the leading ftyp box
+  private static getFtypBrands(bytes: Uint8Array): string[] {
+    const boxSize = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+    const end = Math.min(boxSize, bytes.length);
+    const brands = [String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11])];
+    // Skip major brand (4) and minor version (4)
+    for (let offset = 16; offset + 4 <= end; offset += 4) {
+      brands.push(String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]));
     }
-
-    return { width: 1920, height: 1080 };
+    return brands;
   }
 
-  private static getGifDimensions(bytes: Uint8Array): { width: number; height: number } {
-    // GIF dimensions at bytes 6-9 in little-endian
-    const width = bytes[6] | (bytes[7] << 8);
-    const height = bytes[8] | (bytes[9] << 8);
+  /**
+   * Stored pixel size, before EXIF orientation or irot is applied.
+   * Throws ImageParseError when the header is missing, truncated or inconsistent.
+   */
+  static async getImageDimensions(data: ArrayBuffer): Promise<{ width: number; height: number }> {
+    const format = this.detectFormat(data);
+    if (format === 'svg') {
+      return this.getSvgDimensions(new TextDecoder().decode(data));
+    }
+    const { width, height } = ImageHeaderParser.parse(new Uint8Array(data), format);
     return { width, height };
   }
 
-  private static getWebpDimensions(bytes: Uint8Array): { width: number; height: number } {
-    // WebP file structure:
-    // bytes 0-3: "RIFF"
-    // bytes 4-7: file size
-    // bytes 8-11: "WEBP"
-    // bytes 12-15: chunk type ("VP8 ", "VP8L", "VP8X")
-
-    // Check for VP8X (extended format) - bytes 12-15 = "VP8X"
-    if (bytes[12] === 0x56 && bytes[13] === 0x50 && bytes[14] === 0x38 && bytes[15] === 0x58) {
-      // VP8X: width at bytes 24-26 (little-endian, 24-bit) + 1
-      // height at bytes 27-29 (little-endian, 24-bit) + 1
-      const width = (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)) + 1;
-      const height = (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)) + 1;
-      return { width, height };
-    }
-
-    // Check for VP8L (lossless) - bytes 12-15 = "VP8L"
-    if (bytes[12] === 0x56 && bytes[13] === 0x50 && bytes[14] === 0x38 && bytes[15] === 0x4C) {
-      // VP8L: signature byte at 20, then 4 bytes for width/height
-      const b0 = bytes[21];
-      const b1 = bytes[22];
-      const b2 = bytes[23];
-      const b3 = bytes[24];
-      const width = ((b0 | (b1 << 8)) & 0x3FFF) + 1;
-      const height = (((b1 >> 6) | (b2 << 2) | (b3 << 10)) & 0x3FFF) + 1;
-      return { width, height };
-    }
-
-    // Check for VP8 (lossy) - bytes 12-15 = "VP8 "
-    if (bytes[12] === 0x56 && bytes[13] === 0x50 && bytes[14] === 0x38 && bytes[15] === 0x20) {
-      // VP8: skip to frame header, width at bytes 26-27, height at 28-29
-      const width = (bytes[26] | (bytes[27] << 8)) & 0x3FFF;
-      const height = (bytes[28] | (bytes[29] << 8)) & 0x3FFF;
-      return { width, height };
-    }
-
-    return { width: 1920, height: 1080 }; // fallback
-  }
+  // width/height on the root element, completed from the viewBox aspect ratio when one is missing
+  static getSvgDimensions(svg: string): { width: number; height: number } {
+    const root = /<(?:[\w.-]+:)?svg\b([^>]*)>/i.exec(svg);
+    if (!root) return SVG_DEFAULT_SIZE;
 
-  private static getAvifDimensions(bytes: Uint8Array): { width: number; height: number } {
-    // AVIF uses ISOBMFF container, need to find 'ispe' box for dimensions
-    let offset = 0;
-
-    while (offset < bytes.length - 8) {
-      const boxSize = (bytes[offset] << 24) | (bytes[offset + 1] << 16) |
-                      (bytes[offset + 2] << 8) | bytes[offset + 3];
-      const boxType = String.fromCharCode(
-        bytes[offset + 4], bytes[offset + 5],
-        bytes[offset + 6], bytes[offset + 7]
-      );
-
-      if (boxSize === 0) break; // Invalid box
-
-      // 'ispe' box contains width and height
-      if (boxType === 'ispe') {
-        // ispe box: 4 bytes version/flags, then 4 bytes width, 4 bytes height
-        const width = (bytes[offset + 12] << 24) | (bytes[offset + 13] << 16) |
-                      (bytes[offset + 14] << 8) | bytes[offset + 15];
-        const height = (bytes[offset + 16] << 24) | (bytes[offset + 17] << 16) |
-                       (bytes[offset + 18] << 8) | bytes[offset + 19];
-        return { width, height };
-      }
+    const attribute = (name: string): string | undefined => {
+      const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i').exec(root[1]);
+      return match ? (match[1] ?? match[2]) : undefined;
+    };
+    const length = (value: string | undefined): number | undefined => {
+      const match = value?.trim().match(/^([\d.]+(?:e[+-]?\d+)?)\s*([a-z]*)$/i);
+      const factor = match ? SVG_UNITS[match[2].toLowerCase()] : undefined;
+      const px = match && factor ? parseFloat(match[1]) * factor : NaN;
+      return px > 0 ? px : undefined;
+    };
 
-      // Container boxes that we need to descend into
-      if (['meta', 'iprp', 'ipco'].includes(boxType)) {
-        // Skip box header (8 bytes) or full box header (12 bytes for 'meta')
-        offset += boxType === 'meta' ? 12 : 8;
-        continue;
+    const viewBox = (attribute('viewBox') ?? '').trim().split(/[\s,]+/).map(Number);
+    const hasViewBox = viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0;
+    let width = length(attribute('width'));
+    let height = length(attribute('height'));
+
+    if (hasViewBox) {
+      const [, , boxWidth, boxHeight] = viewBox;
+      if (width === undefined && height === undefined) {
+        width = boxWidth;
+        height = boxHeight;
+      } else if (width === undefined) {
+        width = height! * boxWidth / boxHeight;
+      } else if (height === undefined) {
+        height = width * boxHeight / boxWidth;
       }
-
-      offset += boxSize;
     }
 
-    return { width: 1920, height: 1080 }; // fallback
+    return {
+      width: Math.max(1, Math.round(width ?? SVG_DEFAULT_SIZE.width)),
+      height: Math.max(1, Math.round(height ?? SVG_DEFAULT_SIZE.height)),
+    };
   }
 
   // Detect orientation based on dimensions
@@ -189,13 +160,28 @@ export class ImageProcessor {
     return width >= height ? 'landscape' : 'portrait';
   }
 
-  // Get full image info
+  // Clockwise rotation (for the IMAGES binding) that makes an EXIF-oriented image upright; mirrored orientations have none
+  static rotationFor(exifOrientation: number | undefined): 90 | 180 | 270 | undefined {
+    return exifOrientation !== undefined ? ORIENTATION_ROTATION[exifOrientation] : undefined;
+  }
+
+  // Get full image info; width, height and orientation describe the image as displayed
+  // Throws ImageParseError for unreadable headers (see getImageDimensions)
   static async getImageInfo(data: ArrayBuffer): Promise<ImageInfo> {
     const format = this.detectFormat(data);
-    const { width, height } = await this.getImageDimensions(data);
+    const header = format === 'svg'
+      ? { ...this.getSvgDimensions(new TextDecoder().decode(data)), rotation: 0 }
+      : ImageHeaderParser.parse(new Uint8Array(data), format);
+    const exifOrientation = EXIF_ORIENTED_FORMATS.includes(format) ? ExifParser.orientation(data, format) : undefined;
+    // EXIF orientations 5-8 and irot quarter turns display the stored pixels transposed
+    const transposed = (exifOrientation !== undefined && exifOrientation >= 5) || header.rotation % 2 === 1;
+    const { width, height } = transposed
+      ? { width: header.height, height: header.width }
+      : header;
     const orientation = this.detectOrientation(width, height);
+    const exif = ExifParser.extract(data, format);
 
-    return { width, height, format, orientation };
+    return { width, height, format, orientation, exif, exifOrientation };
   }
 
   // Get content type for format
@@ -206,7 +192,11 @@ export class ImageProcessor {
       png: 'image/png',
       gif: 'image/gif',
       webp: 'image/webp',
-      avif: 'image/avif'
+      avif: 'image/avif',
+      heic: 'image/heic',
+      heif: 'image/heif',
+      jxl: 'image/jxl',
+      svg: 'image/svg+xml'
     };
     return types[format] || 'application/octet-stream';
   }
@@ -219,17 +209,26 @@ export class ImageProcessor {
       png: 'png',
       gif: 'gif',
       webp: 'webp',
-      avif: 'avif'
+      avif: 'avif',
+      heic: 'heic',
+      heif: 'heif',
+      jxl: 'jxl',
+      svg: 'svg'
     };
     return extensions[format] || format;
   }
 
   // Check if format is supported
   static isSupportedFormat(format: string): boolean {
-    const supported = ['jpeg', 'jpg', 'png', 'gif', 'webp', 'avif'];
+    const supported = ['jpeg', 'jpg', 'png', 'gif', 'webp', 'avif', 'heic', 'heif', 'jxl', 'svg'];
     return supported.includes(format.toLowerCase());
   }
 
+  // Formats browsers cannot display; their WebP/AVIF copies are mandatory
+  static needsBrowserCopy(format: string): boolean {
+    return NON_BROWSER_FORMATS.includes(format.toLowerCase());
+  }
+
   // Validate file size
   static isValidFileSize(size: number, maxSize: number = 10 * 1024 * 1024): boolean {
     return size <= maxSize;
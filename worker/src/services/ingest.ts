@@ -0,0 +1,447 @@
+// Upload pipeline shared by every way an image enters the library (form upload, resumable sessions, remote URLs)
+import type { CompressionOptions, DuplicatePolicy, Env, ImageMetadata, ImageVariant, ImageVisibility, PrivacyOptions, UploadResult } from '../types';
+import { StorageService } from './storage';
+import { MetadataService } from './metadata';
+import { CacheService } from './cache';
+import { ImageProcessor } from './imageProcessor';
+import { SvgSanitizer } from './svgSanitizer';
+import { ImageParseError } from './imageHeader';
+import { MetadataStripper } from './metadataStripper';
+import { PerceptualHash } from './perceptualHash';
+import { ColorPalette } from './colorPalette';
+import { ThumbHash } from './thumbHash';
+import { CompressionService, parseCompressionOptions, parsePrivacyOptions } from './compression';
+import { resolveImageUrls, resolveVariantUrls } from './signing';
+import { generateImageId, parseTags, parseNumber, parseWidthLadder, validateDuplicatePolicy, validateVisibility } from '../utils/validation';
+import { randomHex, sha256Hex } from '../utils/crypto';
+import { deriveFormatFields, imageFileKeys } from '../utils/variants';
+
+// Maximum file size: 70MB (Cloudflare Images Binding limit)
+export const MAX_FILE_SIZE = 70 * 1024 * 1024;
+// Cloudflare Images transformation limit: 10MB (fallback to Transform-URL for larger images)
+const CLOUDFLARE_IMAGES_MAX_BYTES = 10 * 1024 * 1024;
+// Responsive widths used when neither the request nor RESPONSIVE_WIDTHS sets a ladder
+const DEFAULT_RESPONSIVE_WIDTHS = '320,640,1280,1920';
+// Longer side of the raster preview generated for SVG uploads
+const SVG_PREVIEW_SIZE = 800;
+
+// An upload refused for a reason the client can act on; `status` is the HTTP status to answer with
+export class UploadRejectedError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+// Reason and status for an upload refused for something the client can act on; null for anything else
+export function rejectionOf(err: unknown): { message: string; status: number } | null {
+  if (err instanceof UploadRejectedError) {
+    return { message: err.message, status: err.status };
+  }
+  if (err instanceof ImageParseError) {
+    console.warn(`Rejected ${err.format} upload (${err.code}):`, err.message);
+    return { message: `Invalid ${err.format.toUpperCase()} file: ${err.message}`, status: 400 };
+  }
+  return null;
+}
+
+// Per-upload settings, read from the upload form fields with environment defaults
+export interface UploadOptions {
+  tags: string[];
+  expiryMinutes: number;
+  compressionOptions: CompressionOptions;
+  privacyOptions: PrivacyOptions;
+  autoRotate: boolean;
+  responsiveWidths: number[];
+  visibility: ImageVisibility;
+  duplicatePolicy: DuplicatePolicy;
+}
+
+/**
+ * Reads the upload settings from form fields (everything except the file itself).
+ * Throws UploadRejectedError for invalid values.
+ */
+export function parseUploadOptions(formData: FormData, env: Env): UploadOptions {
+  const autoRotateField = formData.get('autoRotate');
+  // An explicitly empty field or variable turns responsive variants off
+  const widthsField = formData.get('responsiveWidths');
+  const visibilityField = formData.get('visibility');
+  const visibility = visibilityField === null ? 'public' : validateVisibility(visibilityField);
+  const duplicateField = formData.get('onDuplicate');
+  const duplicatePolicy = duplicateField === null ? 'reuse' : validateDuplicatePolicy(duplicateField);
+
+  if (!visibility) {
+    throw new UploadRejectedError('visibility must be public or private');
+  }
+  if (!duplicatePolicy) {
+    throw new UploadRejectedError('onDuplicate must be reuse or reject');
+  }
+  if (visibility === 'private' && !env.SIGNING_SECRET) {
+    throw new UploadRejectedError('Private uploads require SIGNING_SECRET to be configured', 500);
+  }
+
+  return {
+    tags: parseTags(formData.get('tags') as string | null),
+    expiryMinutes: parseNumber(formData.get('expiryMinutes') as string | null, 0),
+    compressionOptions: parseCompressionOptions(formData),
+    privacyOptions: parsePrivacyOptions(formData, env),
+    autoRotate: typeof autoRotateField === 'string' ? autoRotateField !== 'false' : env.AUTO_ROTATE === 'true',
+    responsiveWidths: parseWidthLadder(
+      typeof widthsField === 'string' ? widthsField : (env.RESPONSIVE_WIDTHS ?? DEFAULT_RESPONSIVE_WIDTHS)
+    ),
+    visibility,
+    duplicatePolicy,
+  };
+}
+
+export class ImageIngestService {
+  /**
+   * `origin` is used to build the returned URLs; `waitUntil` keeps cache invalidation running
+   * after the response (pass the execution context's, or await the promise outside a request).
+   */
+  constructor(
+    private env: Env,
+    private origin: string,
+    private waitUntil: (promise: Promise<unknown>) => void
+  ) {}
+
+  /**
+   * Stores an uploaded file: format checks, deduplication, sanitising/rotating/stripping, compressed copies,
+   * responsive variants and analysis, then the metadata record.
+   * Throws UploadRejectedError (or ImageParseError for damaged files) when the file is refused.
+   */
+  async ingest(name: string, data: ArrayBuffer, options: UploadOptions): Promise<UploadResult> {
+    const {
+      tags, expiryMinutes, compressionOptions, privacyOptions, autoRotate, responsiveWidths, visibility, duplicatePolicy,
+    } = options;
+    const originalSize = data.byteLength;
+    const storage = new StorageService(this.env.R2_BUCKET);
+    const metadata = new MetadataService(this.env.DB);
+    const compression = this.env.IMAGES ? new CompressionService(this.env.IMAGES) : null;
+
+    let arrayBuffer = data;
+
+    const detectedFormat = ImageProcessor.detectFormat(arrayBuffer);
+    if (!ImageProcessor.isSupportedFormat(detectedFormat)) {
+      throw new UploadRejectedError(`Unsupported format: ${detectedFormat}`);
+    }
+
+    // Deduplication key: the file as uploaded, before sanitising, rotating or stripping
+    const contentHash = await sha256Hex(arrayBuffer);
+    const existing = await metadata.getImageByContentHash(contentHash);
+    if (existing) {
+      return this.duplicateResult(existing, tags, duplicatePolicy);
+    }
+
+    // Get image info; a damaged header throws ImageParseError for the caller to report
+    let imageInfo = await ImageProcessor.getImageInfo(arrayBuffer);
+
+    // SVG is only stored sanitised; dimensions are read from the cleaned markup
+    if (imageInfo.format === 'svg') {
+      const sanitized = SvgSanitizer.sanitize(new TextDecoder().decode(arrayBuffer));
+      if (!sanitized) {
+        throw new UploadRejectedError('Invalid SVG file');
+      }
+      arrayBuffer = new TextEncoder().encode(sanitized).buffer as ArrayBuffer;
+      imageInfo = await ImageProcessor.getImageInfo(arrayBuffer);
+    }
+
+    // Auto-rotate: turn the pixels upright so the original no longer relies on viewers applying EXIF orientation.
+    // Only needs the IMAGES binding; mirrored orientations are left to the EXIF tag.
+    const rotation = ImageProcessor.rotationFor(imageInfo.exifOrientation);
+    if (autoRotate && rotation && compression && arrayBuffer.byteLength <= CLOUDFLARE_IMAGES_MAX_BYTES) {
+      // exifOrientation is only set for JPEG, PNG and WebP
+      const rotated = await compression.rotate(
+        arrayBuffer, imageInfo.format as 'jpeg' | 'png' | 'webp', rotation, compressionOptions.quality
+      );
+      if (rotated) {
+        arrayBuffer = rotated.data;
+      }
+    }
+
+    // Privacy mode: the stored original (and everything derived from it) carries no EXIF/XMP/IPTC.
+    // Capture details are still recorded, except for the GPS position.
+    let metadataStripped = false;
+    if (privacyOptions.stripMetadata && MetadataStripper.canStrip(imageInfo.format)) {
+      const stripped = MetadataStripper.strip(arrayBuffer, imageInfo.format, privacyOptions.keepOrientation);
+      if (!stripped) {
+        throw new UploadRejectedError('Failed to remove image metadata');
+      }
+      const exif = imageInfo.exif ? { ...imageInfo.exif } : null;
+      delete exif?.latitude;
+      delete exif?.longitude;
+      arrayBuffer = stripped;
+      metadataStripped = true;
+      // Re-read the dimensions: without an orientation tag the stored pixels are shown as they are
+      imageInfo = {
+        ...(await ImageProcessor.getImageInfo(stripped)),
+        exif: exif && Object.keys(exif).length > 0 ? exif : null,
+      };
+    }
+
+    // HEIC/HEIF/JPEG XL cannot be shown by browsers, so a stored WebP/AVIF copy is mandatory
+    const needsBrowserCopy = ImageProcessor.needsBrowserCopy(imageInfo.format);
+    if (needsBrowserCopy && (!compression || originalSize > CLOUDFLARE_IMAGES_MAX_BYTES)) {
+      throw new UploadRejectedError(
+        `${imageInfo.format.toUpperCase()} uploads require the Images binding and a file under ${CLOUDFLARE_IMAGES_MAX_BYTES / 1024 / 1024}MB`,
+        415
+      );
+    }
+    const effectiveOptions = needsBrowserCopy
+      ? { ...compressionOptions, generateWebp: true, generateAvif: true }
+      : compressionOptions;
+
+    // Perceptual hash, dominant colours and placeholder, rendered while the files are stored
+    const canAnalyse = compression && arrayBuffer.byteLength <= CLOUDFLARE_IMAGES_MAX_BYTES;
+    const perceptualHashPromise = canAnalyse
+      ? PerceptualHash.compute(compression, arrayBuffer)
+      : Promise.resolve(null);
+    const colorsPromise = canAnalyse
+      ? ColorPalette.compute(compression, arrayBuffer)
+      : Promise.resolve(null);
+    const thumbHashPromise = canAnalyse
+      ? ThumbHash.compute(compression, arrayBuffer, imageInfo.width, imageInfo.height)
+      : Promise.resolve(null);
+
+    // Generate unique ID and paths
+    const id = generateImageId();
+    const privateToken = visibility === 'private' ? randomHex(8) : undefined;
+    // An SVG original never gets a public key: the bucket cannot send the CSP, so it is only served by /i/:id
+    const originalToken = privateToken ?? (imageInfo.format === 'svg' ? randomHex(8) : undefined);
+    const generatedPaths = StorageService.generatePaths(id, imageInfo.orientation, imageInfo.format, originalToken);
+    const contentType = ImageProcessor.getContentType(imageInfo.format);
+
+    const isGif = imageInfo.format === 'gif';
+    const isWebp = imageInfo.format === 'webp';
+    const isAvif = imageInfo.format === 'avif';
+    const isSvg = imageInfo.format === 'svg';
+    const shouldSkipProcessing = isGif || isWebp || isAvif || isSvg;
+    const wantsWebp = effectiveOptions.generateWebp !== false;
+    const wantsAvif = effectiveOptions.generateAvif !== false;
+    const variants: ImageVariant[] = [];
+    // Nothing stored for this format: it is converted from the original on request
+    const transformVariant = (format: 'webp' | 'avif'): ImageVariant => ({
+      kind: 'transform', format, width: imageInfo.width, height: imageInfo.height, path: '', size: 0,
+    });
+
+    // Always upload original (GIF only stores original)
+    const originalUploadPromise = storage.upload(generatedPaths.original, arrayBuffer, contentType);
+
+    // Advanced formats: do not recompress; the original already is the best format
+    if (shouldSkipProcessing) {
+      await originalUploadPromise;
+    } else if (compression && originalSize <= CLOUDFLARE_IMAGES_MAX_BYTES) {
+      const compressionPromise = compression.compress(arrayBuffer, imageInfo.format, effectiveOptions);
+
+      // Ensure original is uploaded while compression runs
+      await originalUploadPromise;
+
+      const compressionResult = await compressionPromise;
+      const uploadPromises: Promise<void>[] = [];
+
+      for (const format of ['webp', 'avif'] as const) {
+        const wanted = format === 'webp' ? wantsWebp : wantsAvif;
+        const compressed = compressionResult[format];
+        if (!wanted) continue;
+
+        // If compression failed for this format, fall back to converting on request
+        if (!compressed) {
+          variants.push(transformVariant(format));
+          continue;
+        }
+
+        const path = generatedPaths[format];
+        uploadPromises.push(
+          storage.upload(path, compressed.data, `image/${format}`).then(() => {
+            variants.push({
+              kind: 'format',
+              format,
+              width: compressed.width ?? imageInfo.width,
+              height: compressed.height ?? imageInfo.height,
+              path,
+              size: compressed.size,
+            });
+          })
+        );
+      }
+
+      if (uploadPromises.length > 0) {
+        await Promise.all(uploadPromises);
+      }
+
+      if (needsBrowserCopy && !variants.some(v => v.kind === 'format')) {
+        await storage.delete(generatedPaths.original);
+        throw new UploadRejectedError(`Failed to convert ${imageInfo.format.toUpperCase()} to a browser format`, 422);
+      }
+    } else {
+      // Skip compression (too large or no Images binding): store original + convert on request
+      await originalUploadPromise;
+      if (wantsWebp) variants.push(transformVariant('webp'));
+      if (wantsAvif) variants.push(transformVariant('avif'));
+    }
+
+    // Optional raster preview for gallery cards; the SVG itself stays the original
+    if (isSvg && compression) {
+      const preview = await compression.rasterize(
+        arrayBuffer,
+        { width: imageInfo.width, height: imageInfo.height },
+        SVG_PREVIEW_SIZE,
+        compressionOptions.quality
+      );
+      if (preview) {
+        const path = StorageService.generatePreviewPath(id, imageInfo.orientation, privateToken);
+        await storage.upload(path, preview.image.data, 'image/webp');
+        variants.push({
+          kind: 'preview',
+          format: 'webp',
+          width: preview.width,
+          height: preview.height,
+          path,
+          size: preview.image.size,
+        });
+      }
+    }
+
+    // Responsive width ladder (GIF keeps its animation and SVG is vector, so neither is resized)
+    const variantFormats = [
+      ...(wantsWebp ? ['webp' as const] : []),
+      ...(wantsAvif ? ['avif' as const] : []),
+    ];
+    if (compression && !isGif && !isSvg && originalSize <= CLOUDFLARE_IMAGES_MAX_BYTES
+      && responsiveWidths.length > 0 && variantFormats.length > 0) {
+      const generated = await compression.generateVariants(
+        arrayBuffer,
+        { width: imageInfo.width, height: imageInfo.height },
+        responsiveWidths,
+        variantFormats,
+        compressionOptions.quality
+      );
+      await Promise.all(generated.map(async variant => {
+        const path = StorageService.generateVariantPath(id, imageInfo.orientation, variant.format, variant.width, privateToken);
+        await storage.upload(path, variant.image.data, `image/${variant.format}`);
+        variants.push({
+          kind: 'responsive',
+          format: variant.format,
+          width: variant.width,
+          height: variant.height,
+          path,
+          size: variant.image.size,
+        });
+      }));
+    }
+    variants.sort((a, b) => a.kind.localeCompare(b.kind) || a.format.localeCompare(b.format) || a.width - b.width);
+
+    // Calculate expiry time
+    let expiryTime: string | undefined;
+    if (expiryMinutes > 0) {
+      const expiry = new Date(Date.now() + expiryMinutes * 60 * 1000);
+      expiryTime = expiry.toISOString();
+    }
+
+    const [perceptualHash, colors, thumbHash] = await Promise.all([perceptualHashPromise, colorsPromise, thumbHashPromise]);
+
+    // Create and save metadata
+    const imageMetadata: ImageMetadata = {
+      id,
+      originalName: name,
+      uploadTime: new Date().toISOString(),
+      expiryTime,
+      orientation: imageInfo.orientation,
+      tags,
+      format: imageInfo.format,
+      width: imageInfo.width,
+      height: imageInfo.height,
+      visibility,
+      ...deriveFormatFields({ format: imageInfo.format, path: generatedPaths.original, size: arrayBuffer.byteLength }, variants),
+      variants,
+      exif: imageInfo.exif ?? undefined,
+      metadataStripped,
+      contentHash,
+      perceptualHash: perceptualHash ?? undefined,
+      averageColor: colors?.averageColor,
+      palette: colors?.palette,
+      thumbHash: thumbHash ?? undefined,
+    };
+
+    try {
+      await metadata.saveImage(imageMetadata);
+    } catch (saveError) {
+      // A concurrent upload of the same file won the unique index: drop our copy and answer as a duplicate
+      const winner = await metadata.getImageByContentHash(contentHash);
+      if (!winner) throw saveError;
+      await storage.deleteImageFiles(imageFileKeys(imageMetadata));
+      return this.duplicateResult(winner, tags, duplicatePolicy);
+    }
+
+    // Build result
+    const urls = await resolveImageUrls(this.env, this.origin, imageMetadata, effectiveOptions);
+    const result: UploadResult = {
+      id,
+      status: 'success',
+      urls: {
+        original: urls.original,
+        webp: urls.webp,
+        avif: urls.avif,
+      },
+      orientation: imageInfo.orientation,
+      tags,
+      sizes: imageMetadata.sizes,
+      expiryTime,
+      format: imageInfo.format,
+      visibility,
+      variants: await resolveVariantUrls(this.env, this.origin, imageMetadata),
+      metadataStripped,
+    };
+
+    // Invalidate caches (non-blocking)
+    const cache = new CacheService(this.env.CACHE_KV);
+    this.waitUntil(
+      Promise.all([
+        cache.invalidateImagesList(),
+        cache.invalidateTagsList(),
+      ])
+    );
+
+    return result;
+  }
+
+  /**
+   * Answers an upload whose file is already stored. `reuse` adds the new tags to the existing image
+   * and returns it; its visibility, expiry and variants are left as they are.
+   */
+  private async duplicateResult(existing: ImageMetadata, tags: string[], policy: DuplicatePolicy): Promise<UploadResult> {
+    if (policy === 'reject') {
+      throw new UploadRejectedError(`Duplicate image: already stored as ${existing.id}`, 409);
+    }
+
+    let image = existing;
+    const addedTags = tags.filter(tag => !existing.tags.includes(tag));
+    if (addedTags.length > 0) {
+      const metadata = new MetadataService(this.env.DB);
+      image = await metadata.updateImage(existing.id, { tags: [...existing.tags, ...addedTags] }) ?? existing;
+
+      const cache = new CacheService(this.env.CACHE_KV);
+      this.waitUntil(
+        Promise.all([
+          cache.invalidateAfterImageChange(image.id),
+          cache.invalidateTagsList(),
+        ])
+      );
+    }
+
+    return {
+      id: image.id,
+      status: 'success',
+      urls: await resolveImageUrls(this.env, this.origin, image),
+      orientation: image.orientation,
+      tags: image.tags,
+      sizes: image.sizes,
+      expiryTime: image.expiryTime,
+      format: image.format,
+      visibility: image.visibility,
+      variants: await resolveVariantUrls(this.env, this.origin, image),
+      metadataStripped: image.metadataStripped,
+      duplicate: true,
+    };
+  }
+}
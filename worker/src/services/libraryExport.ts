@@ -0,0 +1,205 @@
+// Library export: a short-lived job stored in KV names the images, and downloading it streams a ZIP
+// with the originals and/or variants plus a manifest.json that the ZIP import understands.
+import type { Env, ImageFilters, ImageMetadata, ImageVariant } from '../types';
+import { MetadataService } from './metadata';
+import { ZipWriter } from './zipWriter';
+
+export const EXPORT_MANIFEST_NAME = 'manifest.json';
+const EXPORT_FORMAT = 'cattopic-export';
+const EXPORT_VERSION = 1;
+
+// Download links stay valid this long
+export const EXPORT_TTL_SECONDS = 60 * 60;
+// Each archived file is one R2 read, and the download runs in a single invocation limited to 1000 subrequests
+// (50 on Workers Free); the rest of the budget covers the D1 and KV reads
+const DEFAULT_EXPORT_MAX_FILES = 900;
+// Page size when resolving a filter and batch size when loading metadata for the download
+const EXPORT_PAGE_SIZE = 100;
+
+export type ExportContent = 'originals' | 'variants' | 'both';
+
+export interface ExportJob {
+  id: string;
+  imageIds: string[];
+  content: ExportContent;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface ExportManifestImage {
+  // Path of the original inside the archive; unset when originals were not exported
+  file?: string;
+  variantFiles: string[];
+  metadata: ImageMetadata;
+}
+
+export interface ExportManifest {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  images: ExportManifestImage[];
+}
+
+/**
+ * Reads a manifest written by an export. Returns null for anything else (another tool's manifest.json,
+ * invalid JSON), so such archives are imported like any other ZIP.
+ */
+export function parseExportManifest(text: string): ExportManifest | null {
+  try {
+    const manifest = JSON.parse(text) as Partial<ExportManifest>;
+    if (manifest.format !== EXPORT_FORMAT || !Array.isArray(manifest.images)) return null;
+    return manifest as ExportManifest;
+  } catch {
+    return null;
+  }
+}
+
+function extensionOf(key: string, fallback: string): string {
+  const name = key.split('/').pop() ?? '';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1) : fallback;
+}
+
+// Archive paths use the image id so names never collide; the original name is in the manifest
+function originalPath(image: ImageMetadata): string {
+  return `originals/${image.id}.${extensionOf(image.paths.original, image.format)}`;
+}
+
+function variantPath(image: ImageMetadata, variant: ImageVariant): string {
+  return `variants/${image.id}/${variant.kind}-${variant.width}x${variant.height}.${variant.format}`;
+}
+
+function exportKey(id: string): string {
+  return `export:${id}`;
+}
+
+// EXPORT_MAX_FILES, falling back to the paid-plan budget when unset or invalid
+export function exportMaxFiles(value: string | undefined): number {
+  const files = Number(value);
+  return value !== undefined && value.trim() !== '' && Number.isInteger(files) && files > 0 ? files : DEFAULT_EXPORT_MAX_FILES;
+}
+
+// Stored objects an image adds to the archive; transform variants have none
+function exportFileCount(image: ImageMetadata, content: ExportContent): number {
+  const originals = content === 'variants' ? 0 : 1;
+  const variants = content === 'originals' ? 0 : image.variants.filter(variant => variant.path).length;
+  return originals + variants;
+}
+
+export class LibraryExportService {
+  // Files (originals plus stored variants) one export may hold
+  readonly maxFiles: number;
+
+  constructor(private env: Env) {
+    this.maxFiles = exportMaxFiles(env.EXPORT_MAX_FILES);
+  }
+
+  // Ids of the images matching a list filter, newest first; throws RangeError above maxFiles
+  async resolveFilter(filters: Omit<ImageFilters, 'page' | 'limit' | 'sort'>, content: ExportContent): Promise<string[]> {
+    const metadata = new MetadataService(this.env.DB);
+    const ids: string[] = [];
+    let files = 0;
+    for (let page = 1; ; page++) {
+      const { images, total } = await metadata.getImages({ ...filters, page, limit: EXPORT_PAGE_SIZE });
+      // Every image brings its original, so this fails before paging through a large library
+      if (content !== 'variants' && total > this.maxFiles) {
+        throw this.tooLarge(`the filter matches ${total} images`);
+      }
+      files += images.reduce((sum, image) => sum + exportFileCount(image, content), 0);
+      if (files > this.maxFiles) {
+        throw this.tooLarge(`the filter matches more than ${this.maxFiles} files`);
+      }
+      ids.push(...images.map(image => image.id));
+      if (images.length < EXPORT_PAGE_SIZE) return ids;
+    }
+  }
+
+  // The given ids that exist, in order; unknown ids are dropped. Throws RangeError above maxFiles
+  async resolveIds(ids: string[], content: ExportContent): Promise<string[]> {
+    if (content !== 'variants' && ids.length > this.maxFiles) {
+      throw this.tooLarge(`${ids.length} images were selected`);
+    }
+    const images = await new MetadataService(this.env.DB).getImagesByIds(ids);
+    const files = images.reduce((sum, image) => sum + exportFileCount(image, content), 0);
+    if (files > this.maxFiles) {
+      throw this.tooLarge(`the selection holds ${files} files`);
+    }
+    return images.map(image => image.id);
+  }
+
+  async create(imageIds: string[], content: ExportContent): Promise<ExportJob> {
+    const now = new Date();
+    const job: ExportJob = {
+      id: crypto.randomUUID(),
+      imageIds,
+      content,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + EXPORT_TTL_SECONDS * 1000).toISOString(),
+    };
+    await this.env.CACHE_KV.put(exportKey(job.id), JSON.stringify(job), { expirationTtl: EXPORT_TTL_SECONDS });
+    return job;
+  }
+
+  async get(id: string): Promise<ExportJob | null> {
+    return this.env.CACHE_KV.get<ExportJob>(exportKey(id), 'json');
+  }
+
+  /**
+   * Streams the archive for a job. Images deleted since the job was created, and files missing from R2,
+   * are left out of the archive and the manifest.
+   */
+  async write(job: ExportJob, stream: WritableStream<Uint8Array>): Promise<void> {
+    const writer = stream.getWriter();
+    const zip = new ZipWriter(writer);
+    const metadata = new MetadataService(this.env.DB);
+    const manifest: ExportManifest = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      images: [],
+    };
+
+    try {
+      for (let i = 0; i < job.imageIds.length; i += EXPORT_PAGE_SIZE) {
+        const images = await metadata.getImagesByIds(job.imageIds.slice(i, i + EXPORT_PAGE_SIZE));
+        for (const image of images) {
+          const entry: ExportManifestImage = { variantFiles: [], metadata: image };
+          const modified = new Date(image.uploadTime);
+
+          if (job.content !== 'variants' && await this.addObject(zip, image.paths.original, originalPath(image), modified)) {
+            entry.file = originalPath(image);
+          }
+          if (job.content !== 'originals') {
+            for (const variant of image.variants) {
+              if (variant.path && await this.addObject(zip, variant.path, variantPath(image, variant), modified)) {
+                entry.variantFiles.push(variantPath(image, variant));
+              }
+            }
+          }
+          manifest.images.push(entry);
+        }
+      }
+
+      await zip.add(EXPORT_MANIFEST_NAME, new TextEncoder().encode(JSON.stringify(manifest, null, 2)));
+      await zip.finish();
+    } catch (err) {
+      // The client sees a truncated download rather than a ZIP that silently lacks files
+      await writer.abort(err);
+      throw err;
+    }
+  }
+
+  private tooLarge(reason: string): RangeError {
+    return new RangeError(`At most ${this.maxFiles} files (originals and variants) per export, but ${reason}; export in smaller parts`);
+  }
+
+  private async addObject(zip: ZipWriter, key: string, path: string, modified: Date): Promise<boolean> {
+    const object = await this.env.R2_BUCKET.get(key);
+    if (!object) {
+      console.warn('Export: object missing from R2:', key);
+      return false;
+    }
+    await zip.add(path, object.body, modified);
+    return true;
+  }
+}
@@ -1,4 +1,18 @@
-import type { ImageMetadata, ImageFilters, Tag, ImageRow } from '../types';
+import type { ImageMetadata, ImageFilters, Tag, ImageRow, ImageVariant, ImageVariantKind, ImageVariantRow, ImageExif, ImageExifRow, ImageColor, ImageColorRow, ImageColors } from '../types';
+import { hexToRgb } from './colorPalette';
+import { deriveFormatFields } from '../utils/variants';
+import type { HashedImage } from './perceptualHash';
+
+const VARIANT_KINDS: ReadonlyArray<ImageVariantKind> = ['format', 'responsive', 'transform', 'preview'];
+
+// Full-size rendition of `format` exists (stored copy, transform entry or the original itself)
+const HAS_FORMAT_SQL = `(i.format = ? OR EXISTS (
+  SELECT 1 FROM image_variants v
+  WHERE v.image_id = i.id AND v.kind IN ('format', 'transform') AND v.format = ?
+))`;
+
+// Colour search ignores accents smaller than this share of the picture
+const MIN_SEARCH_COLOR_WEIGHT = 0.05;
 
 // D1 Metadata Service
 export class MetadataService {
@@ -14,9 +28,8 @@ export class MetadataService {
       this.db.prepare(`
         INSERT INTO images (
           id, original_name, upload_time, expiry_time, orientation,
-          format, width, height, path_original, path_webp, path_avif,
-          size_original, size_webp, size_avif
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          format, width, height, path_original, size_original, visibility, metadata_stripped, content_hash, phash, average_color, thumbhash
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).bind(
         metadata.id,
         metadata.originalName,
@@ -27,15 +40,56 @@ export class MetadataService {
         metadata.width,
         metadata.height,
         metadata.paths.original,
-        metadata.paths.webp || null,
-        metadata.paths.avif || null,
         metadata.sizes.original,
-        metadata.sizes.webp,
-        metadata.sizes.avif
+        metadata.visibility,
+        metadata.metadataStripped ? 1 : 0,
+        metadata.contentHash ?? null,
+        metadata.perceptualHash ?? null,
+        metadata.averageColor ?? null,
+        metadata.thumbHash ?? null
       )
     );
 
-    // 2. Ensure tags exist and create associations
+    // 2. Record variants
+    for (const variant of metadata.variants) {
+      statements.push(
+        this.db.prepare(`
+          INSERT INTO image_variants (image_id, kind, format, width, height, path, size)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).bind(metadata.id, variant.kind, variant.format, variant.width, variant.height, variant.path, variant.size)
+      );
+    }
+
+    // 3. Capture metadata, when the file carried any
+    if (metadata.exif) {
+      const exif = metadata.exif;
+      statements.push(
+        this.db.prepare(`
+          INSERT INTO image_exif (
+            image_id, make, model, lens, exposure_time, f_number, iso, focal_length, taken_at, latitude, longitude
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).bind(
+          metadata.id,
+          exif.make ?? null,
+          exif.model ?? null,
+          exif.lens ?? null,
+          exif.exposureTime ?? null,
+          exif.fNumber ?? null,
+          exif.iso ?? null,
+          exif.focalLength ?? null,
+          exif.takenAt ?? null,
+          exif.latitude ?? null,
+          exif.longitude ?? null
+        )
+      );
+    }
+
+    // 4. Dominant colours
+    if (metadata.palette) {
+      statements.push(...this.colorStatements(metadata.id, metadata.palette));
+    }
+
+    // 5. Ensure tags exist and create associations
     for (const tag of metadata.tags) {
       statements.push(
         this.db.prepare(`INSERT OR IGNORE INTO tags (name) VALUES (?)`).bind(tag)
@@ -52,41 +106,54 @@ export class MetadataService {
   }
 
   async getImage(id: string): Promise<ImageMetadata | null> {
-    // Batch: execute image and tags queries in parallel
-    const [imageResult, tagsResult] = await this.db.batch([
+    // Batch: execute image, tags, variants and EXIF queries in parallel
+    const [imageResult, tagsResult, variantsResult, exifResult, colorsResult] = await this.db.batch([
       this.db.prepare(`SELECT * FROM images WHERE id = ?`).bind(id),
       this.db.prepare(`
         SELECT t.name FROM tags t
         JOIN image_tags it ON t.id = it.tag_id
         WHERE it.image_id = ?
-      `).bind(id)
+      `).bind(id),
+      this.db.prepare(`SELECT * FROM image_variants WHERE image_id = ? ORDER BY kind, format, width`).bind(id),
+      this.db.prepare(`SELECT * FROM image_exif WHERE image_id = ?`).bind(id),
+      this.db.prepare(`SELECT * FROM image_colors WHERE image_id = ? ORDER BY rank`).bind(id)
     ]);
 
     const image = (imageResult as D1Result<ImageRow>).results?.[0];
     if (!image) return null;
 
     const tags = ((tagsResult as D1Result<{ name: string }>).results || []).map(t => t.name);
-    return this.rowToMetadata(image, tags);
+    const variants = ((variantsResult as D1Result<ImageVariantRow>).results || []).map(v => this.rowToVariant(v));
+    const exif = (exifResult as D1Result<ImageExifRow>).results?.[0];
+    const palette = ((colorsResult as D1Result<ImageColorRow>).results || []).map(row => this.rowToColor(row));
+    return this.rowToMetadata(image, tags, variants, exif, palette);
   }
 
   async updateImage(id: string, updates: Partial<ImageMetadata>): Promise<ImageMetadata | null> {
-    // Batch: get image and tags in parallel (avoid separate getImage call)
-    const [imageResult, tagsResult] = await this.db.batch([
+    // Batch: get image, tags, variants and EXIF in parallel (avoid separate getImage call)
+    const [imageResult, tagsResult, variantsResult, exifResult, colorsResult] = await this.db.batch([
       this.db.prepare(`SELECT * FROM images WHERE id = ?`).bind(id),
       this.db.prepare(`
         SELECT t.name FROM tags t
         JOIN image_tags it ON t.id = it.tag_id
         WHERE it.image_id = ?
-      `).bind(id)
+      `).bind(id),
+      this.db.prepare(`SELECT * FROM image_variants WHERE image_id = ? ORDER BY kind, format, width`).bind(id),
+      this.db.prepare(`SELECT * FROM image_exif WHERE image_id = ?`).bind(id),
+      this.db.prepare(`SELECT * FROM image_colors WHERE image_id = ? ORDER BY rank`).bind(id)
     ]);
 
     const image = (imageResult as D1Result<ImageRow>).results?.[0];
     if (!image) return null;
 
+    const exif = (exifResult as D1Result<ImageExifRow>).results?.[0];
+    const palette = ((colorsResult as D1Result<ImageColorRow>).results || []).map(row => this.rowToColor(row));
     const currentTags = ((tagsResult as D1Result<{ name: string }>).results || []).map(t => t.name);
     const statements: D1PreparedStatement[] = [];
     let finalTags = currentTags;
     let finalExpiryTime = image.expiry_time;
+    let finalRow = image;
+    let finalVariants = ((variantsResult as D1Result<ImageVariantRow>).results || []).map(v => this.rowToVariant(v));
 
     // Handle tag changes
     if (updates.tags) {
@@ -130,12 +197,38 @@ export class MetadataService {
       );
     }
 
+    // Visibility changes move the R2 objects, so the caller passes the new keys along
+    if (updates.visibility !== undefined && updates.paths) {
+      finalRow = {
+        ...finalRow,
+        visibility: updates.visibility,
+        path_original: updates.paths.original,
+      };
+      statements.push(
+        this.db.prepare(`
+          UPDATE images SET visibility = ?, path_original = ? WHERE id = ?
+        `).bind(finalRow.visibility, finalRow.path_original, id)
+      );
+    }
+
+    // Moved variant files, matched by their primary key
+    if (updates.variants) {
+      finalVariants = updates.variants;
+      for (const variant of updates.variants) {
+        statements.push(
+          this.db.prepare(`
+            UPDATE image_variants SET path = ? WHERE image_id = ? AND kind = ? AND format = ? AND width = ?
+          `).bind(variant.path, id, variant.kind, variant.format, variant.width)
+        );
+      }
+    }
+
     if (statements.length > 0) {
       await this.db.batch(statements);
     }
 
     // Return constructed metadata without re-reading from database
-    return this.rowToMetadata({ ...image, expiry_time: finalExpiryTime }, finalTags);
+    return this.rowToMetadata({ ...finalRow, expiry_time: finalExpiryTime }, finalTags, finalVariants, exif, palette);
   }
 
   async deleteImage(id: string): Promise<boolean> {
@@ -149,6 +242,33 @@ export class MetadataService {
 
   // === Image Queries ===
 
+  async getImageByContentHash(hash: string): Promise<ImageMetadata | null> {
+    const row = await this.db.prepare(`
+      SELECT * FROM images WHERE content_hash = ?
+    `).bind(hash).first<ImageRow>();
+
+    if (!row) return null;
+    const [image] = await this.enrichRows([row]);
+    return image;
+  }
+
+  /**
+   * Records the hash of an image that predates deduplication. When another image already holds the
+   * hash nothing is written (the unique index allows one holder) and that image's id is returned.
+   */
+  async claimContentHash(id: string, hash: string): Promise<string | null> {
+    const result = await this.db.prepare(`
+      UPDATE images SET content_hash = ?
+      WHERE id = ? AND NOT EXISTS (SELECT 1 FROM images WHERE content_hash = ?)
+    `).bind(hash, id, hash).run();
+    if ((result.meta?.changes || 0) > 0) return null;
+
+    const holder = await this.db.prepare(`
+      SELECT id FROM images WHERE content_hash = ?
+    `).bind(hash).first<{ id: string }>();
+    return holder?.id ?? null;
+  }
+
   async getImageIds(orientation?: string): Promise<string[]> {
     let query = 'SELECT id FROM images';
     const params: string[] = [];
@@ -165,7 +285,7 @@ export class MetadataService {
   }
 
   async getImages(filters: ImageFilters): Promise<{ images: ImageMetadata[]; total: number }> {
-    const { page = 1, limit = 12, tag, orientation, format } = filters;
+    const { page = 1, limit = 12, tag, orientation, format, sort = 'uploaded', color, tolerance = 0 } = filters;
     const offset = (page - 1) * limit;
 
     let baseQuery = 'FROM images i';
@@ -190,19 +310,29 @@ export class MetadataService {
           params.push('gif');
           break;
         case 'webp':
-          whereConditions.push('(i.format = ? OR i.path_webp IS NOT NULL)');
-          params.push('webp');
-          break;
         case 'avif':
-          whereConditions.push('(i.format = ? OR i.path_avif IS NOT NULL)');
-          params.push('avif');
+          whereConditions.push(HAS_FORMAT_SQL);
+          params.push(format, format);
           break;
         case 'original':
-          whereConditions.push('i.path_webp IS NULL AND i.path_avif IS NULL');
+          whereConditions.push(`i.format NOT IN ('webp', 'avif') AND NOT EXISTS (
+            SELECT 1 FROM image_variants v
+            WHERE v.image_id = i.id AND v.kind IN ('format', 'transform')
+          )`);
           break;
       }
     }
 
+    if (color) {
+      const [r, g, b] = hexToRgb(color);
+      whereConditions.push(`EXISTS (
+        SELECT 1 FROM image_colors c
+        WHERE c.image_id = i.id AND c.weight >= ?
+          AND (c.r - ?) * (c.r - ?) + (c.g - ?) * (c.g - ?) + (c.b - ?) * (c.b - ?) <= ?
+      )`);
+      params.push(MIN_SEARCH_COLOR_WEIGHT, r, r, g, g, b, b, tolerance * tolerance);
+    }
+
     const whereClause = whereConditions.length > 0
       ? 'WHERE ' + whereConditions.join(' AND ')
       : '';
@@ -214,13 +344,19 @@ export class MetadataService {
 
     const total = countResult?.count || 0;
 
+    // Images without a capture date sort after dated ones
+    const orderClause = sort === 'taken'
+      ? 'ORDER BY e.taken_at IS NULL, e.taken_at DESC, i.upload_time DESC'
+      : 'ORDER BY i.upload_time DESC';
+    const sortJoin = sort === 'taken' ? 'LEFT JOIN image_exif e ON e.image_id = i.id' : '';
+
     // Get paginated data
     const imagesResult = await this.db.prepare(`
-      SELECT DISTINCT i.* ${baseQuery} ${whereClause}
-      ORDER BY i.upload_time DESC LIMIT ? OFFSET ?
+      SELECT DISTINCT i.* ${baseQuery} ${sortJoin} ${whereClause}
+      ${orderClause} LIMIT ? OFFSET ?
     `).bind(...params, limit, offset).all<ImageRow>();
 
-    const images = await this.enrichWithTags(imagesResult.results || []);
+    const images = await this.enrichRows(imagesResult.results || []);
 
     return { images, total };
   }
@@ -237,7 +373,8 @@ export class MetadataService {
       ? 'JOIN image_tags it ON i.id = it.image_id JOIN tags t ON it.tag_id = t.id'
       : '';
 
-    const whereConditions: string[] = [];
+    // Private images must never be handed out by the public random endpoint
+    const whereConditions: string[] = [`i.visibility = 'public'`];
     const params: (string | number)[] = [];
 
     // Tag filter (AND logic)
@@ -264,9 +401,7 @@ export class MetadataService {
       params.push(filters.orientation);
     }
 
-    const whereClause = whereConditions.length > 0
-      ? 'WHERE ' + whereConditions.join(' AND ')
-      : '';
+    const whereClause = 'WHERE ' + whereConditions.join(' AND ');
 
     // For AND logic on tags, need GROUP BY and HAVING
     let groupClause = '';
@@ -285,8 +420,8 @@ export class MetadataService {
 
     if (!result) return null;
 
-    // 使用 enrichWithTags 获取标签（单次额外查询）
-    const enriched = await this.enrichWithTags([result]);
+    // 使用 enrichRows 获取标签和变体
+    const enriched = await this.enrichRows([result]);
     return enriched[0] || null;
   }
 
@@ -351,7 +486,7 @@ export class MetadataService {
       WHERE t.name = ?
     `).bind(tagName).all<ImageRow>();
 
-    return this.enrichWithTags(result.results || []);
+    return this.enrichRows(result.results || []);
   }
 
   /**
@@ -360,14 +495,13 @@ export class MetadataService {
    */
   async getImagePathsByTag(tagName: string): Promise<Array<{
     id: string;
-    paths: { original: string; webp: string | null; avif: string | null };
+    paths: { original: string; variants: string[] };
   }>> {
     const result = await this.db.prepare(`
       SELECT DISTINCT
         i.id,
         i.path_original,
-        i.path_webp,
-        i.path_avif
+        (SELECT GROUP_CONCAT(v.path, '|') FROM image_variants v WHERE v.image_id = i.id AND v.path != '') AS variant_paths
       FROM images i
       JOIN image_tags it ON i.id = it.image_id
       JOIN tags t ON it.tag_id = t.id
@@ -375,16 +509,14 @@ export class MetadataService {
     `).bind(tagName).all<{
       id: string;
       path_original: string;
-      path_webp: string | null;
-      path_avif: string | null;
+      variant_paths: string | null;
     }>();
 
     return (result.results || []).map((row) => ({
       id: row.id,
       paths: {
         original: row.path_original,
-        webp: row.path_webp,
-        avif: row.path_avif,
+        variants: row.variant_paths ? row.variant_paths.split('|') : [],
       },
     }));
   }
@@ -468,12 +600,89 @@ export class MetadataService {
       SELECT * FROM images WHERE expiry_time IS NOT NULL AND expiry_time < ?
     `).bind(now).all<ImageRow>();
 
-    return this.enrichWithTags(result.results || []);
+    return this.enrichRows(result.results || []);
+  }
+
+  // Images in the order of `ids`; unknown ids are left out
+  async getImagesByIds(ids: string[]): Promise<ImageMetadata[]> {
+    const rows: ImageRow[] = [];
+    // Same D1 bound-variable limit as enrichRows
+    for (let i = 0; i < ids.length; i += 90) {
+      const chunk = ids.slice(i, i + 90);
+      const result = await this.db.prepare(`
+        SELECT * FROM images WHERE id IN (${chunk.map(() => '?').join(',')})
+      `).bind(...chunk).all<ImageRow>();
+      rows.push(...(result.results || []));
+    }
+
+    const order = new Map(ids.map((id, index) => [id, index]));
+    rows.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+    return this.enrichRows(rows);
+  }
+
+  // Every recorded perceptual hash; similarity search compares them in memory
+  async getPerceptualHashes(): Promise<HashedImage[]> {
+    const result = await this.db.prepare(`
+      SELECT id, phash FROM images WHERE phash IS NOT NULL
+    `).all<{ id: string; phash: string }>();
+
+    return (result.results || []).map(row => ({ id: row.id, hash: row.phash }));
+  }
+
+  async updatePerceptualHash(id: string, hash: string): Promise<void> {
+    await this.db.prepare(`UPDATE images SET phash = ? WHERE id = ?`).bind(hash, id).run();
+  }
+
+  async updateThumbHash(id: string, thumbHash: string): Promise<void> {
+    await this.db.prepare(`UPDATE images SET thumbhash = ? WHERE id = ?`).bind(thumbHash, id).run();
+  }
+
+  // Replaces the recorded colours of an image
+  async updateColors(id: string, colors: ImageColors): Promise<void> {
+    await this.db.batch([
+      this.db.prepare(`UPDATE images SET average_color = ? WHERE id = ?`).bind(colors.averageColor, id),
+      this.db.prepare(`DELETE FROM image_colors WHERE image_id = ?`).bind(id),
+      ...this.colorStatements(id, colors.palette),
+    ]);
+  }
+
+  // Keyset page ordered by id, for maintenance jobs that walk every image
+  async getImagesAfter(cursor: string | null, limit: number): Promise<ImageMetadata[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM images WHERE id > ? ORDER BY id LIMIT ?
+    `).bind(cursor ?? '', limit).all<ImageRow>();
+
+    return this.enrichRows(result.results || []);
+  }
+
+  // Corrects the recorded size of an image; transform variants mirror the original's dimensions
+  async updateDimensions(id: string, width: number, height: number, orientation: 'landscape' | 'portrait'): Promise<void> {
+    await this.db.batch([
+      this.db.prepare(`UPDATE images SET width = ?, height = ?, orientation = ? WHERE id = ?`)
+        .bind(width, height, orientation, id),
+      this.db.prepare(`UPDATE image_variants SET width = ?, height = ? WHERE image_id = ? AND kind = 'transform'`)
+        .bind(width, height, id),
+    ]);
   }
 
   // === Private Helper Methods ===
 
-  private rowToMetadata(row: ImageRow, tags: string[]): ImageMetadata {
+  private colorStatements(id: string, palette: ImageColor[]): D1PreparedStatement[] {
+    return palette.map((entry, rank) => {
+      const [r, g, b] = hexToRgb(entry.color);
+      return this.db.prepare(`
+        INSERT INTO image_colors (image_id, rank, color, r, g, b, weight) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).bind(id, rank, entry.color, r, g, b, entry.weight);
+    });
+  }
+
+  private rowToMetadata(
+    row: ImageRow,
+    tags: string[],
+    variants: ImageVariant[],
+    exif?: ImageExifRow,
+    palette: ImageColor[] = []
+  ): ImageMetadata {
     return {
       id: row.id,
       originalName: row.original_name,
@@ -484,24 +693,59 @@ export class MetadataService {
       format: row.format,
       width: row.width,
       height: row.height,
-      paths: {
-        original: row.path_original,
-        webp: row.path_webp || '',
-        avif: row.path_avif || ''
-      },
-      sizes: {
-        original: row.size_original,
-        webp: row.size_webp,
-        avif: row.size_avif
-      }
+      visibility: row.visibility === 'private' ? 'private' : 'public',
+      metadataStripped: row.metadata_stripped === 1,
+      ...(row.content_hash ? { contentHash: row.content_hash } : {}),
+      ...(row.phash ? { perceptualHash: row.phash } : {}),
+      ...(row.average_color ? { averageColor: row.average_color } : {}),
+      ...(palette.length > 0 ? { palette } : {}),
+      ...(row.thumbhash ? { thumbHash: row.thumbhash } : {}),
+      ...deriveFormatFields({ format: row.format, path: row.path_original, size: row.size_original }, variants),
+      variants,
+      ...(exif ? { exif: this.rowToExif(exif) } : {})
     };
   }
 
-  private async enrichWithTags(rows: ImageRow[]): Promise<ImageMetadata[]> {
+  private rowToExif(row: ImageExifRow): ImageExif {
+    const exif: ImageExif = {
+      make: row.make ?? undefined,
+      model: row.model ?? undefined,
+      lens: row.lens ?? undefined,
+      exposureTime: row.exposure_time ?? undefined,
+      fNumber: row.f_number ?? undefined,
+      iso: row.iso ?? undefined,
+      focalLength: row.focal_length ?? undefined,
+      takenAt: row.taken_at ?? undefined,
+      latitude: row.latitude ?? undefined,
+      longitude: row.longitude ?? undefined
+    };
+    // Drop empty fields so cached JSON stays compact
+    return Object.fromEntries(Object.entries(exif).filter(([, value]) => value !== undefined)) as ImageExif;
+  }
+
+  private rowToColor(row: ImageColorRow): ImageColor {
+    return { color: row.color, weight: row.weight };
+  }
+
+  private rowToVariant(row: ImageVariantRow): ImageVariant {
+    return {
+      kind: VARIANT_KINDS.find(kind => kind === row.kind) ?? 'format',
+      format: row.format,
+      width: row.width,
+      height: row.height,
+      path: row.path,
+      size: row.size
+    };
+  }
+
+  private async enrichRows(rows: ImageRow[]): Promise<ImageMetadata[]> {
     if (rows.length === 0) return [];
 
     const imageIds = rows.map(r => r.id);
     const tagMap = new Map<string, string[]>();
+    const variantMap = new Map<string, ImageVariant[]>();
+    const exifMap = new Map<string, ImageExifRow>();
+    const colorMap = new Map<string, ImageColor[]>();
 
     // D1/SQLite has a limit on the number of bound variables per statement.
     // Chunk to avoid `too many SQL variables` for large tag/image sets.
@@ -511,20 +755,57 @@ export class MetadataService {
       const chunk = imageIds.slice(i, i + chunkSize);
       const placeholders = chunk.map(() => '?').join(',');
 
-      const tagsResult = await this.db.prepare(`
-        SELECT it.image_id, t.name FROM image_tags it
-        JOIN tags t ON it.tag_id = t.id
-        WHERE it.image_id IN (${placeholders})
-      `).bind(...chunk).all<{ image_id: string; name: string }>();
+      const [tagsResult, variantsResult, exifResult, colorsResult] = await this.db.batch([
+        this.db.prepare(`
+          SELECT it.image_id, t.name FROM image_tags it
+          JOIN tags t ON it.tag_id = t.id
+          WHERE it.image_id IN (${placeholders})
+        `).bind(...chunk),
+        this.db.prepare(`
+          SELECT * FROM image_variants
+          WHERE image_id IN (${placeholders})
+          ORDER BY kind, format, width
+        `).bind(...chunk),
+        this.db.prepare(`
+          SELECT * FROM image_exif WHERE image_id IN (${placeholders})
+        `).bind(...chunk),
+        this.db.prepare(`
+          SELECT * FROM image_colors WHERE image_id IN (${placeholders}) ORDER BY rank
+        `).bind(...chunk)
+      ]);
 
-      for (const row of tagsResult.results || []) {
+      for (const row of (tagsResult as D1Result<{ image_id: string; name: string }>).results || []) {
         if (!tagMap.has(row.image_id)) {
           tagMap.set(row.image_id, []);
         }
         tagMap.get(row.image_id)!.push(row.name);
       }
+
+      for (const row of (variantsResult as D1Result<ImageVariantRow>).results || []) {
+        if (!variantMap.has(row.image_id)) {
+          variantMap.set(row.image_id, []);
+        }
+        variantMap.get(row.image_id)!.push(this.rowToVariant(row));
+      }
+
+      for (const row of (exifResult as D1Result<ImageExifRow>).results || []) {
+        exifMap.set(row.image_id, row);
+      }
+
+      for (const row of (colorsResult as D1Result<ImageColorRow>).results || []) {
+        if (!colorMap.has(row.image_id)) {
+          colorMap.set(row.image_id, []);
+        }
+        colorMap.get(row.image_id)!.push(this.rowToColor(row));
+      }
     }
 
-    return rows.map(row => this.rowToMetadata(row, tagMap.get(row.id) || []));
+    return rows.map(row => this.rowToMetadata(
+      row,
+      tagMap.get(row.id) || [],
+      variantMap.get(row.id) || [],
+      exifMap.get(row.id),
+      colorMap.get(row.id)
+    ));
   }
 }
@@ -0,0 +1,196 @@
+// Removes EXIF/XMP/IPTC metadata from originals before they are stored
+import { ExifParser } from './exifParser';
+import { crc32 } from '../utils/crypto';
+
+const EXIF_HEADER = 'Exif\0\0';
+// Keywords of PNG text chunks that carry metadata profiles (XMP packets, ImageMagick "Raw profile type exif/iptc/xmp")
+const PNG_METADATA_KEYWORDS = ['XML:com.adobe.xmp', 'Raw profile type'];
+const PNG_TEXT_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt']);
+// VP8X feature flags
+const WEBP_FLAG_EXIF = 0x08;
+const WEBP_FLAG_XMP = 0x04;
+
+const STRIPPABLE_FORMATS = ['jpeg', 'png', 'webp', 'avif', 'heic', 'heif'];
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, Math.min(bytes.length, start + length)));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+// Big-endian TIFF block whose only IFD0 entry is Orientation (SHORT)
+function orientationTiff(orientation: number): Uint8Array {
+  return new Uint8Array([
+    0x4D, 0x4D, 0x00, 0x2A, 0x00, 0x00, 0x00, 0x08,
+    0x00, 0x01,
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00,
+  ]);
+}
+
+export class MetadataStripper {
+  static canStrip(format: string): boolean {
+    return STRIPPABLE_FORMATS.includes(format);
+  }
+
+  /**
+   * Copy of the image without EXIF, XMP or IPTC blocks. With `keepOrientation`, a minimal
+   * EXIF block holding only the orientation tag is written back so viewers still rotate it.
+   * Returns null for formats that cannot be stripped, or when the file structure is not as expected.
+   */
+  static strip(data: ArrayBuffer, format: string, keepOrientation: boolean): ArrayBuffer | null {
+    const bytes = new Uint8Array(data);
+    const orientation = keepOrientation ? ExifParser.orientation(data, format) : undefined;
+    let output: Uint8Array | null;
+
+    switch (format) {
+      case 'jpeg':
+        output = this.stripJpeg(bytes, orientation);
+        break;
+      case 'png':
+        output = this.stripPng(bytes, orientation);
+        break;
+      case 'webp':
+        output = this.stripWebp(bytes, orientation);
+        break;
+      case 'avif':
+      case 'heic':
+      case 'heif':
+        // Orientation is stored in irot/imir properties here, not in EXIF, so it survives as is
+        output = this.blankIsobmffItems(bytes);
+        break;
+      default:
+        return null;
+    }
+
+    return output ? output.buffer as ArrayBuffer : null;
+  }
+
+  // Drops APP1 (Exif, XMP) and APP13 (Photoshop/IPTC) segments; the entropy-coded data after SOS is copied as is
+  private static stripJpeg(bytes: Uint8Array, orientation: number | undefined): Uint8Array | null {
+    if (bytes[0] !== 0xFF || bytes[1] !== 0xD8) return null;
+    const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+    let offset = 2;
+    let insertAt = 1;
+
+    while (offset + 4 <= bytes.length) {
+      if (bytes[offset] !== 0xFF) return null;
+      const marker = bytes[offset + 1];
+      if (marker === 0xDA || marker === 0xD9) break;
+      const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+      const end = offset + 2 + length;
+      if (length < 2 || end > bytes.length) return null;
+
+      if (marker !== 0xE1 && marker !== 0xED) {
+        parts.push(bytes.subarray(offset, end));
+        // JFIF/JFXX APP0 segments must stay first, so a new Exif segment goes after them
+        if (marker === 0xE0 && parts.length === insertAt + 1) insertAt = parts.length;
+      }
+      offset = end;
+    }
+    parts.push(bytes.subarray(offset));
+
+    if (orientation !== undefined) {
+      const payload = concat([new TextEncoder().encode(EXIF_HEADER), orientationTiff(orientation)]);
+      const segmentLength = payload.length + 2;
+      parts.splice(insertAt, 0, new Uint8Array([0xFF, 0xE1, segmentLength >> 8, segmentLength & 0xFF]), payload);
+    }
+    return concat(parts);
+  }
+
+  // Drops eXIf and text chunks carrying XMP or raw metadata profiles
+  private static stripPng(bytes: Uint8Array, orientation: number | undefined): Uint8Array | null {
+    if (ascii(bytes, 1, 3) !== 'PNG') return null;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+    let offset = 8;
+
+    while (offset + 12 <= bytes.length) {
+      const length = view.getUint32(offset);
+      const type = ascii(bytes, offset + 4, 4);
+      const end = offset + 12 + length;
+      if (end > bytes.length) return null;
+
+      const keyword = PNG_TEXT_CHUNKS.has(type) ? ascii(bytes, offset + 8, Math.min(length, 80)).split('\0')[0] : '';
+      const isMetadata = type === 'eXIf' || PNG_METADATA_KEYWORDS.some(prefix => keyword.startsWith(prefix));
+      if (!isMetadata) {
+        parts.push(bytes.subarray(offset, end));
+      }
+      // eXIf has to precede the image data; IHDR is always the first chunk
+      if (type === 'IHDR' && orientation !== undefined) {
+        parts.push(this.pngChunk('eXIf', orientationTiff(orientation)));
+      }
+      offset = end;
+      if (type === 'IEND') break;
+    }
+    return concat(parts);
+  }
+
+  private static pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(new TextEncoder().encode(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+  }
+
+  // Drops EXIF and "XMP " chunks and clears their VP8X flags; simple (non-VP8X) files carry no metadata
+  private static stripWebp(bytes: Uint8Array, orientation: number | undefined): Uint8Array | null {
+    if (ascii(bytes, 0, 4) !== 'RIFF' || ascii(bytes, 8, 4) !== 'WEBP') return null;
+    const parts: Uint8Array[] = [];
+    let vp8x: Uint8Array | null = null;
+    let offset = 12;
+
+    while (offset + 8 <= bytes.length) {
+      const type = ascii(bytes, offset, 4);
+      const length = new DataView(bytes.buffer, bytes.byteOffset + offset + 4, 4).getUint32(0, true);
+      const end = offset + 8 + length + (length & 1);
+      if (offset + 8 + length > bytes.length) return null;
+
+      if (type !== 'EXIF' && type !== 'XMP ') {
+        const chunk = bytes.slice(offset, Math.min(end, bytes.length));
+        if (type === 'VP8X') vp8x = chunk;
+        parts.push(chunk);
+      }
+      offset = end;
+    }
+
+    if (vp8x) {
+      vp8x[8] &= ~(WEBP_FLAG_EXIF | WEBP_FLAG_XMP);
+      // The EXIF chunk comes after the image data
+      if (orientation !== undefined) {
+        vp8x[8] |= WEBP_FLAG_EXIF;
+        const tiff = orientationTiff(orientation);
+        const header = new Uint8Array(8);
+        header.set(new TextEncoder().encode('EXIF'));
+        new DataView(header.buffer).setUint32(4, tiff.length, true);
+        parts.push(header, tiff);
+      }
+    }
+
+    const body = concat(parts);
+    const riff = new Uint8Array(12);
+    riff.set(bytes.subarray(0, 12));
+    new DataView(riff.buffer).setUint32(4, body.length + 4, true);
+    return concat([riff, body]);
+  }
+
+  // Zero-fills Exif/XMP item payloads in place, so every offset in iloc stays valid
+  private static blankIsobmffItems(bytes: Uint8Array): Uint8Array {
+    const output = bytes.slice();
+    for (const item of ExifParser.findIsobmffItems(output)) {
+      output.fill(0, item.offset, item.offset + item.length);
+    }
+    return output;
+  }
+}
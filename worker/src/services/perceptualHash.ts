@@ -0,0 +1,141 @@
+// Perceptual hash (dHash) for finding resized or recompressed copies of the same picture
+import type { CompressionService } from './compression';
+import type { DecodedImage } from './pngDecoder';
+
+// dHash compares each pixel with its right neighbour: 9x8 pixels give 8x8 = 64 bits
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+// Grouping compares hashes that share a band; narrower bands than 8 bits would put most hashes in one bucket
+const MAX_GROUP_BANDS = 8;
+
+export interface HashedImage {
+  id: string;
+  hash: string;
+}
+
+export interface HashMatch {
+  id: string;
+  distance: number;
+}
+
+function popcount(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0F0F0F0F) * 0x01010101) >>> 24;
+}
+
+// 64-bit hex hash as two 32-bit halves, so comparisons stay in plain number arithmetic
+function splitHash(hash: string): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+}
+
+export class PerceptualHash {
+  /**
+   * dHash of an image as 16 hex characters, or null when the Images binding cannot render it.
+   * The picture is squeezed to 9x8 (so crops do not match, but any resize does) and turned to greyscale.
+   */
+  static async compute(compression: CompressionService, data: ArrayBuffer): Promise<string | null> {
+    const thumbnail = await compression.downscale(data, HASH_COLUMNS, HASH_ROWS);
+    return thumbnail ? this.fromPixels(thumbnail) : null;
+  }
+
+  static fromPixels(image: DecodedImage): string {
+    const luma: number[] = [];
+    for (let i = 0; i < image.width * image.height; i++) {
+      const [r, g, b, a] = image.pixels.subarray(i * 4, i * 4 + 4);
+      // Transparent areas count as white, like they are usually shown
+      const alpha = a / 255;
+      luma.push((0.299 * r + 0.587 * g + 0.114 * b) * alpha + 255 * (1 - alpha));
+    }
+
+    let hex = '';
+    for (let y = 0; y < HASH_ROWS; y++) {
+      let byte = 0;
+      for (let x = 0; x < HASH_COLUMNS - 1; x++) {
+        const left = luma[y * HASH_COLUMNS + x];
+        const right = luma[y * HASH_COLUMNS + x + 1];
+        byte = (byte << 1) | (left > right ? 1 : 0);
+      }
+      hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+  }
+
+  // Number of differing bits between two hashes (0 = identical, 64 = inverted)
+  static distance(a: string, b: string): number {
+    const [a1, a2] = splitHash(a);
+    const [b1, b2] = splitHash(b);
+    return popcount(a1 ^ b1) + popcount(a2 ^ b2);
+  }
+
+  // Candidates within maxDistance of the hash, closest first
+  static findSimilar(hash: string, candidates: HashedImage[], maxDistance: number): HashMatch[] {
+    return candidates
+      .map(candidate => ({ id: candidate.id, distance: this.distance(hash, candidate.hash) }))
+      .filter(match => match.distance <= maxDistance)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Clusters of images connected by pairs within maxDistance (union-find), largest first.
+   * Only hashes that agree on one of maxDistance + 1 bands are compared: by pigeonhole that finds every
+   * such pair while the bands are at least 8 bits wide (maxDistance up to 7); above that some are missed.
+   */
+  static group(images: HashedImage[], maxDistance: number): string[][] {
+    // Identical hashes form one node, so a pile of exact copies does not fill a bucket
+    const idsByHash = new Map<string, string[]>();
+    for (const image of images) {
+      const ids = idsByHash.get(image.hash) ?? [];
+      ids.push(image.id);
+      idsByHash.set(image.hash, ids);
+    }
+    const hashes = [...idsByHash.keys()];
+    const halves = hashes.map(splitHash);
+    const bits = hashes.map(hash => [...hash].map(digit => parseInt(digit, 16).toString(2).padStart(4, '0')).join(''));
+
+    const parent = hashes.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+
+    const bandCount = Math.min(maxDistance + 1, MAX_GROUP_BANDS);
+    for (let band = 0; band < bandCount; band++) {
+      const from = Math.floor(band * 64 / bandCount);
+      const to = Math.floor((band + 1) * 64 / bandCount);
+      const buckets = new Map<string, number[]>();
+      bits.forEach((value, index) => {
+        const key = value.slice(from, to);
+        const bucket = buckets.get(key) ?? [];
+        bucket.push(index);
+        buckets.set(key, bucket);
+      });
+
+      for (const bucket of buckets.values()) {
+        for (let a = 0; a < bucket.length; a++) {
+          const [i1, i2] = halves[bucket[a]];
+          for (let b = a + 1; b < bucket.length; b++) {
+            const [j1, j2] = halves[bucket[b]];
+            if (find(bucket[a]) !== find(bucket[b]) && popcount(i1 ^ j1) + popcount(i2 ^ j2) <= maxDistance) {
+              parent[find(bucket[b])] = find(bucket[a]);
+            }
+          }
+        }
+      }
+    }
+
+    const clusters = new Map<number, string[]>();
+    hashes.forEach((hash, index) => {
+      const root = find(index);
+      const cluster = clusters.get(root) ?? [];
+      cluster.push(...idsByHash.get(hash)!);
+      clusters.set(root, cluster);
+    });
+    return [...clusters.values()]
+      .filter(cluster => cluster.length > 1)
+      .sort((a, b) => b.length - a.length);
+  }
+}
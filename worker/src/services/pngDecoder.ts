@@ -0,0 +1,152 @@
+// Minimal PNG decoder for the small thumbnails the Images binding renders for image analysis
+
+// RGBA pixels, 4 bytes per pixel, row by row
+export interface DecodedImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+// Bytes per pixel of the 8-bit colour types: greyscale, RGB, palette, grey+alpha, RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+// Anything larger is not a thumbnail; keeps a hostile file from allocating much memory
+const MAX_PIXELS = 1024 * 1024;
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  // 'deflate' is the zlib-wrapped stream PNG uses
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+export class PngDecoder {
+  /**
+   * Decodes a non-interlaced 8-bit PNG to RGBA. Returns null for anything else (other bit depths,
+   * interlacing, damaged data); callers treat that as "no pixels available".
+   */
+  static async decode(data: ArrayBuffer): Promise<DecodedImage | null> {
+    const bytes = new Uint8Array(data);
+    if (bytes.length < 33 || ascii(bytes, 1, 3) !== 'PNG') return null;
+    const view = new DataView(data);
+
+    let width = 0;
+    let height = 0;
+    let colourType = -1;
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const idat: Uint8Array[] = [];
+
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+      const length = view.getUint32(offset);
+      const type = ascii(bytes, offset + 4, 4);
+      const body = offset + 8;
+      if (body + length + 4 > bytes.length) return null;
+
+      if (type === 'IHDR') {
+        width = view.getUint32(body);
+        height = view.getUint32(body + 4);
+        const bitDepth = bytes[body + 8];
+        colourType = bytes[body + 9];
+        const interlace = bytes[body + 12];
+        if (bitDepth !== 8 || interlace !== 0 || !(colourType in CHANNELS)) return null;
+      } else if (type === 'PLTE') {
+        palette = bytes.subarray(body, body + length);
+      } else if (type === 'tRNS') {
+        transparency = bytes.subarray(body, body + length);
+      } else if (type === 'IDAT') {
+        idat.push(bytes.subarray(body, body + length));
+      } else if (type === 'IEND') {
+        break;
+      }
+      offset = body + length + 4;
+    }
+
+    if (width === 0 || height === 0 || width * height > MAX_PIXELS || idat.length === 0) return null;
+    if (colourType === 3 && !palette) return null;
+
+    let raw: Uint8Array;
+    try {
+      const joined = new Uint8Array(idat.reduce((total, chunk) => total + chunk.length, 0));
+      let position = 0;
+      for (const chunk of idat) {
+        joined.set(chunk, position);
+        position += chunk.length;
+      }
+      raw = await inflate(joined);
+    } catch {
+      return null;
+    }
+
+    const bpp = CHANNELS[colourType];
+    const stride = width * bpp;
+    if (raw.length < height * (stride + 1)) return null;
+
+    const unfiltered = new Uint8Array(height * stride);
+    for (let y = 0; y < height; y++) {
+      const filter = raw[y * (stride + 1)];
+      const source = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+      const row = unfiltered.subarray(y * stride, (y + 1) * stride);
+      const previous = y > 0 ? unfiltered.subarray((y - 1) * stride, y * stride) : null;
+
+      for (let x = 0; x < stride; x++) {
+        const left = x >= bpp ? row[x - bpp] : 0;
+        const up = previous ? previous[x] : 0;
+        const upLeft = previous && x >= bpp ? previous[x - bpp] : 0;
+        let predictor: number;
+        switch (filter) {
+          case 0: predictor = 0; break;
+          case 1: predictor = left; break;
+          case 2: predictor = up; break;
+          case 3: predictor = (left + up) >> 1; break;
+          case 4: predictor = paeth(left, up, upLeft); break;
+          default: return null;
+        }
+        row[x] = (source[x] + predictor) & 0xFF;
+      }
+    }
+
+    const pixels = new Uint8Array(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      const s = i * bpp;
+      const d = i * 4;
+      switch (colourType) {
+        case 0:
+          pixels[d] = pixels[d + 1] = pixels[d + 2] = unfiltered[s];
+          pixels[d + 3] = 255;
+          break;
+        case 2:
+          pixels.set(unfiltered.subarray(s, s + 3), d);
+          pixels[d + 3] = 255;
+          break;
+        case 3: {
+          const index = unfiltered[s];
+          pixels.set(palette!.subarray(index * 3, index * 3 + 3), d);
+          pixels[d + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+          break;
+        }
+        case 4:
+          pixels[d] = pixels[d + 1] = pixels[d + 2] = unfiltered[s];
+          pixels[d + 3] = unfiltered[s + 1];
+          break;
+        case 6:
+          pixels.set(unfiltered.subarray(s, s + 4), d);
+          break;
+      }
+    }
+
+    return { width, height, pixels };
+  }
+}
@@ -0,0 +1,234 @@
+// Fetches an image from a remote URL for rehosting, refusing anything that points into private networks
+import { MAX_FILE_SIZE, UploadRejectedError } from './ingest';
+
+const MAX_URL_LENGTH = 2048;
+const MAX_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS = 15000;
+// DNS-over-HTTPS resolver used to check where a host name points before fetching it
+const DNS_RESOLVER = 'https://cloudflare-dns.com/dns-query';
+const DNS_TYPE_A = 1;
+const DNS_TYPE_AAAA = 28;
+
+// Host names that never leave the machine or the local network
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa'];
+
+export interface RemoteImage {
+  name: string;
+  data: ArrayBuffer;
+}
+
+interface DnsAnswer {
+  type: number;
+  data: string;
+}
+
+function parseIPv4(host: string): number[] | null {
+  const parts = host.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+// Loopback, private, link-local, CGNAT, benchmarking, multicast and reserved ranges
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0)
+    || (a === 198 && (b === 18 || b === 19));
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const ip = address.toLowerCase();
+  // IPv4-mapped (::ffff:a.b.c.d, or ::ffff:xxxx:xxxx as the URL parser writes it)
+  const mapped = ip.match(/^::ffff:(.+)$/);
+  if (mapped) {
+    const dotted = parseIPv4(mapped[1]);
+    if (dotted) return isPrivateIPv4(dotted);
+    const words = mapped[1].split(':').map(word => parseInt(word, 16));
+    return words.length !== 2 || words.some(Number.isNaN)
+      || isPrivateIPv4([words[0] >> 8, words[0] & 0xff]);
+  }
+  // Other addresses starting with zeros (IPv4-compatible, unspecified) and NAT64 (64:ff9b::/96) can reach IPv4 ranges
+  if (ip.startsWith('::') || ip.startsWith('64:ff9b:')) return true;
+  // Unique local (fc00::/7), link-local (fe80::/10), multicast (ff00::/8), documentation (2001:db8::/32)
+  return /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff') || ip.startsWith('2001:db8:');
+}
+
+function isPrivateAddress(address: string): boolean {
+  const v4 = parseIPv4(address);
+  return v4 ? isPrivateIPv4(v4) : isPrivateIPv6(address);
+}
+
+async function resolveHost(host: string): Promise<string[]> {
+  const lookups = [DNS_TYPE_A, DNS_TYPE_AAAA].map(async type => {
+    const response = await fetch(`${DNS_RESOLVER}?name=${encodeURIComponent(host)}&type=${type}`, {
+      headers: { Accept: 'application/dns-json' },
+    });
+    if (!response.ok) {
+      throw new Error(`DNS lookup failed with HTTP ${response.status}`);
+    }
+    const result = await response.json() as { Answer?: DnsAnswer[] };
+    // CNAME entries are followed by the resolver; only the final addresses matter
+    return (result.Answer ?? []).filter(answer => answer.type === type).map(answer => answer.data);
+  });
+  return (await Promise.all(lookups)).flat();
+}
+
+/**
+ * Parses and checks a URL before it is fetched: http(s) on the default port, no credentials,
+ * and a host that neither is nor resolves to a private address. Throws UploadRejectedError otherwise.
+ */
+async function checkUrl(value: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new UploadRejectedError('Invalid URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UploadRejectedError('Only http and https URLs are supported');
+  }
+  if (url.username || url.password) {
+    throw new UploadRejectedError('URLs with credentials are not allowed');
+  }
+  if (url.port) {
+    throw new UploadRejectedError('URLs with a custom port are not allowed');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const isAddress = parseIPv4(host) !== null || host.includes(':');
+  if (isAddress) {
+    if (isPrivateAddress(host)) {
+      throw new UploadRejectedError('URL points to a private network address', 403);
+    }
+    return url;
+  }
+  if (!host.includes('.') || BLOCKED_HOST_SUFFIXES.some(suffix => host === suffix.slice(1) || host.endsWith(suffix))) {
+    throw new UploadRejectedError('URL points to a private network address', 403);
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await resolveHost(host);
+  } catch (err) {
+    console.error('Failed to resolve host:', host, err);
+    throw new UploadRejectedError(`Could not resolve ${host}`, 502);
+  }
+  if (addresses.length === 0) {
+    throw new UploadRejectedError(`Could not resolve ${host}`, 400);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new UploadRejectedError('URL points to a private network address', 403);
+  }
+  return url;
+}
+
+// Reads the body, giving up as soon as it grows past MAX_FILE_SIZE
+async function readLimited(response: Response): Promise<ArrayBuffer> {
+  const tooLarge = () => new UploadRejectedError(`File too large. Maximum size is ${MAX_FILE_SIZE / 1024 / 1024}MB`, 413);
+  const contentLength = response.headers.get('Content-Length');
+  if (contentLength && parseInt(contentLength, 10) > MAX_FILE_SIZE) {
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return new ArrayBuffer(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > MAX_FILE_SIZE) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data.buffer;
+}
+
+// File name for the library: the last path segment, or the host name when the path has none
+function fileNameFor(url: URL): string {
+  const segment = url.pathname.split('/').filter(Boolean).pop();
+  let name = url.hostname;
+  if (segment) {
+    try {
+      name = decodeURIComponent(segment);
+    } catch {
+      name = segment;
+    }
+  }
+  return name.slice(0, 255);
+}
+
+export class RemoteImageFetcher {
+  /**
+   * Downloads an image for ingestion. Redirects are followed by hand (at most MAX_REDIRECTS)
+   * so that every hop passes the same checks as the original URL.
+   */
+  static async fetch(value: string): Promise<RemoteImage> {
+    if (value.length > MAX_URL_LENGTH) {
+      throw new UploadRejectedError(`URL must be at most ${MAX_URL_LENGTH} characters`);
+    }
+
+    let url = await checkUrl(value);
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    for (let redirects = 0; ; redirects++) {
+      let response: Response;
+      try {
+        response = await fetch(url.toString(), {
+          redirect: 'manual',
+          signal,
+          headers: { Accept: 'image/*' },
+        });
+      } catch (err) {
+        console.error('Remote fetch failed:', url.toString(), err);
+        throw new UploadRejectedError(
+          signal.aborted ? 'Timed out fetching the URL' : 'Failed to fetch the URL',
+          signal.aborted ? 504 : 502
+        );
+      }
+
+      if (response.status >= 300 && response.status < 400) {
+        const location = response.headers.get('Location');
+        if (!location) {
+          throw new UploadRejectedError(`Remote server answered ${response.status} without a location`, 502);
+        }
+        if (redirects >= MAX_REDIRECTS) {
+          throw new UploadRejectedError(`Too many redirects (maximum ${MAX_REDIRECTS})`, 502);
+        }
+        url = await checkUrl(new URL(location, url).toString());
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new UploadRejectedError(`Remote server answered ${response.status}`, 502);
+      }
+      const contentType = response.headers.get('Content-Type')?.split(';')[0].trim().toLowerCase() ?? '';
+      if (!contentType.startsWith('image/')) {
+        await response.body?.cancel();
+        throw new UploadRejectedError(`URL is not an image (Content-Type: ${contentType || 'none'})`, 415);
+      }
+
+      try {
+        return { name: fileNameFor(url), data: await readLimited(response) };
+      } catch (err) {
+        if (err instanceof UploadRejectedError || !signal.aborted) throw err;
+        throw new UploadRejectedError('Timed out fetching the URL', 504);
+      }
+    }
+  }
+}
@@ -0,0 +1,133 @@
+// Signed URL Service for private images
+import type { CompressionOptions, Env, ImageMetadata, ImageVariant, ImageVariantWithUrl } from '../types';
+import { hmacSha256, timingSafeEqual, toBase64Url } from '../utils/crypto';
+import { buildImageUrls, buildPublicUrl } from '../utils/imageTransform';
+
+export type SignedVariant = 'original' | 'webp' | 'avif';
+
+// Links embedded in (KV-cached) API responses are valid for at least this long
+const RESPONSE_URL_WINDOW_SECONDS = 6 * 60 * 60;
+
+function responseUrlExpiry(): number {
+  const now = Math.floor(Date.now() / 1000);
+  return (Math.floor(now / RESPONSE_URL_WINDOW_SECONDS) + 2) * RESPONSE_URL_WINDOW_SECONDS;
+}
+
+export function isSignedVariant(value: unknown): value is SignedVariant {
+  return value === 'original' || value === 'webp' || value === 'avif';
+}
+
+export class SigningService {
+  constructor(private secret: string) {}
+
+  // `expires` is a Unix timestamp in seconds
+  async sign(id: string, variant: SignedVariant, expires: number): Promise<string> {
+    return toBase64Url(await hmacSha256(this.secret, `${id}:${variant}:${expires}`));
+  }
+
+  async verify(id: string, variant: SignedVariant, expires: number, signature: string): Promise<boolean> {
+    if (!Number.isInteger(expires) || expires * 1000 <= Date.now()) {
+      return false;
+    }
+    return timingSafeEqual(await this.sign(id, variant, expires), signature);
+  }
+
+  async buildUrl(origin: string, id: string, variant: SignedVariant, expires: number): Promise<string> {
+    const url = new URL(`/private/${id}`, origin);
+    url.searchParams.set('v', variant);
+    url.searchParams.set('exp', String(expires));
+    url.searchParams.set('sig', await this.sign(id, variant, expires));
+    return url.toString();
+  }
+
+  // /i/:id link carrying the signature of the original, so the delivery route can resize it
+  async buildDeliveryUrl(origin: string, id: string, query: Record<string, string>, expires: number): Promise<string> {
+    const url = new URL(`/i/${id}`, origin);
+    for (const [key, value] of Object.entries(query)) {
+      url.searchParams.set(key, value);
+    }
+    url.searchParams.set('v', 'original');
+    url.searchParams.set('exp', String(expires));
+    url.searchParams.set('sig', await this.sign(id, 'original', expires));
+    return url.toString();
+  }
+
+  /**
+   * Signed links for every stored variant of a private image.
+   * The expiry is rounded up to a fixed window so cached list/detail responses keep
+   * producing identical, still-valid URLs for the lifetime of the cache entry.
+   */
+  async buildVariantUrls(origin: string, image: ImageMetadata): Promise<{ original: string; webp: string; avif: string }> {
+    const expires = responseUrlExpiry();
+    const isGif = image.format === 'gif';
+
+    return {
+      original: await this.buildUrl(origin, image.id, 'original', expires),
+      webp: !isGif && image.paths.webp ? await this.buildUrl(origin, image.id, 'webp', expires) : '',
+      avif: !isGif && image.paths.avif ? await this.buildUrl(origin, image.id, 'avif', expires) : '',
+    };
+  }
+
+  static fromEnv(env: Env): SigningService | null {
+    return env.SIGNING_SECRET ? new SigningService(env.SIGNING_SECRET) : null;
+  }
+}
+
+// URLs for API responses: public images point at R2, private images at signed Worker links
+export async function resolveImageUrls(
+  env: Env,
+  origin: string,
+  image: ImageMetadata,
+  options?: CompressionOptions
+): Promise<{ original: string; webp: string; avif: string }> {
+  if (image.visibility === 'private') {
+    const signing = SigningService.fromEnv(env);
+    return signing
+      ? signing.buildVariantUrls(origin, image)
+      : { original: '', webp: '', avif: '' };
+  }
+
+  // SVG goes through /i/:id, which adds the CSP that the public bucket cannot send
+  if (image.format === 'svg') {
+    return { original: new URL(`/i/${image.id}`, origin).toString(), webp: '', avif: '' };
+  }
+
+  return buildImageUrls({
+    baseUrl: env.R2_PUBLIC_URL,
+    image,
+    options: options ?? {
+      generateWebp: !!image.paths.webp,
+      generateAvif: !!image.paths.avif,
+    },
+  });
+}
+
+// Variants with URLs: stored objects come from R2 (or signed /i/:id links for private images),
+// transform variants from /i/:id?format=, which converts the original on request
+export async function resolveVariantUrls(
+  env: Env,
+  origin: string,
+  image: ImageMetadata
+): Promise<ImageVariantWithUrl[]> {
+  const deliveryQuery = (variant: ImageVariant): Record<string, string> => variant.kind === 'responsive'
+    ? { w: String(variant.width), format: variant.format }
+    : { format: variant.format };
+
+  if (image.visibility === 'private') {
+    const signing = SigningService.fromEnv(env);
+    const expires = responseUrlExpiry();
+    return Promise.all(image.variants.map(async variant => ({
+      ...variant,
+      url: signing ? await signing.buildDeliveryUrl(origin, image.id, deliveryQuery(variant), expires) : '',
+    })));
+  }
+
+  return image.variants.map(variant => {
+    if (variant.path) {
+      return { ...variant, url: buildPublicUrl(env.R2_PUBLIC_URL, variant.path) };
+    }
+    const url = new URL(`/i/${image.id}`, origin);
+    url.searchParams.set('format', variant.format);
+    return { ...variant, url: url.toString() };
+  });
+}
@@ -1,4 +1,12 @@
+import type { ImageMetadata, ImageVariant } from '../types';
 import type { ImagePaths } from '../types/queue';
+import { deriveFormatFields } from '../utils/variants';
+
+// Private objects are stored as `private/<token>/<public key>`; keep this prefix off the public R2 domain
+const PRIVATE_PREFIX = 'private/';
+export const STAGING_PREFIX = `${PRIVATE_PREFIX}staging/`;
+// Metadata snapshots written by BackupService
+export const BACKUP_PREFIX = `${PRIVATE_PREFIX}backups/`;
 
 // R2 Storage Service
 export class StorageService {
@@ -32,23 +40,132 @@ export class StorageService {
     return head !== null;
   }
 
+  // Multipart uploads back resumable upload sessions; R2 cannot list uploaded parts, so callers keep track of them
+  async createMultipartUpload(key: string): Promise<string> {
+    const upload = await this.bucket.createMultipartUpload(key);
+    return upload.uploadId;
+  }
+
+  async uploadPart(key: string, uploadId: string, partNumber: number, data: ArrayBuffer): Promise<R2UploadedPart> {
+    return this.bucket.resumeMultipartUpload(key, uploadId).uploadPart(partNumber, data);
+  }
+
+  async completeMultipartUpload(key: string, uploadId: string, parts: R2UploadedPart[]): Promise<void> {
+    await this.bucket.resumeMultipartUpload(key, uploadId).complete(parts);
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.bucket.resumeMultipartUpload(key, uploadId).abort();
+  }
+
+  // R2 has no rename: copy the object (keeping its content type) and delete the source
+  async move(from: string, to: string): Promise<void> {
+    const object = await this.bucket.get(from);
+    if (!object) {
+      throw new Error(`Object not found: ${from}`);
+    }
+    await this.bucket.put(to, await object.arrayBuffer(), {
+      httpMetadata: object.httpMetadata
+    });
+    await this.bucket.delete(from);
+  }
+
+  /**
+   * Move every stored file of an image to the keys produced by `mapKey`.
+   * Transform variants have no object of their own and are left untouched.
+   */
+  async moveImageFiles(
+    image: Pick<ImageMetadata, 'format' | 'paths' | 'sizes' | 'variants'>,
+    mapKey: (key: string) => string
+  ): Promise<Pick<ImageMetadata, 'paths' | 'variants'>> {
+    await this.move(image.paths.original, mapKey(image.paths.original));
+    const variants: ImageVariant[] = [];
+    for (const variant of image.variants) {
+      if (!variant.path) {
+        variants.push(variant);
+        continue;
+      }
+      const path = mapKey(variant.path);
+      await this.move(variant.path, path);
+      variants.push({ ...variant, path });
+    }
+
+    const original = mapKey(image.paths.original);
+    return {
+      paths: deriveFormatFields({ format: image.format, path: original, size: image.sizes.original }, variants).paths,
+      variants,
+    };
+  }
+
+  // `webp`/`avif` are only set by messages queued before the variants table existed
   async deleteImageFiles(paths: ImagePaths): Promise<void> {
     const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
-    const keys = Array.from(new Set([paths.original, paths.webp, paths.avif].filter(isNonEmptyString)));
+    const keys = Array.from(new Set(
+      [paths.original, paths.webp, paths.avif, ...(paths.variants ?? [])].filter(isNonEmptyString)
+    ));
     await this.deleteMany(keys);
   }
 
-  // Generate storage paths for an image
-  static generatePaths(id: string, orientation: 'landscape' | 'portrait', format: string): {
+  // Generate storage paths for an image; private images live under an unguessable prefix
+  static generatePaths(id: string, orientation: 'landscape' | 'portrait', format: string, privateToken?: string): {
     original: string;
     webp: string;
     avif: string;
   } {
     const ext = format === 'gif' ? 'gif' : format;
-    return {
+    const paths = {
       original: `original/${orientation}/${id}.${ext}`,
       webp: `${orientation}/webp/${id}.webp`,
       avif: `${orientation}/avif/${id}.avif`
     };
+    if (!privateToken) return paths;
+    return {
+      original: StorageService.toPrivateKey(paths.original, privateToken),
+      webp: StorageService.toPrivateKey(paths.webp, privateToken),
+      avif: StorageService.toPrivateKey(paths.avif, privateToken)
+    };
+  }
+
+  // Staging object of a resumable upload; kept under the private prefix so it is never publicly reachable
+  static generateUploadSessionKey(sessionId: string): string {
+    return `${PRIVATE_PREFIX}uploads/${sessionId}`;
+  }
+
+  // Metadata snapshot, e.g. `private/backups/2024-12-15T10-30-00-000Z-<random>.ndjson`
+  static generateBackupKey(name: string): string {
+    return `${BACKUP_PREFIX}${name}`;
+  }
+
+  // Objects put into R2 by scripts for a batch upload (`private/staging/...`)
+  static isStagingKey(key: string): boolean {
+    return key.startsWith(STAGING_PREFIX) && key.length > STAGING_PREFIX.length && !key.split('/').includes('..');
+  }
+
+  // Path for a responsive variant, e.g. `landscape/w640/<id>.webp`
+  static generateVariantPath(
+    id: string,
+    orientation: 'landscape' | 'portrait',
+    format: 'webp' | 'avif',
+    width: number,
+    privateToken?: string
+  ): string {
+    const key = `${orientation}/w${width}/${id}.${format}`;
+    return privateToken ? StorageService.toPrivateKey(key, privateToken) : key;
+  }
+
+  // Raster preview of a vector original, e.g. `landscape/preview/<id>.webp`
+  static generatePreviewPath(id: string, orientation: 'landscape' | 'portrait', privateToken?: string): string {
+    const key = `${orientation}/preview/${id}.webp`;
+    return privateToken ? StorageService.toPrivateKey(key, privateToken) : key;
+  }
+
+  static toPrivateKey(key: string, token: string): string {
+    return `${PRIVATE_PREFIX}${token}/${key}`;
+  }
+
+  static toPublicKey(key: string): string {
+    if (!key.startsWith(PRIVATE_PREFIX)) return key;
+    const rest = key.slice(PRIVATE_PREFIX.length);
+    return rest.slice(rest.indexOf('/') + 1);
   }
 }
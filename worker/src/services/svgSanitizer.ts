@@ -0,0 +1,249 @@
+// SVG sanitisation: uploads are re-serialised with scripts, event handlers and external references removed
+
+// Elements that run script, embed other documents or pull in remote content; dropped with their subtree
+const BLOCKED_ELEMENTS = new Set([
+  'script', 'foreignobject', 'iframe', 'frame', 'frameset', 'embed', 'object',
+  'audio', 'video', 'canvas', 'handler', 'listener', 'link', 'meta', 'base',
+]);
+// Animation can rewrite attributes after load, e.g. set href to javascript:
+const ANIMATION_ELEMENTS = new Set(['set', 'animate', 'animatecolor', 'animatemotion', 'animatetransform']);
+const URL_ATTRIBUTES = new Set(['href', 'xlink:href', 'src']);
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+// Raster images embedded as data URLs are rendered in image mode and cannot run script
+const SAFE_DATA_URL = /^data:image\/(png|jpe?g|gif|webp|avif);/i;
+
+const DOCTYPE_PATTERN = /<!DOCTYPE[^[>]*(?:\[[\s\S]*?\])?\s*>/iy;
+const TAG_NAME_PATTERN = /[^\s/>]+/y;
+const ATTRIBUTE_PATTERN = /\s*([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+
+interface SvgAttribute {
+  name: string;
+  value: string;
+}
+
+interface SvgTag {
+  name: string;
+  attributes: SvgAttribute[];
+  selfClosing: boolean;
+  end: number;
+}
+
+function isLocalReference(value: string): boolean {
+  return value.trim().startsWith('#');
+}
+
+// Strips control characters and whitespace so "java\tscript:" cannot slip through
+function hasScriptUrl(value: string): boolean {
+  return /(java|vb)script:/i.test(value.replace(/[\s\u0000-\u001F]+/g, ''));
+}
+
+// Entities other than the five XML ones were declared in the (removed) DOCTYPE and would break parsing
+function hasCustomEntity(value: string): boolean {
+  for (const match of value.matchAll(/&([A-Za-z_][\w.-]*);/g)) {
+    if (!Object.hasOwn(XML_ENTITIES, match[1])) return true;
+  }
+  return false;
+}
+
+/**
+ * Resolves numeric (`&#106;`, `&#x6A;`) and XML entity references, so "&#106;avascript:" or "u&#114;l(" are
+ * checked as the renderer will read them. Invalid code points become U+FFFD as in an XML parser's recovery.
+ */
+function decodeReferences(value: string): string {
+  return value.replace(/&(?:#(\d+)|#x([0-9a-f]+)|(amp|lt|gt|quot|apos));/gi, (match, dec?: string, hex?: string, name?: string) => {
+    if (name) return XML_ENTITIES[name] ?? match;
+    const code = dec !== undefined ? parseInt(dec, 10) : parseInt(hex ?? '', 16);
+    return code > 0 && code <= 0x10FFFF && (code < 0xD800 || code > 0xDFFF) ? String.fromCodePoint(code) : '\uFFFD';
+  });
+}
+
+// Serialised output carries no character references of its own, only these escapes
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export class SvgSanitizer {
+  /**
+   * Sanitised copy of an SVG document, or null when it is not a well-formed SVG.
+   * Comments, processing instructions and the DOCTYPE (with any entity declarations) are dropped.
+   */
+  static sanitize(source: string): string | null {
+    const src = source.replace(/^\uFEFF/, '');
+    const stack: string[] = [];
+    let output = '';
+    let skipDepth = 0;
+    let sawRoot = false;
+    let i = 0;
+
+    while (i < src.length) {
+      const lt = src.indexOf('<', i);
+      const text = src.slice(i, lt === -1 ? src.length : lt);
+      if (text && stack.length > 0 && skipDepth === 0) {
+        // Style text is decoded first so an encoded url( or @import is caught
+        output += stack[stack.length - 1].toLowerCase() === 'style'
+          ? escapeText(this.sanitizeCss(decodeReferences(text)))
+          : text;
+      }
+      if (lt === -1) break;
+
+      if (src.startsWith('<!--', lt)) {
+        const end = src.indexOf('-->', lt + 4);
+        if (end === -1) return null;
+        i = end + 3;
+        continue;
+      }
+
+      if (src.startsWith('<![CDATA[', lt)) {
+        const end = src.indexOf(']]>', lt + 9);
+        if (end === -1) return null;
+        if (stack.length > 0 && skipDepth === 0) {
+          const content = src.slice(lt + 9, end);
+          const inStyle = stack[stack.length - 1].toLowerCase() === 'style';
+          output += `<![CDATA[${inStyle ? this.sanitizeCss(content) : content}]]>`;
+        }
+        i = end + 3;
+        continue;
+      }
+
+      if (src.startsWith('<?', lt)) {
+        const end = src.indexOf('?>', lt + 2);
+        if (end === -1) return null;
+        i = end + 2;
+        continue;
+      }
+
+      if (src.startsWith('<!', lt)) {
+        DOCTYPE_PATTERN.lastIndex = lt;
+        const match = DOCTYPE_PATTERN.exec(src);
+        if (!match || sawRoot) return null;
+        i = lt + match[0].length;
+        continue;
+      }
+
+      if (src.startsWith('</', lt)) {
+        const end = src.indexOf('>', lt + 2);
+        if (end === -1) return null;
+        const name = src.slice(lt + 2, end).trim();
+        if (stack.pop() !== name) return null;
+        if (skipDepth > 0) {
+          skipDepth--;
+        } else {
+          output += `</${name}>`;
+        }
+        i = end + 1;
+        continue;
+      }
+
+      const tag = this.parseTag(src, lt);
+      if (!tag) return null;
+      i = tag.end;
+
+      if (!sawRoot) {
+        const localName = tag.name.split(':').pop();
+        if (localName !== 'svg') return null;
+        sawRoot = true;
+      } else if (stack.length === 0) {
+        // A second top-level element is not well-formed XML
+        return null;
+      }
+
+      const blocked = skipDepth > 0 || this.isBlockedElement(tag);
+      if (!tag.selfClosing) {
+        stack.push(tag.name);
+        if (blocked) skipDepth++;
+      }
+      if (!blocked) {
+        output += this.serializeTag(tag);
+      }
+    }
+
+    if (!sawRoot || stack.length > 0) return null;
+    return output;
+  }
+
+  private static parseTag(src: string, start: number): SvgTag | null {
+    TAG_NAME_PATTERN.lastIndex = start + 1;
+    const nameMatch = TAG_NAME_PATTERN.exec(src);
+    if (!nameMatch) return null;
+
+    const attributes: SvgAttribute[] = [];
+    let j = start + 1 + nameMatch[0].length;
+    while (j < src.length) {
+      while (j < src.length && /\s/.test(src[j])) j++;
+      if (src[j] === '>') {
+        return { name: nameMatch[0], attributes, selfClosing: false, end: j + 1 };
+      }
+      if (src.startsWith('/>', j)) {
+        return { name: nameMatch[0], attributes, selfClosing: true, end: j + 2 };
+      }
+      ATTRIBUTE_PATTERN.lastIndex = j;
+      const attr = ATTRIBUTE_PATTERN.exec(src);
+      if (!attr) return null;
+      const raw = attr[2] ?? attr[3];
+      // Values are kept decoded, so every check below sees the characters the renderer will
+      if (!hasCustomEntity(raw)) {
+        attributes.push({ name: attr[1], value: decodeReferences(raw) });
+      }
+      j = ATTRIBUTE_PATTERN.lastIndex;
+    }
+    return null;
+  }
+
+  private static isBlockedElement(tag: SvgTag): boolean {
+    const localName = (tag.name.split(':').pop() || '').toLowerCase();
+    if (BLOCKED_ELEMENTS.has(localName)) return true;
+    if (!ANIMATION_ELEMENTS.has(localName)) return false;
+
+    const target = tag.attributes.find(a => a.name.toLowerCase() === 'attributename')?.value.trim().toLowerCase() ?? '';
+    return target.startsWith('on') || target.endsWith('href') || target === 'src'
+      || tag.attributes.some(a => hasScriptUrl(a.value));
+  }
+
+  private static serializeTag(tag: SvgTag): string {
+    const attributes = tag.attributes
+      .map(attr => this.sanitizeAttribute(attr))
+      .filter((attr): attr is SvgAttribute => attr !== null)
+      .map(attr => ` ${attr.name}="${escapeText(attr.value).replace(/"/g, '&quot;')}"`)
+      .join('');
+    return `<${tag.name}${attributes}${tag.selfClosing ? '/>' : '>'}`;
+  }
+
+  private static sanitizeAttribute(attr: SvgAttribute): SvgAttribute | null {
+    const name = attr.name.toLowerCase();
+    if (name.startsWith('on') || name === 'xml:base' || hasScriptUrl(attr.value)) {
+      return null;
+    }
+
+    if (URL_ATTRIBUTES.has(name) || name.endsWith(':href')) {
+      return isLocalReference(attr.value) || SAFE_DATA_URL.test(attr.value.trim()) ? attr : null;
+    }
+
+    if (name === 'style') {
+      const value = this.sanitizeCss(attr.value);
+      return value.trim() ? { name: attr.name, value } : null;
+    }
+
+    // Presentation attributes such as fill="url(...)" may only point inside the document
+    for (const match of attr.value.matchAll(/url\(\s*['"]?([^'")]*)/gi)) {
+      if (!isLocalReference(match[1])) return null;
+    }
+    return attr;
+  }
+
+  // Removes @import, non-local url() references and legacy script hooks from CSS
+  private static sanitizeCss(css: string): string {
+    return css
+      .replace(/\\[0-9a-f]{1,6}\s?|\\/gi, '')
+      .replace(/@import[^;]*;?/gi, '')
+      .replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, _quote: string, target: string) =>
+        isLocalReference(target) ? match : 'none')
+      .replace(/expression\s*\(|(java|vb)script:|-moz-binding|behavior\s*:/gi, '');
+  }
+}
+
+// Sent with every SVG response: no script, no external loads and no MIME sniffing
+export const SVG_RESPONSE_HEADERS: Record<string, string> = {
+  'Content-Type': 'image/svg+xml',
+  'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; img-src data:; sandbox",
+  'X-Content-Type-Options': 'nosniff',
+};
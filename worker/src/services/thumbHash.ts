@@ -0,0 +1,144 @@
+// ThumbHash (https://evanw.github.io/thumbhash/): a ~25 byte image summary clients decode into a blurred placeholder
+import type { CompressionService } from './compression';
+import type { DecodedImage } from './pngDecoder';
+import { toBase64 } from '../utils/crypto';
+
+// The format describes images of at most 100x100 pixels
+const MAX_SIZE = 100;
+
+interface EncodedChannel {
+  dc: number;
+  ac: number[];
+  scale: number;
+}
+
+// DCT of one channel: the DC (constant) term and AC terms normalised to 0-1 by their largest magnitude
+function encodeChannel(channel: number[], width: number, height: number, nx: number, ny: number): EncodedChannel {
+  let dc = 0;
+  let scale = 0;
+  const ac: number[] = [];
+  const fx: number[] = [];
+  for (let cy = 0; cy < ny; cy++) {
+    for (let cx = 0; cx * ny < nx * (ny - cy); cx++) {
+      for (let x = 0; x < width; x++) {
+        fx[x] = Math.cos(Math.PI / width * cx * (x + 0.5));
+      }
+      let f = 0;
+      for (let y = 0; y < height; y++) {
+        const fy = Math.cos(Math.PI / height * cy * (y + 0.5));
+        for (let x = 0; x < width; x++) {
+          f += channel[x + y * width] * fx[x] * fy;
+        }
+      }
+      f /= width * height;
+      if (cx || cy) {
+        ac.push(f);
+        scale = Math.max(scale, Math.abs(f));
+      } else {
+        dc = f;
+      }
+    }
+  }
+  return { dc, ac: scale ? ac.map(value => 0.5 + 0.5 / scale * value) : ac, scale };
+}
+
+// Sent with delivered images so embeds can show the placeholder (HEAD request or cross-origin fetch)
+export function thumbHashHeaders(thumbHash: string | undefined): Record<string, string> {
+  return thumbHash
+    ? { 'X-ThumbHash': thumbHash, 'Access-Control-Expose-Headers': 'X-ThumbHash' }
+    : {};
+}
+
+export class ThumbHash {
+  /**
+   * ThumbHash of an image as base64, or null when the Images binding cannot render it.
+   * `width`/`height` are the displayed dimensions; the render keeps their aspect ratio within 100x100.
+   */
+  static async compute(compression: CompressionService, data: ArrayBuffer, width: number, height: number): Promise<string | null> {
+    if (width <= 0 || height <= 0) return null;
+    const scale = MAX_SIZE / Math.max(width, height);
+    const thumbnail = await compression.downscale(
+      data,
+      Math.max(1, Math.round(width * scale)),
+      Math.max(1, Math.round(height * scale))
+    );
+    return thumbnail ? this.fromPixels(thumbnail) : null;
+  }
+
+  static fromPixels(image: DecodedImage): string {
+    const { width, height, pixels } = image;
+    const count = width * height;
+
+    // Average colour, weighted by alpha
+    let avgR = 0;
+    let avgG = 0;
+    let avgB = 0;
+    let avgA = 0;
+    for (let i = 0; i < count; i++) {
+      const alpha = pixels[i * 4 + 3] / 255;
+      avgR += alpha / 255 * pixels[i * 4];
+      avgG += alpha / 255 * pixels[i * 4 + 1];
+      avgB += alpha / 255 * pixels[i * 4 + 2];
+      avgA += alpha;
+    }
+    if (avgA) {
+      avgR /= avgA;
+      avgG /= avgA;
+      avgB /= avgA;
+    }
+
+    // Fewer luminance terms when the hash also has to carry alpha
+    const hasAlpha = avgA < count;
+    const lLimit = hasAlpha ? 5 : 7;
+    const lx = Math.max(1, Math.round(lLimit * width / Math.max(width, height)));
+    const ly = Math.max(1, Math.round(lLimit * height / Math.max(width, height)));
+
+    // RGBA to luminance, yellow-blue, red-green and alpha, composited on the average colour
+    const l: number[] = [];
+    const p: number[] = [];
+    const q: number[] = [];
+    const a: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const alpha = pixels[i * 4 + 3] / 255;
+      const r = avgR * (1 - alpha) + alpha / 255 * pixels[i * 4];
+      const g = avgG * (1 - alpha) + alpha / 255 * pixels[i * 4 + 1];
+      const b = avgB * (1 - alpha) + alpha / 255 * pixels[i * 4 + 2];
+      l.push((r + g + b) / 3);
+      p.push((r + g) / 2 - b);
+      q.push(r - g);
+      a.push(alpha);
+    }
+
+    const lChannel = encodeChannel(l, width, height, Math.max(3, lx), Math.max(3, ly));
+    const pChannel = encodeChannel(p, width, height, 3, 3);
+    const qChannel = encodeChannel(q, width, height, 3, 3);
+    const aChannel = hasAlpha ? encodeChannel(a, width, height, 5, 5) : null;
+
+    const isLandscape = width > height;
+    const header24 = Math.round(63 * lChannel.dc)
+      | (Math.round(31.5 + 31.5 * pChannel.dc) << 6)
+      | (Math.round(31.5 + 31.5 * qChannel.dc) << 12)
+      | (Math.round(31 * lChannel.scale) << 18)
+      | ((hasAlpha ? 1 : 0) << 23);
+    const header16 = (isLandscape ? ly : lx)
+      | (Math.round(63 * pChannel.scale) << 3)
+      | (Math.round(63 * qChannel.scale) << 9)
+      | ((isLandscape ? 1 : 0) << 15);
+    const hash = [header24 & 255, (header24 >> 8) & 255, header24 >> 16, header16 & 255, header16 >> 8];
+    if (aChannel) {
+      hash.push(Math.round(15 * aChannel.dc) | (Math.round(15 * aChannel.scale) << 4));
+    }
+
+    // AC terms as 4-bit nibbles, low nibble first
+    const acStart = hash.length;
+    let acIndex = 0;
+    for (const channel of aChannel ? [lChannel, pChannel, qChannel, aChannel] : [lChannel, pChannel, qChannel]) {
+      for (const value of channel.ac) {
+        const position = acStart + (acIndex >> 1);
+        hash[position] = (hash[position] ?? 0) | (Math.round(15 * value) << ((acIndex & 1) << 2));
+        acIndex++;
+      }
+    }
+    return toBase64(new Uint8Array(hash));
+  }
+}
@@ -0,0 +1,73 @@
+import type { UploadSession, UploadSessionKind, UploadSessionRow, UploadedPart } from '../types';
+
+// D1 bookkeeping for resumable uploads (the bytes themselves live in an R2 multipart upload)
+export class UploadSessionService {
+  constructor(private db: D1Database) {}
+
+  async create(session: UploadSession): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO upload_sessions (id, r2_key, upload_id, file_name, file_size, part_size, fields, kind, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      session.id,
+      session.r2Key,
+      session.uploadId,
+      session.fileName,
+      session.fileSize,
+      session.partSize,
+      JSON.stringify(session.fields),
+      session.kind,
+      session.createdAt,
+      session.expiresAt
+    ).run();
+  }
+
+  async get(id: string): Promise<UploadSession | null> {
+    const row = await this.db.prepare(`SELECT * FROM upload_sessions WHERE id = ?`).bind(id).first<UploadSessionRow>();
+    return row ? this.rowToSession(row) : null;
+  }
+
+  async getParts(id: string): Promise<UploadedPart[]> {
+    const result = await this.db.prepare(`
+      SELECT part_number, etag, size FROM upload_session_parts WHERE session_id = ? ORDER BY part_number
+    `).bind(id).all<{ part_number: number; etag: string; size: number }>();
+
+    return (result.results || []).map(row => ({ partNumber: row.part_number, etag: row.etag, size: row.size }));
+  }
+
+  // A part sent again (after a lost response) replaces the earlier record
+  async recordPart(id: string, part: UploadedPart): Promise<void> {
+    await this.db.prepare(`
+      INSERT OR REPLACE INTO upload_session_parts (session_id, part_number, etag, size) VALUES (?, ?, ?, ?)
+    `).bind(id, part.partNumber, part.etag, part.size).run();
+  }
+
+  async delete(id: string): Promise<void> {
+    // ON DELETE CASCADE removes the parts
+    await this.db.prepare(`DELETE FROM upload_sessions WHERE id = ?`).bind(id).run();
+  }
+
+  async getExpired(): Promise<UploadSession[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM upload_sessions WHERE expires_at < ?
+    `).bind(new Date().toISOString()).all<UploadSessionRow>();
+
+    return (result.results || []).map(row => this.rowToSession(row));
+  }
+
+  private rowToSession(row: UploadSessionRow): UploadSession {
+    return {
+      id: row.id,
+      r2Key: row.r2_key,
+      uploadId: row.upload_id,
+      fileName: row.file_name,
+      fileSize: row.file_size,
+      partSize: row.part_size,
+      partCount: Math.ceil(row.file_size / row.part_size),
+      fields: JSON.parse(row.fields) as Record<string, string>,
+      kind: row.kind as UploadSessionKind,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+    };
+  }
+}
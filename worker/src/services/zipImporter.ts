@@ -0,0 +1,247 @@
+// Server-side ZIP import: the archive sits in R2 and the queue consumer ingests its images a few at a time
+import type { Env, UploadSession, ZipImport } from '../types';
+import { StorageService } from './storage';
+import { ZipImportService, type ZipImportEntry } from './zipImports';
+import { ZipFormatError, ZipReader, type ZipEntry } from './zipReader';
+import { ImageIngestService, MAX_FILE_SIZE, parseUploadOptions, rejectionOf, type UploadOptions } from './ingest';
+import { EXPORT_MANIFEST_NAME, parseExportManifest } from './libraryExport';
+import { sanitizeTagName, validateVisibility } from '../utils/validation';
+
+// Entries ingested per queue message; the job re-enqueues itself until none are left
+const ENTRIES_PER_MESSAGE = 10;
+// Stop taking new entries after this long so one message stays well inside the consumer's time limit
+const MESSAGE_TIME_BUDGET_MS = 5 * 60 * 1000;
+// Failed entries returned with the job status
+const MAX_REPORTED_ERRORS = 100;
+// Larger manifest.json files are not read, and the archive is imported like any other
+const MAX_MANIFEST_SIZE = 32 * 1024 * 1024;
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.avif', '.heic', '.heif', '.jxl', '.svg'];
+
+// Job state for API responses (the R2 key and request origin stay internal)
+export function importInfo(job: ZipImport) {
+  return {
+    id: job.id,
+    fileName: job.fileName,
+    status: job.status,
+    folderTags: job.folderTags,
+    total: job.total,
+    processed: job.processed,
+    succeeded: job.succeeded,
+    failed: job.failed,
+    skipped: job.skipped,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+}
+
+// Images only; folders, hidden files and macOS resource forks are skipped
+function isImportable(entry: ZipEntry): boolean {
+  if (entry.isDirectory) return false;
+  const segments = entry.path.split('/');
+  if (segments.some(segment => segment === '__MACOSX' || segment.startsWith('.'))) return false;
+  const name = segments[segments.length - 1].toLowerCase();
+  return IMAGE_EXTENSIONS.some(extension => name.endsWith(extension));
+}
+
+// Upload tags plus the exported image's tags or, when enabled, one tag per folder the entry is in
+function entryTags(job: ZipImport, options: UploadOptions, entry: ZipImportEntry): string[] {
+  if (entry.tags) return Array.from(new Set([...options.tags, ...entry.tags]));
+  if (!job.folderTags) return options.tags;
+  const folders = entry.path.split('/').slice(0, -1).map(sanitizeTagName).filter(tag => tag.length > 0);
+  return Array.from(new Set([...options.tags, ...folders]));
+}
+
+/**
+ * For an archive made by a library export: the originals listed in its manifest, carrying their
+ * original name, tags and visibility. Variants and anything not in the manifest are skipped.
+ * Returns null when the archive has no export manifest.
+ */
+async function manifestEntries(reader: ZipReader, entries: ZipEntry[]): Promise<ZipImportEntry[] | null> {
+  const file = entries.find(entry => entry.path === EXPORT_MANIFEST_NAME && !entry.isDirectory);
+  if (!file || file.size > MAX_MANIFEST_SIZE) return null;
+  const manifest = parseExportManifest(new TextDecoder().decode(await reader.read(file)));
+  if (!manifest) return null;
+
+  const originals = new Map(manifest.images.filter(image => image.file && image.metadata).map(image => [image.file, image.metadata]));
+  return entries.filter(isImportable).flatMap((entry): ZipImportEntry[] => {
+    const metadata = originals.get(entry.path);
+    if (!metadata) return [];
+    return [{
+      ...entry,
+      name: typeof metadata.originalName === 'string' && metadata.originalName ? metadata.originalName : undefined,
+      tags: Array.isArray(metadata.tags)
+        ? metadata.tags.filter((tag): tag is string => typeof tag === 'string').map(sanitizeTagName).filter(tag => tag.length > 0)
+        : [],
+      visibility: validateVisibility(metadata.visibility),
+    }];
+  });
+}
+
+function uploadOptions(env: Env, fields: Record<string, string>): UploadOptions {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+  return parseUploadOptions(formData, env);
+}
+
+export class ZipImporter {
+  private imports: ZipImportService;
+  private storage: StorageService;
+
+  /**
+   * `waitUntil` keeps cache invalidation after each ingested image running (the queue consumer's
+   * execution context); it defaults to waiting inline.
+   */
+  constructor(
+    private env: Env,
+    private waitUntil: (promise: Promise<unknown>) => void = () => {}
+  ) {
+    this.imports = new ZipImportService(env.DB);
+    this.storage = new StorageService(env.R2_BUCKET);
+  }
+
+  // Turns a completed ZIP upload session into a queued import job
+  async start(session: UploadSession, origin: string): Promise<ZipImport> {
+    if (!this.env.IMPORT_QUEUE) {
+      throw new Error('IMPORT_QUEUE is not bound');
+    }
+
+    const { folderTags, ...fields } = session.fields;
+    const now = new Date().toISOString();
+    const job: ZipImport = {
+      id: session.id,
+      fileName: session.fileName,
+      r2Key: session.r2Key,
+      origin,
+      fields,
+      folderTags: folderTags === 'true' || folderTags === '1',
+      status: 'queued',
+      total: 0,
+      processed: 0,
+      succeeded: 0,
+      failed: 0,
+      skipped: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.imports.create(job);
+    try {
+      await this.env.IMPORT_QUEUE.send({ type: 'zip_import', importId: job.id });
+    } catch (err) {
+      // Nothing would ever pick the job up; record why instead of leaving it queued
+      await this.imports.finish(job.id, 'failed', 'Could not queue the import');
+      throw err;
+    }
+    return job;
+  }
+
+  /**
+   * Handles one queue message for the job: reads the central directory on the first run, then ingests
+   * the next entries and re-enqueues the job while any are pending. The archive is deleted once the job
+   * has finished, failed or been cancelled.
+   */
+  async process(importId: string): Promise<void> {
+    let job = await this.imports.get(importId);
+    if (!job) return;
+    if (job.status !== 'queued' && job.status !== 'processing') {
+      await this.storage.delete(job.r2Key);
+      return;
+    }
+
+    const reader = new ZipReader(this.env.R2_BUCKET, job.r2Key);
+    if (job.status === 'queued') {
+      let entries: ZipEntry[];
+      let images: ZipImportEntry[];
+      try {
+        entries = await reader.entries();
+        images = await manifestEntries(reader, entries) ?? entries.filter(isImportable);
+      } catch (err) {
+        if (!(err instanceof ZipFormatError)) throw err;
+        console.warn(`ZIP import ${importId} failed:`, err.message);
+        await this.fail(job, err.message);
+        return;
+      }
+      await this.imports.addEntries(importId, images, entries.filter(entry => !entry.isDirectory).length - images.length);
+      console.log(`ZIP import ${importId}: ${images.length} images in ${job.fileName}`);
+    }
+
+    const options = uploadOptions(this.env, job.fields);
+    const ingest = new ImageIngestService(this.env, job.origin, this.waitUntil);
+    const startedAt = Date.now();
+    const pending = await this.imports.getPendingEntries(importId, ENTRIES_PER_MESSAGE);
+    for (const entry of pending) {
+      if (Date.now() - startedAt > MESSAGE_TIME_BUDGET_MS) break;
+      await this.imports.finishEntry(importId, entry.index, await this.ingestEntry(ingest, reader, job, options, entry));
+    }
+
+    // Cancelled while this batch ran: the next step cleans up
+    job = await this.imports.get(importId);
+    if (!job) return;
+    if (job.status !== 'processing') {
+      await this.storage.delete(job.r2Key);
+      return;
+    }
+
+    if ((await this.imports.getPendingEntries(importId, 1)).length > 0) {
+      await this.env.IMPORT_QUEUE?.send({ type: 'zip_import', importId });
+      return;
+    }
+    await this.imports.finish(importId, 'completed');
+    await this.storage.delete(job.r2Key);
+    console.log(`ZIP import ${importId} completed: ${job.succeeded} imported, ${job.failed} failed, ${job.skipped} skipped`);
+  }
+
+  // Gives up on a job whose messages keep failing (called once the queue's retries run out)
+  async fail(job: ZipImport, error: string): Promise<void> {
+    await this.imports.finish(job.id, 'failed', error);
+    await this.storage.delete(job.r2Key);
+  }
+
+  async getErrors(importId: string) {
+    return this.imports.getErrors(importId, MAX_REPORTED_ERRORS);
+  }
+
+  private async ingestEntry(
+    ingest: ImageIngestService,
+    reader: ZipReader,
+    job: ZipImport,
+    options: UploadOptions,
+    entry: ZipImportEntry
+  ): Promise<{ imageId: string } | { error: string }> {
+    if (entry.size > MAX_FILE_SIZE) {
+      return { error: `File too large. Maximum size is ${MAX_FILE_SIZE / 1024 / 1024}MB` };
+    }
+    // Manifest visibility bypasses parseUploadOptions, so a private entry needs the same check here
+    const visibility = entry.visibility ?? options.visibility;
+    if (visibility === 'private' && !this.env.SIGNING_SECRET) {
+      return { error: 'Private uploads require SIGNING_SECRET to be configured' };
+    }
+    const name = entry.name || entry.path.split('/').pop() || entry.path;
+    try {
+      const data = await reader.read(entry);
+      const result = await ingest.ingest(name, data, {
+        ...options,
+        tags: entryTags(job, options, entry),
+        visibility,
+      });
+      if (result.status === 'error' || !result.id) {
+        return { error: result.error || 'Upload failed' };
+      }
+      return { imageId: result.id };
+    } catch (err) {
+      if (err instanceof ZipFormatError) {
+        return { error: err.message };
+      }
+      const rejection = rejectionOf(err);
+      if (rejection) {
+        return { error: rejection.message };
+      }
+      console.error(`ZIP import ${job.id}: failed to ingest ${entry.path}:`, err);
+      return { error: 'Upload failed' };
+    }
+  }
+}
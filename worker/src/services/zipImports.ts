@@ -0,0 +1,161 @@
+import type { ImageVisibility, ZipImport, ZipImportEntryRow, ZipImportRow, ZipImportStatus } from '../types';
+import type { ZipEntry } from './zipReader';
+
+// Entries inserted per D1 batch while an archive is scanned
+const INSERT_BATCH_SIZE = 50;
+
+// An archive entry to import; the optional fields come from an export manifest and override the upload's
+export interface ZipImportEntry extends ZipEntry {
+  name?: string;
+  tags?: string[];
+  visibility?: ImageVisibility;
+}
+
+export interface ZipImportError {
+  path: string;
+  error: string;
+}
+
+// D1 bookkeeping for server-side ZIP imports (the archive itself lives in R2)
+export class ZipImportService {
+  constructor(private db: D1Database) {}
+
+  async create(job: ZipImport): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO zip_imports (id, file_name, r2_key, origin, fields, folder_tags, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      job.id,
+      job.fileName,
+      job.r2Key,
+      job.origin,
+      JSON.stringify(job.fields),
+      job.folderTags ? 1 : 0,
+      job.status,
+      job.createdAt,
+      job.updatedAt
+    ).run();
+  }
+
+  async get(id: string): Promise<ZipImport | null> {
+    const row = await this.db.prepare(`SELECT * FROM zip_imports WHERE id = ?`).bind(id).first<ZipImportRow>();
+    return row ? this.rowToImport(row) : null;
+  }
+
+  // Records the image entries found in the archive and starts processing them
+  async addEntries(id: string, entries: ZipImportEntry[], skipped: number): Promise<void> {
+    for (let i = 0; i < entries.length; i += INSERT_BATCH_SIZE) {
+      const statements = entries.slice(i, i + INSERT_BATCH_SIZE).map(entry => this.db.prepare(`
+        INSERT OR IGNORE INTO zip_import_entries
+          (import_id, entry_index, path, method, compressed_size, size, local_header_offset, name, tags, visibility)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        id,
+        entry.index,
+        entry.path,
+        entry.method,
+        entry.compressedSize,
+        entry.size,
+        entry.localHeaderOffset,
+        entry.name ?? null,
+        entry.tags ? JSON.stringify(entry.tags) : null,
+        entry.visibility ?? null
+      ));
+      await this.db.batch(statements);
+    }
+
+    await this.db.prepare(`
+      UPDATE zip_imports SET status = 'processing', total = ?, skipped = ?, updated_at = ? WHERE id = ?
+    `).bind(entries.length, skipped, new Date().toISOString(), id).run();
+  }
+
+  async getPendingEntries(id: string, limit: number): Promise<ZipImportEntry[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM zip_import_entries WHERE import_id = ? AND status = 'pending' ORDER BY entry_index LIMIT ?
+    `).bind(id, limit).all<ZipImportEntryRow>();
+
+    return (result.results || []).map(row => ({
+      index: row.entry_index,
+      path: row.path,
+      method: row.method,
+      compressedSize: row.compressed_size,
+      size: row.size,
+      localHeaderOffset: row.local_header_offset,
+      isDirectory: false,
+      encrypted: false,
+      name: row.name ?? undefined,
+      tags: row.tags ? JSON.parse(row.tags) as string[] : undefined,
+      visibility: (row.visibility as ImageVisibility | null) ?? undefined,
+    }));
+  }
+
+  // Stores the outcome of one entry and counts it on the import
+  async finishEntry(id: string, index: number, outcome: { imageId: string } | { error: string }): Promise<void> {
+    const succeeded = 'imageId' in outcome;
+    await this.db.batch([
+      this.db.prepare(`
+        UPDATE zip_import_entries SET status = ?, image_id = ?, error = ?
+        WHERE import_id = ? AND entry_index = ? AND status = 'pending'
+      `).bind(
+        succeeded ? 'success' : 'error',
+        succeeded ? outcome.imageId : null,
+        succeeded ? null : outcome.error,
+        id,
+        index
+      ),
+      this.db.prepare(`
+        UPDATE zip_imports
+        SET processed = processed + 1, succeeded = succeeded + ?, failed = failed + ?, updated_at = ?
+        WHERE id = ?
+      `).bind(succeeded ? 1 : 0, succeeded ? 0 : 1, new Date().toISOString(), id),
+    ]);
+  }
+
+  // Moves an unfinished import to a final status; returns false if it had already finished
+  async finish(id: string, status: Exclude<ZipImportStatus, 'queued' | 'processing'>, error?: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    const result = await this.db.prepare(`
+      UPDATE zip_imports SET status = ?, error = ?, updated_at = ?, completed_at = ?
+      WHERE id = ? AND status IN ('queued', 'processing')
+    `).bind(status, error ?? null, now, now, id).run();
+    return (result.meta.changes ?? 0) > 0;
+  }
+
+  // Failed entries in archive order, for the progress view
+  async getErrors(id: string, limit: number): Promise<ZipImportError[]> {
+    const result = await this.db.prepare(`
+      SELECT path, error FROM zip_import_entries WHERE import_id = ? AND status = 'error' ORDER BY entry_index LIMIT ?
+    `).bind(id, limit).all<{ path: string; error: string | null }>();
+
+    return (result.results || []).map(row => ({ path: row.path, error: row.error ?? 'Upload failed' }));
+  }
+
+  // Finished imports older than the cutoff; their entries go with them (ON DELETE CASCADE)
+  async deleteFinishedBefore(cutoff: string): Promise<number> {
+    const result = await this.db.prepare(`
+      DELETE FROM zip_imports WHERE completed_at IS NOT NULL AND completed_at < ?
+    `).bind(cutoff).run();
+    return result.meta.changes ?? 0;
+  }
+
+  private rowToImport(row: ZipImportRow): ZipImport {
+    return {
+      id: row.id,
+      fileName: row.file_name,
+      r2Key: row.r2_key,
+      origin: row.origin,
+      fields: JSON.parse(row.fields) as Record<string, string>,
+      folderTags: row.folder_tags === 1,
+      status: row.status as ZipImportStatus,
+      total: row.total,
+      processed: row.processed,
+      succeeded: row.succeeded,
+      failed: row.failed,
+      skipped: row.skipped,
+      error: row.error ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at ?? undefined,
+    };
+  }
+}
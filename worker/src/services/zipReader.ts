@@ -0,0 +1,248 @@
+// Reads ZIP archives stored in R2 with range requests, one entry at a time, so archives far larger
+// than the Worker's memory can be imported. Supports stored and deflated entries and ZIP64.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const EOCD_SIZE = 22;
+const ZIP64_LOCATOR_SIZE = 20;
+const ZIP64_EOCD_SIZE = 56;
+const LOCAL_HEADER_SIZE = 30;
+const MAX_COMMENT_LENGTH = 0xffff;
+// The central directory is read in one piece; this allows well over 100k entries
+const MAX_CENTRAL_DIRECTORY_SIZE = 32 * 1024 * 1024;
+
+export const ZIP_METHOD_STORED = 0;
+export const ZIP_METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  index: number;
+  // Path inside the archive, always with forward slashes
+  path: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+  isDirectory: boolean;
+  encrypted: boolean;
+}
+
+// The archive is not a readable ZIP file; `message` is safe to show to the user
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+async function readRange(bucket: R2Bucket, key: string, offset: number, length: number): Promise<DataView> {
+  const object = await bucket.get(key, { range: { offset, length } });
+  if (!object) {
+    throw new ZipFormatError('Archive not found');
+  }
+  const data = await object.arrayBuffer();
+  if (data.byteLength < length) {
+    throw new ZipFormatError('Archive is truncated');
+  }
+  return new DataView(data);
+}
+
+// 64-bit little-endian field; archives here stay far below 2^53
+function u64(view: DataView, offset: number): number {
+  return Number(view.getBigUint64(offset, true));
+}
+
+// Reads a stream fully, refusing to go past `limit` bytes
+async function readStream(stream: ReadableStream<Uint8Array>, limit: number): Promise<ArrayBuffer> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      throw new ZipFormatError('Entry is larger than its recorded size');
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data.buffer;
+}
+
+export class ZipReader {
+  constructor(private bucket: R2Bucket, private key: string) {}
+
+  /**
+   * Lists the entries of the archive from its central directory.
+   * Throws ZipFormatError when the object is missing or not a ZIP file.
+   */
+  async entries(): Promise<ZipEntry[]> {
+    const head = await this.bucket.head(this.key);
+    if (!head) {
+      throw new ZipFormatError('Archive not found');
+    }
+    return this.readCentralDirectory(head.size);
+  }
+
+  private async readCentralDirectory(archiveSize: number): Promise<ZipEntry[]> {
+    if (archiveSize < EOCD_SIZE) {
+      throw new ZipFormatError('Not a ZIP archive');
+    }
+
+    // The end record sits in the last 22 bytes plus the archive comment; ZIP64 adds a locator before it
+    const tailLength = Math.min(archiveSize, EOCD_SIZE + MAX_COMMENT_LENGTH + ZIP64_LOCATOR_SIZE);
+    const tailOffset = archiveSize - tailLength;
+    const tail = await readRange(this.bucket, this.key, tailOffset, tailLength);
+    let eocd = -1;
+    for (let i = tailLength - EOCD_SIZE; i >= 0; i--) {
+      if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new ZipFormatError('Not a ZIP archive (end of central directory not found)');
+    }
+    if (tail.getUint16(eocd + 4, true) !== 0 || tail.getUint16(eocd + 6, true) !== 0) {
+      throw new ZipFormatError('Multi-part ZIP archives are not supported');
+    }
+
+    let entryCount = tail.getUint16(eocd + 10, true);
+    let directorySize = tail.getUint32(eocd + 12, true);
+    let directoryOffset = tail.getUint32(eocd + 16, true);
+
+    const locator = eocd - ZIP64_LOCATOR_SIZE;
+    if (locator >= 0 && tail.getUint32(locator, true) === ZIP64_LOCATOR_SIGNATURE) {
+      const zip64Offset = u64(tail, locator + 8);
+      const zip64 = await readRange(this.bucket, this.key, zip64Offset, ZIP64_EOCD_SIZE);
+      if (zip64.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+        throw new ZipFormatError('Damaged ZIP64 end of central directory');
+      }
+      entryCount = u64(zip64, 32);
+      directorySize = u64(zip64, 40);
+      directoryOffset = u64(zip64, 48);
+    }
+
+    if (directorySize > MAX_CENTRAL_DIRECTORY_SIZE) {
+      throw new ZipFormatError('Central directory is too large');
+    }
+    if (directoryOffset + directorySize > archiveSize) {
+      throw new ZipFormatError('Archive is truncated');
+    }
+    if (entryCount === 0) {
+      return [];
+    }
+
+    const directory = await readRange(this.bucket, this.key, directoryOffset, directorySize);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    for (let index = 0; index < entryCount; index++) {
+      if (offset + 46 > directorySize || directory.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new ZipFormatError('Damaged central directory');
+      }
+      const flags = directory.getUint16(offset + 8, true);
+      const method = directory.getUint16(offset + 10, true);
+      let compressedSize = directory.getUint32(offset + 20, true);
+      let size = directory.getUint32(offset + 24, true);
+      const nameLength = directory.getUint16(offset + 28, true);
+      const extraLength = directory.getUint16(offset + 30, true);
+      const commentLength = directory.getUint16(offset + 32, true);
+      let localHeaderOffset = directory.getUint32(offset + 42, true);
+      const nameStart = offset + 46;
+      if (nameStart + nameLength + extraLength > directorySize) {
+        throw new ZipFormatError('Damaged central directory');
+      }
+
+      // Names are UTF-8 (flag bit 11) or, from older tools, usually plain ASCII
+      const path = decoder
+        .decode(new Uint8Array(directory.buffer, directory.byteOffset + nameStart, nameLength))
+        .replace(/\\/g, '/');
+
+      // ZIP64 extra field: 64-bit values for exactly the fields saturated above, in this order
+      let extra = nameStart + nameLength;
+      const extraEnd = extra + extraLength;
+      while (extra + 4 <= extraEnd) {
+        const id = directory.getUint16(extra, true);
+        const length = directory.getUint16(extra + 2, true);
+        if (id === 0x0001) {
+          let field = extra + 4;
+          if (size === 0xffffffff && field + 8 <= extraEnd) { size = u64(directory, field); field += 8; }
+          if (compressedSize === 0xffffffff && field + 8 <= extraEnd) { compressedSize = u64(directory, field); field += 8; }
+          if (localHeaderOffset === 0xffffffff && field + 8 <= extraEnd) { localHeaderOffset = u64(directory, field); }
+        }
+        extra += 4 + length;
+      }
+
+      entries.push({
+        index,
+        path,
+        method,
+        compressedSize,
+        size,
+        localHeaderOffset,
+        isDirectory: path.endsWith('/'),
+        encrypted: (flags & 0x1) !== 0,
+      });
+      offset = nameStart + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  }
+
+  /**
+   * Extracts one entry. Directories, encrypted entries and methods other than stored/deflate
+   * throw ZipFormatError, as does data that does not match the recorded size.
+   */
+  async read(entry: ZipEntry): Promise<ArrayBuffer> {
+    if (entry.isDirectory) {
+      throw new ZipFormatError('Entry is a directory');
+    }
+    if (entry.encrypted) {
+      throw new ZipFormatError('Encrypted entries are not supported');
+    }
+    if (entry.method !== ZIP_METHOD_STORED && entry.method !== ZIP_METHOD_DEFLATE) {
+      throw new ZipFormatError(`Unsupported compression method ${entry.method}`);
+    }
+
+    // The local header repeats the name and may carry a different extra field, so its length is read here
+    const header = await readRange(this.bucket, this.key, entry.localHeaderOffset, LOCAL_HEADER_SIZE);
+    if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError('Damaged local file header');
+    }
+    const dataOffset = entry.localHeaderOffset + LOCAL_HEADER_SIZE + header.getUint16(26, true) + header.getUint16(28, true);
+
+    if (entry.compressedSize === 0) {
+      return new ArrayBuffer(0);
+    }
+    const object = await this.bucket.get(this.key, { range: { offset: dataOffset, length: entry.compressedSize } });
+    if (!object) {
+      throw new ZipFormatError('Archive not found');
+    }
+
+    const stream = entry.method === ZIP_METHOD_DEFLATE
+      ? object.body.pipeThrough(new DecompressionStream('deflate-raw'))
+      : object.body;
+    let data: ArrayBuffer;
+    try {
+      data = await readStream(stream, entry.size);
+    } catch (err) {
+      if (err instanceof ZipFormatError) throw err;
+      throw new ZipFormatError('Damaged compressed data');
+    }
+    if (data.byteLength !== entry.size) {
+      throw new ZipFormatError('Entry is shorter than its recorded size');
+    }
+    return data;
+  }
+}
@@ -0,0 +1,164 @@
+// Writes a ZIP archive to a stream as the files arrive, without buffering the archive. Entries are stored
+// uncompressed (images are compressed already) and ZIP64 records are added once offsets pass 4GB.
+import { crc32 } from '../utils/crypto';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const EOCD_SIGNATURE = 0x06054b50;
+
+// Sizes follow the data (bit 3) and names are UTF-8 (bit 11)
+const FLAGS = 0x0808;
+const VERSION = 20;
+const VERSION_ZIP64 = 45;
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+// Entries hold single images, so only offsets and counts can outgrow the 32-bit fields
+const MAX_ENTRY_SIZE = MAX_UINT32 - 1;
+
+interface WrittenEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+// MS-DOS date and time fields (2-second resolution, local time is taken as UTC)
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getUTCFullYear());
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setBigUint64(offset, BigInt(value), true);
+}
+
+export class ZipWriter {
+  private entries: WrittenEntry[] = [];
+  private offset = 0;
+  private encoder = new TextEncoder();
+
+  constructor(private writer: WritableStreamDefaultWriter<Uint8Array>) {}
+
+  /**
+   * Adds one file. `data` may be a stream (an R2 object body) so large files pass through without
+   * being held in memory. Names use forward slashes; the caller keeps them unique.
+   */
+  async add(name: string, data: ReadableStream<Uint8Array> | Uint8Array, modified = new Date()): Promise<void> {
+    const encodedName = this.encoder.encode(name);
+    const { time, date } = dosDateTime(modified);
+    const offset = this.offset;
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    header.setUint16(4, VERSION, true);
+    header.setUint16(6, FLAGS, true);
+    header.setUint16(8, 0, true); // stored
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    // CRC and sizes (14-25) are left zero and written to the data descriptor
+    header.setUint16(26, encodedName.length, true);
+    header.setUint16(28, 0, true);
+    await this.write(new Uint8Array(header.buffer));
+    await this.write(encodedName);
+
+    let crc = 0;
+    let size = 0;
+    const chunks = data instanceof Uint8Array ? [data] : data;
+    for await (const chunk of chunks) {
+      crc = crc32(chunk, crc);
+      size += chunk.byteLength;
+      if (size > MAX_ENTRY_SIZE) {
+        throw new Error(`ZIP entry too large: ${name}`);
+      }
+      await this.write(chunk);
+    }
+
+    const descriptor = new DataView(new ArrayBuffer(16));
+    descriptor.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    descriptor.setUint32(4, crc, true);
+    descriptor.setUint32(8, size, true);
+    descriptor.setUint32(12, size, true);
+    await this.write(new Uint8Array(descriptor.buffer));
+
+    this.entries.push({ name: encodedName, crc, size, offset, time, date });
+  }
+
+  // Writes the central directory and closes the stream
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const zip64Offset = entry.offset >= MAX_UINT32;
+      const extraLength = zip64Offset ? 12 : 0;
+      const header = new DataView(new ArrayBuffer(46 + extraLength));
+      header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      header.setUint16(4, zip64Offset ? VERSION_ZIP64 : VERSION, true);
+      header.setUint16(6, zip64Offset ? VERSION_ZIP64 : VERSION, true);
+      header.setUint16(8, FLAGS, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, entry.time, true);
+      header.setUint16(14, entry.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      header.setUint16(30, extraLength, true);
+      // Comment length, disk number, internal and external attributes stay zero
+      header.setUint32(42, zip64Offset ? MAX_UINT32 : entry.offset, true);
+      if (zip64Offset) {
+        // ZIP64 extended information holding only the saturated field
+        header.setUint16(46, 0x0001, true);
+        header.setUint16(48, 8, true);
+        setUint64(header, 50, entry.offset);
+      }
+      // The name goes between the fixed header and the extra field
+      const bytes = new Uint8Array(header.buffer);
+      await this.write(bytes.subarray(0, 46));
+      await this.write(entry.name);
+      if (extraLength > 0) {
+        await this.write(bytes.subarray(46));
+      }
+    }
+    const directorySize = this.offset - directoryOffset;
+    const count = this.entries.length;
+
+    const needsZip64 = count >= MAX_UINT16 || directoryOffset >= MAX_UINT32 || directorySize >= MAX_UINT32;
+    if (needsZip64) {
+      const zip64Offset = this.offset;
+      const record = new DataView(new ArrayBuffer(56 + 20));
+      record.setUint32(0, ZIP64_EOCD_SIGNATURE, true);
+      setUint64(record, 4, 44);
+      record.setUint16(12, VERSION_ZIP64, true);
+      record.setUint16(14, VERSION_ZIP64, true);
+      setUint64(record, 24, count);
+      setUint64(record, 32, count);
+      setUint64(record, 40, directorySize);
+      setUint64(record, 48, directoryOffset);
+      record.setUint32(56, ZIP64_LOCATOR_SIGNATURE, true);
+      setUint64(record, 64, zip64Offset);
+      record.setUint32(72, 1, true);
+      await this.write(new Uint8Array(record.buffer));
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, EOCD_SIGNATURE, true);
+    end.setUint16(8, Math.min(count, MAX_UINT16), true);
+    end.setUint16(10, Math.min(count, MAX_UINT16), true);
+    end.setUint32(12, Math.min(directorySize, MAX_UINT32), true);
+    end.setUint32(16, Math.min(directoryOffset, MAX_UINT32), true);
+    await this.write(new Uint8Array(end.buffer));
+    await this.writer.close();
+  }
+
+  private async write(chunk: Uint8Array): Promise<void> {
+    await this.writer.write(chunk);
+    this.offset += chunk.byteLength;
+  }
+}
@@ -11,7 +11,7 @@ export interface ImageTransformer {
 export interface ImageTransformOptions {
   width?: number;
   height?: number;
-  fit?: 'scale-down' | 'contain' | 'cover' | 'crop' | 'pad';
+  fit?: 'scale-down' | 'contain' | 'cover' | 'crop' | 'pad' | 'squeeze';
   gravity?: 'auto' | 'left' | 'right' | 'top' | 'bottom' | 'center';
   quality?: number;
   rotate?: 0 | 90 | 180 | 270;
@@ -46,10 +46,20 @@ export interface CompressionOptions {
   generateAvif?: boolean;
 }
 
+// Privacy mode: remove EXIF/XMP/IPTC from the stored original
+export interface PrivacyOptions {
+  stripMetadata: boolean;
+  // Write the EXIF orientation back so the stripped file still displays upright
+  keepOrientation: boolean;
+}
+
 export interface CompressedImage {
   data: ArrayBuffer;
   contentType: string;
   size: number;
+  // Output dimensions, when known
+  width?: number;
+  height?: number;
 }
 
 export interface CompressionResult {
@@ -72,6 +82,60 @@ export interface Env {
   IMAGES?: ImagesBinding;
   DELETE_QUEUE?: Queue<QueueMessage>;
   USE_QUEUE?: string;
+  // Queue for server-side ZIP imports; the import endpoints are unavailable without it
+  IMPORT_QUEUE?: Queue<QueueMessage>;
+  // HMAC secret for private image links (wrangler secret put SIGNING_SECRET)
+  SIGNING_SECRET?: string;
+  // Comma-separated widths for responsive variants; empty disables them
+  RESPONSIVE_WIDTHS?: string;
+  // Default for the per-upload `stripMetadata` / `keepOrientation` fields ('true' to enable)
+  STRIP_METADATA?: string;
+  KEEP_ORIENTATION?: string;
+  // Default for the per-upload `autoRotate` field: rotate EXIF-oriented originals upright ('true' to enable)
+  AUTO_ROTATE?: string;
+  // Hours between the metadata snapshots the cron writes to R2; '0' disables them (default 24)
+  BACKUP_INTERVAL_HOURS?: string;
+  // Files (originals plus stored variants) per library export, kept under the subrequest limit (default 900)
+  EXPORT_MAX_FILES?: string;
+}
+
+// API key scopes; `admin` implies every other scope
+export type ApiKeyScope = 'upload' | 'read' | 'delete' | 'admin';
+
+// D1 row type for api_keys table
+export interface ApiKeyRow {
+  id: number;
+  key_prefix: string;
+  key_hash: string | null;
+  key_salt: string | null;
+  legacy_key: string | null;
+  label: string | null;
+  scopes: string;
+  expires_at: string | null;
+  replaced_by: number | null;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+// API key as exposed to handlers and the admin API (never includes the full key)
+export interface ApiKeyInfo {
+  id: number;
+  label: string | null;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  keyPreview: string;
+  // Set once the key has been rotated; it keeps working until expiresAt (the grace period)
+  replacedBy: number | null;
+}
+
+// Hono environment shared by the app, middleware and handlers that read the caller's key
+export interface AppEnv {
+  Bindings: Env;
+  Variables: {
+    apiKey: ApiKeyInfo;
+  };
 }
 
 // D1 row type for images table
@@ -85,11 +149,104 @@ export interface ImageRow {
   width: number;
   height: number;
   path_original: string;
-  path_webp: string | null;
-  path_avif: string | null;
   size_original: number;
-  size_webp: number;
-  size_avif: number;
+  visibility: string;
+  metadata_stripped: number;
+  content_hash: string | null;
+  phash: string | null;
+  average_color: string | null;
+  thumbhash: string | null;
+}
+
+// Private images are only reachable through signed Worker URLs
+export type ImageVisibility = 'public' | 'private';
+
+// What an upload does when the same file is already stored: return the existing image or fail
+export type DuplicatePolicy = 'reuse' | 'reject';
+
+// D1 row type for image_variants table
+export interface ImageVariantRow {
+  image_id: string;
+  kind: string;
+  format: string;
+  width: number;
+  height: number;
+  path: string;
+  size: number;
+}
+
+/**
+ * How a variant relates to the original:
+ * - `format`: full-size copy in another format (stored in R2)
+ * - `responsive`: resized copy from the width ladder (stored in R2)
+ * - `transform`: nothing stored; the format is produced from the original on request
+ * - `preview`: raster preview of a vector original (stored in R2)
+ */
+export type ImageVariantKind = 'format' | 'responsive' | 'transform' | 'preview';
+
+// Derived rendition of an image, one row in image_variants
+export interface ImageVariant {
+  kind: ImageVariantKind;
+  format: string;
+  width: number;
+  height: number;
+  path: string;
+  size: number;
+}
+
+export interface ImageVariantWithUrl extends ImageVariant {
+  url: string;
+}
+
+// D1 row type for image_exif table
+export interface ImageExifRow {
+  image_id: string;
+  make: string | null;
+  model: string | null;
+  lens: string | null;
+  exposure_time: number | null;
+  f_number: number | null;
+  iso: number | null;
+  focal_length: number | null;
+  taken_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// D1 row type for image_colors table
+export interface ImageColorRow {
+  image_id: string;
+  rank: number;
+  color: string;
+  r: number;
+  g: number;
+  b: number;
+  weight: number;
+}
+
+// A dominant colour and its share of the picture (0-1)
+export interface ImageColor {
+  color: string;
+  weight: number;
+}
+
+export interface ImageColors {
+  averageColor: string;
+  palette: ImageColor[];
+}
+
+// Capture metadata read from EXIF, completed from XMP
+export interface ImageExif {
+  make?: string;
+  model?: string;
+  lens?: string;
+  exposureTime?: number;  // seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;   // millimetres
+  takenAt?: string;       // ISO 8601, with an offset only when the camera recorded one
+  latitude?: number;
+  longitude?: number;
 }
 
 // Image metadata
@@ -103,6 +260,8 @@ export interface ImageMetadata {
   format: string;
   width: number;
   height: number;
+  visibility: ImageVisibility;
+  // `paths`/`sizes` webp and avif entries are derived from `variants` (see utils/variants.ts)
   paths: {
     original: string;
     webp: string;
@@ -113,6 +272,20 @@ export interface ImageMetadata {
     webp: number;
     avif: number;
   };
+  variants: ImageVariant[];
+  exif?: ImageExif;
+  // Original was stored without EXIF/XMP/IPTC (privacy mode)
+  metadataStripped: boolean;
+  // SHA-256 (hex) of the uploaded file; unset for images that predate deduplication
+  contentHash?: string;
+  // 64-bit dHash (hex) used to find resized or recompressed copies
+  perceptualHash?: string;
+  // `#rrggbb`; unset for images that could not be analysed
+  averageColor?: string;
+  // Dominant colours, most common first
+  palette?: ImageColor[];
+  // ThumbHash (base64) that clients decode into a blurred placeholder
+  thumbHash?: string;
 }
 
 // API response types
@@ -149,9 +322,119 @@ export interface UploadResult {
   };
   expiryTime?: string;
   format?: string;
+  visibility?: ImageVisibility;
+  variants?: ImageVariantWithUrl[];
+  metadataStripped?: boolean;
+  // Set when the file was already stored and the existing image was returned
+  duplicate?: boolean;
+  // File name or staged key, set by batch uploads so results can be matched to their input
+  originalName?: string;
   error?: string;
 }
 
+// D1 row type for upload_sessions table
+export interface UploadSessionRow {
+  id: string;
+  r2_key: string;
+  upload_id: string;
+  file_name: string;
+  file_size: number;
+  part_size: number;
+  fields: string;
+  created_at: string;
+  expires_at: string;
+  kind: string;
+}
+
+// What a resumable upload carries: one image, or a ZIP archive for a server-side import
+export type UploadSessionKind = 'image' | 'zip';
+
+// Resumable upload: the file arrives in numbered parts of `partSize` bytes (the last one may be shorter)
+export interface UploadSession {
+  id: string;
+  r2Key: string;
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  partSize: number;
+  partCount: number;
+  // Upload form fields other than the file, applied when the session completes
+  fields: Record<string, string>;
+  kind: UploadSessionKind;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+export type ZipImportStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+// D1 row type for zip_imports table
+export interface ZipImportRow {
+  id: string;
+  file_name: string;
+  r2_key: string;
+  origin: string;
+  fields: string;
+  folder_tags: number;
+  status: string;
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+// Server-side import of a ZIP archive stored in R2; entries are ingested by the queue consumer
+export interface ZipImport {
+  id: string;
+  fileName: string;
+  r2Key: string;
+  // Origin of the request that started the import, for building image URLs
+  origin: string;
+  // Upload form fields applied to every entry
+  fields: Record<string, string>;
+  // Add the folder names of each entry as tags
+  folderTags: boolean;
+  status: ZipImportStatus;
+  // Image entries found in the archive; skipped counts everything else
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  // Why the whole import failed (unreadable archive, ...)
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+// D1 row type for zip_import_entries table
+export interface ZipImportEntryRow {
+  import_id: string;
+  entry_index: number;
+  path: string;
+  method: number;
+  compressed_size: number;
+  size: number;
+  local_header_offset: number;
+  name: string | null;
+  tags: string | null;
+  visibility: string | null;
+  status: string;
+  image_id: string | null;
+  error: string | null;
+}
+
 // Tag types
 export interface Tag {
   name: string;
@@ -173,8 +456,15 @@ export interface ImageFilters {
   tag?: string;
   orientation?: 'landscape' | 'portrait';
   format?: 'all' | 'gif' | 'webp' | 'avif' | 'original';
+  sort?: ImageSort;
+  // `#rrggbb`; matches images with a dominant colour within `tolerance` (RGB distance)
+  color?: string;
+  tolerance?: number;
 }
 
+// `taken` orders by capture date; images without one follow, newest upload first
+export type ImageSort = 'uploaded' | 'taken';
+
 export interface RandomFilters {
   tags?: string[];
   exclude?: string[];
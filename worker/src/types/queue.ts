@@ -2,6 +2,9 @@
 
 export interface ImagePaths {
   original: string;
+  // 所有变体的 R2 key
+  variants?: string[];
+  // 旧版消息字段，升级前入队的消息仍可能携带
   webp?: string;
   avif?: string;
 }
@@ -21,4 +24,10 @@ export interface DeleteTagImagesMessage {
   }>;
 }
 
-export type QueueMessage = DeleteImageMessage | DeleteTagImagesMessage;
+// 处理服务器端 ZIP 导入的下一批条目（首条消息负责读取中央目录）
+export interface ZipImportMessage {
+  type: 'zip_import';
+  importId: string;
+}
+
+export type QueueMessage = DeleteImageMessage | DeleteTagImagesMessage | ZipImportMessage;
@@ -0,0 +1,18 @@
+// Concurrency helpers
+
+/**
+ * Maps items with at most `limit` calls in flight, keeping results in input order.
+ * `fn` should not throw; a rejection stops the whole map like Promise.all.
+ */
+export async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
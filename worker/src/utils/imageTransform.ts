@@ -1,4 +1,5 @@
 import type { CompressionOptions, ImageMetadata } from '../types';
+import { storedFormatKey } from './variants';
 
 const DEFAULT_OPTIONS: Required<CompressionOptions> = {
   quality: 90,
@@ -20,7 +21,7 @@ function toPositiveInt(value: unknown, fallback: number): number {
   return Math.max(0, Math.trunc(num));
 }
 
-function buildPublicUrl(baseUrl: string, key: string): string {
+export function buildPublicUrl(baseUrl: string, key: string): string {
   const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
   const normalizedKey = key.startsWith('/') ? key.slice(1) : key;
   return new URL(normalizedKey, base).toString();
@@ -71,7 +72,7 @@ function buildTransformedUrl(originalUrl: string, optionsString: string): string
 
 export function buildImageUrls(params: {
   baseUrl: string;
-  image: Pick<ImageMetadata, 'format' | 'width' | 'height' | 'paths'>;
+  image: Pick<ImageMetadata, 'format' | 'width' | 'height' | 'paths' | 'variants'>;
   options?: CompressionOptions;
   preferStoredVariants?: boolean;
 }): { original: string; webp: string; avif: string } {
@@ -92,19 +93,13 @@ export function buildImageUrls(params: {
   const generateWebp = opts.generateWebp !== false;
   const generateAvif = opts.generateAvif !== false;
 
-  const isWebpMarker = !!image.paths.webp
-    && image.paths.webp === image.paths.original
-    && formatLower !== 'webp';
-  const isAvifMarker = !!image.paths.avif
-    && image.paths.avif === image.paths.original
-    && formatLower !== 'avif';
-
-  const webpStored = preferStoredVariants && image.paths.webp && !isWebpMarker
-    ? buildPublicUrl(baseUrl, image.paths.webp)
-    : '';
-  const avifStored = preferStoredVariants && image.paths.avif && !isAvifMarker
-    ? buildPublicUrl(baseUrl, image.paths.avif)
-    : '';
+  // Only full-size copies of their own; originals already in the format are handled below
+  const storedCopy = (format: 'webp' | 'avif'): string => {
+    const key = formatLower === format ? null : storedFormatKey(image, format);
+    return preferStoredVariants && key ? buildPublicUrl(baseUrl, key) : '';
+  };
+  const webpStored = storedCopy('webp');
+  const avifStored = storedCopy('avif');
 
   const quality = clampInt(toPositiveInt(opts.quality, DEFAULT_OPTIONS.quality), 1, 100);
   const maxWidth = toPositiveInt(opts.maxWidth, DEFAULT_OPTIONS.maxWidth);
@@ -23,6 +23,10 @@ export function unauthorizedResponse(): Response {
   return errorResponse('Unauthorized', 401);
 }
 
+export function forbiddenResponse(message: string = 'Forbidden'): Response {
+  return errorResponse(message, 403);
+}
+
 export function notFoundResponse(message: string = 'Not found'): Response {
   return errorResponse(message, 404);
 }
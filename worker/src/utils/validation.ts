@@ -1,4 +1,6 @@
 // Validation Utilities
+import type { ApiKeyScope, DuplicatePolicy, ImageSort, ImageVisibility } from '../types';
+import { randomHex } from './crypto';
 
 export function isValidUUID(str: string): boolean {
   // Support both standard UUID and image ID format (YYYYMMDD-XXXXXXXX)
@@ -19,6 +21,30 @@ export function generateImageId(): string {
   return `${date}-${random}`;
 }
 
+// Generate API key secret: cp_ + 48 hex chars (the first 11 chars double as the visible prefix)
+export function generateApiKey(): string {
+  return `cp_${randomHex(24)}`;
+}
+
+const API_KEY_SCOPES: readonly ApiKeyScope[] = ['upload', 'read', 'delete', 'admin'];
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+// Accepts an array or a comma-separated string, drops unknown scopes and duplicates
+export function parseScopes(value: unknown): ApiKeyScope[] {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  const scopes = items
+    .map(item => (typeof item === 'string' ? item.trim().toLowerCase() : item))
+    .filter(isApiKeyScope);
+  return Array.from(new Set(scopes));
+}
+
 export function sanitizeTagName(tag: string): string {
   return tag
     .toLowerCase()
@@ -52,6 +78,16 @@ export function validateOrientation(value: string | null): 'landscape' | 'portra
   return undefined;
 }
 
+// Accepts `#rgb`/`#rrggbb` with or without `#`; returns lowercase `#rrggbb`
+export function validateHexColor(value: string | null): string | undefined {
+  const match = value?.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return undefined;
+  const digits = match[1].length === 3
+    ? match[1].split('').map(digit => digit + digit).join('')
+    : match[1];
+  return '#' + digits.toLowerCase();
+}
+
 export function validateFormat(value: string | null): 'original' | 'webp' | 'avif' | undefined {
   if (value === 'original' || value === 'webp' || value === 'avif') {
     return value;
@@ -59,6 +95,30 @@ export function validateFormat(value: string | null): 'original' | 'webp' | 'avi
   return undefined;
 }
 
+export function validateVisibility(value: unknown): ImageVisibility | undefined {
+  if (value === 'public' || value === 'private') {
+    return value;
+  }
+  return undefined;
+}
+
+export function validateDuplicatePolicy(value: unknown): DuplicatePolicy | undefined {
+  if (value === 'reuse' || value === 'reject') {
+    return value;
+  }
+  return undefined;
+}
+
+// Parse a comma-separated width ladder ("320,640,1280"), dropping invalid and duplicate entries
+export function parseWidthLadder(value: string | null | undefined): number[] {
+  if (!value) return [];
+  const widths = value
+    .split(',')
+    .map(part => Number(part.trim()))
+    .filter(width => Number.isInteger(width) && width >= 16 && width <= 4096);
+  return Array.from(new Set(widths)).sort((a, b) => a - b);
+}
+
 export function validateImageListFormat(
   value: string | null
 ): 'all' | 'gif' | 'webp' | 'avif' | 'original' | undefined {
@@ -76,6 +136,13 @@ export function validateImageListFormat(
   return undefined;
 }
 
+export function validateImageSort(value: string | null): ImageSort | undefined {
+  if (value === 'uploaded' || value === 'taken') {
+    return value;
+  }
+  return undefined;
+}
+
 // Detect if request is from mobile device
 export function isMobileDevice(userAgent: string | null | undefined): boolean {
   if (!userAgent) return false;
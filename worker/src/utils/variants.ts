@@ -0,0 +1,47 @@
+import type { ImageMetadata, ImageVariant } from '../types';
+import type { ImagePaths } from '../types/queue';
+
+// Full-size rendition in `format`: a stored copy or a transform-on-request entry
+export function findFormatVariant(variants: ImageVariant[], format: string): ImageVariant | undefined {
+  return variants.find(v => (v.kind === 'format' || v.kind === 'transform') && v.format === format);
+}
+
+// R2 key already holding `format` at full size, or null when it has to be converted
+export function storedFormatKey(image: Pick<ImageMetadata, 'format' | 'paths' | 'variants'>, format: string): string | null {
+  if (image.format === format) return image.paths.original;
+  const variant = findFormatVariant(image.variants, format);
+  return variant?.kind === 'format' ? variant.path : null;
+}
+
+/**
+ * Legacy `paths`/`sizes` view of the variant list, kept for API compatibility.
+ * A transform entry maps to the original key, as the old `path_webp`/`path_avif` markers did.
+ */
+export function deriveFormatFields(
+  image: { format: string; path: string; size: number },
+  variants: ImageVariant[]
+): Pick<ImageMetadata, 'paths' | 'sizes'> {
+  const entry = (format: string): { path: string; size: number } => {
+    if (image.format === format) return { path: image.path, size: image.size };
+    const variant = findFormatVariant(variants, format);
+    if (!variant) return { path: '', size: 0 };
+    return variant.kind === 'format'
+      ? { path: variant.path, size: variant.size }
+      : { path: image.path, size: 0 };
+  };
+  const webp = entry('webp');
+  const avif = entry('avif');
+
+  return {
+    paths: { original: image.path, webp: webp.path, avif: avif.path },
+    sizes: { original: image.size, webp: webp.size, avif: avif.size },
+  };
+}
+
+// Every R2 object that belongs to an image
+export function imageFileKeys(image: Pick<ImageMetadata, 'paths' | 'variants'>): ImagePaths {
+  return {
+    original: image.paths.original,
+    variants: image.variants.map(v => v.path).filter(path => path.length > 0),
+  };
+}
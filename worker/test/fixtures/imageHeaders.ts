@@ -0,0 +1,179 @@
+// Byte-level builders for image headers. Each returns just enough of a file for ImageHeaderParser,
+// so tests can corrupt or cut a specific field.
+
+export function concat(...parts: ArrayLike<number>[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+export function ascii(text: string): number[] {
+  return Array.from(text, char => char.charCodeAt(0));
+}
+
+export function u16be(value: number): number[] {
+  return [(value >> 8) & 0xFF, value & 0xFF];
+}
+
+export function u16le(value: number): number[] {
+  return [value & 0xFF, (value >> 8) & 0xFF];
+}
+
+export function u24le(value: number): number[] {
+  return [value & 0xFF, (value >> 8) & 0xFF, (value >> 16) & 0xFF];
+}
+
+export function u32be(value: number): number[] {
+  return [(value >>> 24) & 0xFF, (value >> 16) & 0xFF, (value >> 8) & 0xFF, value & 0xFF];
+}
+
+export function u32le(value: number): number[] {
+  return [value & 0xFF, (value >> 8) & 0xFF, (value >> 16) & 0xFF, (value >>> 24) & 0xFF];
+}
+
+// First `length` bytes, or all but the last `-length`
+export function truncate(bytes: Uint8Array, length: number): Uint8Array {
+  return bytes.slice(0, length < 0 ? bytes.length + length : length);
+}
+
+// Copy with the bytes at `offset` replaced
+export function patch(bytes: Uint8Array, offset: number, values: ArrayLike<number>): Uint8Array {
+  const copy = bytes.slice();
+  copy.set(values, offset);
+  return copy;
+}
+
+// --- JPEG ---
+
+export function jpegSegment(marker: number, payload: ArrayLike<number>): number[] {
+  return [0xFF, marker, ...u16be(payload.length + 2), ...Array.from(payload)];
+}
+
+// SOFn payload for a three-component 8-bit frame
+export function jpegFrame(width: number, height: number): number[] {
+  return [8, ...u16be(height), ...u16be(width), 3, 1, 0x22, 0, 2, 0x11, 1, 3, 0x11, 1];
+}
+
+const JFIF_APP0 = jpegSegment(0xE0, [...ascii('JFIF'), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const JPEG_SOS = jpegSegment(0xDA, [3, 1, 0, 2, 0x11, 3, 0x11, 0, 0x3F, 0]);
+
+// SOI, JFIF APP0, SOFn (0xC0 baseline, 0xC2 progressive) and the start of the scan
+export function jpeg(width: number, height: number, sofMarker = 0xC0): Uint8Array {
+  return concat([0xFF, 0xD8], JFIF_APP0, jpegSegment(sofMarker, jpegFrame(width, height)), JPEG_SOS, [0x12, 0x34]);
+}
+
+// Offset of the SOFn marker in the files built by jpeg()
+export const JPEG_SOF_OFFSET = 2 + JFIF_APP0.length;
+
+// --- PNG ---
+
+export const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+// Signature and IHDR (the CRC is not checked and left as zero)
+export function png(width: number, height: number, bitDepth = 8, colourType = 6): Uint8Array {
+  return concat(
+    PNG_SIGNATURE,
+    u32be(13), ascii('IHDR'), u32be(width), u32be(height), [bitDepth, colourType, 0, 0, 0],
+    u32be(0)
+  );
+}
+
+// --- WebP ---
+
+export function riffChunk(type: string, payload: ArrayLike<number>): number[] {
+  const padding = payload.length & 1 ? [0] : [];
+  return [...ascii(type), ...u32le(payload.length), ...Array.from(payload), ...padding];
+}
+
+export function webp(...chunks: number[][]): Uint8Array {
+  const body = chunks.flat();
+  return concat(ascii('RIFF'), u32le(4 + body.length), ascii('WEBP'), body);
+}
+
+// Lossy key frame header: frame tag, start code and 14-bit sizes
+export function vp8(width: number, height: number): number[] {
+  return riffChunk('VP8 ', [0x10, 0x02, 0x00, 0x9D, 0x01, 0x2A, ...u16le(width), ...u16le(height)]);
+}
+
+// Lossless header: signature then width-1 and height-1 packed into 14 bits each
+export function vp8l(width: number, height: number): number[] {
+  const bits = ((width - 1) & 0x3FFF) | (((height - 1) & 0x3FFF) << 14);
+  return riffChunk('VP8L', [0x2F, ...u32le(bits >>> 0)]);
+}
+
+export const WEBP_FLAG_ANIMATION = 0x02;
+
+export function vp8x(width: number, height: number, flags = 0): number[] {
+  return riffChunk('VP8X', [flags, 0, 0, 0, ...u24le(width - 1), ...u24le(height - 1)]);
+}
+
+export function anim(): number[] {
+  return riffChunk('ANIM', [0, 0, 0, 0, 0, 0]);
+}
+
+// Animation frame at (x, y) with its own VP8L bitstream
+export function anmf(x: number, y: number, width: number, height: number): number[] {
+  return riffChunk('ANMF', [
+    ...u24le(x / 2), ...u24le(y / 2), ...u24le(width - 1), ...u24le(height - 1),
+    ...u24le(100), 0,
+    ...vp8l(width, height),
+  ]);
+}
+
+// --- AVIF (ISOBMFF) ---
+
+export function box(type: string, ...payload: ArrayLike<number>[]): number[] {
+  const body = payload.flatMap(part => Array.from(part));
+  return [...u32be(8 + body.length), ...ascii(type), ...body];
+}
+
+export function fullBox(type: string, version: number, flags: number, ...payload: ArrayLike<number>[]): number[] {
+  return box(type, [version, (flags >> 16) & 0xFF, (flags >> 8) & 0xFF, flags & 0xFF], ...payload);
+}
+
+export function ftyp(): number[] {
+  return box('ftyp', ascii('avif'), u32be(0), ascii('mif1'), ascii('avif'));
+}
+
+export function pitm(itemId: number): number[] {
+  return fullBox('pitm', 0, 0, u16be(itemId));
+}
+
+// Version 0 iloc with 4-byte offsets and lengths, one extent per item
+export function iloc(itemIds: number[]): number[] {
+  return fullBox('iloc', 0, 0, [0x44, 0x00], u16be(itemIds.length),
+    ...itemIds.map(id => [...u16be(id), ...u16be(0), ...u16be(1), ...u32be(0), ...u32be(100)]));
+}
+
+export function ispe(width: number, height: number): number[] {
+  return fullBox('ispe', 0, 0, u32be(width), u32be(height));
+}
+
+// Anti-clockwise quarter turns
+export function irot(turns: number): number[] {
+  return box('irot', [turns]);
+}
+
+export function clap(widthN: number, widthD: number, heightN: number, heightD: number): number[] {
+  return box('clap', u32be(widthN), u32be(widthD), u32be(heightN), u32be(heightD),
+    u32be(0), u32be(1), u32be(0), u32be(1));
+}
+
+// Version 0 ipma with 7-bit property indices; each entry is [itemId, indices]
+export function ipma(entries: Array<[number, number[]]>): number[] {
+  return fullBox('ipma', 0, 0, u32be(entries.length),
+    ...entries.map(([id, indices]) => [...u16be(id), indices.length, ...indices]));
+}
+
+// iprp holding ipma before ipco, so the last property ends where the file does
+export function iprp(properties: number[][], associations: Array<[number, number[]]>): number[] {
+  return box('iprp', ipma(associations), box('ipco', ...properties));
+}
+
+export function avif(...metaChildren: number[][]): Uint8Array {
+  return concat(ftyp(), fullBox('meta', 0, 0, ...metaChildren));
+}
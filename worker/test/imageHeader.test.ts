@@ -0,0 +1,197 @@
+import { describe, expect, it } from 'vitest';
+import { ImageHeaderParser, ImageParseError, type ImageParseErrorCode } from '../src/services/imageHeader';
+import {
+  anim, anmf, avif, box, clap, concat, fullBox, iloc, iprp, irot, ispe, jpeg, JPEG_SOF_OFFSET, jpegFrame, jpegSegment,
+  patch, pitm, png, PNG_SIGNATURE, riffChunk, truncate, u32be, vp8, vp8l, vp8x, webp, WEBP_FLAG_ANIMATION,
+} from './fixtures/imageHeaders';
+
+function expectParseError(bytes: Uint8Array, format: string, code: ImageParseErrorCode): void {
+  let error: unknown;
+  try {
+    ImageHeaderParser.parse(bytes, format);
+  } catch (err) {
+    error = err;
+  }
+  expect(error).toBeInstanceOf(ImageParseError);
+  expect((error as ImageParseError).code).toBe(code);
+  expect((error as ImageParseError).format).toBe(format);
+}
+
+describe('ImageHeaderParser', () => {
+  it('rejects formats it has no parser for', () => {
+    expectParseError(new Uint8Array(16), 'bmp', 'unsupported');
+  });
+
+  describe('JPEG', () => {
+    it('reads baseline and progressive frame headers', () => {
+      expect(ImageHeaderParser.parse(jpeg(640, 480), 'jpeg')).toEqual({ width: 640, height: 480, rotation: 0 });
+      expect(ImageHeaderParser.parse(jpeg(800, 600, 0xC2), 'jpeg')).toEqual({ width: 800, height: 600, rotation: 0 });
+    });
+
+    it('skips fill bytes and standalone markers before the frame header', () => {
+      const bytes = concat([0xFF, 0xD8, 0xFF, 0xFF, 0xFF, 0xD0], jpegSegment(0xC0, jpegFrame(10, 20)));
+      expect(ImageHeaderParser.parse(bytes, 'jpeg')).toMatchObject({ width: 10, height: 20 });
+    });
+
+    it.each([
+      ['an empty file', new Uint8Array(0)],
+      ['a lone start-of-image marker', new Uint8Array([0xFF, 0xD8])],
+      ['a file cut inside APP0', truncate(jpeg(640, 480), JPEG_SOF_OFFSET - 4)],
+      ['a file cut before the frame header', truncate(jpeg(640, 480), JPEG_SOF_OFFSET)],
+      ['a file cut inside the baseline frame header', truncate(jpeg(640, 480), JPEG_SOF_OFFSET + 8)],
+      ['a file cut inside the progressive frame header', truncate(jpeg(640, 480, 0xC2), JPEG_SOF_OFFSET + 8)],
+      ['a file cut inside the segment length', truncate(jpeg(640, 480, 0xC2), JPEG_SOF_OFFSET + 3)],
+    ])('reports %s as truncated', (_name, bytes) => {
+      expectParseError(bytes, 'jpeg', 'truncated');
+    });
+
+    it.each([
+      ['a missing start-of-image marker', patch(jpeg(640, 480), 1, [0xD9])],
+      ['garbage where a marker should be', patch(jpeg(640, 480), JPEG_SOF_OFFSET, [0x00])],
+      ['a scan before the frame header', concat([0xFF, 0xD8], jpegSegment(0xDA, [1, 1, 0, 0, 0x3F, 0]))],
+      ['an end-of-image before the frame header', new Uint8Array([0xFF, 0xD8, 0xFF, 0xD9])],
+      ['a segment length below two', patch(jpeg(640, 480), JPEG_SOF_OFFSET + 2, [0, 1])],
+      ['a frame header that is too short', concat([0xFF, 0xD8], jpegSegment(0xC2, [8, 0, 16, 0, 16]), [0, 0])],
+      ['a height deferred to DNL', jpeg(640, 0, 0xC2)],
+      ['a zero width', jpeg(0, 480)],
+    ])('reports %s as malformed', (_name, bytes) => {
+      expectParseError(bytes, 'jpeg', 'malformed');
+    });
+  });
+
+  describe('PNG', () => {
+    it('reads 8-bit and 16-bit IHDR chunks', () => {
+      expect(ImageHeaderParser.parse(png(320, 200), 'png')).toEqual({ width: 320, height: 200, rotation: 0 });
+      expect(ImageHeaderParser.parse(png(64, 48, 16, 2), 'png')).toMatchObject({ width: 64, height: 48 });
+      expect(ImageHeaderParser.parse(png(64, 48, 16, 4), 'png')).toMatchObject({ width: 64, height: 48 });
+      expect(ImageHeaderParser.parse(png(64, 48, 16, 0), 'png')).toMatchObject({ width: 64, height: 48 });
+    });
+
+    it.each([
+      ['a partial signature', new Uint8Array(PNG_SIGNATURE.slice(0, 5))],
+      ['a file that ends after the signature', new Uint8Array(PNG_SIGNATURE)],
+      ['a file cut inside the IHDR chunk type', truncate(png(320, 200), 14)],
+      ['a file cut inside the IHDR dimensions', truncate(png(320, 200), 22)],
+      ['a 16-bit file cut before its bit depth', truncate(png(320, 200, 16, 6), 24)],
+      ['a file cut before the IHDR CRC', truncate(png(320, 200), -1)],
+    ])('reports %s as truncated', (_name, bytes) => {
+      expectParseError(bytes, 'png', 'truncated');
+    });
+
+    it.each([
+      ['a corrupted signature', patch(png(320, 200), 1, [0x51])],
+      ['a first chunk other than IHDR', patch(png(320, 200), 12, [0x67, 0x41, 0x4D, 0x41])],
+      ['a wrong IHDR length', patch(png(320, 200), 8, u32be(12))],
+      ['a 16-bit palette image', png(320, 200, 16, 3)],
+      ['a 4-bit RGBA image', png(320, 200, 4, 6)],
+      ['an unknown colour type', png(320, 200, 8, 5)],
+      ['a zero width', png(0, 200)],
+      ['a width beyond 2^31 - 1', png(0x80000000, 200)],
+    ])('reports %s as malformed', (_name, bytes) => {
+      expectParseError(bytes, 'png', 'malformed');
+    });
+  });
+
+  describe('WebP', () => {
+    it('reads VP8, VP8L and VP8X headers', () => {
+      expect(ImageHeaderParser.parse(webp(vp8(300, 150)), 'webp')).toEqual({ width: 300, height: 150, rotation: 0 });
+      expect(ImageHeaderParser.parse(webp(vp8l(16383, 1)), 'webp')).toEqual({ width: 16383, height: 1, rotation: 0 });
+      expect(ImageHeaderParser.parse(webp(vp8x(1000, 2000), vp8(1000, 2000)), 'webp'))
+        .toEqual({ width: 1000, height: 2000, rotation: 0 });
+    });
+
+    it('counts ANMF frames of animated files', () => {
+      const bytes = webp(vp8x(100, 80, WEBP_FLAG_ANIMATION), anim(), anmf(0, 0, 100, 80), anmf(20, 10, 50, 40));
+      expect(ImageHeaderParser.parse(bytes, 'webp')).toEqual({ width: 100, height: 80, rotation: 0, frames: 2 });
+    });
+
+    it.each([
+      ['a partial RIFF header', truncate(webp(vp8(300, 150)), 10)],
+      ['a file that ends after the RIFF header', truncate(webp(vp8(300, 150)), 12)],
+      ['a file cut inside the VP8 frame header', truncate(webp(vp8(300, 150)), -2)],
+      ['a file cut inside the VP8L header', truncate(webp(vp8l(300, 150)), -3)],
+      ['a file cut inside the VP8X chunk', truncate(webp(vp8x(300, 150)), 26)],
+      ['an ANMF chunk cut inside its frame header',
+        truncate(webp(vp8x(100, 80, WEBP_FLAG_ANIMATION), anmf(0, 0, 100, 80)), 30 + 8 + 10)],
+      ['an animation whose first chunk overruns the file',
+        truncate(webp(vp8x(100, 80, WEBP_FLAG_ANIMATION), anim()), -2)],
+    ])('reports %s as truncated', (_name, bytes) => {
+      expectParseError(bytes, 'webp', 'truncated');
+    });
+
+    it.each([
+      ['a wrong RIFF form type', patch(webp(vp8(300, 150)), 8, [0x41, 0x56, 0x49, 0x20])],
+      ['an unexpected first chunk', webp(riffChunk('ALPH', [0, 0, 0, 0]))],
+      ['a VP8 chunk shorter than its frame header', webp(riffChunk('VP8 ', [0x10, 0x02, 0x00, 0x9D]), riffChunk('JUNK', new Array(8).fill(0)))],
+      ['a VP8 inter frame', patch(webp(vp8(300, 150)), 20, [0x11])],
+      ['a corrupted VP8 start code', patch(webp(vp8(300, 150)), 23, [0x9C])],
+      ['a zero-sized VP8 frame', webp(vp8(0, 150))],
+      ['a VP8L chunk shorter than its header', webp(riffChunk('VP8L', [0x2F, 0, 0]), riffChunk('JUNK', [0, 0]))],
+      ['a corrupted VP8L signature', patch(webp(vp8l(300, 150)), 20, [0x2E])],
+      ['a VP8X chunk shorter than the canvas size', webp(riffChunk('VP8X', [0, 0, 0, 0, 1, 0]), riffChunk('JUNK', new Array(6).fill(0)))],
+      ['an animation without frames', webp(vp8x(100, 80, WEBP_FLAG_ANIMATION), anim())],
+      ['an ANMF chunk shorter than its frame header',
+        webp(vp8x(100, 80, WEBP_FLAG_ANIMATION), riffChunk('ANMF', new Array(8).fill(0)), riffChunk('JUNK', new Array(16).fill(0)))],
+      ['an animation frame outside the canvas', webp(vp8x(100, 80, WEBP_FLAG_ANIMATION), anmf(0, 0, 100, 80), anmf(60, 0, 50, 80))],
+    ])('reports %s as malformed', (_name, bytes) => {
+      expectParseError(bytes, 'webp', 'malformed');
+    });
+  });
+
+  describe('AVIF', () => {
+    // Item 1 is the primary image; properties are 1: ispe, 2: irot, 3: clap
+    const primary = (properties: number[][], indices: number[], items = [1]) =>
+      avif(pitm(1), iloc(items), iprp(properties, [[1, indices]]));
+
+    it('reads the primary item size with its rotation and clean aperture', () => {
+      expect(ImageHeaderParser.parse(primary([ispe(1920, 1080)], [0x81]), 'avif'))
+        .toEqual({ width: 1920, height: 1080, rotation: 0 });
+      expect(ImageHeaderParser.parse(primary([ispe(1920, 1080), irot(1), clap(1280, 1, 720, 1)], [0x81, 2, 0x83]), 'avif'))
+        .toEqual({ width: 1280, height: 720, rotation: 1 });
+    });
+
+    it('ignores the properties of other items', () => {
+      const bytes = avif(pitm(2), iloc([1, 2]), iprp([ispe(64, 64), ispe(800, 600), irot(3)], [[1, [1, 3]], [2, [0x82]]]));
+      expect(ImageHeaderParser.parse(bytes, 'avif')).toEqual({ width: 800, height: 600, rotation: 0 });
+    });
+
+    it('falls back to the largest ispe without a primary item', () => {
+      const bytes = avif(iprp([ispe(64, 64), ispe(800, 600)], []));
+      expect(ImageHeaderParser.parse(bytes, 'avif')).toEqual({ width: 800, height: 600, rotation: 0 });
+    });
+
+    it.each([
+      ['a file cut inside the ftyp box', truncate(primary([ispe(100, 100)], [1]), 10)],
+      ['a file cut inside the meta box', truncate(primary([ispe(100, 100)], [1]), -6)],
+      ['an iloc box that lists more items than the file holds', avif(pitm(1), iprp([ispe(100, 100)], [[1, [1]]]),
+        fullBox('iloc', 0, 0, [0x44, 0x00], [0, 2], [0, 1, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 100]))],
+      ['an ipma box whose entries run past the file',
+        avif(pitm(1), box('iprp', box('ipco', ispe(100, 100)), fullBox('ipma', 0, 0, u32be(1), [0, 1, 3, 1])))],
+      ['a clean aperture cut short', primary([ispe(100, 100), box('clap', new Array(16).fill(1))], [1, 2])],
+      ['an irot property without its angle', primary([ispe(100, 100), box('irot')], [1, 2])],
+    ])('reports %s as truncated', (_name, bytes) => {
+      expectParseError(bytes, 'avif', 'truncated');
+    });
+
+    it.each([
+      ['a file without a meta box', concat([0, 0, 0, 16, 0x66, 0x74, 0x79, 0x70], [0x61, 0x76, 0x69, 0x66, 0, 0, 0, 0])],
+      ['a meta box without iprp', avif(pitm(1), iloc([1]))],
+      ['a box smaller than its header', avif(pitm(1), [0, 0, 0, 4, 0x66, 0x72, 0x65, 0x65], iloc([1]))],
+      ['a box that overruns its parent',
+        concat(avif(pitm(1), [0, 0, 1, 0, 0x66, 0x72, 0x65, 0x65], iloc([1])), box('free', new Array(512).fill(0)))],
+      ['a primary item without an iloc entry', primary([ispe(100, 100)], [1], [2, 3])],
+      ['iloc entries that run past the box', avif(
+        pitm(1), fullBox('iloc', 0, 0, [0x44, 0x00], [0, 2], [0, 1, 0, 0, 0, 0]), iprp([ispe(100, 100)], [[1, [1]]]))],
+      ['ipma entries that run past the box',
+        avif(pitm(1), iloc([1]), box('iprp', fullBox('ipma', 0, 0, u32be(2), [0, 1, 1, 1]), box('ipco', ispe(100, 100))))],
+      ['a property index out of range', primary([ispe(100, 100)], [1, 5])],
+      ['a primary item without ispe', primary([ispe(100, 100), irot(1)], [2])],
+      ['a clean aperture with a zero denominator', primary([ispe(100, 100), clap(50, 0, 50, 1)], [1, 2])],
+      ['a clean aperture larger than the image', primary([ispe(100, 100), clap(200, 1, 50, 1)], [1, 2])],
+      ['a zero-sized image', primary([ispe(0, 100)], [1])],
+      ['no ispe at all', avif(iprp([irot(1)], []))],
+    ])('reports %s as malformed', (_name, bytes) => {
+      expectParseError(bytes, 'avif', 'malformed');
+    });
+  });
+});
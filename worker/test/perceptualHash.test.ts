@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { PerceptualHash, type HashedImage } from '../src/services/perceptualHash';
+
+// Deterministic pseudo-random hashes (mulberry32)
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+function randomHash(next: () => number): string {
+  return Array.from({ length: 16 }, () => Math.floor(next() * 16).toString(16)).join('');
+}
+
+// Flips `count` distinct bits of a hash
+function flipBits(hash: string, count: number, next: () => number): string {
+  const bits = [...hash].map(digit => parseInt(digit, 16).toString(2).padStart(4, '0')).join('').split('');
+  const positions = new Set<number>();
+  while (positions.size < count) positions.add(Math.floor(next() * 64));
+  for (const position of positions) bits[position] = bits[position] === '1' ? '0' : '1';
+  return Array.from({ length: 16 }, (_, i) => parseInt(bits.slice(i * 4, i * 4 + 4).join(''), 2).toString(16)).join('');
+}
+
+// Reference clustering: union-find over every pair
+function groupAllPairs(images: HashedImage[], maxDistance: number): string[][] {
+  const parent = images.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      if (PerceptualHash.distance(images[i].hash, images[j].hash) <= maxDistance) parent[find(j)] = find(i);
+    }
+  }
+  const clusters = new Map<number, string[]>();
+  images.forEach((image, index) => clusters.set(find(index), [...(clusters.get(find(index)) ?? []), image.id]));
+  return [...clusters.values()].filter(cluster => cluster.length > 1);
+}
+
+function normalise(clusters: string[][]): string[][] {
+  return clusters.map(cluster => [...cluster].sort()).sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+describe('PerceptualHash.group', () => {
+  // Families of copies a few bits apart from each other, among unrelated hashes
+  function library(seed: number): HashedImage[] {
+    const next = random(seed);
+    const images: HashedImage[] = [];
+    for (let family = 0; family < 40; family++) {
+      const base = randomHash(next);
+      const size = 1 + Math.floor(next() * 4);
+      for (let copy = 0; copy < size; copy++) {
+        images.push({ id: `${family}-${copy}`, hash: copy === 0 ? base : flipBits(base, Math.floor(next() * 9), next) });
+      }
+    }
+    // An exact copy shares the hash of its original
+    images.push({ id: 'copy-of-0-0', hash: images[0].hash });
+    return images;
+  }
+
+  it.each([0, 1, 3, 6, 7])('finds the same groups as comparing every pair at distance %i', maxDistance => {
+    for (const seed of [1, 2, 3]) {
+      const images = library(seed);
+      expect(normalise(PerceptualHash.group(images, maxDistance))).toEqual(normalise(groupAllPairs(images, maxDistance)));
+    }
+  });
+
+  it('orders groups largest first and leaves out single images', () => {
+    const images: HashedImage[] = [
+      { id: 'a', hash: '0000000000000000' },
+      { id: 'b', hash: '0000000000000001' },
+      { id: 'c', hash: '0000000000000003' },
+      { id: 'd', hash: 'ffffffffffffffff' },
+      { id: 'e', hash: 'fffffffffffffffe' },
+      { id: 'f', hash: '0f0f0f0f0f0f0f0f' },
+    ];
+    expect(PerceptualHash.group(images, 1).map(cluster => [...cluster].sort())).toEqual([['a', 'b', 'c'], ['d', 'e']]);
+  });
+});